@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+// Minimal OpenAI-compatible chat completions server for exercising the
+// process-content edge function without a real provider. Point the function at it with
+//   LOCAL_LLM_BASE_URL=http://host.docker.internal:8787/v1
+// (or DEEPSEEK_API_BASE_URL / OPENAI_API_BASE_URL to stand in for those)
+//
+// Environment:
+//   MOCK_LLM_PORT      port to listen on (default 8787)
+//   MOCK_LLM_DELAY_MS  delay between streamed chunks (default 40)
+//   MOCK_LLM_REPLY     fixed reply; by default the last user message is echoed
+//   MOCK_LLM_FAIL      "before" answers 500, "midstream" errors after a few chunks
+import { createServer } from "node:http";
+
+const port = Number(process.env.MOCK_LLM_PORT || 8787);
+const delayMs = Number(process.env.MOCK_LLM_DELAY_MS || 40);
+const failMode = process.env.MOCK_LLM_FAIL || "";
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const buildReply = (messages = []) => {
+  if (process.env.MOCK_LLM_REPLY) return process.env.MOCK_LLM_REPLY;
+  const question = [...messages].reverse().find((message) => message.role === "user")?.content ?? "";
+  const preview = question.replace(/\s+/g, " ").trim().slice(0, 160);
+  return `## Mock response\n\nThis answer was streamed by the mock LLM server [1].\n\nYou asked: "${preview}"`;
+};
+
+// Words with their trailing whitespace, so the chunks join back exactly
+const tokenize = (text) => text.match(/\S+\s*|\s+/g) ?? [];
+
+const countTokens = (text) => tokenize(text).length;
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const handleCompletion = async (req, res) => {
+  const body = await readBody(req);
+  const model = body.model || "mock-llm";
+  const reply = buildReply(body.messages);
+  const promptTokens = countTokens((body.messages ?? []).map((message) => message.content).join("\n"));
+  const usage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: countTokens(reply),
+    total_tokens: promptTokens + countTokens(reply),
+  };
+
+  if (failMode === "before") {
+    return sendJson(res, 500, { error: { message: "Mock LLM failure" } });
+  }
+
+  if (!body.stream) {
+    return sendJson(res, 200, {
+      id: `mock-${Date.now()}`,
+      object: "chat.completion",
+      model,
+      choices: [{ index: 0, message: { role: "assistant", content: reply }, finish_reason: "stop" }],
+      usage,
+    });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  let closed = false;
+  res.on("close", () => (closed = true));
+
+  const id = `mock-${Date.now()}`;
+  const send = (chunk) => res.write(`data: ${JSON.stringify({ id, object: "chat.completion.chunk", model, ...chunk })}\n\n`);
+  const tokens = tokenize(reply);
+
+  for (const [index, token] of tokens.entries()) {
+    if (closed) {
+      console.log(`Client disconnected after ${index} of ${tokens.length} chunks`);
+      return;
+    }
+    if (failMode === "midstream" && index === 3) {
+      res.write(`data: ${JSON.stringify({ error: { message: "Mock LLM stream interrupted" } })}\n\n`);
+      return res.end();
+    }
+
+    send({ choices: [{ index: 0, delta: index === 0 ? { role: "assistant", content: token } : { content: token }, finish_reason: null }] });
+    await sleep(delayMs);
+  }
+
+  send({ choices: [{ index: 0, delta: {}, finish_reason: "stop" }] });
+  if (body.stream_options?.include_usage) {
+    send({ choices: [], usage });
+  }
+  res.write("data: [DONE]\n\n");
+  res.end();
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.method === "POST" && /^(\/v1)?\/chat\/completions$/.test(req.url)) {
+      return await handleCompletion(req, res);
+    }
+    if (req.method === "GET" && /^(\/v1)?\/models$/.test(req.url)) {
+      return sendJson(res, 200, { object: "list", data: [{ id: "mock-llm", object: "model" }] });
+    }
+    sendJson(res, 404, { error: { message: `No mock for ${req.method} ${req.url}` } });
+  } catch (error) {
+    console.error("Mock LLM error:", error);
+    if (!res.headersSent) sendJson(res, 400, { error: { message: error.message } });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock LLM server listening on http://localhost:${port}/v1`);
+});
@@ -15,8 +15,11 @@ import Profile from "./pages/Profile";
 import Settings from "./pages/Settings";
 import Notebooks from "./pages/Notebooks";
 import Tags from "./pages/Tags";
+import Graph from "./pages/Graph";
+import Tasks from "./pages/Tasks";
 import AIResearch from "./pages/AIResearch";
 import AISummarizer from "./pages/AISummarizer";
+import SharedView from "./pages/SharedView";
 import { AuthProvider } from "./hooks/useAuth";
 
 const queryClient = new QueryClient();
@@ -39,8 +42,11 @@ const App = () => (
               <Route path="/settings" element={<Settings />} />
               <Route path="/notebooks" element={<Notebooks />} />
               <Route path="/tags" element={<Tags />} />
+              <Route path="/graph" element={<Graph />} />
+              <Route path="/tasks" element={<Tasks />} />
               <Route path="/ai-research" element={<AIResearch />} />
               <Route path="/ai-summarizer" element={<AISummarizer />} />
+              <Route path="/s/:token" element={<SharedView />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </AuthProvider>
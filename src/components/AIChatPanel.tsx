@@ -5,9 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { MessageSquare, Send, Bot, User, Loader2, Sparkles, AlertCircle, Copy, ThumbsUp, ThumbsDown, RefreshCw, Trash2 } from "lucide-react";
+import { MessageSquare, Send, Bot, User, Loader2, Sparkles, AlertCircle, Copy, ThumbsUp, ThumbsDown, RefreshCw, Trash2, Square } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { AIService, PROVIDER_LABELS, ProviderId } from "@/lib/aiService";
 
 interface Message {
   id: string;
@@ -15,6 +15,7 @@ interface Message {
   content: string;
   timestamp: Date;
   isTyping?: boolean;
+  isStreaming?: boolean;
 }
 
 interface AIChatPanelProps {
@@ -27,9 +28,12 @@ export function AIChatPanel({ noteId, content }: AIChatPanelProps) {
   const [inputMessage, setInputMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [hasApiError, setHasApiError] = useState(false);
+  // Provider that answered last, which can differ after a fallback
+  const [provider, setProvider] = useState<ProviderId | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   // Auto-scroll to bottom when new messages are added
@@ -42,13 +46,18 @@ export function AIChatPanel({ noteId, content }: AIChatPanelProps) {
     inputRef.current?.focus();
   }, []);
 
+  // Stop any answer still streaming when the panel goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   // Initialize with a welcome message
   useEffect(() => {
     if (messages.length === 0) {
       setMessages([{
         id: '1',
         role: 'assistant',
-        content: "🎯 **Welcome to your AI Learning Assistant!**\n\nI'm powered by DeepSeek and equipped with advanced RAG capabilities. I can help you:\n\n• **Analyze** and summarize your content\n• **Answer questions** about the material\n• **Create study guides** and flashcards\n• **Explain complex concepts** in simple terms\n• **Generate insights** and connections\n• **Practice questions** for better understanding\n\nWhat would you like to explore today?",
+        content: "🎯 **Welcome to your AI Learning Assistant!**\n\nI'm equipped with advanced RAG capabilities. I can help you:\n\n• **Analyze** and summarize your content\n• **Answer questions** about the material\n• **Create study guides** and flashcards\n• **Explain complex concepts** in simple terms\n• **Generate insights** and connections\n• **Practice questions** for better understanding\n\nWhat would you like to explore today?",
         timestamp: new Date()
       }]);
     }
@@ -80,6 +89,10 @@ export function AIChatPanel({ noteId, content }: AIChatPanelProps) {
       timestamp: new Date()
     };
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const assistantId = (Date.now() + 1).toString();
+
     setMessages(prev => [...prev, userMessage]);
     setInputMessage("");
     setIsLoading(true);
@@ -123,32 +136,40 @@ Instructions: You are an expert learning assistant. Using the knowledge base abo
 Focus on being helpful, accurate, and educational.
 `;
 
-      const { data, error } = await supabase.functions.invoke('process-content-with-deepseek', {
-        body: {
-          content: ragContext,
-          type: "chat",
-          options: {
-            conversational: true,
-            helpful: true,
-            educational: true,
-            rag: true,
-            temperature: 0.7,
-            max_tokens: 1500
-          }
+      // The answer replaces the typing indicator with its first tokens
+      const streamed = await AIService.streamContent({
+        content: ragContext,
+        type: "chat",
+        options: {
+          conversational: true,
+          helpful: true,
+          educational: true,
+          rag: true,
+          temperature: 0.7,
+          max_tokens: 1500
         }
+      }, {
+        signal: controller.signal,
+        onDelta: (partial) => setMessages(prev => {
+          const withoutTyping = prev.filter(m => m.id !== 'typing');
+          return withoutTyping.some(m => m.id === assistantId)
+            ? withoutTyping.map(m => m.id === assistantId ? { ...m, content: partial } : m)
+            : [...withoutTyping, { id: assistantId, role: 'assistant', content: partial, timestamp: new Date(), isStreaming: true }];
+        })
       });
 
-      // Remove typing indicator
-      setMessages(prev => prev.filter(m => m.id !== 'typing'));
+      // Remove typing indicator and the streamed draft
+      setMessages(prev => prev.filter(m => m.id !== 'typing' && m.id !== assistantId));
 
-      if (error) {
-        throw new Error(error.message);
-      }
+      if (streamed.provider) setProvider(streamed.provider);
+      if (streamed.aborted && !streamed.content) return;
 
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: assistantId,
         role: 'assistant',
-        content: data.processedContent || "I apologize, but I couldn't process your request properly. Could you please try rephrasing your question?",
+        content: streamed.aborted
+          ? `${streamed.content}\n\n_Response stopped._`
+          : streamed.content || "I apologize, but I couldn't process your request properly. Could you please try rephrasing your question?",
         timestamp: new Date()
       };
 
@@ -157,28 +178,35 @@ Focus on being helpful, accurate, and educational.
       console.error("Error sending message:", error);
       setHasApiError(true);
       
-      // Remove typing indicator
-      setMessages(prev => prev.filter(m => m.id !== 'typing'));
+      // Remove typing indicator and any partial answer
+      setMessages(prev => prev.filter(m => m.id !== 'typing' && m.id !== assistantId));
       
       // Add error message to chat
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: "⚠️ I'm experiencing connection issues with the DeepSeek API. Please ensure your API key is properly configured and try again. If the problem persists, check your network connection.",
+        content: "⚠️ I'm experiencing connection issues with the AI service. Please ensure an AI provider is properly configured and try again. If the problem persists, check your network connection.",
         timestamp: new Date()
       };
       setMessages(prev => [...prev, errorMessage]);
       
       toast({
         title: "Connection Error",
-        description: "Unable to connect to DeepSeek API. Please check your configuration.",
+        description: error instanceof Error ? error.message : "Unable to reach the AI service. Please check your configuration.",
         variant: "destructive",
       });
     } finally {
       setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  const stopResponse = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -237,7 +265,7 @@ Focus on being helpful, accurate, and educational.
               </h2>
               <p className="text-sm text-muted-foreground flex items-center gap-1">
                 <Sparkles className="h-3 w-3" />
-                Powered by DeepSeek RAG
+                Grounded in your note content
               </p>
             </div>
           </div>
@@ -291,7 +319,7 @@ Focus on being helpful, accurate, and educational.
           )}
           
           <Badge variant="outline" className="bg-gradient-to-r from-purple-50 to-blue-50 text-purple-700 border-purple-200">
-            DeepSeek AI
+            {provider ? PROVIDER_LABELS[provider] : "AI"}
           </Badge>
         </div>
 
@@ -327,9 +355,9 @@ Focus on being helpful, accurate, and educational.
               <div className="flex items-start space-x-2">
                 <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
                 <div className="text-sm">
-                  <p className="font-medium text-red-800 dark:text-red-200">DeepSeek API Configuration Issue</p>
+                  <p className="font-medium text-red-800 dark:text-red-200">AI Provider Configuration Issue</p>
                   <p className="text-red-700 dark:text-red-300 mt-1">
-                    The API connection failed. Please verify your DeepSeek API key is properly configured in the project settings.
+                    The API connection failed. Please verify an AI provider key is properly configured in the project settings.
                   </p>
                 </div>
               </div>
@@ -379,10 +407,13 @@ Focus on being helpful, accurate, and educational.
                     }`}>
                       <div className="text-sm leading-relaxed whitespace-pre-wrap">
                         {message.content}
+                        {message.isStreaming && (
+                          <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-purple-500/70 animate-pulse" />
+                        )}
                       </div>
                       
                       {/* Message Actions */}
-                      {message.role === 'assistant' && (
+                      {message.role === 'assistant' && !message.isStreaming && (
                         <div className="flex items-center gap-2 mt-3 pt-2 border-t border-border/30">
                           <Button
                             variant="ghost"
@@ -418,7 +449,7 @@ Focus on being helpful, accurate, and educational.
               ))}
               
               {/* Enhanced Typing Indicator */}
-              {isLoading && (
+              {isLoading && !messages.some(m => m.isStreaming) && (
                 <div className="flex items-start space-x-3">
                   <div className="p-2 rounded-full bg-gradient-to-r from-purple-500 to-purple-600 shadow-sm">
                     <Bot className="h-4 w-4 text-white" />
@@ -457,17 +488,24 @@ Focus on being helpful, accurate, and educational.
               disabled={isLoading}
               className="flex-1 border-purple-200 focus:border-purple-400 focus:ring-purple-400"
             />
-            <Button 
-              onClick={sendMessage}
-              disabled={!inputMessage.trim() || isLoading}
-              className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 shadow-md hover:shadow-lg transition-all"
-            >
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button 
+                onClick={stopResponse}
+                variant="outline"
+                title="Stop generating"
+                className="border-purple-300 text-purple-700 hover:bg-purple-50"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button 
+                onClick={sendMessage}
+                disabled={!inputMessage.trim()}
+                className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 shadow-md hover:shadow-lg transition-all"
+              >
                 <Send className="h-4 w-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </div>
           <p className="text-xs text-muted-foreground mt-3 flex items-center gap-2">
             <kbd className="px-1.5 py-0.5 text-xs bg-muted border rounded">Enter</kbd> to send
@@ -476,7 +514,7 @@ Focus on being helpful, accurate, and educational.
             <span>•</span>
             <span className="flex items-center gap-1">
               <Sparkles className="h-3 w-3" />
-              Powered by DeepSeek RAG
+              Grounded in your note content
             </span>
           </p>
         </CardContent>
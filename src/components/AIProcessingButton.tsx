@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Sparkles, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { AIService } from "@/lib/aiService";
 
 interface AIProcessingButtonProps {
   noteId: string;
@@ -29,24 +29,17 @@ export function AIProcessingButton({ noteId, content, onContentUpdated }: AIProc
     setIsProcessing(true);
 
     try {
-      // Call the OpenAI processing function
-      const { data: aiData, error: aiError } = await supabase.functions.invoke('process-content-with-openai', {
-        body: { 
-          content: content, 
-          type: "text",
-          prompt: "Please analyze this content and provide a comprehensive summary with key highlights and main points.",
-          options: {
-            summary: true,
-            highlights: true,
-            keyPoints: true
-          }
+      const aiData = await AIService.processContent({
+        content: content, 
+        type: "text",
+        prompt: "Please analyze this content and provide a comprehensive summary with key highlights and main points.",
+        options: {
+          summary: true,
+          highlights: true,
+          keyPoints: true
         }
       });
 
-      if (aiError) {
-        throw aiError;
-      }
-
       if (aiData?.processedContent) {
         // Combine the AI analysis with the original content
         const enhancedContent = `${aiData.processedContent}\n\n---\n\n## Original Content\n\n${content}`;
@@ -65,7 +58,7 @@ export function AIProcessingButton({ noteId, content, onContentUpdated }: AIProc
       console.error("Error processing with AI:", error);
       toast({
         title: "AI Processing Failed",
-        description: error.message || "Failed to process content with AI. Please check your OpenAI API key configuration.",
+        description: error.message || "Failed to process content with AI. Please check your AI provider configuration.",
         variant: "destructive",
       });
     } finally {
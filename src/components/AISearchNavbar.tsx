@@ -9,7 +9,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { useNotes } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { AIService } from "@/lib/aiService";
 
 interface SearchResult {
   id: string;
@@ -135,17 +135,12 @@ export function AISearchNavbar() {
         `Based on the following knowledge from the user's notes:\n\n${knowledgeBase}\n\nUser question: ${chatInput}` : 
         chatInput;
 
-      // Call DeepSeek API
-      const { data, error } = await supabase.functions.invoke('process-content-with-deepseek', {
-        body: {
-          content: ragContext,
-          type: 'chat',
-          options: { rag: true }
-        }
+      const data = await AIService.processContent({
+        content: ragContext,
+        type: 'chat',
+        options: { rag: true }
       });
 
-      if (error) throw error;
-
       const assistantMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
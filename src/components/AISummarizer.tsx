@@ -7,7 +7,7 @@ import { Brain, Loader2, Video, ExternalLink, Mic } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { VideoNoteProcessor } from "@/lib/videoNoteProcessor";
-import { useCreateNote } from "@/lib/api";
+import { useCreateNote, useSaveNoteArtifacts } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
 
 export function AISummarizer() {
@@ -17,6 +17,7 @@ export function AISummarizer() {
   const { toast } = useToast();
   const navigate = useNavigate();
   const createNoteMutation = useCreateNote();
+  const saveArtifactsMutation = useSaveNoteArtifacts();
   const { user } = useAuth();
 
   const handleSummarize = async () => {
@@ -62,6 +63,7 @@ export function AISummarizer() {
         fetchTranscript: true,
         generateSummary: true,
         summaryType: 'full',
+        onSummaryProgress: (progress) => setProcessingStage(`${progress.message} (${progress.percent}%)`),
         transcriptOptions: {
           includeTimestamps: true,
           language: 'en'
@@ -105,6 +107,14 @@ export function AISummarizer() {
         { note: noteData, tagIds: [] },
         {
           onSuccess: (data) => {
+            // Chapters found while processing open with the note
+            if (data?.id && result.chapters?.chapters.length) {
+              saveArtifactsMutation.mutate({
+                noteId: data.id,
+                artifacts: [VideoNoteProcessor.toChapterArtifact(result.chapters, noteContent)]
+              });
+            }
+
             toast({
               title: "Summary created!",
               description: `AI summary has been generated and saved as a new note.`
@@ -0,0 +1,257 @@
+import { useRef, useState } from "react";
+import { CheckCircle, Loader2, Sparkles } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ClassificationSuggestions } from "@/components/ClassificationSuggestions";
+import { useToast } from "@/hooks/use-toast";
+import {
+  classifyNote,
+  NoteWithTags,
+  useAddTagsToNotes,
+  useCreateTag,
+  useNotebooks,
+  useNotes,
+  useUpdateNote,
+} from "@/lib/api";
+import { NoteClassification, withCreatedTag } from "@/lib/classification";
+
+interface AutoTagDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface NoteSuggestion {
+  note: NoteWithTags;
+  classification: NoteClassification | null;
+  error?: string;
+  tagIds: string[];
+  notebookId: string | null;
+  applied: boolean;
+}
+
+// Notes classified per run, one AI request each
+const MAX_NOTES_PER_RUN = 20;
+const NEW_TAG_COLOR = "bg-blue-500";
+
+// Suggests tags, and a notebook for notes outside one, for the notes that
+// have no tags yet; suggestions are applied per note or all at once
+export function AutoTagDialog({ open, onOpenChange }: AutoTagDialogProps) {
+  const { toast } = useToast();
+  const { data: notes = [] } = useNotes();
+  const { data: notebooks = [] } = useNotebooks();
+  const createTagMutation = useCreateTag();
+  const addTagsMutation = useAddTagsToNotes();
+  const updateNoteMutation = useUpdateNote();
+  const [suggestions, setSuggestions] = useState<NoteSuggestion[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [creatingTag, setCreatingTag] = useState<{ noteId: string; name: string } | null>(null);
+  // Set when the dialog closes so that a run in progress stops
+  const cancelledRef = useRef(false);
+
+  const untaggedNotes = notes.filter(note => note.tags.length === 0);
+  const batch = untaggedNotes.slice(0, MAX_NOTES_PER_RUN);
+  const finished = suggestions.filter(suggestion => suggestion.classification || suggestion.error).length;
+  const pending = suggestions.filter(suggestion =>
+    !suggestion.applied && (suggestion.tagIds.length > 0 || suggestion.notebookId)
+  );
+
+  const updateSuggestion = (noteId: string, update: (suggestion: NoteSuggestion) => NoteSuggestion) => {
+    setSuggestions(current => current.map(suggestion => suggestion.note.id === noteId ? update(suggestion) : suggestion));
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      cancelledRef.current = true;
+      setSuggestions([]);
+      setIsRunning(false);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const run = async () => {
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setSuggestions(batch.map(note => ({ note, classification: null, tagIds: [], notebookId: null, applied: false })));
+
+    for (const note of batch) {
+      if (cancelledRef.current) break;
+      try {
+        const classification = await classifyNote(note);
+        if (cancelledRef.current) break;
+        // Existing tags start accepted; the notebook only for notes outside one
+        updateSuggestion(note.id, suggestion => ({
+          ...suggestion,
+          classification,
+          tagIds: classification.tags.map(tag => tag.id),
+          notebookId: !note.notebook_id && classification.notebook ? classification.notebook.id : null
+        }));
+      } catch (error) {
+        console.error("Classification error:", error);
+        updateSuggestion(note.id, suggestion => ({
+          ...suggestion,
+          error: error instanceof Error ? error.message : "Suggestions are unavailable."
+        }));
+      }
+    }
+
+    setIsRunning(false);
+  };
+
+  const acceptNewTag = (noteId: string, name: string) => {
+    setCreatingTag({ noteId, name });
+    createTagMutation.mutate({ name, color: NEW_TAG_COLOR }, {
+      onSuccess: (tag) => {
+        // Other notes suggested the same tag can now take the existing one
+        setSuggestions(current => current.map(suggestion => {
+          if (!suggestion.classification?.newTags.some(other => other.toLowerCase() === name.toLowerCase())) return suggestion;
+          return {
+            ...suggestion,
+            classification: withCreatedTag(suggestion.classification, tag),
+            tagIds: suggestion.note.id === noteId ? [...suggestion.tagIds, tag.id] : suggestion.tagIds
+          };
+        }));
+      },
+      onError: (error) => {
+        console.error("Error creating tag:", error);
+        toast({
+          title: "Error",
+          description: `Failed to create tag ${name}`,
+          variant: "destructive"
+        });
+      },
+      onSettled: () => setCreatingTag(null),
+    });
+  };
+
+  const apply = async (items: NoteSuggestion[]) => {
+    setIsApplying(true);
+    let appliedCount = 0;
+    try {
+      for (const item of items) {
+        await addTagsMutation.mutateAsync({ noteIds: [item.note.id], tagIds: item.tagIds });
+        if (item.notebookId && item.notebookId !== item.note.notebook_id) {
+          await updateNoteMutation.mutateAsync({ id: item.note.id, updates: { notebook_id: item.notebookId } });
+        }
+        updateSuggestion(item.note.id, suggestion => ({ ...suggestion, applied: true }));
+        appliedCount++;
+      }
+      toast({
+        title: "Suggestions applied",
+        description: `${appliedCount} note${appliedCount !== 1 ? "s" : ""} filed.`
+      });
+    } catch (error) {
+      console.error("Error applying suggestions:", error);
+      toast({
+        title: "Error",
+        description: `Failed to apply suggestions after ${appliedCount} note${appliedCount !== 1 ? "s" : ""}. Please try again.`,
+        variant: "destructive"
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Auto-tag Notes
+          </DialogTitle>
+          <DialogDescription>
+            {untaggedNotes.length === 0
+              ? "All your notes have tags."
+              : `${untaggedNotes.length} note${untaggedNotes.length !== 1 ? "s have" : " has"} no tags. AI suggests tags from your existing ones, new tags, and a notebook for notes outside one` +
+                (untaggedNotes.length > MAX_NOTES_PER_RUN ? `, ${MAX_NOTES_PER_RUN} notes at a time.` : ".")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {suggestions.length > 0 && (
+          <div className="space-y-3">
+            {isRunning && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Classified {finished} of {suggestions.length} notes...</p>
+                <Progress value={(finished / suggestions.length) * 100} />
+              </div>
+            )}
+            <ScrollArea className="h-[50vh] pr-3">
+              <ul className="space-y-3">
+                {suggestions.map(suggestion => (
+                  <li key={suggestion.note.id} className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium">{suggestion.note.title}</span>
+                      {suggestion.applied ? (
+                        <span className="flex shrink-0 items-center gap-1 text-xs text-green-600">
+                          <CheckCircle className="h-3.5 w-3.5" />
+                          Applied
+                        </span>
+                      ) : suggestion.classification && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 shrink-0 px-2 text-xs"
+                          onClick={() => apply([suggestion])}
+                          disabled={isApplying || (suggestion.tagIds.length === 0 && !suggestion.notebookId)}
+                        >
+                          Apply
+                        </Button>
+                      )}
+                    </div>
+                    {suggestion.classification ? (
+                      <ClassificationSuggestions
+                        classification={suggestion.classification}
+                        notebooks={notebooks}
+                        selectedTagIds={suggestion.tagIds}
+                        selectedNotebookId={suggestion.notebookId}
+                        onTagToggle={tagId => updateSuggestion(suggestion.note.id, current => ({
+                          ...current,
+                          tagIds: current.tagIds.includes(tagId)
+                            ? current.tagIds.filter(id => id !== tagId)
+                            : [...current.tagIds, tagId]
+                        }))}
+                        onNewTagAccept={name => acceptNewTag(suggestion.note.id, name)}
+                        onNotebookToggle={notebookId => updateSuggestion(suggestion.note.id, current => ({
+                          ...current,
+                          notebookId: current.notebookId === notebookId ? null : notebookId
+                        }))}
+                        creatingTag={creatingTag?.noteId === suggestion.note.id ? creatingTag.name : null}
+                      />
+                    ) : suggestion.error ? (
+                      <p className="text-xs text-destructive">{suggestion.error}</p>
+                    ) : (
+                      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Waiting...
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+          {suggestions.length === 0 || (!isRunning && pending.length === 0) ? (
+            <Button onClick={run} disabled={isRunning || batch.length === 0}>
+              <Sparkles className="h-4 w-4 mr-2" />
+              Suggest for {batch.length} Note{batch.length !== 1 ? "s" : ""}
+            </Button>
+          ) : (
+            <Button onClick={() => apply(pending)} disabled={isRunning || isApplying || pending.length === 0}>
+              {isApplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+              Apply All ({pending.length})
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Check, Minus, Tags } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { Tag, useAddTagsToNotes, useRemoveTagsFromNotes, useTags } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface BulkTagMenuProps {
+  // The selected notes the user owns
+  notes: Array<{
+    id: string;
+    tags: Array<{ id: string }>;
+  }>;
+}
+
+// Adds a tag to every selected note, or removes it when they all have it
+export function BulkTagMenu({ notes }: BulkTagMenuProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const { data: tags = [] } = useTags();
+  const addTagsMutation = useAddTagsToNotes();
+  const removeTagsMutation = useRemoveTagsFromNotes();
+  const isPending = addTagsMutation.isPending || removeTagsMutation.isPending;
+
+  const taggedCount = (tag: Tag) => notes.filter(note => note.tags.some(noteTag => noteTag.id === tag.id)).length;
+  const noteIds = notes.map(note => note.id);
+  const notesLabel = `${notes.length} note${notes.length !== 1 ? "s" : ""}`;
+
+  const handleSelect = (tag: Tag) => {
+    const onError = (error: Error) => {
+      console.error("Bulk tag error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update tags. Please try again.",
+        variant: "destructive"
+      });
+    };
+
+    if (taggedCount(tag) === notes.length) {
+      removeTagsMutation.mutate({ noteIds, tagIds: [tag.id] }, {
+        onSuccess: () => toast({ title: "Tag removed", description: `${tag.name} removed from ${notesLabel}.` }),
+        onError,
+      });
+    } else {
+      addTagsMutation.mutate({ noteIds, tagIds: [tag.id] }, {
+        onSuccess: () => toast({ title: "Tag added", description: `${tag.name} added to ${notesLabel}.` }),
+        onError,
+      });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="outline" className="shadow-sm" disabled={notes.length === 0}>
+          <Tags className="h-4 w-4 mr-2" />
+          Tags
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[240px] p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search tags..." />
+          <CommandList>
+            <CommandEmpty>No tags found.</CommandEmpty>
+            <CommandGroup heading={`Tag ${notesLabel}`}>
+              {tags.map(tag => {
+                const count = taggedCount(tag);
+                return (
+                  <CommandItem
+                    key={tag.id}
+                    value={tag.name}
+                    onSelect={() => handleSelect(tag)}
+                    disabled={isPending}
+                    className="flex items-center"
+                  >
+                    <div className={cn("h-3 w-3 rounded-full mr-2 shrink-0", tag.color)} />
+                    <span className="truncate">{tag.name}</span>
+                    {count === notes.length ? (
+                      <Check className="ml-auto h-4 w-4 shrink-0" />
+                    ) : count > 0 ? (
+                      <Minus className="ml-auto h-4 w-4 shrink-0 text-muted-foreground" aria-label={`On ${count} of ${notes.length}`} />
+                    ) : null}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        <p className="border-t px-3 py-2 text-xs text-muted-foreground">
+          Pick a tag to add it to every selected note, or to remove it when they all have it.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
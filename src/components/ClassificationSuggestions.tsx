@@ -0,0 +1,89 @@
+import { BookOpen, Check, Loader2, Plus } from "lucide-react";
+import { Notebook } from "@/lib/api";
+import type { NoteClassification } from "@/lib/classification";
+import { getNotebookPath } from "@/lib/notebookTree";
+import { cn } from "@/lib/utils";
+
+interface ClassificationSuggestionsProps {
+  classification: NoteClassification;
+  notebooks: Notebook[];
+  selectedTagIds: string[];
+  selectedNotebookId: string | null;
+  onTagToggle: (tagId: string) => void;
+  // Creates the suggested tag and selects it
+  onNewTagAccept: (name: string) => void;
+  onNotebookToggle: (notebookId: string) => void;
+  // The new tag being created, if any
+  creatingTag?: string | null;
+}
+
+const chipClass = (selected: boolean) => cn(
+  "inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs transition-colors disabled:opacity-50",
+  selected
+    ? "border-primary bg-primary text-primary-foreground"
+    : "border-dashed border-muted-foreground/50 text-muted-foreground hover:border-primary hover:text-foreground"
+);
+
+// Suggested tags and notebook as chips: one click takes a suggestion, another
+// click drops it again
+export function ClassificationSuggestions({
+  classification,
+  notebooks,
+  selectedTagIds,
+  selectedNotebookId,
+  onTagToggle,
+  onNewTagAccept,
+  onNotebookToggle,
+  creatingTag
+}: ClassificationSuggestionsProps) {
+  const { tags, newTags, notebook, notebookReason } = classification;
+
+  if (tags.length === 0 && newTags.length === 0 && !notebook) {
+    return <p className="text-xs text-muted-foreground">No suggestions for this note.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {(tags.length > 0 || newTags.length > 0) && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {tags.map(tag => {
+            const selected = selectedTagIds.includes(tag.id);
+            return (
+              <button key={tag.id} type="button" className={chipClass(selected)} onClick={() => onTagToggle(tag.id)}>
+                {selected ? <Check className="h-3 w-3" /> : <div className={cn("h-2 w-2 rounded-full", tag.color)} />}
+                {tag.name}
+              </button>
+            );
+          })}
+          {newTags.map(name => (
+            <button
+              key={name}
+              type="button"
+              className={chipClass(false)}
+              onClick={() => onNewTagAccept(name)}
+              disabled={!!creatingTag}
+              title="Create this tag and add it"
+            >
+              {creatingTag === name ? <Loader2 className="h-3 w-3 animate-spin" /> : <Plus className="h-3 w-3" />}
+              {name}
+              <span className="opacity-70">new</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {notebook && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            className={chipClass(selectedNotebookId === notebook.id)}
+            onClick={() => onNotebookToggle(notebook.id)}
+          >
+            {selectedNotebookId === notebook.id ? <Check className="h-3 w-3" /> : <BookOpen className="h-3 w-3" />}
+            {getNotebookPath(notebooks, notebook.id)}
+          </button>
+          {notebookReason && <span className="text-xs text-muted-foreground">{notebookReason}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
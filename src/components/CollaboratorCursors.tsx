@@ -0,0 +1,76 @@
+import { CSSProperties, RefObject, useEffect, useState } from "react";
+import type { Collaborator } from "@/hooks/useNoteCollaboration";
+import { MIRRORED_STYLES } from "@/lib/textareaCaret";
+
+interface CollaboratorCursorsProps {
+  textareaRef: RefObject<HTMLTextAreaElement>;
+  text: string;
+  collaborators: Collaborator[];
+}
+
+// Draws other editors' cursors over a textarea. Textareas cannot style parts of
+// their text, so an invisible copy of the text with the same wrapping is laid
+// over it and markers are placed in the copy at each cursor's offset.
+export function CollaboratorCursors({ textareaRef, text, collaborators }: CollaboratorCursorsProps) {
+  const [mirrorStyle, setMirrorStyle] = useState<CSSProperties>({});
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const measure = () => {
+      const computed = getComputedStyle(textarea);
+      const style: Record<string, string> = {};
+      for (const property of MIRRORED_STYLES) style[property] = computed[property];
+      setMirrorStyle({ ...style, width: textarea.offsetWidth, borderStyle: "solid", borderColor: "transparent" });
+      setScrollTop(textarea.scrollTop);
+    };
+    const handleScroll = () => setScrollTop(textarea.scrollTop);
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(textarea);
+    textarea.addEventListener("scroll", handleScroll);
+    return () => {
+      observer.disconnect();
+      textarea.removeEventListener("scroll", handleScroll);
+    };
+  }, [textareaRef]);
+
+  const cursors = collaborators
+    .filter(collaborator => collaborator.selection)
+    .map(collaborator => ({ ...collaborator, offset: Math.min(collaborator.selection!.end, text.length) }))
+    .sort((a, b) => a.offset - b.offset);
+  if (cursors.length === 0) return null;
+
+  const pieces: JSX.Element[] = [];
+  let position = 0;
+  cursors.forEach(cursor => {
+    pieces.push(<span key={`text-${cursor.key}`}>{text.slice(position, cursor.offset)}</span>);
+    pieces.push(
+      <span key={cursor.key} className="relative">
+        <span className="absolute -left-px top-0 h-[1.25em] w-0.5" style={{ backgroundColor: cursor.color }} />
+        <span
+          className="absolute left-0 -top-4 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+          style={{ backgroundColor: cursor.color }}
+        >
+          {cursor.email.split("@")[0]}
+        </span>
+      </span>
+    );
+    position = cursor.offset;
+  });
+  pieces.push(<span key="text-end">{text.slice(position)}</span>);
+
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden>
+      <div
+        className="whitespace-pre-wrap break-words text-transparent"
+        style={{ ...mirrorStyle, transform: `translateY(${-scrollTop}px)` }}
+      >
+        {pieces}
+      </div>
+    </div>
+  );
+}
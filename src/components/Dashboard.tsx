@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { PlusCircle } from "lucide-react";
 import { Sidebar } from "@/components/Sidebar";
@@ -7,7 +7,8 @@ import { NotesListPanel } from "@/components/NotesListPanel";
 import { NoteContentPanel } from "@/components/NoteContentPanel";
 import { ImportModal } from "@/components/ImportModal";
 import { useToast } from "@/hooks/use-toast";
-import { useNotes } from "@/lib/api";
+import { useNotes, useNotebooks } from "@/lib/api";
+import { parseNoteQuery, matchesNoteQuery } from "@/lib/search/noteQuery";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { AISearchNavbar } from "@/components/AISearchNavbar";
 import { SearchBar } from "@/components/SearchBar";
@@ -25,6 +26,7 @@ export default function Dashboard() {
   const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
   
   const { data: notes, isLoading, error, refetch } = useNotes();
+  const { data: notebooks } = useNotebooks();
 
   const handleNoteSelect = (noteId: string) => {
     if (isSelectMode) {
@@ -95,13 +97,15 @@ export default function Dashboard() {
     }
   };
 
-  const filteredNotes = notes?.filter(note => {
-    if (!searchQuery) return true;
-    return (
-      note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      note.content?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }) || [];
+  const parsedQuery = useMemo(() => parseNoteQuery(searchQuery), [searchQuery]);
+  const notebookNamesById = useMemo(
+    () => Object.fromEntries((notebooks || []).map(notebook => [notebook.id, notebook.name])),
+    [notebooks]
+  );
+
+  const filteredNotes = notes?.filter(note =>
+    matchesNoteQuery(note, parsedQuery, notebookNamesById)
+  ) || [];
 
   if (error) {
     return (
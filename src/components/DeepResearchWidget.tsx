@@ -17,6 +17,9 @@ export function DeepResearchWidget() {
   const {
     searchQuery,
     searchResults,
+    searchTotal,
+    hasMoreResults,
+    isSearching,
     chatMessages,
     isLoading,
     isChatMode,
@@ -25,6 +28,7 @@ export function DeepResearchWidget() {
     metrics,
     streamingContent,
     handleSearch,
+    loadMoreResults,
     handleChatSubmit,
     cancelRequest,
     toggleMode,
@@ -76,7 +80,11 @@ export function DeepResearchWidget() {
               <SearchInterface
                 searchQuery={searchQuery}
                 searchResults={searchResults}
+                searchTotal={searchTotal}
+                hasMoreResults={hasMoreResults}
+                isSearching={isSearching}
                 onSearch={handleSearch}
+                onLoadMore={loadMoreResults}
               />
             ) : (
               <>
@@ -6,6 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Download, Copy, FileText, Globe, CheckCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { blocksToMarkdown, blocksToNotion, getNoteBlocks } from "@/lib/blocks";
+import type { Json } from "@/integrations/supabase/types";
 
 interface ExportPanelProps {
   note: {
@@ -13,6 +15,7 @@ interface ExportPanelProps {
     content: string;
     tags: string[];
     source_url?: string;
+    blocks?: Json | null;
   };
 }
 
@@ -20,6 +23,7 @@ export function ExportPanel({ note }: ExportPanelProps) {
   const [exportFormat, setExportFormat] = useState<'markdown' | 'notion'>('markdown');
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
+  const noteBlocks = getNoteBlocks(note);
 
   const generateMarkdown = () => {
     const date = new Date().toLocaleDateString();
@@ -35,13 +39,13 @@ export function ExportPanel({ note }: ExportPanelProps) {
     
     markdown += `**Created:** ${date}\n\n`;
     markdown += `---\n\n`;
-    markdown += note.content;
+    markdown += blocksToMarkdown(noteBlocks);
     
     return markdown;
   };
 
   const generateNotionBlocks = () => {
-    const blocks = [];
+    const blocks: object[] = [];
     
     // Title block
     blocks.push({
@@ -78,18 +82,7 @@ export function ExportPanel({ note }: ExportPanelProps) {
     }
     
     // Content
-    const contentLines = note.content.split('\n');
-    contentLines.forEach(line => {
-      if (line.trim()) {
-        blocks.push({
-          object: "block",
-          type: "paragraph",
-          paragraph: {
-            rich_text: [{ type: "text", text: { content: line } }]
-          }
-        });
-      }
-    });
+    blocks.push(...blocksToNotion(noteBlocks));
     
     return JSON.stringify(blocks, null, 2);
   };
@@ -2,6 +2,7 @@
 import { cn } from "@/lib/utils";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatDistanceToNow } from "date-fns";
+import { TaskProgress } from "@/components/TaskProgress";
 
 export interface NoteCardProps {
   id: string; // Changed from number to string to match our database IDs
@@ -18,6 +19,11 @@ export interface NoteCardProps {
     name: string;
   };
   thumbnail?: string;
+  // Checklist items in the note; see getTaskProgress
+  taskProgress?: {
+    total: number;
+    completed: number;
+  };
   onClick?: () => void;
   className?: string;
 }
@@ -30,6 +36,7 @@ export function NoteCard({
   tags,
   notebook,
   thumbnail,
+  taskProgress,
   onClick,
   className,
 }: NoteCardProps) {
@@ -59,6 +66,7 @@ export function NoteCard({
       </CardHeader>
       <CardContent className="p-4 pt-2 pb-2">
         <p className="text-sm text-muted-foreground line-clamp-3">{content}</p>
+        {taskProgress && <TaskProgress {...taskProgress} className="mt-3" />}
       </CardContent>
       {tags.length > 0 && (
         <CardFooter className="p-4 pt-2 flex flex-wrap gap-1">
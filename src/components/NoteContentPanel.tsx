@@ -5,9 +5,14 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { NoteEditor } from "@/components/NoteEditor";
-import { useNote, useUpdateNote, useDeleteNote } from "@/lib/api";
+import { AttachmentsStrip } from "@/components/note-page/AttachmentsStrip";
+import { BacklinksPanel } from "@/components/note-page/BacklinksPanel";
+import { getNoteAccessRole, NoteConflictError, useNote, useUpdateNote, useDeleteNote } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { videoUrl } from "@/lib/blocks";
+import { getYoutubeVideoId } from "@/lib/utils";
 
 interface NoteContentPanelProps {
   noteId: string | null;
@@ -20,6 +25,8 @@ export function NoteContentPanel({ noteId, onBack, onNoteDeleted }: NoteContentP
   const { data: note, isLoading, error } = useNote(noteId || "");
   const updateNoteMutation = useUpdateNote();
   const deleteNoteMutation = useDeleteNote();
+  const { user } = useAuth();
+  const role = note ? getNoteAccessRole(note, user?.id) : null;
 
   const handleSave = (updatedNote: {
     title: string;
@@ -36,7 +43,9 @@ export function NoteContentPanel({ noteId, onBack, onNoteDeleted }: NoteContentP
           content: updatedNote.content,
           updated_at: new Date().toISOString(),
         },
-        tagIds: updatedNote.tags,
+        // Tags belong to the owner; collaborators leave them as they are
+        tagIds: role === "owner" ? updatedNote.tags : undefined,
+        expectedUpdatedAt: note?.updated_at,
       },
       {
         onSuccess: () => {
@@ -48,7 +57,9 @@ export function NoteContentPanel({ noteId, onBack, onNoteDeleted }: NoteContentP
         onError: (error) => {
           toast({
             title: "Error saving note",
-            description: "There was an error saving your note. Please try again.",
+            description: error instanceof NoteConflictError
+              ? "This note was changed elsewhere. Your changes were not saved; the latest version is now shown."
+              : "There was an error saving your note. Please try again.",
             variant: "destructive",
           });
           console.error("Save note error:", error);
@@ -148,6 +159,8 @@ export function NoteContentPanel({ noteId, onBack, onNoteDeleted }: NoteContentP
   }
 
   const formattedContent = formatNoteContent(note.content, note);
+  // Timestamps open the note's source video at that point
+  const sourceVideoId = note.source_url ? getYoutubeVideoId(note.source_url) : null;
 
   return (
     <div className="flex-1 flex flex-col h-full">
@@ -220,28 +233,35 @@ export function NoteContentPanel({ noteId, onBack, onNoteDeleted }: NoteContentP
             
             {/* Action Buttons */}
             <div className="flex items-center gap-2 flex-shrink-0 ml-4">
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={() => handleSave({
-                  title: note.title,
-                  content: note.content,
-                  tags: note.tags.map(tag => tag.id)
-                })}
-                className="hover:bg-green-50 hover:border-green-300 hover:text-green-700 transition-colors"
-              >
-                <Save className="h-4 w-4 mr-2" />
-                Save
-              </Button>
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={handleDelete}
-                className="hover:bg-red-50 hover:border-red-300 hover:text-red-700 transition-colors"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete
-              </Button>
+              {role !== "owner" && role && (
+                <Badge variant="secondary" className="text-xs">Shared with you</Badge>
+              )}
+              {(role === "owner" || role === "editor") && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={() => handleSave({
+                    title: note.title,
+                    content: note.content,
+                    tags: note.tags.map(tag => tag.id)
+                  })}
+                  className="hover:bg-green-50 hover:border-green-300 hover:text-green-700 transition-colors"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+              )}
+              {role === "owner" && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={handleDelete}
+                  className="hover:bg-red-50 hover:border-red-300 hover:text-red-700 transition-colors"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              )}
             </div>
           </div>
 
@@ -270,16 +290,24 @@ export function NoteContentPanel({ noteId, onBack, onNoteDeleted }: NoteContentP
       {/* Content */}
       <div className="flex-1 overflow-hidden">
         <ScrollArea className="h-full">
-          <div className="p-6">
+          <div className="p-6 space-y-6">
+            <AttachmentsStrip noteId={note.id} isOwner={role === "owner"} />
             <NoteEditor 
               initialNote={{
                 id: note.id,
                 title: note.title,
                 content: formattedContent,
                 tags: note.tags.map(tag => tag.id),
+                updated_at: note.updated_at,
+                user_id: note.user_id,
+                shared_permissions: note.shared_permissions,
               }} 
               onSave={handleSave}
+              onTimestampClick={sourceVideoId
+                ? seconds => window.open(videoUrl(sourceVideoId, seconds), "_blank", "noopener,noreferrer")
+                : undefined}
             />
+            <BacklinksPanel noteId={note.id} noteTitle={note.title} />
           </div>
         </ScrollArea>
       </div>
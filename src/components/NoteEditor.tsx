@@ -1,46 +1,267 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
-import { Bold, Italic, List, ListChecks, Save, Video } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { AlertTriangle, Bold, Columns2, Eye, FileCode, Italic, LayoutList, List, ListChecks, Loader2, MessageSquare, PencilLine, Save, Video } from "lucide-react";
 import { TagSelector } from "@/components/TagSelector";
 import { YouTubeTranscriptIntegration } from "@/components/YouTubeTranscriptIntegration";
+import { NoteMergeDialog } from "@/components/NoteMergeDialog";
+import { CollaboratorCursors } from "@/components/CollaboratorCursors";
+import { BlockEditor } from "@/components/blocks/BlockEditor";
+import { MarkdownRenderer } from "@/components/markdown/MarkdownRenderer";
+import { WikiLinkAutocomplete } from "@/components/WikiLinkAutocomplete";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/hooks/useAuth";
+import { SavedNoteState, useAutoSave } from "@/hooks/useAutoSave";
+import { RemoteEdit, RemoteSave, useNoteCollaboration } from "@/hooks/useNoteCollaboration";
+import { getNoteAccessRole, getNoteShares, NoteConflictError, NoteWithTags, useNotes } from "@/lib/api";
+import type { Json } from "@/integrations/supabase/types";
+import { mapOffset, mergeLines } from "@/lib/textDiff";
+import { createNoteTitleResolver } from "@/lib/noteLinks";
+import { cn } from "@/lib/utils";
 interface NoteEditorProps {
   initialNote?: {
     id?: string;
     title: string;
     content: string | null;
     tags: string[];
+    // Notes with an id and updated_at are autosaved, and only over the
+    // version they were loaded from
+    updated_at?: string;
+    // Decide whether the current user may edit, and whether edits are shared
+    // live with collaborators
+    user_id?: string;
+    shared_permissions?: Json | null;
   };
   onSave?: (note: {
     title: string;
     content: string | null;
     tags: string[];
   }) => void;
+  // Character range of note.content to select and scroll to, e.g. a cited passage
+  highlightRange?: {
+    start: number;
+    end: number;
+  };
+  // The video playing beside the editor, for inserting timestamped video blocks
+  currentVideo?: {
+    videoId: string;
+    currentTime: number;
+  };
+  // Makes [mm:ss] timestamps in the preview clickable
+  onTimestampClick?: (seconds: number) => void;
 }
+
+type EditorBaseline = SavedNoteState & {
+  id?: string;
+  content: string;
+};
+
+const toBaseline = (note: { id?: string; title: string; content: string | null; updated_at?: string }, tagIds: string[]): EditorBaseline => ({
+  id: note.id,
+  title: note.title,
+  content: note.content || "",
+  tagIds,
+  updated_at: note.updated_at
+});
+
+const serverBaseline = (note: NoteWithTags) => toBaseline(note, note.tags.map(tag => tag.id));
+
+const ROLE_BADGES = {
+  viewer: { label: "View only", icon: Eye },
+  commenter: { label: "Can comment", icon: MessageSquare },
+} as const;
+
 export function NoteEditor({
   initialNote,
-  onSave
+  onSave,
+  highlightRange,
+  currentVideo,
+  onTimestampClick
 }: NoteEditorProps) {
   const isMobile = useIsMobile();
+  const { user } = useAuth();
+  // Notes to link to with [[Note title]]
+  const { data: linkableNotes = [] } = useNotes();
+  const resolveNoteTitle = useMemo(() => createNoteTitleResolver(linkableNotes), [linkableNotes]);
   const [note, setNote] = useState({
     title: initialNote?.title || "",
     content: initialNote?.content || "",
     tags: initialNote?.tags || []
   });
+  // The note as last loaded or saved, which is also the common ancestor when
+  // a save conflicts with changes made elsewhere
+  const [saved, setSaved] = useState<EditorBaseline>(() => toBaseline(initialNote ?? { title: "", content: "" }, initialNote?.tags ?? []));
+  const [conflict, setConflict] = useState<NoteWithTags | null>(null);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showYouTubeExtractor, setShowYouTubeExtractor] = useState(false);
+  // Blocks, or the markdown source they are stored as
+  const [editorMode, setEditorMode] = useState<"blocks" | "markdown">(highlightRange ? "markdown" : "blocks");
+  const [view, setView] = useState<"edit" | "split" | "preview">("edit");
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const noteRef = useRef(note);
+  noteRef.current = note;
+
+  // Notes without an owner yet, e.g. a new note, are the user's own
+  const role = initialNote?.user_id
+    ? getNoteAccessRole({ user_id: initialNote.user_id, shared_permissions: initialNote.shared_permissions ?? null }, user?.id)
+    : "owner";
+  const isOwner = role === "owner";
+  const canEdit = isOwner || role === "editor";
+  const isShared = !!initialNote?.id && (!isOwner || getNoteShares({ shared_permissions: initialNote.shared_permissions ?? null }).length > 0);
+
+  // The text as last sent to or received from collaborators, the base for
+  // merging their edits into local ones
+  const syncedRef = useRef({ title: note.title, content: note.content });
+  // Text that came from elsewhere and is not broadcast back
+  const receivedRef = useRef({ title: note.title, content: note.content });
+  const pendingSelectionRef = useRef<{ start: number; end: number } | null>(null);
+
+  const handleRemoteEdit = (edit: RemoteEdit) => {
+    const local = noteRef.current;
+    const synced = syncedRef.current;
+    // The same side wins for both editors when they changed the same lines
+    const prefer = edit.from < collaboration.clientKey ? "theirs" : "mine";
+    const content = mergeLines(synced.content, local.content, edit.content, prefer).text;
+    const title = local.title === synced.title || (edit.title !== synced.title && prefer === "theirs")
+      ? edit.title
+      : local.title;
+
+    const textarea = textareaRef.current;
+    if (textarea && document.activeElement === textarea) {
+      pendingSelectionRef.current = {
+        start: mapOffset(local.content, content, textarea.selectionStart),
+        end: mapOffset(local.content, content, textarea.selectionEnd)
+      };
+    }
+    syncedRef.current = { title: edit.title, content: edit.content };
+    receivedRef.current = { title: edit.title, content: edit.content };
+    setNote(prev => ({ ...prev, title, content }));
+  };
+
+  const handleRemoteSave = (save: RemoteSave) => {
+    setSaved(prev => prev.updated_at && new Date(save.updated_at) <= new Date(prev.updated_at)
+      ? prev
+      : { ...prev, title: save.title, content: save.content, updated_at: save.updated_at });
+  };
+
+  const collaboration = useNoteCollaboration({
+    noteId: initialNote?.id,
+    userId: user?.id,
+    email: user?.email,
+    role,
+    enabled: isShared,
+    onRemoteEdit: handleRemoteEdit,
+    onRemoteSave: handleRemoteSave
+  });
+  const { broadcastEdit, broadcastSave } = collaboration;
+
+  const handleSaved = useCallback((savedNote: NoteWithTags) => {
+    setSaved(serverBaseline(savedNote));
+    broadcastSave({ title: savedNote.title, content: savedNote.content || "", updated_at: savedNote.updated_at });
+  }, [broadcastSave]);
+
+  const handleConflict = useCallback((error: NoteConflictError) => {
+    const current = error.current;
+    const local = noteRef.current;
+    // Only tags or the timestamp changed elsewhere, or the other save already
+    // holds this text; carry on from the saved version
+    if (
+      (current.title === saved.title && (current.content || "") === saved.content) ||
+      (current.title === local.title && (current.content || "") === local.content)
+    ) {
+      setSaved(serverBaseline(current));
+      return;
+    }
+    setConflict(current);
+    setIsMergeOpen(true);
+  }, [saved.title, saved.content]);
+
+  const autoSave = useAutoSave({
+    noteId: initialNote?.id ?? "",
+    title: note.title,
+    content: note.content,
+    // Tags are the owner's own and not shown to collaborators
+    tagIds: isOwner ? note.tags : undefined,
+    saved,
+    enabled: !!initialNote?.id && !!initialNote.updated_at && canEdit && !conflict &&
+      (!isShared || collaboration.isSaver),
+    onSaved: handleSaved,
+    onConflict: handleConflict
+  });
+
+  // Send local edits to collaborators as they are typed
   useEffect(() => {
-    if (initialNote) {
-      setNote({
-        title: initialNote.title,
-        content: initialNote.content || "",
-        tags: initialNote.tags
-      });
+    if (!isShared || !canEdit) return;
+    const received = receivedRef.current;
+    if (note.title === received.title && note.content === received.content) return;
+    syncedRef.current = { title: note.title, content: note.content };
+    broadcastEdit(note.title, note.content);
+  }, [note.title, note.content, isShared, canEdit, broadcastEdit]);
+
+  // Keep the caret where it was when a collaborator's edit changes the text
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    const textarea = textareaRef.current;
+    if (!selection || !textarea) return;
+    pendingSelectionRef.current = null;
+    textarea.setSelectionRange(selection.start, selection.end);
+  }, [note.content]);
+
+  // Follow the note when another one is opened, or when a newer version saved
+  // elsewhere arrives while there is nothing unsaved here. Older versions are
+  // the cache catching up with our own saves.
+  const isNewerVersion = !!initialNote?.updated_at &&
+    (!saved.updated_at || new Date(initialNote.updated_at) > new Date(saved.updated_at));
+  if (
+    initialNote &&
+    (initialNote.id !== saved.id ||
+      (isNewerVersion && !autoSave.hasChanges && !autoSave.isSaving && !conflict))
+  ) {
+    const loaded = { title: initialNote.title, content: initialNote.content || "" };
+    syncedRef.current = loaded;
+    receivedRef.current = loaded;
+    setSaved(toBaseline(initialNote, initialNote.tags));
+    setNote({ ...loaded, tags: initialNote.tags });
+    setConflict(null);
+  }
+
+  const resolveConflict = (next: Partial<typeof note>) => {
+    if (!conflict) return;
+    setSaved(serverBaseline(conflict));
+    setNote(prev => ({ ...prev, ...next }));
+    setConflict(null);
+    setIsMergeOpen(false);
+  };
+
+  // Ranges are offsets into the markdown, so show it to highlight one
+  const [shownHighlight, setShownHighlight] = useState(highlightRange);
+  if (highlightRange !== shownHighlight) {
+    setShownHighlight(highlightRange);
+    if (highlightRange) {
+      setEditorMode("markdown");
+      setView(current => current === "preview" ? "edit" : current);
     }
-  }, [initialNote]);
+  }
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!highlightRange || !textarea) return;
+    const end = Math.min(highlightRange.end, textarea.value.length);
+    const start = Math.min(highlightRange.start, end);
+
+    // Textareas do not scroll to a programmatic selection, so estimate the line
+    const linesBefore = textarea.value.slice(0, start).split('\n').length - 1;
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(start, end);
+    textarea.scrollTop = Math.max(0, linesBefore * lineHeight - textarea.clientHeight / 3);
+    textarea.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlightRange]);
 
   // Check if content contains YouTube URLs
   useEffect(() => {
@@ -72,7 +293,7 @@ export function NoteEditor({
     }));
   };
   const insertFormatting = (format: string) => {
-    const textarea = document.querySelector('textarea');
+    const textarea = textareaRef.current;
     if (!textarea) return;
     const start = textarea.selectionStart;
     const end = textarea.selectionEnd;
@@ -98,20 +319,65 @@ export function NoteEditor({
       content: newContent
     }));
   };
+  const roleBadge = role === "viewer" || role === "commenter" ? ROLE_BADGES[role] : null;
+
   return <div className="space-y-6">
+      {/* Collaborators */}
+      {isShared && <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            {roleBadge && <Badge variant="secondary" className="gap-1">
+                <roleBadge.icon className="h-3 w-3" />
+                {roleBadge.label}
+              </Badge>}
+            <span className="text-xs text-muted-foreground">
+              {collaboration.isConnected ? collaboration.peers.length > 0 ? "Editing live with" : "No one else is here" : "Connecting..."}
+            </span>
+          </div>
+          {collaboration.peers.length > 0 && <div className="flex -space-x-2">
+              {collaboration.peers.map(peer => <div key={peer.key} title={`${peer.email} (${peer.role})`} className="h-7 w-7 rounded-full border-2 border-background flex items-center justify-center text-xs font-medium text-white" style={{
+          backgroundColor: peer.color
+        }}>
+                  {peer.email.charAt(0).toUpperCase()}
+                </div>)}
+            </div>}
+        </div>}
+
       {/* Header */}
       <div className="flex flex-col space-y-4">
-        <Input placeholder="Note title..." value={note.title} onChange={e => setNote(prev => ({
+        <Input placeholder="Note title..." value={note.title} readOnly={!canEdit} onChange={e => setNote(prev => ({
         ...prev,
         title: e.target.value
       }))} className="text-lg font-medium" />
         
         {/* YouTube Transcript Integration */}
-        {showYouTubeExtractor && <YouTubeTranscriptIntegration onTranscriptExtracted={handleTranscriptExtracted} />}
+        {showYouTubeExtractor && canEdit && <YouTubeTranscriptIntegration onTranscriptExtracted={handleTranscriptExtracted} />}
+      </div>
+
+      {/* Editor Mode */}
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {view !== "preview" && <Button variant="ghost" size="sm" onClick={() => setEditorMode(mode => mode === "blocks" ? "markdown" : "blocks")}>
+            {editorMode === "blocks" ? <FileCode className="h-4 w-4 mr-2" /> : <LayoutList className="h-4 w-4 mr-2" />}
+            {editorMode === "blocks" ? "Edit markdown" : "Edit blocks"}
+          </Button>}
+        <ToggleGroup type="single" size="sm" variant="outline" value={view} onValueChange={value => value && setView(value as typeof view)}>
+          <ToggleGroupItem value="edit" aria-label="Edit" title="Edit">
+            <PencilLine className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="split" aria-label="Edit with preview" title="Edit with preview" className="hidden md:inline-flex">
+            <Columns2 className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="preview" aria-label="Preview" title="Preview">
+            <Eye className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
       </div>
 
+      <div className={cn(view === "split" && "grid gap-4 md:grid-cols-2")}>
+      {view !== "preview" && <WikiLinkAutocomplete notes={linkableNotes} currentNoteId={initialNote?.id} disabled={!canEdit}>
+      <div className="min-w-0 space-y-6">
+
       {/* Formatting Toolbar */}
-      <Card>
+      {canEdit && editorMode === "markdown" && <Card>
         <CardContent className="p-3">
           <div className="flex flex-wrap items-center gap-2">
             <Button variant="ghost" size="sm" onClick={() => insertFormatting("bold")}>
@@ -128,22 +394,75 @@ export function NoteEditor({
             </Button>
           </div>
         </CardContent>
-      </Card>
+      </Card>}
 
       {/* Content Editor */}
-      <div className="space-y-4">
-        <Textarea placeholder="Start writing your note... (Paste YouTube URLs to auto-detect transcript extraction)" value={note.content} onChange={e => setNote(prev => ({
+      {editorMode === "blocks" ? <BlockEditor value={note.content} readOnly={!canEdit} currentVideo={currentVideo} placeholder="Start writing, or type # for a heading, - for a list, [] for a checklist, [[ to link a note..." onChange={content => setNote(prev => ({
+        ...prev,
+        content
+      }))} /> : <div className="relative">
+        <Textarea placeholder="Start writing your note... (Paste YouTube URLs to auto-detect transcript extraction)" value={note.content} readOnly={!canEdit} onChange={e => setNote(prev => ({
         ...prev,
         content: e.target.value
-      }))} className="min-h-[300px] resize-none" rows={isMobile ? 12 : 15} />
+      }))} onSelect={e => collaboration.updateSelection({
+        start: e.currentTarget.selectionStart,
+        end: e.currentTarget.selectionEnd
+      })} onBlur={() => collaboration.updateSelection(null)} className="min-h-[300px] resize-none" rows={isMobile ? 12 : 15} ref={textareaRef} />
+        {isShared && <CollaboratorCursors textareaRef={textareaRef} text={note.content} collaborators={collaboration.peers} />}
+      </div>}
+      </div>
+      </WikiLinkAutocomplete>}
+
+      {/* Preview */}
+      {view !== "edit" && <div className="min-w-0 rounded-md border border-border p-4">
+          {note.content.trim() ? <MarkdownRenderer content={note.content} onTimestampClick={onTimestampClick} resolveNoteTitle={resolveNoteTitle} onContentChange={canEdit ? content => setNote(prev => ({
+          ...prev,
+          content
+        })) : undefined} /> : <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>}
+        </div>}
       </div>
 
       {/* Tags */}
-      <TagSelector selectedTags={note.tags} onChange={handleTagChange} />
+      {isOwner && <TagSelector selectedTags={note.tags} onChange={handleTagChange} />}
 
-      {/* Save Button */}
+      {/* Save Status */}
       <div className="flex justify-end">
-        
+        {conflict ? (
+          <div className="flex items-center gap-3 text-sm text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="h-4 w-4" />
+            Not saved: this note was changed elsewhere.
+            <Button variant="outline" size="sm" onClick={() => setIsMergeOpen(true)}>
+              Resolve
+            </Button>
+          </div>
+        ) : isShared && canEdit && !collaboration.isSaver ? (
+          <span className="text-xs text-muted-foreground">
+            Changes are saved by {collaboration.peers.find(peer => peer.role === "owner")?.email ?? "another editor"}
+          </span>
+        ) : canEdit && initialNote?.id && initialNote.updated_at ? (
+          <span className="flex items-center gap-2 text-xs text-muted-foreground">
+            {autoSave.isSaving && <Loader2 className="h-3 w-3 animate-spin" />}
+            {autoSave.isSaving ? "Saving..." : autoSave.hasChanges ? "Unsaved changes" : "All changes saved"}
+          </span>
+        ) : null}
       </div>
+
+      {conflict && (
+        <NoteMergeDialog
+          key={conflict.updated_at}
+          open={isMergeOpen}
+          onOpenChange={setIsMergeOpen}
+          base={saved}
+          mine={note}
+          theirs={conflict}
+          onKeepMine={() => resolveConflict({})}
+          onTakeTheirs={() => resolveConflict({
+            title: conflict.title,
+            content: conflict.content || "",
+            tags: conflict.tags.map(tag => tag.id)
+          })}
+          onCombine={resolveConflict}
+        />
+      )}
     </div>;
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, GitMerge } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { TextDiff } from "@/components/TextDiff";
+import { hasConflictMarkers, mergeLines } from "@/lib/textDiff";
+import type { NoteWithTags } from "@/lib/api";
+
+interface NoteDraft {
+  title: string;
+  content: string;
+}
+
+interface NoteMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The note both edits started from
+  base: NoteDraft;
+  mine: NoteDraft;
+  // The note as saved elsewhere
+  theirs: NoteWithTags;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onCombine: (note: NoteDraft) => void;
+}
+
+const mergeTitle = (base: string, mine: string, theirs: string) =>
+  mine === base ? theirs : mine;
+
+export function NoteMergeDialog({
+  open,
+  onOpenChange,
+  base,
+  mine,
+  theirs,
+  onKeepMine,
+  onTakeTheirs,
+  onCombine
+}: NoteMergeDialogProps) {
+  const theirsContent = theirs.content ?? "";
+  const merged = useMemo(
+    () => mergeLines(base.content, mine.content, theirsContent),
+    [base.content, mine.content, theirsContent]
+  );
+  const [combinedTitle, setCombinedTitle] = useState(() => mergeTitle(base.title, mine.title, theirs.title));
+  const [combinedContent, setCombinedContent] = useState(merged.text);
+  const titlesConflict = mine.title !== base.title && theirs.title !== base.title && mine.title !== theirs.title;
+  const unresolved = hasConflictMarkers(combinedContent);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-primary" />
+            This note was changed elsewhere
+          </DialogTitle>
+          <DialogDescription>
+            It was saved {formatDistanceToNow(new Date(theirs.updated_at), { addSuffix: true })} in another tab or
+            on another device while you were editing. Your changes have not been saved yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="combined" className="flex-1 min-h-0 flex flex-col">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="combined">
+              Combined
+              {merged.conflicts > 0 && (
+                <Badge variant="destructive" className="ml-2 text-xs">{merged.conflicts}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="mine">Your changes</TabsTrigger>
+            <TabsTrigger value="theirs">Other changes</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="combined" className="space-y-3">
+            {(unresolved || titlesConflict) && (
+              <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-200">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>
+                  {unresolved
+                    ? "Both versions changed the same lines. Keep the text you want between the <<<<<<< and >>>>>>> markers and remove the markers."
+                    : "Both versions renamed the note; your title is used."}
+                </p>
+              </div>
+            )}
+            <Input value={combinedTitle} onChange={e => setCombinedTitle(e.target.value)} className="font-medium" />
+            <Textarea
+              value={combinedContent}
+              onChange={e => setCombinedContent(e.target.value)}
+              className="min-h-[320px] font-mono text-sm"
+            />
+          </TabsContent>
+
+          <TabsContent value="mine">
+            <ScrollArea className="h-[400px] rounded-md border">
+              <div className="p-4">
+                <TextDiff oldText={base.content} newText={mine.content} />
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="theirs">
+            <ScrollArea className="h-[400px] rounded-md border">
+              <div className="p-4">
+                <TextDiff oldText={base.content} newText={theirsContent} />
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onTakeTheirs}>
+            Discard mine
+          </Button>
+          <Button variant="outline" onClick={onKeepMine}>
+            Overwrite with mine
+          </Button>
+          <Button
+            onClick={() => onCombine({ title: combinedTitle, content: combinedContent })}
+            disabled={unresolved}
+          >
+            Save combined
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
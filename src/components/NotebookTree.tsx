@@ -0,0 +1,207 @@
+import { DragEvent, ReactNode, useState } from "react";
+import { Link } from "react-router-dom";
+import { BookOpen, ChevronDown, ChevronRight } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Notebook, NotebookNoteCount, useMoveNotebook } from "@/lib/api";
+import {
+  buildNotebookTree,
+  filterNotebookTree,
+  getNotebookMove,
+  NotebookDropPosition,
+  NotebookTreeNode,
+} from "@/lib/notebookTree";
+import { cn } from "@/lib/utils";
+
+interface NotebookTreeProps {
+  notebooks: Notebook[];
+  counts?: Record<string, NotebookNoteCount>;
+  // Shows the matching notebooks and the ones they are in
+  matches?: (notebook: Notebook) => boolean;
+  activeId?: string | null;
+  dense?: boolean;
+  renderActions?: (notebook: Notebook) => ReactNode;
+}
+
+interface DropTarget {
+  id: string | null;
+  position: NotebookDropPosition;
+}
+
+// Where on the row the pointer is: the top and bottom quarters drop beside it,
+// the middle drops inside it
+const dropPositionAt = (event: DragEvent<HTMLElement>): NotebookDropPosition => {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const offset = (event.clientY - rect.top) / rect.height;
+  return offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside";
+};
+
+const notebookNotesPath = (notebook: Notebook) => `/dashboard?notebook=${notebook.id}`;
+
+// Notebooks as a tree; drag a notebook onto another to move it inside, or
+// onto its top or bottom edge to put it before or after
+export function NotebookTree({ notebooks, counts, matches, activeId, dense = false, renderActions }: NotebookTreeProps) {
+  const { toast } = useToast();
+  const moveNotebookMutation = useMoveNotebook();
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const tree = buildNotebookTree(notebooks);
+  const nodes = matches ? filterNotebookTree(tree, matches) : tree;
+
+  const toggle = (id: string) => {
+    setCollapsedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const move = (id: string, parentId: string | null, position: number) => {
+    if (parentId) {
+      setCollapsedIds(current => {
+        const next = new Set(current);
+        next.delete(parentId);
+        return next;
+      });
+    }
+    moveNotebookMutation.mutate({ id, parentId, position }, {
+      onError: (error) => {
+        console.error("Move notebook error:", error);
+        toast({
+          title: "Error moving notebook",
+          description: "The notebook could not be moved. Please try again.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLElement>, notebook: Notebook) => {
+    if (!draggedId) return;
+    const position = dropPositionAt(event);
+    if (!getNotebookMove(notebooks, draggedId, notebook.id, position)) {
+      setDropTarget(null);
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    if (dropTarget?.id !== notebook.id || dropTarget.position !== position) {
+      setDropTarget({ id: notebook.id, position });
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, notebook: Notebook) => {
+    event.preventDefault();
+    const moveTo = draggedId && getNotebookMove(notebooks, draggedId, notebook.id, dropPositionAt(event));
+    if (draggedId && moveTo) move(draggedId, moveTo.parentId, moveTo.position);
+    endDrag();
+  };
+
+  const draggedNotebook = notebooks.find(notebook => notebook.id === draggedId);
+  const topLevelCount = notebooks.filter(notebook => !notebook.parent_id && notebook.id !== draggedId).length;
+
+  const renderNode = (node: NotebookTreeNode<Notebook>): ReactNode => {
+    const { notebook } = node;
+    const isCollapsed = collapsedIds.has(notebook.id) && !matches;
+    const isTarget = dropTarget?.id === notebook.id;
+    const count = counts?.[notebook.id];
+
+    return (
+      <li key={notebook.id}>
+        <div
+          draggable
+          onDragStart={(event) => {
+            event.dataTransfer.setData("text/plain", notebook.id);
+            event.dataTransfer.effectAllowed = "move";
+            setDraggedId(notebook.id);
+          }}
+          onDragOver={(event) => handleDragOver(event, notebook)}
+          onDragLeave={() => isTarget && setDropTarget(null)}
+          onDrop={(event) => handleDrop(event, notebook)}
+          onDragEnd={endDrag}
+          className={cn(
+            "group relative flex items-center gap-1 rounded-md pr-1 transition-colors",
+            dense ? "h-8 text-sm" : "h-11",
+            activeId === notebook.id ? "bg-sidebar-accent" : "hover:bg-muted/60",
+            draggedId === notebook.id && "opacity-50",
+            isTarget && dropTarget?.position === "inside" && "ring-2 ring-primary ring-inset",
+            isTarget && dropTarget?.position === "before" && "before:absolute before:inset-x-0 before:-top-px before:h-0.5 before:bg-primary",
+            isTarget && dropTarget?.position === "after" && "after:absolute after:inset-x-0 after:-bottom-px after:h-0.5 after:bg-primary"
+          )}
+          style={{ paddingLeft: node.depth * (dense ? 12 : 20) + 4 }}
+        >
+          <button
+            type="button"
+            className={cn(
+              "flex h-5 w-5 shrink-0 items-center justify-center rounded text-muted-foreground hover:text-foreground",
+              node.children.length === 0 && "invisible"
+            )}
+            onClick={() => toggle(notebook.id)}
+            aria-label={isCollapsed ? `Expand ${notebook.name}` : `Collapse ${notebook.name}`}
+          >
+            {isCollapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+          </button>
+          <Link
+            to={notebookNotesPath(notebook)}
+            className="flex min-w-0 flex-1 items-center gap-2 self-stretch"
+            draggable={false}
+          >
+            <BookOpen className={cn("shrink-0", dense ? "h-4 w-4" : "h-5 w-5")} />
+            <span className={cn("truncate", !dense && "font-medium")}>{notebook.name}</span>
+          </Link>
+          {count && count.total_count > 0 && (
+            <span
+              className="shrink-0 text-xs tabular-nums text-muted-foreground"
+              title={count.total_count === count.note_count
+                ? `${count.note_count} notes`
+                : `${count.note_count} notes here, ${count.total_count} including notebooks inside`}
+            >
+              {count.total_count}
+            </span>
+          )}
+          {renderActions?.(notebook)}
+        </div>
+        {node.children.length > 0 && !isCollapsed && (
+          <ul>{node.children.map(renderNode)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      <ul className={dense ? "space-y-0.5" : "space-y-1"}>{nodes.map(renderNode)}</ul>
+      {draggedNotebook?.parent_id && (
+        <div
+          onDragOver={(event) => {
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "move";
+            setDropTarget({ id: null, position: "after" });
+          }}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(event) => {
+            event.preventDefault();
+            move(draggedNotebook.id, null, topLevelCount);
+            endDrag();
+          }}
+          className={cn(
+            "mt-1 rounded-md border border-dashed px-2 py-1.5 text-center text-xs text-muted-foreground",
+            dropTarget?.id === null && "border-primary text-primary"
+          )}
+        >
+          Move to top level
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Search, Plus, FileText, Play, Video, ChevronLeft, ChevronRight, Upload, MoreHorizontal, Trash2, Sparkles } from "lucide-react";
+import { Search, Plus, FileText, Play, Video, ChevronLeft, ChevronRight, Upload, MoreHorizontal, Trash2, Sparkles, X, Users } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,30 +8,51 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
-import { useDeleteNote } from "@/lib/api";
+import { NoteShareRole, useDeleteNote } from "@/lib/api";
+import { Json } from "@/integrations/supabase/types";
+import { getTaskProgress } from "@/lib/tasks";
+import { TaskProgress } from "@/components/TaskProgress";
+import { BulkTagMenu } from "@/components/BulkTagMenu";
 import { useToast } from "@/hooks/use-toast";
+import { describeNoteQuery, removeQueryToken } from "@/lib/search/noteQuery";
 interface Note {
   id: string;
   title: string;
   content: string | null;
+  notebook_id: string | null;
   created_at: string;
   updated_at: string;
   thumbnail?: string | null;
   source_url?: string | null;
   is_transcription?: boolean;
+  task_progress?: Json | null;
   tags: Array<{
     id: string;
     name: string;
     color: string;
   }>;
 }
+const SHARED_ROLE_LABELS: Record<NoteShareRole, string> = {
+  viewer: "View",
+  commenter: "Comment",
+  editor: "Edit"
+};
 interface NotesListPanelProps {
   notes: Note[];
+  // Other users' notes shared with this user, listed after their own
+  sharedNotes?: Array<Note & {
+    role: NoteShareRole;
+  }>;
   selectedNoteId: string | null;
   onNoteSelect: (noteId: string) => void;
   onNewNote: () => void;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  // The notebook the list is limited to, with the notebooks inside it
+  notebookFilter?: {
+    label: string;
+    onClear: () => void;
+  };
   isLoading?: boolean;
   onImport?: () => void;
   isCollapsed?: boolean;
@@ -43,11 +64,13 @@ interface NotesListPanelProps {
 }
 export function NotesListPanel({
   notes,
+  sharedNotes = [],
   selectedNoteId,
   onNoteSelect,
   onNewNote,
   searchQuery,
   onSearchChange,
+  notebookFilter,
   isLoading,
   onImport,
   isCollapsed = false,
@@ -62,6 +85,7 @@ export function NotesListPanel({
   } = useToast();
   const deleteNoteMutation = useDeleteNote();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const filterChips = describeNoteQuery(searchQuery);
   const handleBulkDeleteConfirm = async () => {
     try {
       for (const noteId of selectedNoteIds) {
@@ -106,6 +130,58 @@ export function NotesListPanel({
         <FileText className="h-4 w-4 text-primary" />
       </div>;
   };
+  const renderNoteCard = (note: Note, sharedRole?: NoteShareRole) => <Card key={note.id} className={cn("p-4 cursor-pointer transition-all duration-200 border group hover:shadow-md", selectedNoteId === note.id && !isSelectMode ? "bg-primary/5 border-primary/30 shadow-sm ring-1 ring-primary/20" : "hover:bg-muted/30 border-border/50 hover:border-border", selectedNoteIds.includes(note.id) && isSelectMode ? "bg-primary/5 border-primary/30 ring-1 ring-primary/20" : "")} onClick={() => onNoteSelect(note.id)}>
+      <div className="flex gap-3">
+        {/* Enhanced Checkbox for select mode */}
+        {isSelectMode && <div className="flex items-center pt-1">
+            <Checkbox checked={selectedNoteIds.includes(note.id)} onClick={e => e.stopPropagation()} onChange={() => onNoteSelect(note.id)} className="border-primary/50" />
+          </div>}
+        
+        {/* Enhanced Note Icon/Thumbnail */}
+        {renderNoteIcon(note)}
+        
+        {/* Enhanced Note Content */}
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-start justify-between">
+            <h3 className="font-medium text-sm text-foreground line-clamp-2 flex-1 group-hover:text-primary/80 transition-colors">
+              {note.title || "Untitled Note"}
+            </h3>
+          </div>
+          
+          {note.content && <p className="text-xs text-muted-foreground line-clamp-2 leading-relaxed">
+              {note.content.length > 120 ? `${note.content.substring(0, 120)}...` : note.content}
+            </p>}
+
+          <TaskProgress {...getTaskProgress(note)} />
+          
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">
+              {formatDistanceToNow(new Date(note.updated_at), {
+          addSuffix: true
+        })}
+            </span>
+            <div className="flex items-center gap-1">
+              {sharedRole && <Badge variant="secondary" className="text-xs px-2 h-5">
+                  <Users className="h-2 w-2 mr-1" />
+                  {SHARED_ROLE_LABELS[sharedRole]}
+                </Badge>}
+              {note.is_transcription && <Badge variant="secondary" className="text-xs px-2 h-5 bg-red-50 text-red-600 border-red-200">
+                  <Video className="h-2 w-2 mr-1" />
+                  Video
+                </Badge>}
+              {note.tags.length > 0 && <div className="flex gap-1">
+                  {note.tags.slice(0, 1).map(tag => <Badge key={tag.id} variant="outline" className="text-xs px-2 h-5">
+                      {tag.name}
+                    </Badge>)}
+                  {note.tags.length > 1 && <Badge variant="outline" className="text-xs px-2 h-5">
+                      +{note.tags.length - 1}
+                    </Badge>}
+                </div>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </Card>;
   if (isCollapsed) {
     return <div className="flex flex-col h-full bg-background/50 border-r border-border">
         <div className="p-3 border-b border-border flex justify-center">
@@ -153,7 +229,9 @@ export function NotesListPanel({
             <span className="text-sm font-medium text-primary">
               {selectedNoteIds.length} note{selectedNoteIds.length !== 1 ? 's' : ''} selected
             </span>
-            {selectedNoteIds.length > 0 && <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
+            {selectedNoteIds.length > 0 && <div className="flex items-center gap-2">
+              <BulkTagMenu notes={notes.filter(note => selectedNoteIds.includes(note.id))} />
+              <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
                 <AlertDialogTrigger asChild>
                   <Button size="sm" variant="destructive" className="shadow-sm">
                     <Trash2 className="h-4 w-4 mr-2" />
@@ -174,13 +252,30 @@ export function NotesListPanel({
                     </AlertDialogAction>
                   </AlertDialogFooter>
                 </AlertDialogContent>
-              </AlertDialog>}
+              </AlertDialog>
+            </div>}
           </div>}
         
         {/* Enhanced Search */}
         {!isSelectMode && <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input placeholder="Search notes..." value={searchQuery} onChange={e => onSearchChange(e.target.value)} className="pl-10 bg-background/50 border-border/50 focus:border-primary/50 transition-colors" />
+            <Input placeholder="Search or filter, e.g. tag:ml is:video" value={searchQuery} onChange={e => onSearchChange(e.target.value)} className="pl-10 bg-background/50 border-border/50 focus:border-primary/50 transition-colors" />
+          </div>}
+
+        {/* Active query filters */}
+        {!isSelectMode && (filterChips.length > 0 || notebookFilter) && <div className="flex flex-wrap gap-1">
+            {notebookFilter && <Badge variant="secondary" className="text-xs px-2 h-6 gap-1 max-w-full">
+                <span className="truncate">{notebookFilter.label}</span>
+                <button type="button" aria-label="Remove notebook filter" onClick={notebookFilter.onClear} className="hover:text-foreground">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>}
+            {filterChips.map(chip => <Badge key={chip.token} variant="secondary" className="text-xs px-2 h-6 gap-1">
+                {chip.label}
+                <button type="button" aria-label={`Remove ${chip.label} filter`} onClick={() => onSearchChange(removeQueryToken(searchQuery, chip.token))} className="hover:text-foreground">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>)}
           </div>}
       </div>
 
@@ -191,7 +286,15 @@ export function NotesListPanel({
               <div className="h-4 w-4 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
               Loading notes...
             </div>
-          </div> : notes.length === 0 ? <div className="p-8 text-center space-y-4">
+          </div> : notes.length === 0 && sharedNotes.length === 0 && searchQuery.trim() ? <div className="p-8 text-center space-y-2">
+            <div className="bg-muted/30 rounded-full p-6 w-fit mx-auto">
+              <Search className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="font-medium text-foreground">No matching notes</h3>
+            <p className="text-sm text-muted-foreground">
+              Try removing a filter or changing your search
+            </p>
+          </div> : notes.length === 0 && sharedNotes.length === 0 ? <div className="p-8 text-center space-y-4">
             <div className="bg-muted/30 rounded-full p-6 w-fit mx-auto">
               <FileText className="h-8 w-8 text-muted-foreground" />
             </div>
@@ -206,52 +309,14 @@ export function NotesListPanel({
               </Button>
             </div>
           </div> : <div className="p-3 space-y-2">
-            {notes.map(note => <Card key={note.id} className={cn("p-4 cursor-pointer transition-all duration-200 border group hover:shadow-md", selectedNoteId === note.id && !isSelectMode ? "bg-primary/5 border-primary/30 shadow-sm ring-1 ring-primary/20" : "hover:bg-muted/30 border-border/50 hover:border-border", selectedNoteIds.includes(note.id) && isSelectMode ? "bg-primary/5 border-primary/30 ring-1 ring-primary/20" : "")} onClick={() => onNoteSelect(note.id)}>
-                <div className="flex gap-3">
-                  {/* Enhanced Checkbox for select mode */}
-                  {isSelectMode && <div className="flex items-center pt-1">
-                      <Checkbox checked={selectedNoteIds.includes(note.id)} onClick={e => e.stopPropagation()} onChange={() => onNoteSelect(note.id)} className="border-primary/50" />
-                    </div>}
-                  
-                  {/* Enhanced Note Icon/Thumbnail */}
-                  {renderNoteIcon(note)}
-                  
-                  {/* Enhanced Note Content */}
-                  <div className="flex-1 min-w-0 space-y-2">
-                    <div className="flex items-start justify-between">
-                      <h3 className="font-medium text-sm text-foreground line-clamp-2 flex-1 group-hover:text-primary/80 transition-colors">
-                        {note.title || "Untitled Note"}
-                      </h3>
-                    </div>
-                    
-                    {note.content && <p className="text-xs text-muted-foreground line-clamp-2 leading-relaxed">
-                        {note.content.length > 120 ? `${note.content.substring(0, 120)}...` : note.content}
-                      </p>}
-                    
-                    <div className="flex items-center justify-between text-xs">
-                      <span className="text-muted-foreground">
-                        {formatDistanceToNow(new Date(note.updated_at), {
-                    addSuffix: true
-                  })}
-                      </span>
-                      <div className="flex items-center gap-1">
-                        {note.is_transcription && <Badge variant="secondary" className="text-xs px-2 h-5 bg-red-50 text-red-600 border-red-200">
-                            <Video className="h-2 w-2 mr-1" />
-                            Video
-                          </Badge>}
-                        {note.tags.length > 0 && <div className="flex gap-1">
-                            {note.tags.slice(0, 1).map(tag => <Badge key={tag.id} variant="outline" className="text-xs px-2 h-5">
-                                {tag.name}
-                              </Badge>)}
-                            {note.tags.length > 1 && <Badge variant="outline" className="text-xs px-2 h-5">
-                                +{note.tags.length - 1}
-                              </Badge>}
-                          </div>}
-                      </div>
-                    </div>
-                  </div>
+            {notes.map(note => renderNoteCard(note))}
+            {sharedNotes.length > 0 && !isSelectMode && <>
+                <div className="flex items-center gap-2 px-1 pt-4 pb-1 text-xs font-medium text-muted-foreground">
+                  <Users className="h-3 w-3" />
+                  Shared with me
                 </div>
-              </Card>)}
+                {sharedNotes.map(note => renderNoteCard(note, note.role))}
+              </>}
           </div>}
       </div>
     </div>;
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, addHours, format, formatDistanceToNow, nextMonday, setHours, startOfHour } from "date-fns";
+import { AlarmClock, Bell, BellRing, CalendarClock, CheckCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AppNotification,
+  useDeleteNotification,
+  useMarkNotificationsRead,
+  useNotifications,
+  useSnoozeNotification,
+} from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+const morning = (date: Date) => startOfHour(setHours(date, 9));
+
+const SNOOZE_OPTIONS: { label: string; until: () => Date }[] = [
+  { label: "1 hour", until: () => addHours(new Date(), 1) },
+  { label: "Tomorrow morning", until: () => morning(addDays(new Date(), 1)) },
+  { label: "Next week", until: () => morning(nextMonday(new Date())) },
+];
+
+// Reminders and due dates delivered by the scheduler
+export function NotificationCenter() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const { data: notifications = [] } = useNotifications();
+  const markReadMutation = useMarkNotificationsRead();
+  const snoozeMutation = useSnoozeNotification();
+  const deleteMutation = useDeleteNotification();
+
+  const unread = notifications.filter(notification => !notification.read_at);
+
+  const showError = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    toast({ title, description: "Please try again.", variant: "destructive" });
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markReadMutation.mutate([notification.id], { onError: showError("Error updating notification") });
+    }
+    setOpen(false);
+    navigate(`/note/${notification.note_id}`);
+  };
+
+  const handleSnooze = (notification: AppNotification, until: Date) => {
+    snoozeMutation.mutate({ id: notification.id, until }, {
+      onSuccess: () => toast({ title: "Snoozed", description: `Until ${format(until, "PPP 'at' p")}` }),
+      onError: showError("Error snoozing notification"),
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white">
+              {unread.length > 9 ? "9+" : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <h3 className="text-sm font-medium">Notifications</h3>
+          {unread.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => markReadMutation.mutate(unread.map(notification => notification.id), {
+                onError: showError("Error updating notifications"),
+              })}
+              disabled={markReadMutation.isPending}
+            >
+              <CheckCheck className="h-3.5 w-3.5 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 p-6 text-center text-sm text-muted-foreground">
+            <Bell className="h-6 w-6" />
+            Reminders and due dates you set on notes show up here.
+          </div>
+        ) : (
+          <ul className="max-h-96 divide-y divide-border overflow-y-auto">
+            {notifications.map(notification => {
+              const Icon = notification.kind === "reminder" ? BellRing : CalendarClock;
+              return (
+                <li
+                  key={notification.id}
+                  className={cn("group flex items-start gap-2 px-3 py-2", !notification.read_at && "bg-primary/5")}
+                >
+                  <button
+                    type="button"
+                    className="flex min-w-0 flex-1 items-start gap-2 text-left"
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <Icon className={cn("mt-0.5 h-4 w-4 shrink-0", notification.kind === "due" ? "text-red-500" : "text-primary")} />
+                    <span className="min-w-0">
+                      <span className={cn("block truncate text-sm", !notification.read_at && "font-medium")}>
+                        {notification.title || "Untitled Note"}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {notification.kind === "reminder" ? "Reminder" : "Due"} ·{" "}
+                        {formatDistanceToNow(new Date(notification.delivered_at), { addSuffix: true })}
+                      </span>
+                    </span>
+                  </button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" aria-label="Snooze">
+                        <AlarmClock className="h-3.5 w-3.5" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {SNOOZE_OPTIONS.map(option => (
+                        <DropdownMenuItem key={option.label} onClick={() => handleSnooze(notification, option.until())}>
+                          {option.label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    aria-label="Dismiss"
+                    onClick={() => deleteMutation.mutate(notification.id, {
+                      onError: showError("Error dismissing notification"),
+                    })}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
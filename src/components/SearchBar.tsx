@@ -1,21 +1,17 @@
 
-import { useState, useRef, useEffect } from "react";
-import { Search, X, Bot } from "lucide-react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Search, X, Bot, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
-import { useNotes } from "@/lib/api";
+import { useSearchNotes } from "@/lib/api";
+import { HighlightedSnippet } from "@/components/search/HighlightedSnippet";
+import { parseNoteQuery, toNoteSearchFilters, describeNoteQuery } from "@/lib/search/noteQuery";
 
-interface SearchResult {
-  id: string;
-  title: string;
-  content: string | null;
-  relevance: number;
-  snippet: string;
-}
+const MAX_DROPDOWN_RESULTS = 8;
 
 interface SearchBarProps {
   onNoteSelect?: (noteId: string) => void;
@@ -25,10 +21,24 @@ interface SearchBarProps {
 export function SearchBar({ onNoteSelect, className }: SearchBarProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [debouncedQuery, setDebouncedQuery] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const { data: notes } = useNotes();
+  const parsedQuery = useMemo(() => parseNoteQuery(debouncedQuery), [debouncedQuery]);
+  const searchFilters = useMemo(
+    () => ({ ...toNoteSearchFilters(parsedQuery), limit: MAX_DROPDOWN_RESULTS }),
+    [parsedQuery]
+  );
+  const filterChips = useMemo(() => describeNoteQuery(debouncedQuery), [debouncedQuery]);
+  const { data: searchData, isFetching } = useSearchNotes(parsedQuery.text, searchFilters);
+  const hasSearchableQuery = parsedQuery.text.trim().length >= 2 || filterChips.length > 0;
+  const searchResults = hasSearchableQuery ? searchData?.results ?? [] : [];
+  const totalResults = hasSearchableQuery ? searchData?.total ?? 0 : 0;
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(searchQuery), 200);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
 
   useEffect(() => {
     if (isExpanded && inputRef.current) {
@@ -41,7 +51,6 @@ export function SearchBar({ onNoteSelect, className }: SearchBarProps) {
       if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
         setIsExpanded(false);
         setSearchQuery("");
-        setSearchResults([]);
       }
     };
 
@@ -54,62 +63,14 @@ export function SearchBar({ onNoteSelect, className }: SearchBarProps) {
     };
   }, [isExpanded]);
 
-  const searchNotes = (query: string) => {
-    if (!notes || !query.trim()) {
-      setSearchResults([]);
-      return;
-    }
-
-    const results = notes
-      .map(note => {
-        const titleMatch = note.title.toLowerCase().includes(query.toLowerCase());
-        const contentMatch = note.content?.toLowerCase().includes(query.toLowerCase()) || false;
-        
-        if (!titleMatch && !contentMatch) return null;
-
-        // Calculate relevance score
-        let relevance = 0;
-        if (titleMatch) relevance += 2;
-        if (contentMatch) relevance += 1;
-
-        // Create snippet
-        let snippet = '';
-        if (note.content) {
-          const queryIndex = note.content.toLowerCase().indexOf(query.toLowerCase());
-          if (queryIndex !== -1) {
-            const start = Math.max(0, queryIndex - 50);
-            const end = Math.min(note.content.length, queryIndex + query.length + 50);
-            snippet = '...' + note.content.substring(start, end) + '...';
-          } else {
-            snippet = note.content.substring(0, 100) + '...';
-          }
-        }
-
-        return {
-          id: note.id,
-          title: note.title,
-          content: note.content,
-          relevance,
-          snippet
-        };
-      })
-      .filter(Boolean)
-      .sort((a, b) => b!.relevance - a!.relevance)
-      .slice(0, 8) as SearchResult[];
-
-    setSearchResults(results);
-  };
-
   const handleSearch = (query: string) => {
     setSearchQuery(query);
-    searchNotes(query);
   };
 
   const handleResultClick = (noteId: string) => {
     onNoteSelect?.(noteId);
     setIsExpanded(false);
     setSearchQuery("");
-    setSearchResults([]);
   };
 
   const handleInputFocus = () => {
@@ -123,7 +84,7 @@ export function SearchBar({ onNoteSelect, className }: SearchBarProps) {
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
           ref={inputRef}
-          placeholder="Search notes..."
+          placeholder='Search notes... (try tag:ml is:video "exact phrase")'
           value={searchQuery}
           onChange={(e) => handleSearch(e.target.value)}
           onFocus={handleInputFocus}
@@ -137,10 +98,7 @@ export function SearchBar({ onNoteSelect, className }: SearchBarProps) {
             variant="ghost"
             size="icon"
             className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8"
-            onClick={() => {
-              setSearchQuery("");
-              setSearchResults([]);
-            }}
+            onClick={() => setSearchQuery("")}
           >
             <X className="h-4 w-4" />
           </Button>
@@ -150,12 +108,23 @@ export function SearchBar({ onNoteSelect, className }: SearchBarProps) {
       {/* Search Results Dropdown */}
       {isExpanded && (
         <Card className="absolute top-full left-0 right-0 mt-2 z-50 shadow-lg border bg-background/95 backdrop-blur-sm">
+          {filterChips.length > 0 && (
+            <div className="flex flex-wrap gap-1 px-4 pt-3">
+              {filterChips.map((chip) => (
+                <Badge key={chip.token} variant="outline" className="text-xs">
+                  {chip.label}
+                </Badge>
+              ))}
+            </div>
+          )}
           {searchResults.length > 0 ? (
             <ScrollArea className="max-h-80">
               <div className="p-2">
                 <div className="flex items-center justify-between px-2 py-1 mb-2">
                   <span className="text-xs font-medium text-muted-foreground">
-                    {searchResults.length} result{searchResults.length !== 1 ? 's' : ''} found
+                    {totalResults > searchResults.length
+                      ? `Top ${searchResults.length} of ${totalResults} results`
+                      : `${totalResults} result${totalResults !== 1 ? 's' : ''} found`}
                   </span>
                   <Badge variant="secondary" className="text-xs">
                     <Bot className="h-3 w-3 mr-1" />
@@ -174,19 +143,24 @@ export function SearchBar({ onNoteSelect, className }: SearchBarProps) {
                           {result.title}
                         </h4>
                         <Badge variant="outline" className="text-xs ml-2 flex-shrink-0">
-                          {result.relevance === 3 ? 'Perfect' : result.relevance === 2 ? 'Good' : 'Match'}
+                          {result.rank >= 0.5 ? 'Perfect' : result.rank >= 0.2 ? 'Good' : 'Match'}
                         </Badge>
                       </div>
                       {result.snippet && (
-                        <p className="text-xs text-muted-foreground line-clamp-2 leading-relaxed">
-                          {result.snippet}
-                        </p>
+                        <HighlightedSnippet
+                          snippet={result.snippet}
+                          className="text-xs text-muted-foreground line-clamp-2 leading-relaxed"
+                        />
                       )}
                     </div>
                   ))}
                 </div>
               </div>
             </ScrollArea>
+          ) : searchQuery && (isFetching || searchQuery !== debouncedQuery) ? (
+            <div className="p-6 flex justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
           ) : searchQuery ? (
             <div className="p-6 text-center">
               <Search className="h-8 w-8 mx-auto mb-2 text-muted-foreground/50" />
@@ -197,7 +171,7 @@ export function SearchBar({ onNoteSelect, className }: SearchBarProps) {
             <div className="p-6 text-center">
               <Search className="h-8 w-8 mx-auto mb-2 text-muted-foreground/50" />
               <p className="text-sm text-muted-foreground">Start typing to search your notes</p>
-              <p className="text-xs text-muted-foreground mt-1">AI-powered search with smart suggestions</p>
+              <p className="text-xs text-muted-foreground mt-1">Ranked full-text search across all your notes</p>
             </div>
           )}
         </Card>
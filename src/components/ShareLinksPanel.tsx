@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { addDays, formatDistanceToNow } from "date-fns";
+import { Ban, Copy, Globe, Link2, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getShareLinkUrl,
+  isShareLinkActive,
+  ShareLink,
+  ShareLinkTarget,
+  useCreateShareLink,
+  useRevokeShareLink,
+  useShareLinks
+} from "@/lib/api";
+
+interface ShareLinksPanelProps {
+  target: ShareLinkTarget;
+}
+
+// Days until a new link expires; "never" keeps it open until revoked
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires" },
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" }
+];
+
+const linkStatus = (link: ShareLink): string => {
+  if (link.revoked_at) return "Revoked";
+  if (!link.expires_at) return "Never expires";
+  const expiresAt = new Date(link.expires_at);
+  return expiresAt > new Date()
+    ? `Expires ${formatDistanceToNow(expiresAt, { addSuffix: true })}`
+    : "Expired";
+};
+
+// Public links for people without an account, for a note or a whole notebook
+export function ShareLinksPanel({ target }: ShareLinksPanelProps) {
+  const { toast } = useToast();
+  const { data: links = [], isLoading } = useShareLinks(target);
+  const createMutation = useCreateShareLink();
+  const revokeMutation = useRevokeShareLink();
+  const [expiry, setExpiry] = useState("never");
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link.token));
+      toast({ title: "Link copied", description: "Anyone with this link can view it without signing in." });
+    } catch (error) {
+      console.error("Error copying share link:", error);
+      toast({
+        title: "Copy failed",
+        description: "Unable to copy to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = () => {
+    const expiresAt = expiry === "never" ? null : addDays(new Date(), Number(expiry)).toISOString();
+    createMutation.mutate({ target, expiresAt }, {
+      onSuccess: copyLink,
+      onError: (error) => {
+        toast({
+          title: "Error creating link",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleRevoke = (link: ShareLink) => {
+    revokeMutation.mutate({ id: link.id, target }, {
+      onSuccess: () => {
+        toast({ title: "Link revoked", description: "The link no longer opens." });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error revoking link",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold flex items-center gap-2">
+          <Globe className="h-4 w-4 text-primary" />
+          Public links
+        </h4>
+        <p className="text-xs text-muted-foreground">
+          Anyone with a link can read, watch and see the saved summary without an account.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleCreate} disabled={createMutation.isPending}>
+          {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+          Create link
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : links.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {links.map(link => {
+            const isActive = isShareLinkActive(link);
+            return (
+              <li key={link.id} className="flex items-center gap-2 px-3 py-2">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <Input
+                    readOnly
+                    value={getShareLinkUrl(link.token)}
+                    className={`h-8 text-xs ${isActive ? "" : "line-through text-muted-foreground"}`}
+                    onFocus={e => e.target.select()}
+                  />
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant={isActive ? "secondary" : "outline"} className="text-[10px]">
+                      {linkStatus(link)}
+                    </Badge>
+                    Created {formatDistanceToNow(new Date(link.created_at), { addSuffix: true })}
+                  </div>
+                </div>
+                {isActive && (
+                  <>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="Copy link" onClick={() => copyLink(link)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      title="Revoke link"
+                      onClick={() => handleRevoke(link)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
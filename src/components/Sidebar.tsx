@@ -1,6 +1,6 @@
 
-import { useState } from "react";
-import { Link, useLocation } from "react-router-dom";
+import { useMemo, useState } from "react";
+import { Link, useLocation, useSearchParams } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import {
@@ -9,24 +9,46 @@ import {
   ChevronRight,
   Hash,
   Home,
+  ListChecks,
+  Network,
   Plus,
   Settings,
+  Sparkles,
   UserRound,
   Bot,
 } from "lucide-react";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { Logo } from "@/components/Logo";
+import { NotificationCenter } from "@/components/NotificationCenter";
+import { NotebookTree } from "@/components/NotebookTree";
+import { SmartNotebookDialog } from "@/components/SmartNotebookDialog";
 import { Separator } from "@/components/ui/separator";
-import { useNotebooks, useTags } from "@/lib/api";
+import { useNotebookNoteCounts, useNotebooks, useNotes, useSmartNotebooks, useTags } from "@/lib/api";
+import { smartNotebookMatcher } from "@/lib/smartNotebooks";
 import { useAuth } from "@/hooks/useAuth";
 
 export function Sidebar() {
   const [collapsed, setCollapsed] = useState(false);
+  const [isSmartNotebookDialogOpen, setIsSmartNotebookDialogOpen] = useState(false);
   const location = useLocation();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
   
   const { data: notebooks, isLoading: notebooksLoading } = useNotebooks();
+  const { data: notebookCounts } = useNotebookNoteCounts();
   const { data: tags, isLoading: tagsLoading } = useTags();
+  const { data: smartNotebooks } = useSmartNotebooks();
+  const { data: notes } = useNotes();
+
+  // Smart notebooks have no stored notes, so they are counted from the
+  // loaded notes and follow every change to them
+  const smartNotebookCounts = useMemo(() => Object.fromEntries(
+    (smartNotebooks || []).map(smart => [
+      smart.id,
+      (notes || []).filter(smartNotebookMatcher(smart.filters, notebooks)).length,
+    ])
+  ), [smartNotebooks, notes, notebooks]);
+  const activeSmartNotebookId = location.pathname === "/dashboard" ? searchParams.get("smart") : null;
 
   const isActive = (path: string) => {
     return location.pathname === path;
@@ -58,6 +80,16 @@ export function Sidebar() {
       icon: <Hash className="h-5 w-5" />,
       path: "/tags",
     },
+    {
+      name: "Tasks",
+      icon: <ListChecks className="h-5 w-5" />,
+      path: "/tasks",
+    },
+    {
+      name: "Graph",
+      icon: <Network className="h-5 w-5" />,
+      path: "/graph",
+    },
     {
       name: "Profile",
       icon: <UserRound className="h-5 w-5" />,
@@ -79,12 +111,17 @@ export function Sidebar() {
     >
       <div className="flex items-center justify-between p-4">
         {!collapsed && <Logo />}
+        {!collapsed && (
+          <div className="ml-auto">
+            <NotificationCenter />
+          </div>
+        )}
         <Button
           variant="ghost"
           size="icon"
           onClick={() => setCollapsed(!collapsed)}
           aria-label={collapsed ? "Expand sidebar" : "Collapse sidebar"}
-          className="ml-auto"
+          className={collapsed ? "ml-auto" : ""}
         >
           {collapsed ? (
             <ChevronRight className="h-5 w-5" />
@@ -136,19 +173,61 @@ export function Sidebar() {
               {notebooksLoading ? (
                 <div className="px-2 py-1 text-sm text-sidebar-foreground/50">Loading...</div>
               ) : notebooks && notebooks.length > 0 ? (
+                <NotebookTree
+                  notebooks={notebooks}
+                  counts={notebookCounts}
+                  activeId={location.pathname === "/dashboard" ? searchParams.get("notebook") : null}
+                  dense
+                />
+              ) : (
+                <div className="px-2 py-1 text-sm text-sidebar-foreground/50">
+                  <Link to="/notebooks" className="hover:underline">Create your first notebook</Link>
+                </div>
+              )}
+            </nav>
+
+            <div className="px-4 mt-4 mb-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium text-sidebar-foreground/70">
+                  Smart Notebooks
+                </h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setIsSmartNotebookDialogOpen(true)}
+                  aria-label="New smart notebook"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <nav className="px-2">
+              {smartNotebooks && smartNotebooks.length > 0 ? (
                 <ul className="space-y-1">
-                  {notebooks.map((notebook) => (
-                    <li key={notebook.id}>
-                      <Button variant="ghost" className="w-full justify-start" size="sm">
-                        <BookOpen className="h-4 w-4 mr-2" />
-                        <span className="truncate">{notebook.name}</span>
-                      </Button>
+                  {smartNotebooks.map((smart) => (
+                    <li key={smart.id}>
+                      <Link to={`/dashboard?smart=${smart.id}`}>
+                        <Button
+                          variant={activeSmartNotebookId === smart.id ? "secondary" : "ghost"}
+                          className={cn("w-full justify-start", activeSmartNotebookId === smart.id && "bg-sidebar-accent")}
+                          size="sm"
+                        >
+                          <Sparkles className="h-4 w-4 mr-2 shrink-0" />
+                          <span className="truncate">{smart.name}</span>
+                          <span className="ml-auto shrink-0 pl-2 text-xs tabular-nums text-muted-foreground">
+                            {smartNotebookCounts[smart.id] ?? 0}
+                          </span>
+                        </Button>
+                      </Link>
                     </li>
                   ))}
                 </ul>
               ) : (
                 <div className="px-2 py-1 text-sm text-sidebar-foreground/50">
-                  <Link to="/notebooks" className="hover:underline">Create your first notebook</Link>
+                  <button type="button" className="hover:underline" onClick={() => setIsSmartNotebookDialogOpen(true)}>
+                    Save a filter as a smart notebook
+                  </button>
                 </div>
               )}
             </nav>
@@ -202,6 +281,8 @@ export function Sidebar() {
           )}
         </div>
       </div>
+
+      <SmartNotebookDialog open={isSmartNotebookDialogOpen} onOpenChange={setIsSmartNotebookDialogOpen} />
     </div>
   );
 }
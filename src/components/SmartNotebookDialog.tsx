@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from "react";
+import { Check, Sparkles } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SmartNotebook,
+  useCreateSmartNotebook,
+  useNotebooks,
+  useNotes,
+  useTags,
+  useUpdateSmartNotebook,
+} from "@/lib/api";
+import { getNotebookPath } from "@/lib/notebookTree";
+import {
+  hasSmartNotebookFilters,
+  SmartNotebookFilters,
+  SmartNotebookKind,
+  smartNotebookMatcher,
+  SmartNotebookTaskFilter,
+} from "@/lib/smartNotebooks";
+import { cn } from "@/lib/utils";
+
+interface SmartNotebookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The smart notebook to edit; a new one is created without it
+  smartNotebook?: SmartNotebook | null;
+}
+
+// Select value for "no filter", as Radix Select does not take an empty value
+const ANY = "any";
+
+const DAY_OPTIONS = [1, 7, 30, 90, 365];
+
+const chipClass = (selected: boolean) => cn(
+  "inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+  selected
+    ? "border-primary bg-primary text-primary-foreground"
+    : "border-dashed border-muted-foreground/50 text-muted-foreground hover:border-primary hover:text-foreground"
+);
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(other => other !== value) : [...values, value];
+
+const dayLabel = (days: number) => days === 1 ? "Last 24 hours" : `Last ${days} days`;
+
+interface DaysSelectProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function DaysSelect({ id, value, onChange }: DaysSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any time</SelectItem>
+        {DAY_OPTIONS.map(days => (
+          <SelectItem key={days} value={String(days)}>{dayLabel(days)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Builds the filters of a smart notebook from the same fields notes are
+// listed with, showing how many notes match while they are picked
+export function SmartNotebookDialog({ open, onOpenChange, smartNotebook }: SmartNotebookDialogProps) {
+  const { toast } = useToast();
+  const { data: tags = [] } = useTags();
+  const { data: notebooks = [] } = useNotebooks();
+  const { data: notes = [] } = useNotes();
+  const createMutation = useCreateSmartNotebook();
+  const updateMutation = useUpdateSmartNotebook();
+  const [name, setName] = useState("");
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [notebookIds, setNotebookIds] = useState<string[]>([]);
+  const [kind, setKind] = useState(ANY);
+  const [createdWithin, setCreatedWithin] = useState(ANY);
+  const [updatedWithin, setUpdatedWithin] = useState(ANY);
+  const [sourceDomains, setSourceDomains] = useState("");
+  const [tasks, setTasks] = useState(ANY);
+  const [text, setText] = useState("");
+
+  // Starts from the notebook being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const filters = smartNotebook?.filters || {};
+    setName(smartNotebook?.name || "");
+    setTagNames(filters.tags || []);
+    setNotebookIds(filters.notebookIds || []);
+    setKind(filters.kind || ANY);
+    setCreatedWithin(filters.createdWithinDays ? String(filters.createdWithinDays) : ANY);
+    setUpdatedWithin(filters.updatedWithinDays ? String(filters.updatedWithinDays) : ANY);
+    setSourceDomains((filters.sourceDomains || []).join(", "));
+    setTasks(filters.tasks || ANY);
+    setText(filters.text || "");
+  }, [open, smartNotebook]);
+
+  const filters = useMemo((): SmartNotebookFilters => {
+    const domains = sourceDomains.split(/[\s,]+/).map(domain => domain.trim().toLowerCase()).filter(Boolean);
+    return {
+      ...(tagNames.length > 0 && { tags: tagNames }),
+      ...(notebookIds.length > 0 && { notebookIds }),
+      ...(kind !== ANY && { kind: kind as SmartNotebookKind }),
+      ...(createdWithin !== ANY && { createdWithinDays: Number(createdWithin) }),
+      ...(updatedWithin !== ANY && { updatedWithinDays: Number(updatedWithin) }),
+      ...(domains.length > 0 && { sourceDomains: domains }),
+      ...(tasks !== ANY && { tasks: tasks as SmartNotebookTaskFilter }),
+      ...(text.trim() !== "" && { text: text.trim() }),
+    };
+  }, [tagNames, notebookIds, kind, createdWithin, updatedWithin, sourceDomains, tasks, text]);
+
+  const matchCount = useMemo(
+    () => notes.filter(smartNotebookMatcher(filters, notebooks)).length,
+    [filters, notes, notebooks]
+  );
+
+  // Tags and notebooks that were deleted since are still shown so they can be removed
+  const tagOptions = [...new Set([...tags.map(tag => tag.name), ...tagNames])].sort((a, b) => a.localeCompare(b));
+  const notebookOptions = notebooks
+    .map(notebook => ({ id: notebook.id, path: getNotebookPath(notebooks, notebook.id) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const handleSave = () => {
+    if (name.trim() === "") {
+      toast({
+        title: "Error",
+        description: "Smart notebook name cannot be empty",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const callbacks = {
+      onSuccess: () => {
+        onOpenChange(false);
+        toast({
+          title: "Success",
+          description: smartNotebook ? "Smart notebook updated successfully" : "Smart notebook created successfully"
+        });
+      },
+      onError: (error: Error) => {
+        console.error("Error saving smart notebook:", error);
+        toast({
+          title: "Error",
+          description: smartNotebook ? "Failed to update smart notebook" : "Failed to create smart notebook",
+          variant: "destructive"
+        });
+      }
+    };
+
+    if (smartNotebook) {
+      updateMutation.mutate({ id: smartNotebook.id, updates: { name: name.trim(), filters } }, callbacks);
+    } else {
+      createMutation.mutate({ name: name.trim(), filters }, callbacks);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            {smartNotebook ? "Edit Smart Notebook" : "New Smart Notebook"}
+          </DialogTitle>
+          <DialogDescription>
+            A smart notebook lists every note matching all of the filters below, including notes added later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="smart-name">Name</Label>
+            <Input id="smart-name" value={name} onChange={e => setName(e.target.value)} placeholder="Recent interviews" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tagged with all of</Label>
+            {tagOptions.length > 0 ? (
+              <div className="flex flex-wrap gap-1.5">
+                {tagOptions.map(tagName => {
+                  const selected = tagNames.includes(tagName);
+                  return (
+                    <button key={tagName} type="button" className={chipClass(selected)} onClick={() => setTagNames(toggle(tagNames, tagName))}>
+                      {selected && <Check className="h-3 w-3" />}
+                      {tagName}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">No tags yet.</p>
+            )}
+            <p className="text-xs text-muted-foreground">A tag also matches the tags nested under it.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>In any of these notebooks</Label>
+            {notebookOptions.length > 0 ? (
+              <div className="flex flex-wrap gap-1.5">
+                {notebookOptions.map(option => {
+                  const selected = notebookIds.includes(option.id);
+                  return (
+                    <button key={option.id} type="button" className={chipClass(selected)} onClick={() => setNotebookIds(toggle(notebookIds, option.id))}>
+                      {selected && <Check className="h-3 w-3" />}
+                      {option.path}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">No notebooks yet.</p>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="smart-kind">Type</Label>
+              <Select value={kind} onValueChange={setKind}>
+                <SelectTrigger id="smart-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="transcription">Transcriptions</SelectItem>
+                  <SelectItem value="note">Notes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smart-tasks">Tasks</Label>
+              <Select value={tasks} onValueChange={setTasks}>
+                <SelectTrigger id="smart-tasks">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="open">Unfinished tasks</SelectItem>
+                  <SelectItem value="done">All tasks done</SelectItem>
+                  <SelectItem value="none">No tasks</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smart-created">Created</Label>
+              <DaysSelect id="smart-created" value={createdWithin} onChange={setCreatedWithin} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smart-updated">Updated</Label>
+              <DaysSelect id="smart-updated" value={updatedWithin} onChange={setUpdatedWithin} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="smart-domains">Source websites</Label>
+            <Input
+              id="smart-domains"
+              value={sourceDomains}
+              onChange={e => setSourceDomains(e.target.value)}
+              placeholder="youtube.com, arxiv.org"
+            />
+            <p className="text-xs text-muted-foreground">Notes imported from any of these sites or their subdomains.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="smart-text">Title or content contains</Label>
+            <Input id="smart-text" value={text} onChange={e => setText(e.target.value)} />
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {hasSmartNotebookFilters(filters)
+              ? `Matches ${matchCount} note${matchCount !== 1 ? "s" : ""} right now.`
+              : `No filters yet: all ${matchCount} note${matchCount !== 1 ? "s" : ""} match.`}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : smartNotebook ? "Save Changes" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { GitMerge, Search } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Tag, TagNoteCount, useMergeTags } from "@/lib/api";
+import { matchesText } from "@/lib/search/noteQuery";
+import { cn } from "@/lib/utils";
+
+interface TagMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tags: Tag[];
+  counts?: Record<string, TagNoteCount>;
+  // Checked when the dialog opens, e.g. a group of likely duplicates
+  initialTagIds?: string[];
+}
+
+// Folds the checked tags into the one kept: its notes gain it and the others
+// are deleted
+export function TagMergeDialog({ open, onOpenChange, tags, counts, initialTagIds = [] }: TagMergeDialogProps) {
+  const { toast } = useToast();
+  const mergeTagsMutation = useMergeTags();
+  const [search, setSearch] = useState("");
+  const [checkedIds, setCheckedIds] = useState<string[]>(initialTagIds);
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  const noteCount = (tag: Tag) => counts?.[tag.id]?.note_count ?? 0;
+  const checkedTags = tags.filter(tag => checkedIds.includes(tag.id));
+  // Keep the most used tag unless another one is picked
+  const target = checkedTags.find(tag => tag.id === targetId)
+    ?? [...checkedTags].sort((a, b) => noteCount(b) - noteCount(a))[0];
+  const sources = checkedTags.filter(tag => tag.id !== target?.id);
+  const visibleTags = tags.filter(tag => checkedIds.includes(tag.id) || matchesText(search, tag.name));
+
+  const toggle = (id: string) => {
+    setCheckedIds(current => current.includes(id) ? current.filter(other => other !== id) : [...current, id]);
+  };
+
+  const handleMerge = () => {
+    if (!target || sources.length === 0) return;
+
+    mergeTagsMutation.mutate({ sourceTagIds: sources.map(tag => tag.id), targetTagId: target.id }, {
+      onSuccess: (taggedCount) => {
+        toast({
+          title: "Tags merged",
+          description: `${sources.length} tag${sources.length !== 1 ? "s" : ""} merged into ${target.name}` +
+            (taggedCount > 0 ? `; ${taggedCount} note${taggedCount !== 1 ? "s" : ""} newly tagged.` : "."),
+        });
+        setCheckedIds([]);
+        setTargetId(null);
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        console.error("Error merging tags:", error);
+        toast({
+          title: "Error",
+          description: "Failed to merge tags",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge Tags
+          </DialogTitle>
+          <DialogDescription>
+            Check the tags to merge and pick the one to keep. Their notes are tagged with it and the other tags are deleted.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search tags..."
+              className="pl-10"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <ScrollArea className="h-56 rounded-md border">
+            <div className="p-1">
+              {visibleTags.map(tag => (
+                <label
+                  key={tag.id}
+                  className="flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted/60"
+                >
+                  <Checkbox checked={checkedIds.includes(tag.id)} onCheckedChange={() => toggle(tag.id)} />
+                  <div className={cn("h-3 w-3 shrink-0 rounded-full", tag.color)} />
+                  <span className="truncate">{tag.name}</span>
+                  <span className="ml-auto shrink-0 text-xs tabular-nums text-muted-foreground">{noteCount(tag)}</span>
+                </label>
+              ))}
+              {visibleTags.length === 0 && (
+                <p className="px-2 py-6 text-center text-sm text-muted-foreground">No tags matching your search</p>
+              )}
+            </div>
+          </ScrollArea>
+          <div className="space-y-2">
+            <Label htmlFor="merge-target">Keep</Label>
+            <Select value={target?.id ?? ""} onValueChange={setTargetId} disabled={checkedTags.length === 0}>
+              <SelectTrigger id="merge-target" className="w-full">
+                <SelectValue placeholder="Check two or more tags" />
+              </SelectTrigger>
+              <SelectContent>
+                {checkedTags.map(tag => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    <div className="flex items-center gap-2">
+                      <div className={cn("h-3 w-3 rounded-full", tag.color)} />
+                      {tag.name}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {target && sources.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {sources.map(tag => tag.name).join(", ")} will be deleted. Tags nested under them keep their names.
+              </p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={sources.length === 0 || mergeTagsMutation.isPending}>
+            {mergeTagsMutation.isPending ? "Merging..." : checkedTags.length > 1 ? `Merge ${checkedTags.length} Tags` : "Merge Tags"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,30 @@
+import { ListChecks } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TaskProgressProps {
+  total: number;
+  completed: number;
+  className?: string;
+}
+
+// Ticked checklist items of a note, as a count and a thin bar
+export function TaskProgress({ total, completed, className }: TaskProgressProps) {
+  if (total === 0) return null;
+  const percent = Math.round((completed / total) * 100);
+
+  return (
+    <div
+      className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}
+      title={`${completed} of ${total} tasks done`}
+    >
+      <ListChecks className="h-3.5 w-3.5 shrink-0" />
+      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn("h-full rounded-full", completed === total ? "bg-green-500" : "bg-primary")}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="shrink-0 tabular-nums">{completed}/{total}</span>
+    </div>
+  );
+}
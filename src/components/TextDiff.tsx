@@ -0,0 +1,38 @@
+import { useMemo } from "react";
+import { countChangedWords, diffWords } from "@/lib/textDiff";
+import { cn } from "@/lib/utils";
+
+interface TextDiffProps {
+  oldText: string;
+  newText: string;
+  className?: string;
+}
+
+export function TextDiff({ oldText, newText, className }: TextDiffProps) {
+  const parts = useMemo(() => diffWords(oldText, newText), [oldText, newText]);
+  const counts = useMemo(() => countChangedWords(parts), [parts]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center gap-3 text-xs">
+        <span className="text-green-700 dark:text-green-400">+{counts.added} words</span>
+        <span className="text-red-700 dark:text-red-400">-{counts.removed} words</span>
+      </div>
+      <p className="whitespace-pre-wrap text-sm leading-relaxed text-foreground">
+        {parts.map((part, index) =>
+          part.type === 'equal' ? (
+            <span key={index}>{part.text}</span>
+          ) : part.type === 'added' ? (
+            <ins key={index} className="no-underline rounded-sm bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100">
+              {part.text}
+            </ins>
+          ) : (
+            <del key={index} className="rounded-sm bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200">
+              {part.text}
+            </del>
+          )
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { KeyboardEvent, ReactNode, SyntheticEvent, useState } from "react";
+import { createPortal } from "react-dom";
+import { FileText, Video } from "lucide-react";
+import { getWikiLinkQuery, suggestNotes } from "@/lib/noteLinks";
+import { getCaretRect } from "@/lib/textareaCaret";
+import { cn } from "@/lib/utils";
+
+interface WikiLinkAutocompleteProps {
+  // Notes that can be linked to
+  notes: { id: string; title: string; updated_at: string; is_transcription?: boolean | null }[];
+  // The note being edited, which is not suggested
+  currentNoteId?: string;
+  disabled?: boolean;
+  children: ReactNode;
+}
+
+interface LinkQuery {
+  textarea: HTMLTextAreaElement;
+  start: number;
+  query: string;
+  position: { top: number; left: number };
+}
+
+// Suggests notes while a [[link is typed into any textarea inside it, and
+// completes the pick to [[Note title]]. Works on the textareas' own events,
+// so the editors inside keep their state as they do for typing.
+export function WikiLinkAutocomplete({ notes, currentNoteId, disabled, children }: WikiLinkAutocompleteProps) {
+  const [linkQuery, setLinkQuery] = useState<LinkQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const suggestions = linkQuery ? suggestNotes(notes, linkQuery.query, currentNoteId) : [];
+
+  const updateQuery = (event: SyntheticEvent) => {
+    const textarea = event.target;
+    if (disabled || !(textarea instanceof HTMLTextAreaElement) || textarea.selectionStart !== textarea.selectionEnd) {
+      setLinkQuery(null);
+      return;
+    }
+    const found = getWikiLinkQuery(textarea.value.slice(0, textarea.selectionStart));
+    if (!found) {
+      setLinkQuery(null);
+      return;
+    }
+    if (found.query !== linkQuery?.query) setActiveIndex(0);
+    const caret = getCaretRect(textarea, found.start);
+    setLinkQuery({ textarea, ...found, position: { top: caret.top + caret.height + 4, left: caret.left } });
+  };
+
+  const pick = (title: string) => {
+    if (!linkQuery) return;
+    const { textarea, start } = linkQuery;
+    const caret = textarea.selectionStart;
+    // Take in a closing ]] the editor may already hold
+    const end = textarea.value.startsWith("]]", caret) ? caret + 2 : caret;
+    textarea.focus();
+    textarea.setRangeText(`[[${title}]]`, start, end, "end");
+    // Editors hear about the change the same way as about typing
+    textarea.dispatchEvent(new Event("input", { bubbles: true }));
+    setLinkQuery(null);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (!linkQuery || suggestions.length === 0) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      pick(suggestions[Math.min(activeIndex, suggestions.length - 1)].title);
+    } else if (event.key === "Escape") {
+      setLinkQuery(null);
+    } else {
+      return;
+    }
+    // Keep the editor from also handling the key, e.g. splitting a block on Enter
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  return (
+    <div
+      onInput={updateQuery}
+      onClick={updateQuery}
+      onKeyUp={event => {
+        if (event.key === "ArrowLeft" || event.key === "ArrowRight" || event.key === "Home" || event.key === "End") updateQuery(event);
+      }}
+      onKeyDownCapture={handleKeyDown}
+      onBlur={() => setLinkQuery(null)}
+    >
+      {children}
+      {linkQuery && createPortal(
+        <div
+          role="listbox"
+          className="fixed z-50 w-72 overflow-hidden rounded-md border border-border bg-popover text-popover-foreground shadow-md"
+          style={{ top: linkQuery.position.top, left: linkQuery.position.left }}
+        >
+          {suggestions.length > 0 ? suggestions.map((note, index) => {
+            const Icon = note.is_transcription ? Video : FileText;
+            return (
+              <button
+                key={note.id}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                // Picking must not blur the textarea first
+                onMouseDown={event => event.preventDefault()}
+                onClick={() => pick(note.title)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  "flex w-full items-center gap-2 px-3 py-2 text-left text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="truncate">{note.title}</span>
+              </button>
+            );
+          }) : (
+            <p className="px-3 py-2 text-sm text-muted-foreground">
+              {linkQuery.query ? `No notes titled "${linkQuery.query}"` : "Type to find a note"}
+            </p>
+          )}
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import React from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { SearchMode } from "./SearchMode";
 import { ChatMode } from "./ChatMode";
+import { Citation } from "@/lib/aiResearch/contextProcessor";
 
 interface SearchResult {
   id: string;
@@ -18,6 +19,7 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   sources?: SearchResult[];
+  citations?: Citation[];
   isStreaming?: boolean;
 }
 
@@ -25,24 +27,34 @@ interface AIResearchContentProps {
   isChatMode: boolean;
   searchQuery: string;
   searchResults: SearchResult[];
+  searchTotal?: number;
+  hasMoreResults?: boolean;
+  isSearching?: boolean;
   chatMessages: ChatMessage[];
   chatInput: string;
   isLoading: boolean;
   onSearch: (query: string) => void;
+  onLoadMore?: () => void;
   onChatInputChange: (value: string) => void;
   onChatSubmit: () => void;
+  onCancelResponse?: () => void;
 }
 
 export function AIResearchContent({
   isChatMode,
   searchQuery,
   searchResults,
+  searchTotal,
+  hasMoreResults,
+  isSearching,
   chatMessages,
   chatInput,
   isLoading,
   onSearch,
+  onLoadMore,
   onChatInputChange,
-  onChatSubmit
+  onChatSubmit,
+  onCancelResponse
 }: AIResearchContentProps) {
   return (
     <div className="flex-1 px-2 sm:px-4 lg:px-8 py-3 sm:py-4 lg:py-6 overflow-auto">
@@ -53,7 +65,11 @@ export function AIResearchContent({
               <SearchMode
                 searchQuery={searchQuery}
                 searchResults={searchResults}
+                searchTotal={searchTotal}
+                hasMoreResults={hasMoreResults}
+                isSearching={isSearching}
                 onSearch={onSearch}
+                onLoadMore={onLoadMore}
               />
             ) : (
               <ChatMode
@@ -62,6 +78,7 @@ export function AIResearchContent({
                 isLoading={isLoading}
                 onChatInputChange={onChatInputChange}
                 onChatSubmit={onChatSubmit}
+                onCancel={onCancelResponse}
               />
             )}
           </CardContent>
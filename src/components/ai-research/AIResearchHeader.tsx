@@ -154,7 +154,7 @@ export function AIResearchHeader({
                 </>
               ) : (
                 <>
-                  <span className="font-medium text-blue-600">Instant Search:</span> Lightning-fast local search across all your notes and transcripts
+                  <span className="font-medium text-blue-600">Instant Search:</span> Ranked full-text search across all your notes and transcripts
                 </>
               )}
             </p>
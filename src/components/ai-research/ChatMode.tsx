@@ -1,12 +1,14 @@
 
-import React from "react";
-import { Bot, Loader2, Send, Sparkles, Zap } from "lucide-react";
+import React, { useEffect, useRef } from "react";
+import { Bot, Loader2, Send, Sparkles, Square, Zap } from "lucide-react";
 import { Link } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
+import { Citation } from "@/lib/aiResearch/contextProcessor";
+import { CitedAnswer } from "./CitedAnswer";
 
 interface SearchResult {
   id: string;
@@ -22,6 +24,7 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   sources?: SearchResult[];
+  citations?: Citation[];
   isStreaming?: boolean;
 }
 
@@ -31,6 +34,8 @@ interface ChatModeProps {
   isLoading: boolean;
   onChatInputChange: (value: string) => void;
   onChatSubmit: () => void;
+  // Stops the answer being streamed; shown in place of send while loading
+  onCancel?: () => void;
 }
 
 export function ChatMode({ 
@@ -38,8 +43,17 @@ export function ChatMode({
   chatInput, 
   isLoading, 
   onChatInputChange, 
-  onChatSubmit 
+  onChatSubmit,
+  onCancel
 }: ChatModeProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const streamingContent = chatMessages.find(message => message.isStreaming)?.content;
+
+  // Follow the answer while it is being written
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [chatMessages.length, streamingContent]);
+
   return (
     <div className="space-y-6">
       <ScrollArea className="h-[500px] mb-6 pr-4">
@@ -81,14 +95,19 @@ export function ChatMode({
                       : "bg-muted/70 border border-border/50"
                   )}
                 >
-                  {message.isStreaming ? (
+                  {message.isStreaming && !message.content ? (
                     <div className="flex items-center space-x-3">
                       <Loader2 className="h-5 w-5 animate-spin" />
                       <span className="text-sm">Processing with optimized context...</span>
                     </div>
+                  ) : message.isStreaming ? (
+                    <div className="text-sm leading-relaxed whitespace-pre-wrap">
+                      {message.content}
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" />
+                    </div>
                   ) : (
                     <>
-                      <p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>
+                      <CitedAnswer content={message.content} citations={message.citations} />
                       {message.sources && message.sources.length > 0 && (
                         <div className="mt-4 pt-4 border-t border-muted-foreground/20">
                           <p className="text-xs font-medium mb-3 text-muted-foreground">
@@ -113,6 +132,7 @@ export function ChatMode({
                 </div>
               </div>
             ))}
+            <div ref={bottomRef} />
           </div>
         )}
       </ScrollArea>
@@ -125,17 +145,28 @@ export function ChatMode({
           onKeyPress={(e) => e.key === 'Enter' && onChatSubmit()}
           className="flex-1 border-0 bg-transparent focus-visible:ring-0 text-base"
         />
-        <Button
-          onClick={onChatSubmit}
-          disabled={!chatInput.trim() || isLoading}
-          className="px-4"
-        >
-          {isLoading ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <Send className="h-4 w-4" />
-          )}
-        </Button>
+        {isLoading && onCancel ? (
+          <Button
+            onClick={onCancel}
+            variant="outline"
+            className="px-4"
+            title="Stop generating"
+          >
+            <Square className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button
+            onClick={onChatSubmit}
+            disabled={!chatInput.trim() || isLoading}
+            className="px-4"
+          >
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+          </Button>
+        )}
       </div>
     </div>
   );
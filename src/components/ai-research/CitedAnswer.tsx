@@ -0,0 +1,80 @@
+import { Link } from "react-router-dom";
+import { Play } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Citation } from "@/lib/aiResearch/contextProcessor";
+import { getCitationHref, getCitedPassages, parseCitedAnswer } from "@/lib/aiResearch/citations";
+import { formatTimestamp } from "@/lib/timestamps";
+import { cn } from "@/lib/utils";
+
+interface CitedAnswerProps {
+  content: string;
+  citations?: Citation[];
+  // Smaller markers and no excerpts, for the research widget
+  compact?: boolean;
+  className?: string;
+}
+
+export function CitedAnswer({ content, citations = [], compact, className }: CitedAnswerProps) {
+  const segments = parseCitedAnswer(content, citations);
+  const citedPassages = getCitedPassages(content, citations);
+
+  return (
+    <div className={className}>
+      <p className={cn("whitespace-pre-wrap", !compact && "leading-relaxed")}>
+        {segments.map((segment, index) =>
+          segment.type === 'text' ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <Tooltip key={index}>
+              <TooltipTrigger asChild>
+                <Link
+                  to={getCitationHref(segment.citation)}
+                  className={cn(
+                    "mx-0.5 inline-flex items-center justify-center rounded bg-primary/10 font-medium text-primary align-super hover:bg-primary/20 transition-colors",
+                    compact ? "px-1 text-[9px] leading-3" : "px-1.5 text-[10px] leading-4"
+                  )}
+                >
+                  {segment.citation.number}
+                </Link>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <p className="font-medium">{segment.citation.noteTitle}</p>
+                {segment.citation.timestamp !== undefined && (
+                  <p className="text-xs text-muted-foreground">at {formatTimestamp(segment.citation.timestamp)}</p>
+                )}
+                <p className="mt-1 text-xs text-muted-foreground line-clamp-4">{segment.citation.excerpt}</p>
+              </TooltipContent>
+            </Tooltip>
+          )
+        )}
+      </p>
+
+      {citedPassages.length > 0 && (
+        <ol className={cn("space-y-1 border-t border-muted-foreground/20", compact ? "mt-1 pt-1" : "mt-4 pt-3")}>
+          {citedPassages.map(citation => (
+            <li key={citation.number}>
+              <Link
+                to={getCitationHref(citation)}
+                className="group flex gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <span className="font-medium text-primary">[{citation.number}]</span>
+                <span className="min-w-0">
+                  <span className="font-medium group-hover:underline">{citation.noteTitle}</span>
+                  {citation.timestamp !== undefined && (
+                    <span className="ml-1 inline-flex items-center gap-0.5">
+                      <Play className="h-2.5 w-2.5" />
+                      {formatTimestamp(citation.timestamp)}
+                    </span>
+                  )}
+                  {!compact && (
+                    <span className="block truncate opacity-80">{citation.excerpt}</span>
+                  )}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
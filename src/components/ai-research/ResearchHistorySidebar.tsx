@@ -0,0 +1,243 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { FilePlus, History, Loader2, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ResearchSession,
+  useDeleteResearchSession,
+  useRenameResearchSession,
+  useResearchSessions,
+  useSaveResearchSessionAsNote
+} from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface ResearchHistorySidebarProps {
+  activeSessionId: string | null;
+  // Switching is blocked while an answer is still being generated
+  disabled?: boolean;
+  onSelectSession: (sessionId: string) => void;
+  onNewSession: () => void;
+  onSessionDeleted: (sessionId: string) => void;
+  className?: string;
+}
+
+export function ResearchHistorySidebar({
+  activeSessionId,
+  disabled,
+  onSelectSession,
+  onNewSession,
+  onSessionDeleted,
+  className
+}: ResearchHistorySidebarProps) {
+  const [renamingSession, setRenamingSession] = useState<ResearchSession | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deletingSession, setDeletingSession] = useState<ResearchSession | null>(null);
+  const { data: sessions, isLoading } = useResearchSessions();
+  const renameMutation = useRenameResearchSession();
+  const deleteMutation = useDeleteResearchSession();
+  const saveAsNoteMutation = useSaveResearchSessionAsNote();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const openRename = (session: ResearchSession) => {
+    setRenamingSession(session);
+    setRenameValue(session.title);
+  };
+
+  const handleRename = () => {
+    if (!renamingSession) return;
+    if (!renameValue.trim()) {
+      toast({
+        title: "Error",
+        description: "Session title cannot be empty",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    renameMutation.mutate({ id: renamingSession.id, title: renameValue.trim() }, {
+      onSuccess: () => setRenamingSession(null),
+      onError: () => {
+        toast({
+          title: "Error",
+          description: "Failed to rename research session",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!deletingSession) return;
+    const sessionId = deletingSession.id;
+
+    deleteMutation.mutate(sessionId, {
+      onSuccess: () => {
+        setDeletingSession(null);
+        onSessionDeleted(sessionId);
+      },
+      onError: () => {
+        toast({
+          title: "Error",
+          description: "Failed to delete research session",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  const handleSaveAsNote = (session: ResearchSession) => {
+    saveAsNoteMutation.mutate(session.id, {
+      onSuccess: (note) => {
+        toast({
+          title: "Saved as note",
+          description: `"${session.title}" was saved with links to its sources.`
+        });
+        navigate(`/note/${note.id}`);
+      },
+      onError: () => {
+        toast({
+          title: "Error",
+          description: "Failed to save the conversation as a note",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  return (
+    <aside className={cn("w-64 shrink-0 flex-col border-r border-border/40 bg-muted/20", className)}>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border/40">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <History className="h-4 w-4 text-muted-foreground" />
+          Research history
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onNewSession}
+          disabled={disabled}
+          title="New conversation"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : !sessions || sessions.length === 0 ? (
+            <p className="px-2 py-6 text-center text-xs text-muted-foreground">
+              Conversations you have in AI Chat are saved here.
+            </p>
+          ) : (
+            sessions.map(session => (
+              <div
+                key={session.id}
+                className={cn(
+                  "group flex items-center gap-1 rounded-md pr-1 transition-colors",
+                  session.id === activeSessionId ? "bg-primary/10 text-primary" : "hover:bg-muted"
+                )}
+              >
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 px-2 py-2 text-left disabled:cursor-not-allowed"
+                  onClick={() => onSelectSession(session.id)}
+                  disabled={disabled}
+                >
+                  <div className="truncate text-sm">{session.title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(session.updated_at), { addSuffix: true })}
+                  </div>
+                </button>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => openRename(session)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => handleSaveAsNote(session)}
+                      disabled={saveAsNoteMutation.isPending}
+                    >
+                      <FilePlus className="h-4 w-4 mr-2" />
+                      Save as note
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-destructive focus:text-destructive"
+                      onClick={() => setDeletingSession(session)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      <Dialog open={!!renamingSession} onOpenChange={open => !open && setRenamingSession(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename conversation</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameValue}
+            onChange={e => setRenameValue(e.target.value)}
+            onKeyDown={e => e.key === "Enter" && handleRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenamingSession(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={renameMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingSession} onOpenChange={open => !open && setDeletingSession(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingSession?.title}" and all of its messages will be deleted. Notes you saved from it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </aside>
+  );
+}
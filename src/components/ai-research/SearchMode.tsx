@@ -1,10 +1,12 @@
 
 import React from "react";
-import { Search, Database, Zap, Sparkles } from "lucide-react";
+import { Search, Database, Zap, Sparkles, Loader2 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { HighlightedSnippet } from "@/components/search/HighlightedSnippet";
 
 interface SearchResult {
   id: string;
@@ -17,10 +19,22 @@ interface SearchResult {
 interface SearchModeProps {
   searchQuery: string;
   searchResults: SearchResult[];
+  searchTotal?: number;
+  hasMoreResults?: boolean;
+  isSearching?: boolean;
   onSearch: (query: string) => void;
+  onLoadMore?: () => void;
 }
 
-export function SearchMode({ searchQuery, searchResults, onSearch }: SearchModeProps) {
+export function SearchMode({
+  searchQuery,
+  searchResults,
+  searchTotal,
+  hasMoreResults,
+  isSearching,
+  onSearch,
+  onLoadMore
+}: SearchModeProps) {
   return (
     <div className="space-y-8">
       <div className="space-y-4">
@@ -37,12 +51,14 @@ export function SearchMode({ searchQuery, searchResults, onSearch }: SearchModeP
           <div className="flex items-center justify-between text-sm text-muted-foreground">
             <div className="flex items-center gap-2">
               <Database className="h-4 w-4" />
-              <span>Found {searchResults.length} results</span>
+              <span>Found {searchTotal ?? searchResults.length} results</span>
               <Badge variant="outline" className="text-xs">
                 Smart ranking enabled
               </Badge>
             </div>
-            {searchResults.length > 0 && (
+            {isSearching ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : searchResults.length > 0 && (
               <div className="flex items-center gap-1 text-xs">
                 <Zap className="h-3 w-3 text-yellow-500" />
                 <span>Lightning fast</span>
@@ -64,19 +80,37 @@ export function SearchMode({ searchQuery, searchResults, onSearch }: SearchModeP
                     </h3>
                     <div className="flex items-center gap-2">
                       <Badge variant="outline" className="text-xs bg-primary/10 border-primary/20">
-                        Score: {result.relevance.toFixed(1)}
+                        Score: {result.relevance.toFixed(2)}
                       </Badge>
                       <Badge variant="secondary" className="text-xs">
                         #{index + 1}
                       </Badge>
                     </div>
                   </div>
-                  <p className="text-muted-foreground line-clamp-3 leading-relaxed">
-                    {result.snippet}
-                  </p>
+                  <HighlightedSnippet
+                    snippet={result.snippet}
+                    className="text-muted-foreground line-clamp-3 leading-relaxed"
+                  />
                 </div>
               </Link>
             ))}
+            {hasMoreResults && onLoadMore && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={onLoadMore}
+                disabled={isSearching}
+              >
+                {isSearching ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : null}
+                Load more results ({searchResults.length} of {searchTotal ?? searchResults.length})
+              </Button>
+            )}
+          </div>
+        ) : isSearching ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
           </div>
         ) : searchQuery ? (
           <div className="text-center py-20">
@@ -107,7 +141,7 @@ export function SearchMode({ searchQuery, searchResults, onSearch }: SearchModeP
               </Badge>
               <Badge variant="outline" className="flex items-center gap-1">
                 <Database className="h-3 w-3" />
-                Fast caching
+                Full-text index
               </Badge>
             </div>
           </div>
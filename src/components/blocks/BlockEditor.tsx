@@ -0,0 +1,596 @@
+import { ClipboardEvent, KeyboardEvent, useLayoutEffect, useRef, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  Bold,
+  Code,
+  CopyPlus,
+  GripVertical,
+  Heading1,
+  Heading2,
+  Heading3,
+  ImageIcon,
+  Info,
+  Italic,
+  List,
+  ListChecks,
+  ListOrdered,
+  LucideIcon,
+  Minus,
+  Plus,
+  Quote,
+  SquareCode,
+  Table,
+  Trash2,
+  Type,
+  Video
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { AutoTextarea, ImageBlock, TableBlock, VideoBlock } from "@/components/blocks/BlockItems";
+import { CALLOUT_STYLES } from "@/components/blocks/calloutStyles";
+import { blocksToMarkdown, CALLOUT_VARIANTS, NoteBlock, parseMarkdownBlocks } from "@/lib/blocks";
+import { mapOffset } from "@/lib/textDiff";
+import { cn } from "@/lib/utils";
+
+interface BlockEditorProps {
+  // The note's markdown; edits come back through onChange as markdown too
+  value: string;
+  onChange: (markdown: string) => void;
+  readOnly?: boolean;
+  placeholder?: string;
+  // The video playing next to the editor, for inserting timestamps
+  currentVideo?: { videoId: string; currentTime: number };
+}
+
+type EditorBlock = NoteBlock & { id: string };
+type TextBlock = Extract<EditorBlock, { text: string }>;
+
+interface BlockOption {
+  key: string;
+  label: string;
+  icon: LucideIcon;
+  // Options that hold text turn the current block into them, keeping its text
+  keepsText: boolean;
+  create: (text: string) => NoteBlock;
+}
+
+const BLOCK_OPTIONS: BlockOption[] = [
+  { key: "paragraph", label: "Text", icon: Type, keepsText: true, create: text => ({ type: "paragraph", text }) },
+  { key: "heading1", label: "Heading 1", icon: Heading1, keepsText: true, create: text => ({ type: "heading", level: 1, text }) },
+  { key: "heading2", label: "Heading 2", icon: Heading2, keepsText: true, create: text => ({ type: "heading", level: 2, text }) },
+  { key: "heading3", label: "Heading 3", icon: Heading3, keepsText: true, create: text => ({ type: "heading", level: 3, text }) },
+  { key: "bulleted", label: "Bulleted list", icon: List, keepsText: true, create: text => ({ type: "bulleted", text }) },
+  { key: "numbered", label: "Numbered list", icon: ListOrdered, keepsText: true, create: text => ({ type: "numbered", text }) },
+  { key: "todo", label: "Checklist", icon: ListChecks, keepsText: true, create: text => ({ type: "todo", text, checked: false }) },
+  { key: "quote", label: "Quote", icon: Quote, keepsText: true, create: text => ({ type: "quote", text }) },
+  { key: "callout", label: "Callout", icon: Info, keepsText: true, create: text => ({ type: "callout", variant: "note", text }) },
+  { key: "code", label: "Code block", icon: SquareCode, keepsText: true, create: text => ({ type: "code", language: "", text }) },
+  { key: "table", label: "Table", icon: Table, keepsText: false, create: () => ({ type: "table", rows: [["", ""], ["", ""]] }) },
+  { key: "image", label: "Image", icon: ImageIcon, keepsText: false, create: () => ({ type: "image", url: "", alt: "" }) },
+  { key: "video", label: "Video timestamp", icon: Video, keepsText: false, create: () => ({ type: "video", videoId: "", start: 0, caption: "" }) },
+  { key: "divider", label: "Divider", icon: Minus, keepsText: false, create: () => ({ type: "divider" }) }
+];
+
+const TEXT_OPTIONS = BLOCK_OPTIONS.filter(option => option.keepsText);
+
+const TEXT_STYLES: Partial<Record<string, string>> = {
+  paragraph: "text-sm leading-relaxed py-1",
+  heading1: "text-2xl font-bold py-1.5",
+  heading2: "text-xl font-semibold py-1",
+  heading3: "text-lg font-semibold py-1",
+  bulleted: "text-sm leading-relaxed py-0.5",
+  numbered: "text-sm leading-relaxed py-0.5",
+  todo: "text-sm leading-relaxed py-0.5",
+  quote: "text-sm leading-relaxed italic text-muted-foreground",
+  callout: "text-sm leading-relaxed",
+  code: "font-mono text-xs leading-relaxed"
+};
+
+const LIST_TYPES = ["bulleted", "numbered", "todo"];
+
+const isTextBlock = (block: EditorBlock): block is TextBlock => "text" in block;
+
+const withId = (block: NoteBlock, id: string = crypto.randomUUID()): EditorBlock => ({ ...block, id });
+
+const emptyParagraph = () => withId({ type: "paragraph", text: "" });
+
+// There is always a block to type into
+const editable = (blocks: EditorBlock[]) => blocks.length > 0 ? blocks : [emptyParagraph()];
+
+const optionKey = (block: EditorBlock) => block.type === "heading" ? `heading${block.level}` : block.type;
+
+// Markdown typed at the start of a text block turns it into that kind of block
+const applyShortcut = (block: TextBlock, text: string): NoteBlock | null => {
+  if (block.type === "bulleted") {
+    const todo = text.match(/^\[ ?\] ([\s\S]*)$/);
+    return todo ? { type: "todo", text: todo[1], checked: false } : null;
+  }
+  if (block.type !== "paragraph") return null;
+
+  let match = text.match(/^(#{1,3}) ([\s\S]*)$/);
+  if (match) return { type: "heading", level: match[1].length as 1 | 2 | 3, text: match[2] };
+  match = text.match(/^(?:\[ ?\]|[-*] \[ \]) ([\s\S]*)$/);
+  if (match) return { type: "todo", text: match[1], checked: false };
+  match = text.match(/^[-*] ([\s\S]*)$/);
+  if (match) return { type: "bulleted", text: match[1] };
+  match = text.match(/^1[.)] ([\s\S]*)$/);
+  if (match) return { type: "numbered", text: match[1] };
+  match = text.match(/^> ([\s\S]*)$/);
+  if (match) return { type: "quote", text: match[1] };
+  match = text.match(/^```(\w*)$/);
+  if (match) return { type: "code", language: match[1], text: "" };
+  if (text === "---") return { type: "divider" };
+  return null;
+};
+
+// Edits a note as blocks: headings, lists, checklists, quotes, callouts,
+// code, tables, images and video timestamps. The note itself stays markdown,
+// so the blocks are parsed from `value` and written back on every change.
+export function BlockEditor({ value, onChange, readOnly, placeholder, currentVideo }: BlockEditorProps) {
+  const [blocks, setBlocks] = useState<EditorBlock[]>(() => editable(parseMarkdownBlocks(value).map(block => withId(block))));
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  // The markdown the blocks were parsed from or last written as
+  const sourceRef = useRef(value);
+  const inputsRef = useRef(new Map<string, HTMLTextAreaElement>());
+  const activeIdRef = useRef<string | null>(null);
+  const pendingFocusRef = useRef<{ id: string; start: number; end: number } | null>(null);
+
+  const commit = (next: EditorBlock[], focus?: { id: string; start: number; end?: number }) => {
+    const blocksToKeep = editable(next);
+    if (focus) pendingFocusRef.current = { id: focus.id, start: focus.start, end: focus.end ?? focus.start };
+    const markdown = blocksToMarkdown(blocksToKeep);
+    sourceRef.current = markdown;
+    setBlocks(blocksToKeep);
+    if (markdown !== value) onChange(markdown);
+  };
+
+  // Text changed elsewhere, e.g. by a collaborator or a restore: parse it
+  // again, keeping block ids by position and the caret in the focused block
+  useLayoutEffect(() => {
+    if (value === sourceRef.current) return;
+    sourceRef.current = value;
+
+    const previous = blocksRef.current;
+    const next = editable(parseMarkdownBlocks(value).map((block, index) =>
+      withId(block, previous[index]?.type === block.type ? previous[index].id : undefined)));
+
+    const activeId = activeIdRef.current;
+    const input = activeId ? inputsRef.current.get(activeId) : undefined;
+    const before = previous.find(block => block.id === activeId);
+    const after = next.find(block => block.id === activeId);
+    if (input && document.activeElement === input && before && after && isTextBlock(before) && isTextBlock(after)) {
+      pendingFocusRef.current = {
+        id: after.id,
+        start: mapOffset(before.text, after.text, input.selectionStart),
+        end: mapOffset(before.text, after.text, input.selectionEnd)
+      };
+    }
+    setBlocks(next);
+  }, [value]);
+
+  useLayoutEffect(() => {
+    const focus = pendingFocusRef.current;
+    if (!focus) return;
+    const input = inputsRef.current.get(focus.id);
+    if (!input) return;
+    pendingFocusRef.current = null;
+    input.focus();
+    input.setSelectionRange(focus.start, focus.end);
+  }, [blocks]);
+
+  const updateBlock = (id: string, next: NoteBlock, focus?: { start: number; end?: number }) => {
+    commit(blocks.map(block => block.id === id ? withId(next, id) : block), focus ? { id, ...focus } : undefined);
+  };
+
+  const setText = (block: TextBlock, text: string) => {
+    const shortcut = applyShortcut(block, text);
+    if (shortcut?.type === "divider") {
+      const paragraph = emptyParagraph();
+      commit(blocks.flatMap(current => current.id === block.id ? [withId(shortcut, block.id), paragraph] : [current]), { id: paragraph.id, start: 0 });
+    } else if (shortcut) {
+      updateBlock(block.id, shortcut, { start: 0 });
+    } else {
+      updateBlock(block.id, { ...block, text });
+    }
+  };
+
+  const insertAfter = (id: string | null, option: BlockOption) => {
+    let created = option.create("");
+    if (created.type === "video" && currentVideo) {
+      created = { ...created, videoId: currentVideo.videoId, start: Math.floor(currentVideo.currentTime) };
+    }
+    const block = withId(created);
+    const index = id ? blocks.findIndex(current => current.id === id) : blocks.length - 1;
+    const current = blocks[index];
+    // An empty paragraph is where the new block goes
+    const replace = current?.type === "paragraph" && !current.text;
+    const next = [...blocks.slice(0, replace ? index : index + 1), block, ...blocks.slice(index + 1)];
+    // Media and dividers are followed by a paragraph to carry on writing in
+    if (!isTextBlock(block) && !next[next.indexOf(block) + 1]) next.push(emptyParagraph());
+    commit(next, isTextBlock(block) ? { id: block.id, start: 0 } : undefined);
+  };
+
+  const turnInto = (block: EditorBlock, option: BlockOption) => {
+    if (!isTextBlock(block)) return;
+    // Choosing the kind a block already is turns it back into text
+    const target = optionKey(block) === option.key && option.key !== "paragraph" ? TEXT_OPTIONS[0] : option;
+    updateBlock(block.id, target.create(block.text), { start: block.text.length });
+  };
+
+  const moveBlock = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= blocks.length) return;
+    const next = [...blocks];
+    [next[index], next[target]] = [next[target], next[index]];
+    commit(next);
+  };
+
+  const removeBlock = (index: number) => {
+    commit(blocks.filter((_, current) => current !== index));
+  };
+
+  const duplicateBlock = (index: number) => {
+    const { id: _id, ...block } = blocks[index];
+    commit([...blocks.slice(0, index + 1), withId(block as NoteBlock), ...blocks.slice(index + 1)]);
+  };
+
+  // The toolbar acts on the block last typed in, or adds to the end
+  const applyOption = (option: BlockOption) => {
+    const active = blocks.find(block => block.id === activeIdRef.current);
+    if (active && option.keepsText && isTextBlock(active)) {
+      turnInto(active, option);
+    } else {
+      insertAfter(active?.id ?? null, option);
+    }
+  };
+
+  const wrapSelection = (marker: string) => {
+    const active = blocks.find(block => block.id === activeIdRef.current);
+    const input = active ? inputsRef.current.get(active.id) : undefined;
+    if (!active || !input || !isTextBlock(active) || active.type === "code") return;
+    const { selectionStart: start, selectionEnd: end } = input;
+    const text = active.text.slice(0, start) + marker + active.text.slice(start, end) + marker + active.text.slice(end);
+    updateBlock(active.id, { ...active, text }, { start: start + marker.length, end: end + marker.length });
+  };
+
+  const focusBlock = (index: number, position: "start" | "end") => {
+    const block = blocks[index];
+    const input = block ? inputsRef.current.get(block.id) : undefined;
+    if (!block || !input || !isTextBlock(block)) return false;
+    const offset = position === "start" ? 0 : block.text.length;
+    input.focus();
+    input.setSelectionRange(offset, offset);
+    return true;
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>, block: TextBlock, index: number) => {
+    if (event.nativeEvent.isComposing) return;
+    const input = event.currentTarget;
+    const { selectionStart: start, selectionEnd: end } = input;
+    const atStart = start === 0 && end === 0;
+    const isList = LIST_TYPES.includes(block.type);
+
+    if (block.type === "code") {
+      if (event.key === "Tab") {
+        event.preventDefault();
+        updateBlock(block.id, { ...block, text: `${block.text.slice(0, start)}  ${block.text.slice(end)}` }, { start: start + 2 });
+      } else if (event.key === "Backspace" && atStart && !block.text) {
+        event.preventDefault();
+        updateBlock(block.id, { type: "paragraph", text: "" }, { start: 0 });
+      }
+      return;
+    }
+
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      // Enter on an empty list item ends the list
+      if (isList && !block.text) {
+        updateBlock(block.id, { type: "paragraph", text: "" }, { start: 0 });
+        return;
+      }
+      const rest = block.text.slice(end);
+      const following = withId(
+        block.type === "todo" ? { type: "todo", text: rest, checked: false }
+          : isList ? { ...block, text: rest }
+          : { type: "paragraph", text: rest }
+      );
+      commit(
+        [...blocks.slice(0, index), { ...block, text: block.text.slice(0, start) }, following, ...blocks.slice(index + 1)],
+        { id: following.id, start: 0 }
+      );
+    } else if (event.key === "Backspace" && atStart) {
+      if (block.type !== "paragraph") {
+        event.preventDefault();
+        updateBlock(block.id, { type: "paragraph", text: block.text }, { start: 0 });
+        return;
+      }
+      const previous = blocks[index - 1];
+      if (previous && isTextBlock(previous) && previous.type !== "code") {
+        event.preventDefault();
+        commit(
+          [...blocks.slice(0, index - 1), { ...previous, text: previous.text + block.text }, ...blocks.slice(index + 1)],
+          { id: previous.id, start: previous.text.length }
+        );
+      } else if (previous && !block.text) {
+        event.preventDefault();
+        removeBlock(index);
+      }
+    } else if (event.key === "ArrowUp" && atStart) {
+      if (focusBlock(index - 1, "end")) event.preventDefault();
+    } else if (event.key === "ArrowDown" && start === block.text.length && end === block.text.length) {
+      if (focusBlock(index + 1, "start")) event.preventDefault();
+    }
+  };
+
+  // Pasted markdown with several blocks becomes those blocks
+  const handlePaste = (event: ClipboardEvent<HTMLTextAreaElement>, block: TextBlock, index: number) => {
+    if (block.type === "code") return;
+    const pasted = event.clipboardData.getData("text/plain");
+    if (!pasted.includes("\n")) return;
+    const parsed = parseMarkdownBlocks(pasted).map(parsedBlock => withId(parsedBlock));
+    if (parsed.length <= 1) return;
+
+    event.preventDefault();
+    const { selectionStart: start, selectionEnd: end } = event.currentTarget;
+    const before = block.text.slice(0, start);
+    const after = block.text.slice(end);
+    const last = parsed[parsed.length - 1];
+    commit(
+      [
+        ...blocks.slice(0, index),
+        ...(before ? [{ ...block, text: before }] : []),
+        ...parsed,
+        ...(after ? [withId({ type: "paragraph", text: after })] : []),
+        ...blocks.slice(index + 1)
+      ],
+      isTextBlock(last) ? { id: last.id, start: last.text.length } : undefined
+    );
+  };
+
+  const handleClickBelow = () => {
+    const last = blocks[blocks.length - 1];
+    if (last?.type === "paragraph" && !last.text) {
+      focusBlock(blocks.length - 1, "start");
+      return;
+    }
+    const paragraph = emptyParagraph();
+    commit([...blocks, paragraph], { id: paragraph.id, start: 0 });
+  };
+
+  const renderText = (block: TextBlock, index: number, className?: string) => (
+    <AutoTextarea
+      ref={node => {
+        if (node) inputsRef.current.set(block.id, node);
+        else inputsRef.current.delete(block.id);
+      }}
+      value={block.text}
+      readOnly={readOnly}
+      spellCheck={block.type !== "code"}
+      placeholder={
+        blocks.length === 1 && index === 0 ? placeholder
+          : block.type === "paragraph" ? "Type, or start a line with #, -, [], > or ```"
+          : block.type === "heading" ? `Heading ${block.level}`
+          : block.type === "code" ? "Code"
+          : ""
+      }
+      className={cn(
+        TEXT_STYLES[optionKey(block)],
+        block.type === "paragraph" && !(blocks.length === 1 && index === 0) && "placeholder:opacity-0 focus:placeholder:opacity-100",
+        className
+      )}
+      onFocus={() => { activeIdRef.current = block.id; }}
+      onChange={e => setText(block, e.target.value)}
+      onKeyDown={e => handleKeyDown(e, block, index)}
+      onPaste={e => handlePaste(e, block, index)}
+    />
+  );
+
+  let listNumber = 0;
+  const renderBody = (block: EditorBlock, index: number) => {
+    listNumber = block.type === "numbered" ? listNumber + 1 : 0;
+
+    switch (block.type) {
+      case "paragraph":
+      case "heading":
+        return renderText(block, index);
+      case "bulleted":
+        return (
+          <div className="flex items-start gap-2">
+            <span className="w-4 shrink-0 text-center leading-7 select-none">•</span>
+            {renderText(block, index)}
+          </div>
+        );
+      case "numbered":
+        return (
+          <div className="flex items-start gap-2">
+            <span className="min-w-4 shrink-0 text-right text-sm leading-7 select-none">{listNumber}.</span>
+            {renderText(block, index)}
+          </div>
+        );
+      case "todo":
+        return (
+          <div className="flex items-start gap-2">
+            <Checkbox
+              className="mt-1.5"
+              checked={block.checked}
+              disabled={readOnly}
+              onCheckedChange={checked => updateBlock(block.id, { ...block, checked: checked === true })}
+            />
+            {renderText(block, index, block.checked ? "line-through text-muted-foreground" : undefined)}
+          </div>
+        );
+      case "quote":
+        return <div className="border-l-4 border-border pl-3 py-1">{renderText(block, index)}</div>;
+      case "callout": {
+        const style = CALLOUT_STYLES[block.variant];
+        return (
+          <div className={cn("flex items-start gap-2 rounded-md border p-3", style.className)}>
+            {readOnly ? (
+              <style.icon className="h-4 w-4 mt-0.5 shrink-0" />
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button type="button" className="mt-0.5 shrink-0" title={`${style.label} callout`}>
+                    <style.icon className="h-4 w-4" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {CALLOUT_VARIANTS.map(variant => {
+                    const option = CALLOUT_STYLES[variant];
+                    return (
+                      <DropdownMenuItem key={variant} onSelect={() => updateBlock(block.id, { ...block, variant })}>
+                        <option.icon className="h-4 w-4 mr-2" />
+                        {option.label}
+                      </DropdownMenuItem>
+                    );
+                  })}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {renderText(block, index)}
+          </div>
+        );
+      }
+      case "code":
+        return (
+          <div className="rounded-md bg-muted p-3 space-y-1">
+            {readOnly ? (
+              block.language && <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{block.language}</div>
+            ) : (
+              <input
+                value={block.language}
+                onChange={e => updateBlock(block.id, { ...block, language: e.target.value.replace(/[^\w+#.-]/g, "") })}
+                placeholder="language"
+                className="w-32 bg-transparent text-[10px] uppercase tracking-wide text-muted-foreground outline-none"
+              />
+            )}
+            {renderText(block, index)}
+          </div>
+        );
+      case "table":
+        return <TableBlock rows={block.rows} readOnly={readOnly} onChange={rows => updateBlock(block.id, { ...block, rows })} />;
+      case "image":
+        return <ImageBlock url={block.url} alt={block.alt} readOnly={readOnly} onChange={image => updateBlock(block.id, { ...block, ...image })} />;
+      case "video":
+        return (
+          <VideoBlock
+            videoId={block.videoId}
+            start={block.start}
+            caption={block.caption}
+            readOnly={readOnly}
+            currentVideo={currentVideo}
+            onChange={video => updateBlock(block.id, { ...block, ...video })}
+          />
+        );
+      case "divider":
+        return <hr className="my-3 border-border" />;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {!readOnly && (
+        <Card>
+          <CardContent className="p-2">
+            {/* Buttons keep the focus in the block being edited */}
+            <div className="flex flex-wrap items-center gap-1" onMouseDown={e => e.preventDefault()}>
+              <Button variant="ghost" size="sm" title="Bold" onClick={() => wrapSelection("**")}>
+                <Bold className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" title="Italic" onClick={() => wrapSelection("*")}>
+                <Italic className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" title="Inline code" onClick={() => wrapSelection("`")}>
+                <Code className="h-4 w-4" />
+              </Button>
+              <div className="mx-1 h-5 w-px bg-border" />
+              {BLOCK_OPTIONS.filter(option => option.key !== "paragraph" && option.key !== "heading3").map(option => (
+                <Button key={option.key} variant="ghost" size="sm" title={option.label} onClick={() => applyOption(option)}>
+                  <option.icon className="h-4 w-4" />
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className={cn("rounded-md border border-input bg-background px-2 py-3", !readOnly && "min-h-[300px]")}>
+        {blocks.map((block, index) => (
+          <div key={block.id} className="group flex items-start gap-1">
+            {!readOnly && (
+              <div className="flex shrink-0 items-center pt-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button type="button" className="rounded p-0.5 text-muted-foreground hover:bg-accent" title="Add a block below">
+                      <Plus className="h-4 w-4" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {BLOCK_OPTIONS.map(option => (
+                      <DropdownMenuItem key={option.key} onSelect={() => insertAfter(block.id, option)}>
+                        <option.icon className="h-4 w-4 mr-2" />
+                        {option.label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button type="button" className="rounded p-0.5 text-muted-foreground hover:bg-accent cursor-grab" title="Block options">
+                      <GripVertical className="h-4 w-4" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {isTextBlock(block) && (
+                      <>
+                        <DropdownMenuSub>
+                          <DropdownMenuSubTrigger>Turn into</DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent>
+                            {TEXT_OPTIONS.map(option => (
+                              <DropdownMenuItem key={option.key} onSelect={() => turnInto(block, option)}>
+                                <option.icon className="h-4 w-4 mr-2" />
+                                {option.label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                        <DropdownMenuSeparator />
+                      </>
+                    )}
+                    <DropdownMenuItem disabled={index === 0} onSelect={() => moveBlock(index, -1)}>
+                      <ArrowUp className="h-4 w-4 mr-2" /> Move up
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={index === blocks.length - 1} onSelect={() => moveBlock(index, 1)}>
+                      <ArrowDown className="h-4 w-4 mr-2" /> Move down
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => duplicateBlock(index)}>
+                      <CopyPlus className="h-4 w-4 mr-2" /> Duplicate
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-destructive focus:text-destructive" onSelect={() => removeBlock(index)}>
+                      <Trash2 className="h-4 w-4 mr-2" /> Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            )}
+            <div className="min-w-0 flex-1 px-1">{renderBody(block, index)}</div>
+          </div>
+        ))}
+        {!readOnly && <div className="min-h-12 cursor-text" onClick={handleClickBelow} />}
+      </div>
+    </div>
+  );
+}
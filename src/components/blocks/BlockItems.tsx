@@ -0,0 +1,247 @@
+import { forwardRef, TextareaHTMLAttributes, useLayoutEffect, useRef, useState } from "react";
+import { Clock, ImageIcon, Minus, Plus, Video } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatTimestamp, parseTimestamp } from "@/lib/timestamps";
+import { cn, getYoutubeVideoId } from "@/lib/utils";
+import { videoUrl } from "@/lib/blocks";
+
+// A borderless textarea that grows with its text, for the text of a block
+export const AutoTextarea = forwardRef<HTMLTextAreaElement, TextareaHTMLAttributes<HTMLTextAreaElement>>(
+  ({ className, value, ...props }, ref) => {
+    const innerRef = useRef<HTMLTextAreaElement | null>(null);
+
+    useLayoutEffect(() => {
+      const textarea = innerRef.current;
+      if (!textarea) return;
+      textarea.style.height = "auto";
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }, [value]);
+
+    return (
+      <textarea
+        rows={1}
+        ref={node => {
+          innerRef.current = node;
+          if (typeof ref === "function") ref(node);
+          else if (ref) ref.current = node;
+        }}
+        value={value}
+        className={cn(
+          "block w-full resize-none overflow-hidden bg-transparent outline-none placeholder:text-muted-foreground/60",
+          className
+        )}
+        {...props}
+      />
+    );
+  }
+);
+AutoTextarea.displayName = "AutoTextarea";
+
+interface TableBlockProps {
+  rows: string[][];
+  readOnly?: boolean;
+  onChange: (rows: string[][]) => void;
+}
+
+export function TableBlock({ rows, readOnly, onChange }: TableBlockProps) {
+  const width = rows[0]?.length ?? 1;
+
+  const setCell = (rowIndex: number, column: number, value: string) => {
+    onChange(rows.map((row, index) => index === rowIndex
+      ? row.map((cell, cellIndex) => cellIndex === column ? value : cell)
+      : row));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-sm">
+          <tbody>
+            {rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className={rowIndex === 0 ? "bg-muted/50 font-medium" : undefined}>
+                {row.map((cell, column) => (
+                  <td key={column} className="border border-border p-0">
+                    {readOnly ? (
+                      <div className="px-2 py-1.5">{cell}</div>
+                    ) : (
+                      <input
+                        value={cell}
+                        onChange={e => setCell(rowIndex, column, e.target.value)}
+                        placeholder={rowIndex === 0 ? `Column ${column + 1}` : ""}
+                        className="w-full min-w-[6rem] bg-transparent px-2 py-1.5 outline-none focus:bg-accent/40"
+                      />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!readOnly && (
+        <div className="flex flex-wrap gap-1">
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onChange([...rows, Array(width).fill("")])}>
+            <Plus className="h-3 w-3 mr-1" /> Row
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onChange(rows.map(row => [...row, ""]))}>
+            <Plus className="h-3 w-3 mr-1" /> Column
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={rows.length <= 1}
+            onClick={() => onChange(rows.slice(0, -1))}
+          >
+            <Minus className="h-3 w-3 mr-1" /> Row
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={width <= 1}
+            onClick={() => onChange(rows.map(row => row.slice(0, -1)))}
+          >
+            <Minus className="h-3 w-3 mr-1" /> Column
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ImageBlockProps {
+  url: string;
+  alt: string;
+  readOnly?: boolean;
+  onChange: (image: { url: string; alt: string }) => void;
+}
+
+export function ImageBlock({ url, alt, readOnly, onChange }: ImageBlockProps) {
+  return (
+    <figure className="space-y-2">
+      {url ? (
+        <img src={url} alt={alt} className="max-h-96 max-w-full rounded-md border border-border" loading="lazy" />
+      ) : (
+        <div className="flex items-center justify-center gap-2 rounded-md border border-dashed border-border py-8 text-sm text-muted-foreground">
+          <ImageIcon className="h-4 w-4" />
+          Paste an image address below
+        </div>
+      )}
+      {readOnly ? (
+        alt && <figcaption className="text-xs text-muted-foreground">{alt}</figcaption>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            value={url}
+            onChange={e => onChange({ url: e.target.value.trim(), alt })}
+            placeholder="https://example.com/image.png"
+            className="h-8 text-xs"
+          />
+          <Input
+            value={alt}
+            onChange={e => onChange({ url, alt: e.target.value })}
+            placeholder="Caption"
+            className="h-8 text-xs w-1/3"
+          />
+        </div>
+      )}
+    </figure>
+  );
+}
+
+interface VideoBlockProps {
+  videoId: string;
+  start: number;
+  caption: string;
+  readOnly?: boolean;
+  // The video playing next to the editor, whose position can be captured
+  currentVideo?: { videoId: string; currentTime: number };
+  onChange: (video: { videoId: string; start: number; caption: string }) => void;
+}
+
+export function VideoBlock({ videoId, start, caption, readOnly, currentVideo, onChange }: VideoBlockProps) {
+  // Addresses and times are only applied once they parse
+  const [urlDraft, setUrlDraft] = useState(videoId ? videoUrl(videoId) : "");
+  const [timeDraft, setTimeDraft] = useState(formatTimestamp(start));
+
+  const applyUrl = (value: string) => {
+    setUrlDraft(value);
+    const id = getYoutubeVideoId(value.trim());
+    if (id) onChange({ videoId: id, start, caption });
+  };
+
+  const applyTime = (value: string) => {
+    setTimeDraft(value);
+    const seconds = /^\d+$/.test(value.trim()) ? parseInt(value, 10) : parseTimestamp(value);
+    if (seconds !== null) onChange({ videoId, start: seconds, caption });
+  };
+
+  const captureCurrentTime = () => {
+    if (!currentVideo) return;
+    const seconds = Math.floor(currentVideo.currentTime);
+    setUrlDraft(videoUrl(currentVideo.videoId));
+    setTimeDraft(formatTimestamp(seconds));
+    onChange({ videoId: currentVideo.videoId, start: seconds, caption });
+  };
+
+  return (
+    <div className="space-y-2">
+      {videoId ? (
+        <div className="aspect-video max-w-xl overflow-hidden rounded-md border border-border bg-black">
+          <iframe
+            src={`https://www.youtube-nocookie.com/embed/${videoId}?start=${Math.floor(start)}`}
+            title={caption || `Video at ${formatTimestamp(start)}`}
+            className="h-full w-full"
+            loading="lazy"
+            allow="accelerometer; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+          />
+        </div>
+      ) : (
+        <div className="flex max-w-xl items-center justify-center gap-2 rounded-md border border-dashed border-border py-8 text-sm text-muted-foreground">
+          <Video className="h-4 w-4" />
+          Paste a YouTube link below
+        </div>
+      )}
+      {readOnly ? (
+        <a
+          href={videoUrl(videoId, start)}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+        >
+          <Clock className="h-3 w-3" />
+          {caption || formatTimestamp(start)}
+        </a>
+      ) : (
+        <div className="flex max-w-xl flex-wrap gap-2">
+          <Input
+            value={urlDraft}
+            onChange={e => applyUrl(e.target.value)}
+            placeholder="https://www.youtube.com/watch?v=..."
+            className="h-8 text-xs flex-1 min-w-[12rem]"
+          />
+          <Input
+            value={timeDraft}
+            onChange={e => applyTime(e.target.value)}
+            placeholder="mm:ss"
+            className="h-8 text-xs w-20"
+          />
+          {currentVideo && (
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={captureCurrentTime} title="Use the current playback position">
+              <Clock className="h-3 w-3 mr-1" /> Now
+            </Button>
+          )}
+          <Input
+            value={caption}
+            onChange={e => onChange({ videoId, start, caption: e.target.value })}
+            placeholder="Caption"
+            className="h-8 text-xs w-full"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
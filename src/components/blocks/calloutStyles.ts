@@ -0,0 +1,11 @@
+import { AlertTriangle, Info, Lightbulb, LucideIcon, MessageSquareWarning, OctagonAlert } from "lucide-react";
+import { CalloutVariant } from "@/lib/blocks";
+
+// How each kind of callout looks, in the editor and when rendered
+export const CALLOUT_STYLES: Record<CalloutVariant, { label: string; icon: LucideIcon; className: string }> = {
+  note: { label: "Note", icon: Info, className: "border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950/40" },
+  tip: { label: "Tip", icon: Lightbulb, className: "border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/40" },
+  important: { label: "Important", icon: MessageSquareWarning, className: "border-purple-200 bg-purple-50 dark:border-purple-900 dark:bg-purple-950/40" },
+  warning: { label: "Warning", icon: AlertTriangle, className: "border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/40" },
+  caution: { label: "Caution", icon: OctagonAlert, className: "border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/40" }
+};
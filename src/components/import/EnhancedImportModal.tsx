@@ -4,6 +4,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { TranscriptionService } from "@/lib/transcriptionService";
+import { TranscriptSummarizer, TranscriptSummary } from "@/lib/summarization";
+import { ACTION_ITEMS_HEADING, toActionItemChecklist } from "@/lib/tasks";
 import { SimplifiedPreviewSection } from "./SimplifiedPreviewSection";
 import { ImportTabs, ContentType } from "./ImportTabs";
 import { YouTubeTab } from "./YouTubeTab";
@@ -13,6 +15,7 @@ import { AudioTab } from "./AudioTab";
 import { TextTab } from "./TextTab";
 import { ImportProcessingStatus } from "./ImportProcessingStatus";
 import { ImportActions } from "./ImportActions";
+import { ImportSuggestions } from "./ImportSuggestions";
 
 interface EnhancedImportModalProps {
   isOpen: boolean;
@@ -23,6 +26,10 @@ interface EnhancedImportModalProps {
     source_url?: string;
     thumbnail?: string;
     is_transcription?: boolean;
+    // Original uploads to attach to the note once it is saved
+    attachments?: File[];
+    tagIds?: string[];
+    notebook_id?: string;
   }) => void;
 }
 
@@ -37,6 +44,11 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
   const [hasWarning, setHasWarning] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [extractedText, setExtractedText] = useState<string>("");
+  const [generateSummary, setGenerateSummary] = useState(true);
+  const [summary, setSummary] = useState<TranscriptSummary['outputs'] | null>(null);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [notebookId, setNotebookId] = useState<string | null>(null);
   const { toast } = useToast();
 
   const resetState = () => {
@@ -49,6 +61,10 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
     setHasWarning(false);
     setIsRecording(false);
     setExtractedText("");
+    setSummary(null);
+    setSourceFile(null);
+    setTagIds([]);
+    setNotebookId(null);
   };
 
   const handleClose = () => {
@@ -70,7 +86,8 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
   };
 
   // Handle OCR text extraction from file upload
-  const handleOCRTextExtracted = (text: string, fileName: string) => {
+  const handleOCRTextExtracted = (text: string, fileName: string, file: File) => {
+    setSourceFile(file);
     setExtractedText(text);
     setMetadata({
       title: fileName,
@@ -89,6 +106,7 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
     setIsProcessing(true);
     setStatus("Processing file...");
     setProgress(30);
+    setSourceFile(null);
     
     try {
       let extractedContent = "";
@@ -142,6 +160,7 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
           description: `Uploaded file: ${fileName}`
         });
         setTranscript(`File uploaded: ${fileName}\n\nAdd your notes about this file here...`);
+        setSourceFile(file);
         setStatus("✅ File uploaded successfully!");
         setProgress(100);
         
@@ -204,12 +223,18 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
             }
           }
           
+          const title = videoMetadata?.title || `YouTube Video ${videoId || 'Unknown'}`;
           setMetadata({
-            title: videoMetadata?.title || `YouTube Video ${videoId || 'Unknown'}`,
+            title,
             author: videoMetadata?.author || 'YouTube',
             duration: videoMetadata?.duration || 'Unknown',
             thumbnail: videoMetadata?.thumbnail || `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`
           });
+
+          setSummary(null);
+          if (generateSummary && !isWarning) {
+            await summarizeTranscript(result.text, title);
+          }
           
           if (isWarning) {
             setStatus("⚠️ Video saved with warning - transcript unavailable");
@@ -262,6 +287,46 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
     }
   };
 
+  // Summarization fills the last 25% of the progress bar; a failed summary
+  // still lets the transcript be imported
+  const summarizeTranscript = async (text: string, title: string) => {
+    setProgress(75);
+    setStatus("🤖 Summarizing transcript...");
+
+    try {
+      const result = await TranscriptSummarizer.summarize(text, {
+        outputs: ['full', 'keypoints', 'chapters', 'concepts', 'actions'],
+        title,
+        onProgress: ({ percent, message }) => {
+          setProgress(75 + Math.round(percent / 4));
+          setStatus(`🤖 ${message}`);
+        }
+      });
+      setSummary(result.outputs);
+    } catch (error) {
+      console.error('Summarization error:', error);
+      toast({
+        title: "Summary unavailable",
+        description: "The transcript was extracted but could not be summarized. You can generate a summary later from the note.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const formatSummarySections = (outputs: TranscriptSummary['outputs']) => {
+    // Action items become the note's tasks
+    const actionItems = toActionItemChecklist(outputs.actions || '');
+    const sections = [
+      outputs.full && `## 🤖 AI Summary\n\n${outputs.full}`,
+      outputs.keypoints && `## 🔑 Key Points\n\n${outputs.keypoints}`,
+      outputs.chapters && `## 📚 Chapters\n\n${outputs.chapters}`,
+      outputs.concepts && `## 💡 Key Concepts\n\n${outputs.concepts}`,
+      actionItems && `${ACTION_ITEMS_HEADING}\n\n${actionItems}`
+    ].filter(Boolean);
+
+    return sections.length > 0 ? `${sections.join('\n\n')}\n\n---\n\n` : '';
+  };
+
   const handleVoiceRecording = () => {
     if (isRecording) {
       setIsRecording(false);
@@ -303,7 +368,7 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
     let noteContent = '';
     
     if (activeTab === 'youtube') {
-      noteContent = `# 🎥 ${metadata.title}\n\n**Source:** ${url}\n**Type:** Video Transcript\n**Imported:** ${new Date().toLocaleString()}\n${hasWarning ? '**Status:** ⚠️ Transcript unavailable - manual notes only\n' : ''}\n---\n\n## 📝 ${hasWarning ? 'Notes' : 'Transcript'}\n\n${transcript}\n\n---\n\n## 📝 My Notes\n\nAdd your personal notes and thoughts here...`;
+      noteContent = `# 🎥 ${metadata.title}\n\n**Source:** ${url}\n**Type:** Video Transcript\n**Imported:** ${new Date().toLocaleString()}\n${hasWarning ? '**Status:** ⚠️ Transcript unavailable - manual notes only\n' : ''}\n---\n\n${summary ? formatSummarySections(summary) : ''}## 📝 ${hasWarning ? 'Notes' : 'Transcript'}\n\n${transcript}\n\n---\n\n## 📝 My Notes\n\nAdd your personal notes and thoughts here...`;
     } else if (activeTab === 'audio') {
       noteContent = `# 🎤 ${metadata.title}\n\n**Type:** Voice Recording\n**Imported:** ${new Date().toLocaleString()}\n---\n\n## 📝 Transcript\n\n${transcript}\n\n---\n\n## 📝 My Notes\n\nAdd your personal notes and thoughts here...`;
     } else if (activeTab === 'file') {
@@ -317,7 +382,10 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
       content: noteContent,
       source_url: (activeTab === 'youtube' || activeTab === 'url') ? url : undefined,
       thumbnail: metadata.thumbnail,
-      is_transcription: (activeTab === 'youtube' && !hasWarning) || activeTab === 'audio' || activeTab === 'file'
+      is_transcription: (activeTab === 'youtube' && !hasWarning) || activeTab === 'audio' || activeTab === 'file',
+      attachments: sourceFile && (activeTab === 'file' || activeTab === 'audio') ? [sourceFile] : undefined,
+      tagIds,
+      notebook_id: notebookId ?? undefined
     });
 
     handleClose();
@@ -332,6 +400,8 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
             setUrl={setUrl}
             onProcess={processUrl}
             isProcessing={isProcessing}
+            generateSummary={generateSummary}
+            onGenerateSummaryChange={setGenerateSummary}
           />
         );
       case "url":
@@ -407,6 +477,18 @@ export function EnhancedImportModal({ isOpen, onClose, onImport }: EnhancedImpor
             />
           )}
 
+          {/* Tag and notebook suggestions */}
+          {metadata && transcript && !hasWarning && !isProcessing && (
+            <ImportSuggestions
+              title={metadata.title}
+              content={transcript}
+              selectedTagIds={tagIds}
+              onSelectedTagIdsChange={setTagIds}
+              notebookId={notebookId}
+              onNotebookIdChange={setNotebookId}
+            />
+          )}
+
           {/* Action Buttons */}
           <ImportActions
             onClose={handleClose}
@@ -7,7 +7,7 @@ import { OCRUploader } from "../ocr/OCRUploader";
 interface FileTabProps {
   extractedText: string;
   onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
-  onOCRTextExtracted: (text: string, fileName: string) => void;
+  onOCRTextExtracted: (text: string, fileName: string, file: File) => void;
 }
 
 export function FileTab({ extractedText, onFileUpload, onOCRTextExtracted }: FileTabProps) {
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ClassificationSuggestions } from "@/components/ClassificationSuggestions";
+import { TagSelector } from "@/components/TagSelector";
+import { useToast } from "@/hooks/use-toast";
+import { classifyNote, useCreateTag, useNotebooks } from "@/lib/api";
+import { NoteClassification, withCreatedTag } from "@/lib/classification";
+
+interface ImportSuggestionsProps {
+  title: string;
+  content: string;
+  selectedTagIds: string[];
+  onSelectedTagIdsChange: (tagIds: string[]) => void;
+  notebookId: string | null;
+  onNotebookIdChange: (notebookId: string | null) => void;
+}
+
+const NEW_TAG_COLOR = "bg-blue-500";
+
+// Classifies the imported content as soon as it is ready and offers the
+// suggested tags and notebook for the new note
+export function ImportSuggestions({
+  title,
+  content,
+  selectedTagIds,
+  onSelectedTagIdsChange,
+  notebookId,
+  onNotebookIdChange
+}: ImportSuggestionsProps) {
+  const { toast } = useToast();
+  const { data: notebooks = [] } = useNotebooks();
+  const createTagMutation = useCreateTag();
+  const [classification, setClassification] = useState<NoteClassification | null>(null);
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [creatingTag, setCreatingTag] = useState<string | null>(null);
+  // Bumped by "Try again" to classify the same content once more
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsClassifying(true);
+    setError(null);
+    setClassification(null);
+
+    classifyNote({ title, content })
+      .then(result => {
+        if (!cancelled) setClassification(result);
+      })
+      .catch(classifyError => {
+        console.error("Classification error:", classifyError);
+        if (!cancelled) setError(classifyError instanceof Error ? classifyError.message : "Suggestions are unavailable.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsClassifying(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [title, content, attempt]);
+
+  const toggleTag = (tagId: string) => {
+    onSelectedTagIdsChange(selectedTagIds.includes(tagId)
+      ? selectedTagIds.filter(id => id !== tagId)
+      : [...selectedTagIds, tagId]);
+  };
+
+  const acceptNewTag = (name: string) => {
+    setCreatingTag(name);
+    createTagMutation.mutate({ name, color: NEW_TAG_COLOR }, {
+      onSuccess: (tag) => {
+        setClassification(current => current && withCreatedTag(current, tag));
+        onSelectedTagIdsChange([...selectedTagIds, tag.id]);
+      },
+      onError: (createError) => {
+        console.error("Error creating tag:", createError);
+        toast({
+          title: "Error",
+          description: `Failed to create tag ${name}`,
+          variant: "destructive"
+        });
+      },
+      onSettled: () => setCreatingTag(null),
+    });
+  };
+
+  const acceptAll = () => {
+    if (!classification) return;
+    onSelectedTagIdsChange([...new Set([...selectedTagIds, ...classification.tags.map(tag => tag.id)])]);
+    if (classification.notebook) onNotebookIdChange(classification.notebook.id);
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-primary" />
+            Suggested Tags & Notebook
+          </CardTitle>
+          {classification && (classification.tags.length > 0 || classification.notebook) && (
+            <Button variant="outline" size="sm" onClick={acceptAll}>
+              Accept all
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isClassifying ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Finding tags and a notebook for this content...
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+            <span>{error}</span>
+            <Button variant="ghost" size="sm" onClick={() => setAttempt(current => current + 1)}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Try again
+            </Button>
+          </div>
+        ) : classification && (
+          <ClassificationSuggestions
+            classification={classification}
+            notebooks={notebooks}
+            selectedTagIds={selectedTagIds}
+            selectedNotebookId={notebookId}
+            onTagToggle={toggleTag}
+            onNewTagAccept={acceptNewTag}
+            onNotebookToggle={id => onNotebookIdChange(notebookId === id ? null : id)}
+            creatingTag={creatingTag}
+          />
+        )}
+        <TagSelector selectedTags={selectedTagIds} onChange={onSelectedTagIdsChange} />
+      </CardContent>
+    </Card>
+  );
+}
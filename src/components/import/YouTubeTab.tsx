@@ -2,16 +2,27 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Clock, Video } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Clock, Sparkles, Video } from "lucide-react";
 
 interface YouTubeTabProps {
   url: string;
   setUrl: (url: string) => void;
   onProcess: () => void;
   isProcessing: boolean;
+  generateSummary: boolean;
+  onGenerateSummaryChange: (value: boolean) => void;
 }
 
-export function YouTubeTab({ url, setUrl, onProcess, isProcessing }: YouTubeTabProps) {
+export function YouTubeTab({
+  url,
+  setUrl,
+  onProcess,
+  isProcessing,
+  generateSummary,
+  onGenerateSummaryChange
+}: YouTubeTabProps) {
   return (
     <div className="space-y-6">
       <div>
@@ -42,6 +53,19 @@ export function YouTubeTab({ url, setUrl, onProcess, isProcessing }: YouTubeTabP
           </Button>
         </div>
       </div>
+
+      <div className="flex items-center gap-3">
+        <Switch
+          id="youtube-generate-summary"
+          checked={generateSummary}
+          onCheckedChange={onGenerateSummaryChange}
+          disabled={isProcessing}
+        />
+        <Label htmlFor="youtube-generate-summary" className="flex items-center gap-2 text-sm text-white">
+          <Sparkles className="h-4 w-4 text-blue-400" />
+          Generate AI summary, key points, chapters and concepts
+        </Label>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,320 @@
+import { Fragment, ReactNode, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Clock } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CALLOUT_STYLES } from "@/components/blocks/calloutStyles";
+import { blocksToMarkdown, NoteBlock, parseMarkdownBlocks, videoUrl } from "@/lib/blocks";
+import { CodeTokenType, highlightCode, InlineNode, parseInline, renderTex, safeUrl } from "@/lib/markdown";
+import { formatTimestamp } from "@/lib/timestamps";
+import { cn } from "@/lib/utils";
+
+interface MarkdownRendererProps {
+  content: string;
+  className?: string;
+  // Makes [mm:ss] timestamps buttons, e.g. to seek the video beside the note
+  onTimestampClick?: (seconds: number) => void;
+  // Makes task list checkboxes tickable; called with the updated markdown
+  onContentChange?: (content: string) => void;
+  // The note a [[Note title]] link points at, if there is one
+  resolveNoteTitle?: (title: string) => string | null;
+}
+
+const TOKEN_STYLES: Record<CodeTokenType, string | undefined> = {
+  plain: undefined,
+  comment: "text-muted-foreground italic",
+  string: "text-emerald-700 dark:text-emerald-400",
+  number: "text-amber-700 dark:text-amber-400",
+  keyword: "text-violet-700 dark:text-violet-400 font-medium",
+  literal: "text-sky-700 dark:text-sky-400"
+};
+
+const HEADING_STYLES = {
+  1: "text-2xl font-bold tracking-tight",
+  2: "text-xl font-semibold tracking-tight",
+  3: "text-lg font-semibold"
+} as const;
+
+const LIST_TYPES = ["bulleted", "numbered", "todo"];
+
+// KaTeX escapes the TeX it is given and, with trust off, emits no links or
+// custom markup, so its MathML is safe to insert
+function MathFormula({ tex, display }: { tex: string; display?: boolean }) {
+  const html = useMemo(() => renderTex(tex, display), [tex, display]);
+
+  return (
+    <span
+      className={cn(display ? "block overflow-x-auto py-2 text-center text-base" : "inline-block")}
+      title={tex}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
+
+function CodeBlock({ code, language }: { code: string; language: string }) {
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  return (
+    <div className="relative rounded-md border border-border bg-muted/50">
+      {language && (
+        <span className="absolute right-2 top-1.5 text-[10px] uppercase tracking-wide text-muted-foreground">
+          {language}
+        </span>
+      )}
+      <pre className="overflow-x-auto p-3 font-mono text-xs leading-relaxed">
+        <code>
+          {tokens.map((token, index) => (
+            <span key={index} className={TOKEN_STYLES[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+const dedent = (lines: string[]) => {
+  const indent = Math.min(...lines.filter(line => line.trim()).map(line => line.match(/^\s*/)?.[0].length ?? 0));
+  return lines.map(line => line.slice(indent)).join("\n");
+};
+
+// Renders markdown as React elements, never as HTML, so note content cannot
+// inject markup or scripts; only math is inserted as KaTeX's MathML. Supports GFM tables, task lists and alerts,
+// highlighted code and $TeX$ math.
+export function MarkdownRenderer({
+  content,
+  className,
+  onTimestampClick,
+  onContentChange,
+  resolveNoteTitle
+}: MarkdownRendererProps) {
+  const blocks = useMemo(() => parseMarkdownBlocks(content), [content]);
+
+  const toggleTask = (index: number, checked: boolean) => {
+    if (!onContentChange) return;
+    onContentChange(blocksToMarkdown(blocks.map((block, blockIndex) =>
+      blockIndex === index && block.type === "todo" ? { ...block, checked } : block)));
+  };
+
+  const renderInline = (nodes: InlineNode[]): ReactNode => nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case "break":
+        return <br key={index} />;
+      case "code":
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case "math":
+        return <MathFormula key={index} tex={node.tex} />;
+      case "strong":
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "strike":
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case "link": {
+        const isExternal = /^https?:/i.test(node.href);
+        return (
+          <a
+            key={index}
+            href={node.href}
+            className="text-primary underline underline-offset-2 hover:text-primary/80"
+            {...(isExternal ? { target: "_blank", rel: "noopener noreferrer" } : {})}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+      case "noteLink":
+        return (
+          <Link key={index} to={`/note/${node.noteId}`} className="text-primary underline underline-offset-2 hover:text-primary/80">
+            {renderInline(node.children)}
+          </Link>
+        );
+      case "wikiLink": {
+        const noteId = resolveNoteTitle?.(node.title);
+        return noteId ? (
+          <Link key={index} to={`/note/${noteId}`} className="text-primary underline underline-offset-2 hover:text-primary/80">
+            {node.label}
+          </Link>
+        ) : (
+          <span key={index} className="text-muted-foreground underline decoration-dashed underline-offset-2" title={`No note titled "${node.title}"`}>
+            {node.label}
+          </span>
+        );
+      }
+      case "image":
+        return <img key={index} src={node.src} alt={node.alt} loading="lazy" className="inline max-h-96 max-w-full rounded-md" />;
+      case "timestamp":
+        return onTimestampClick ? (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onTimestampClick(node.seconds)}
+            className="inline-flex items-center gap-0.5 rounded bg-primary/10 px-1 font-mono text-[0.85em] text-primary hover:bg-primary/20"
+            title={`Jump to ${formatTimestamp(node.seconds)}`}
+          >
+            <Clock className="h-3 w-3" />
+            {node.label}
+          </button>
+        ) : (
+          <span key={index} className="font-mono text-[0.85em] text-muted-foreground">[{node.label}]</span>
+        );
+    }
+  });
+
+  const renderText = (text: string) => renderInline(parseInline(text));
+
+  // A list item's indented lines are a nested list or paragraphs under it
+  const renderItemText = (text: string) => {
+    const [first, ...rest] = text.split("\n");
+    if (!rest.some(line => /^\s+\S/.test(line))) return renderText(text);
+    return (
+      <>
+        {renderText(first)}
+        <MarkdownRenderer
+          content={dedent(rest)}
+          className="mt-1"
+          onTimestampClick={onTimestampClick}
+          resolveNoteTitle={resolveNoteTitle}
+        />
+      </>
+    );
+  };
+
+  const renderBlock = (block: NoteBlock, index: number): ReactNode => {
+    switch (block.type) {
+      case "paragraph": {
+        const math = block.text.trim().match(/^\$\$([\s\S]+)\$\$$/);
+        if (math) return <MathFormula key={index} tex={math[1]} display />;
+        return <p key={index} className="leading-relaxed">{renderText(block.text)}</p>;
+      }
+      case "heading": {
+        const Heading = `h${block.level}` as const;
+        return <Heading key={index} className={cn(HEADING_STYLES[block.level], "pt-2")}>{renderText(block.text)}</Heading>;
+      }
+      case "quote":
+        return (
+          <blockquote key={index} className="border-l-4 border-border pl-4 italic text-muted-foreground">
+            {renderText(block.text)}
+          </blockquote>
+        );
+      case "callout": {
+        const style = CALLOUT_STYLES[block.variant];
+        return (
+          <div key={index} className={cn("rounded-md border px-4 py-3", style.className)}>
+            <div className="mb-1 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide">
+              <style.icon className="h-4 w-4" />
+              {style.label}
+            </div>
+            {block.text && <div className="leading-relaxed">{renderText(block.text)}</div>}
+          </div>
+        );
+      }
+      case "code":
+        return block.language.toLowerCase() === "math"
+          ? <MathFormula key={index} tex={block.text} display />
+          : <CodeBlock key={index} code={block.text} language={block.language} />;
+      case "table": {
+        const [header = [], ...body] = block.rows;
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="bg-muted/50">
+                  {header.map((cell, column) => (
+                    <th key={column} className="border border-border px-3 py-1.5 text-left font-medium">{renderText(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {body.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td key={column} className="border border-border px-3 py-1.5 align-top">{renderText(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+      case "image": {
+        const src = safeUrl(block.url);
+        if (!src) return null;
+        return (
+          <figure key={index} className="space-y-1">
+            <img src={src} alt={block.alt} loading="lazy" className="max-h-96 max-w-full rounded-md border border-border" />
+            {block.alt && <figcaption className="text-xs text-muted-foreground">{block.alt}</figcaption>}
+          </figure>
+        );
+      }
+      case "video":
+        return (
+          <div key={index} className="space-y-1">
+            <div className="aspect-video max-w-xl overflow-hidden rounded-md border border-border bg-black">
+              <iframe
+                src={`https://www.youtube-nocookie.com/embed/${encodeURIComponent(block.videoId)}?start=${Math.floor(block.start)}`}
+                title={block.caption || `Video at ${formatTimestamp(block.start)}`}
+                className="h-full w-full"
+                loading="lazy"
+                allow="accelerometer; encrypted-media; gyroscope; picture-in-picture"
+                allowFullScreen
+              />
+            </div>
+            <a
+              href={videoUrl(block.videoId, block.start)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <Clock className="h-3 w-3" />
+              {block.caption || formatTimestamp(block.start)}
+            </a>
+          </div>
+        );
+      case "divider":
+        return <hr key={index} className="border-border" />;
+      default:
+        return null;
+    }
+  };
+
+  // Consecutive items of the same kind of list are one list
+  const rendered: ReactNode[] = [];
+  for (let index = 0; index < blocks.length; index++) {
+    const block = blocks[index];
+    if (!LIST_TYPES.includes(block.type)) {
+      rendered.push(renderBlock(block, index));
+      continue;
+    }
+
+    const start = index;
+    while (index + 1 < blocks.length && blocks[index + 1].type === block.type) index++;
+    const items = blocks.slice(start, index + 1).map((item, offset) => {
+      const blockIndex = start + offset;
+      if (item.type === "todo") {
+        return (
+          <li key={blockIndex} className="flex items-start gap-2">
+            <Checkbox
+              checked={item.checked}
+              disabled={!onContentChange}
+              onCheckedChange={checked => toggleTask(blockIndex, checked === true)}
+              className="mt-0.5"
+              aria-label="Done"
+            />
+            <div className={cn("flex-1", item.checked && "text-muted-foreground line-through")}>
+              {"text" in item && renderItemText(item.text)}
+            </div>
+          </li>
+        );
+      }
+      return <li key={blockIndex} className="pl-1">{"text" in item && renderItemText(item.text)}</li>;
+    });
+
+    rendered.push(block.type === "numbered"
+      ? <ol key={start} className="list-decimal space-y-1 pl-6">{items}</ol>
+      : <ul key={start} className={cn("space-y-1", block.type === "bulleted" && "list-disc pl-6")}>{items}</ul>);
+  }
+
+  return <div className={cn("space-y-3 text-sm text-foreground break-words", className)}>{rendered}</div>;
+}
@@ -0,0 +1,202 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { Download, Eye, FileAudio, FileImage, FileText, Loader2, Paperclip, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatBytes,
+  getAttachmentUrl,
+  NoteAttachment,
+  StorageQuotaError,
+  useDeleteNoteAttachment,
+  useNoteAttachments,
+  useStorageUsage,
+  useUploadNoteAttachment,
+} from "@/lib/api";
+
+interface AttachmentsStripProps {
+  noteId: string;
+  isOwner: boolean;
+}
+
+const isImage = (attachment: NoteAttachment) => !!attachment.mime_type?.startsWith("image/");
+const isAudio = (attachment: NoteAttachment) => !!attachment.mime_type?.match(/^(audio|video)\//);
+const isPdf = (attachment: NoteAttachment) => attachment.mime_type === "application/pdf";
+
+const attachmentIcon = (attachment: NoteAttachment) =>
+  isImage(attachment) ? FileImage : isAudio(attachment) ? FileAudio : FileText;
+
+// Files uploaded with the note, such as the PDF or recording it was made from
+export function AttachmentsStrip({ noteId, isOwner }: AttachmentsStripProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { data: attachments = [] } = useNoteAttachments(noteId);
+  const { data: usage } = useStorageUsage();
+  const uploadMutation = useUploadNoteAttachment();
+  const deleteMutation = useDeleteNoteAttachment();
+  const [preview, setPreview] = useState<{ attachment: NoteAttachment; url: string } | null>(null);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  if (attachments.length === 0 && !isOwner) return null;
+
+  const withUrl = async (attachment: NoteAttachment, download: boolean, onUrl: (url: string) => void) => {
+    setOpeningId(attachment.id);
+    try {
+      onUrl(await getAttachmentUrl(attachment, { download }));
+    } catch (error) {
+      console.error("Open attachment error:", error);
+      toast({
+        title: "Error opening attachment",
+        description: "The file could not be opened. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handlePreview = (attachment: NoteAttachment) =>
+    withUrl(attachment, false, url => setPreview({ attachment, url }));
+
+  const handleDownload = (attachment: NoteAttachment) =>
+    withUrl(attachment, true, url => {
+      window.location.href = url;
+    });
+
+  const handleDelete = (attachment: NoteAttachment) => {
+    if (!confirm(`Delete ${attachment.name}? This cannot be undone.`)) return;
+
+    deleteMutation.mutate(attachment, {
+      onSuccess: () => {
+        toast({ title: "Attachment deleted", description: attachment.name });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error deleting attachment",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const handleUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    uploadMutation.mutate({ noteId, file }, {
+      onSuccess: () => {
+        toast({ title: "File attached", description: file.name });
+      },
+      onError: (error) => {
+        toast({
+          title: error instanceof StorageQuotaError ? "Storage full" : "Error attaching file",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <Paperclip className="h-4 w-4 text-muted-foreground" />
+        <span className="font-medium">Attachments</span>
+        {usage && isOwner && (
+          <span className="text-xs text-muted-foreground">
+            {formatBytes(usage.used_bytes)} of {formatBytes(usage.quota_bytes)} used
+          </span>
+        )}
+        {isOwner && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-7 px-2 text-xs"
+              onClick={() => inputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+            >
+              {uploadMutation.isPending
+                ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                : <Plus className="h-3.5 w-3.5 mr-1" />}
+              Attach file
+            </Button>
+            <input ref={inputRef} type="file" className="hidden" onChange={handleUpload} />
+          </>
+        )}
+      </div>
+
+      {attachments.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {attachments.map(attachment => {
+            const Icon = attachmentIcon(attachment);
+            return (
+              <div
+                key={attachment.id}
+                className="flex shrink-0 items-center gap-2 rounded-md border border-border bg-muted/30 py-1 pl-2 pr-1"
+              >
+                <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 max-w-[12rem]">
+                  <p className="truncate text-xs font-medium" title={attachment.name}>{attachment.name}</p>
+                  <p className="text-[10px] text-muted-foreground">{formatBytes(attachment.size)}</p>
+                </div>
+                {openingId === attachment.id ? (
+                  <Loader2 className="mx-2 h-3.5 w-3.5 animate-spin text-muted-foreground" />
+                ) : (
+                  <>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Preview" onClick={() => handlePreview(attachment)}>
+                      <Eye className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Download" onClick={() => handleDownload(attachment)}>
+                      <Download className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+                {isOwner && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 hover:text-red-600"
+                    aria-label="Delete"
+                    onClick={() => handleDelete(attachment)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!preview} onOpenChange={open => !open && setPreview(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">{preview?.attachment.name}</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            isImage(preview.attachment) ? (
+              <img src={preview.url} alt={preview.attachment.name} className="max-h-[70vh] w-full object-contain" />
+            ) : isAudio(preview.attachment) ? (
+              <audio src={preview.url} controls className="w-full" />
+            ) : isPdf(preview.attachment) ? (
+              <iframe src={preview.url} title={preview.attachment.name} className="h-[70vh] w-full rounded border" />
+            ) : (
+              <div className="flex flex-col items-center gap-3 py-8 text-sm text-muted-foreground">
+                <FileText className="h-10 w-10" />
+                This file cannot be previewed.
+                <Button variant="outline" size="sm" onClick={() => handleDownload(preview.attachment)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+              </div>
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { FileText, Link2, Video } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Backlink, useBacklinks } from "@/lib/api";
+
+interface BacklinksPanelProps {
+  noteId: string;
+  noteTitle: string;
+}
+
+const EXCERPT_RADIUS = 80;
+
+// The text around the first link to the note, so readers see why it links
+const linkExcerpt = (content: string | null, title: string): string => {
+  const text = content || "";
+  const target = title.trim().toLowerCase();
+  const link = [...text.matchAll(/\[\[([^[\]|\n]+)(?:\|[^[\]\n]*)?\]\]/g)]
+    .find(match => match[1].trim().toLowerCase() === target);
+  const index = link?.index ?? 0;
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, index + (link?.[0].length ?? 0) + EXCERPT_RADIUS);
+
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).replace(/\s+/g, " ").trim()}${end < text.length ? "…" : ""}`;
+};
+
+function BacklinkItem({ note, noteTitle }: { note: Backlink; noteTitle: string }) {
+  const Icon = note.is_transcription ? Video : FileText;
+
+  return (
+    <Link
+      to={`/note/${note.id}`}
+      className="block rounded-md border border-border p-3 transition-colors hover:bg-muted/50"
+    >
+      <div className="flex items-center gap-2">
+        <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <span className="truncate text-sm font-medium">{note.title || "Untitled Note"}</span>
+        <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(note.updated_at), { addSuffix: true })}
+        </span>
+      </div>
+      <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">{linkExcerpt(note.content, noteTitle)}</p>
+    </Link>
+  );
+}
+
+// Notes that link to this one with [[its title]]
+export function BacklinksPanel({ noteId, noteTitle }: BacklinksPanelProps) {
+  const { data: backlinks, isLoading } = useBacklinks(noteId);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Link2 className="h-4 w-4" />
+          Linked from
+          {backlinks && backlinks.length > 0 && (
+            <span className="text-sm font-normal text-muted-foreground">({backlinks.length})</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </>
+        ) : backlinks && backlinks.length > 0 ? (
+          backlinks.map(note => <BacklinkItem key={note.id} note={note} noteTitle={noteTitle} />)
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No notes link here yet. Link to this note from another one by typing [[{noteTitle || "its title"}]].
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 
-import { useState, useRef } from "react";
-import { Clock, Play, FileText, MessageSquare, Download, Brain } from "lucide-react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Clock, Play, FileText, MessageSquare, Download, Brain, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -8,31 +8,92 @@ import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/componen
 import { Card, CardContent } from "@/components/ui/card";
 import { VideoPlayer } from "@/components/video/VideoPlayer";
 import { TranscriptPanel } from "@/components/video/TranscriptPanel";
+import { AISummaryPanel } from "@/components/video/AISummaryPanel";
+import { ChapterRail } from "@/components/video/ChapterRail";
 import { NoteEditor } from "@/components/NoteEditor";
 import { ExportPanel } from "@/components/ExportPanel";
+import { BacklinksPanel } from "@/components/note-page/BacklinksPanel";
 import { DeepResearchPanel } from "@/components/research/DeepResearchPanel";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { useNoteArtifacts, useSaveNoteArtifacts } from "@/lib/api";
+import { hashText } from "@/lib/embeddings";
+import { parseChapterJson, parseChapterMarkdown, VideoChapter } from "@/lib/summarization";
+import { mergeActionItems } from "@/lib/tasks";
+import { VideoNoteProcessor } from "@/lib/videoNoteProcessor";
 
 interface EnhancedVideoNoteLayoutProps {
   note: any;
   videoId: string;
   updateNoteMutation: any;
   onSave: (updatedNote: any) => void;
+  // Seconds to seek to once the player is ready, e.g. from a citation link
+  seekToTimestamp?: number;
+  highlightRange?: { start: number; end: number };
 }
 
 export function EnhancedVideoNoteLayout({ 
   note, 
   videoId, 
   updateNoteMutation, 
-  onSave 
+  onSave,
+  seekToTimestamp,
+  highlightRange
 }: EnhancedVideoNoteLayoutProps) {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<string>("transcript");
   const [currentTimestamp, setCurrentTimestamp] = useState<number>(0);
   const [isVideoReady, setIsVideoReady] = useState<boolean>(false);
   const [isRefreshingTranscript, setIsRefreshingTranscript] = useState<boolean>(false);
+  const [isGeneratingChapters, setIsGeneratingChapters] = useState<boolean>(false);
+  const [transcriptScrollTarget, setTranscriptScrollTarget] = useState<{ time: number }>();
   const playerRef = useRef<any>(null);
+  const { data: artifacts } = useNoteArtifacts(note.id);
+  const saveArtifactsMutation = useSaveNoteArtifacts();
+
+  // Stored chapters win; notes imported with a chapters section use those
+  const storedChapters = artifacts?.chapters?.[0];
+  const chapters = useMemo(
+    () => storedChapters ? parseChapterJson(storedChapters.content) : parseChapterMarkdown(note.content || ''),
+    [storedChapters, note.content]
+  );
+  const contentHash = useMemo(() => hashText(note.content || ''), [note.content]);
+  const areChaptersStale = !!storedChapters && storedChapters.source_hash !== contentHash;
+
+  // Extracted action items join the note's checklist, which tracks them as tasks
+  const handleActionItemsExtracted = (checklist: string) => {
+    const content = mergeActionItems(note.content || '', checklist);
+    if (!content) {
+      toast({
+        title: "No new action items",
+        description: "The note already lists every action item found.",
+      });
+      return;
+    }
+
+    updateNoteMutation.mutate({
+      id: note.id,
+      updates: {
+        content,
+        updated_at: new Date().toISOString(),
+      },
+      expectedUpdatedAt: note.updated_at,
+    }, {
+      onSuccess: () => {
+        toast({
+          title: "Action items added",
+          description: "They are in the note's checklist and on the Tasks page.",
+        });
+      },
+      onError: () => {
+        toast({
+          title: "Action items not saved",
+          description: "The note could not be updated. Please try again.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
 
   const handleTimestampClick = (timestamp: number) => {
     setCurrentTimestamp(timestamp);
@@ -55,6 +116,56 @@ export function EnhancedVideoNoteLayout({
     }
   };
 
+  const handleChapterClick = (chapter: VideoChapter) => {
+    handleTimestampClick(chapter.start);
+    setTranscriptScrollTarget({ time: chapter.start });
+  };
+
+  const handleGenerateChapters = async () => {
+    if (!note.id) return;
+    const content = note.content || '';
+
+    setIsGeneratingChapters(true);
+    try {
+      const result = await VideoNoteProcessor.generateChapters(content, {
+        videoId,
+        title: note.title
+      });
+
+      if (result.chapters.length === 0) {
+        throw new Error('The transcript has no timestamps to build chapters from.');
+      }
+
+      await saveArtifactsMutation.mutateAsync({
+        noteId: note.id,
+        artifacts: [VideoNoteProcessor.toChapterArtifact(result, content)]
+      });
+
+      toast({
+        title: "Chapters ready",
+        description: result.source === 'description'
+          ? `Found ${result.chapters.length} chapters in the video description.`
+          : `Found ${result.chapters.length} chapters in the transcript.`,
+      });
+    } catch (error) {
+      console.error("Error generating chapters:", error);
+      toast({
+        title: "Could not create chapters",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGeneratingChapters(false);
+    }
+  };
+
+  // Citation links can change ?t while this note is already open
+  useEffect(() => {
+    if (seekToTimestamp === undefined || !isVideoReady) return;
+    playerRef.current?.seekTo(seekToTimestamp);
+    setCurrentTimestamp(seekToTimestamp);
+  }, [seekToTimestamp, isVideoReady]);
+
   const handleTranscriptRefresh = async () => {
     if (!videoId || !note.id) return;
     
@@ -88,6 +199,7 @@ export function EnhancedVideoNoteLayout({
             content: newContent,
             updated_at: new Date().toISOString(),
           },
+          expectedUpdatedAt: note.updated_at,
         });
         
         toast({
@@ -118,18 +230,31 @@ export function EnhancedVideoNoteLayout({
             {/* Enhanced Video Player */}
             <Card className="overflow-hidden border-border/50 shadow-lg">
               <CardContent className="p-6">
-                <VideoPlayer 
-                  videoId={videoId || ''} 
-                  playerRef={playerRef}
-                  onTimeUpdate={setCurrentTimestamp}
-                  onReady={() => {
-                    setIsVideoReady(true);
-                    toast({
-                      title: "✅ Video player ready!",
-                      description: "You can now watch the video and interact with timestamps.",
-                    });
-                  }}
-                />
+                <div className="flex flex-col xl:flex-row gap-6">
+                  <div className="flex-1 min-w-0">
+                    <VideoPlayer 
+                      videoId={videoId || ''} 
+                      playerRef={playerRef}
+                      onTimeUpdate={setCurrentTimestamp}
+                      onReady={() => {
+                        setIsVideoReady(true);
+                        toast({
+                          title: "✅ Video player ready!",
+                          description: "You can now watch the video and interact with timestamps.",
+                        });
+                      }}
+                    />
+                  </div>
+                  <ChapterRail
+                    className="xl:w-64 shrink-0"
+                    chapters={chapters}
+                    currentTime={currentTimestamp}
+                    onChapterClick={handleChapterClick}
+                    onGenerate={handleGenerateChapters}
+                    isGenerating={isGeneratingChapters}
+                    isStale={areChaptersStale}
+                  />
+                </div>
               </CardContent>
             </Card>
             
@@ -174,6 +299,7 @@ export function EnhancedVideoNoteLayout({
                     transcript={note.content || ''}
                     currentTime={currentTimestamp}
                     onTimestampClick={handleTimestampClick}
+                    scrollTarget={transcriptScrollTarget}
                   />
                 </div>
               </CardContent>
@@ -197,6 +323,13 @@ export function EnhancedVideoNoteLayout({
                   <FileText className="h-4 w-4 mr-2" />
                   Notes
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="summary"
+                  className="data-[state=active]:bg-background data-[state=active]:shadow-sm text-xs"
+                >
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Summary
+                </TabsTrigger>
                 <TabsTrigger 
                   value="research"
                   className="data-[state=active]:bg-background data-[state=active]:shadow-sm text-xs"
@@ -218,15 +351,33 @@ export function EnhancedVideoNoteLayout({
           <div className="flex-1 overflow-auto bg-gradient-to-b from-background to-muted/10">
             <Tabs value={activeTab} onValueChange={setActiveTab}>
               <TabsContent value="transcript" className="m-0 h-full">
-                <div className="p-6 h-full">
+                <div className="p-6 h-full space-y-6">
                   <NoteEditor 
                     initialNote={{
                       id: note.id,
                       title: note.title,
                       content: note.content,
                       tags: note.tags.map(tag => tag.id),
+                      updated_at: note.updated_at,
+                      user_id: note.user_id,
+                      shared_permissions: note.shared_permissions,
                     }} 
                     onSave={onSave}
+                    highlightRange={highlightRange}
+                    currentVideo={videoId ? { videoId, currentTime: currentTimestamp } : undefined}
+                    onTimestampClick={handleTimestampClick}
+                  />
+                  <BacklinksPanel noteId={note.id} noteTitle={note.title} />
+                </div>
+              </TabsContent>
+              
+              <TabsContent value="summary" className="m-0 h-full">
+                <div className="p-6 h-full">
+                  <AISummaryPanel
+                    noteId={note.id}
+                    content={note.content || ''}
+                    onTimestampClick={handleTimestampClick}
+                    onActionItemsExtracted={handleActionItemsExtracted}
                   />
                 </div>
               </TabsContent>
@@ -244,7 +395,8 @@ export function EnhancedVideoNoteLayout({
                       title: note.title,
                       content: note.content || '',
                       tags: note.tags.map(tag => tag.name),
-                      source_url: note.source_url
+                      source_url: note.source_url,
+                      blocks: note.blocks
                     }}
                   />
                 </div>
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowRight, History, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { TextDiff } from "@/components/TextDiff";
+import { useToast } from "@/hooks/use-toast";
+import { NoteVersion, useNoteVersions, useRestoreNoteVersion } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface NoteHistoryDrawerProps {
+  noteId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const REASON_LABELS: Record<NoteVersion['reason'], string> = {
+  original: 'Original',
+  edit: 'Saved',
+  autosave: 'Autosaved',
+  restore: 'Restored'
+};
+
+const versionLabel = (version: NoteVersion) =>
+  `${format(new Date(version.updated_at), "MMM d, HH:mm")} · ${REASON_LABELS[version.reason]}`;
+
+export function NoteHistoryDrawer({ noteId, open, onOpenChange }: NoteHistoryDrawerProps) {
+  const { data: versions = [], isLoading } = useNoteVersions(noteId, open);
+  const restoreMutation = useRestoreNoteVersion();
+  const { toast } = useToast();
+  // Versions to compare; by default the latest against the one before it
+  const [fromId, setFromId] = useState<string>();
+  const [toId, setToId] = useState<string>();
+  const [latestId, setLatestId] = useState<string>();
+
+  // A new save or restore moves the comparison to the newest version
+  if (versions[0]?.id !== latestId) {
+    setLatestId(versions[0]?.id);
+    setToId(versions[0]?.id);
+    setFromId(versions[1]?.id);
+  }
+
+  const from = versions.find(version => version.id === fromId);
+  const to = versions.find(version => version.id === toId);
+
+  const selectVersion = (index: number) => {
+    setToId(versions[index].id);
+    setFromId(versions[index + 1]?.id);
+  };
+
+  const handleRestore = (version: NoteVersion) => {
+    restoreMutation.mutate({ noteId, versionId: version.id }, {
+      onSuccess: () => {
+        toast({
+          title: "Version restored",
+          description: `The note now matches the version from ${formatDistanceToNow(new Date(version.updated_at), { addSuffix: true })}.`,
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error restoring version",
+          description: error instanceof Error ? error.message : "The version could not be restored.",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-3xl flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Version history
+          </SheetTitle>
+          <SheetDescription>
+            Every save is kept. Compare any two versions or restore an earlier one.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center text-muted-foreground">
+            <History className="h-8 w-8 mb-3 opacity-50" />
+            <p>No versions yet.</p>
+            <p className="text-sm">A version is recorded each time the note is saved with changes.</p>
+          </div>
+        ) : (
+          <>
+            <ScrollArea className="h-48 rounded-md border">
+              <ul className="p-1">
+                {versions.map((version, index) => (
+                  <li
+                    key={version.id}
+                    className={cn(
+                      "flex items-center justify-between gap-3 rounded-md px-3 py-2 cursor-pointer transition-colors",
+                      version.id === toId ? "bg-primary/10" : "hover:bg-muted/50"
+                    )}
+                    onClick={() => selectVersion(index)}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">
+                          {formatDistanceToNow(new Date(version.updated_at), { addSuffix: true })}
+                        </span>
+                        <Badge variant="outline" className="text-xs">{REASON_LABELS[version.reason]}</Badge>
+                        {index === 0 && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">{version.title}</p>
+                    </div>
+                    {index > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRestore(version);
+                        }}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            <div className="flex items-center gap-2">
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Compare from..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map(version => (
+                    <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Compare to..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map(version => (
+                    <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ScrollArea className="flex-1 rounded-md border">
+              <div className="p-4 space-y-3">
+                {from && to ? (
+                  <>
+                    {from.title !== to.title && (
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Title: </span>
+                        <del className="text-red-700 dark:text-red-400">{from.title}</del>
+                        {" → "}
+                        <ins className="no-underline text-green-700 dark:text-green-400">{to.title}</ins>
+                      </p>
+                    )}
+                    <TextDiff oldText={from.content ?? ''} newText={to.content ?? ''} />
+                  </>
+                ) : to ? (
+                  <p className="whitespace-pre-wrap text-sm leading-relaxed">{to.content}</p>
+                ) : null}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
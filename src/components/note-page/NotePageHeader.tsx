@@ -1,7 +1,13 @@
 
-import { ChevronLeft, ExternalLink, Save, Trash2, Play, FileText, Download, Youtube } from "lucide-react";
+import { useState } from "react";
+import { ChevronLeft, ExternalLink, Save, Trash2, Play, FileText, Download, Youtube, History, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { NoteHistoryDrawer } from "@/components/note-page/NoteHistoryDrawer";
+import { ReminderPopover } from "@/components/note-page/ReminderPopover";
+import { ShareNoteDialog } from "@/components/note-page/ShareNoteDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { getNoteAccessRole, getNoteShares } from "@/lib/api";
 
 interface NotePageHeaderProps {
   isLoading: boolean;
@@ -24,6 +30,12 @@ export function NotePageHeader({
   onDelete,
   onExport
 }: NotePageHeaderProps) {
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const { user } = useAuth();
+  const role = note ? getNoteAccessRole(note, user?.id) : null;
+  const shares = note ? getNoteShares(note) : [];
+
   return (
     <header className="border-b border-border/50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="px-6 py-4">
@@ -95,26 +107,71 @@ export function NotePageHeader({
                 <Button 
                   variant="outline" 
                   size="sm" 
-                  onClick={onSave}
-                  className="hover:bg-green-50 hover:border-green-300 hover:text-green-700 transition-colors"
+                  onClick={() => setIsShareOpen(true)}
+                  className="hover:bg-emerald-50 hover:border-emerald-300 hover:text-emerald-700 transition-colors"
                 >
-                  <Save className="h-4 w-4 mr-2" />
-                  Save Note
+                  <Users className="h-4 w-4 mr-2" />
+                  {role === "owner" ? "Share" : "Shared"}
+                  {shares.length > 0 && (
+                    <Badge variant="secondary" className="ml-2 h-5 px-1.5 text-xs">{shares.length}</Badge>
+                  )}
                 </Button>
+                {role === "owner" && <ReminderPopover note={note} />}
                 <Button 
                   variant="outline" 
                   size="sm" 
-                  onClick={onDelete}
-                  className="hover:bg-red-50 hover:border-red-300 hover:text-red-700 transition-colors"
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="hover:bg-purple-50 hover:border-purple-300 hover:text-purple-700 transition-colors"
                 >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete
+                  <History className="h-4 w-4 mr-2" />
+                  History
                 </Button>
+                {(role === "owner" || role === "editor") && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={onSave}
+                    className="hover:bg-green-50 hover:border-green-300 hover:text-green-700 transition-colors"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Note
+                  </Button>
+                )}
+                {role === "owner" && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={onDelete}
+                    className="hover:bg-red-50 hover:border-red-300 hover:text-red-700 transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                )}
               </>
             )}
           </div>
         </div>
       </div>
+
+      {note?.id && (
+        <NoteHistoryDrawer
+          noteId={note.id}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+        />
+      )}
+
+      {note?.id && role && (
+        <ShareNoteDialog
+          noteId={note.id}
+          shares={shares}
+          role={role}
+          userId={user?.id}
+          open={isShareOpen}
+          onOpenChange={setIsShareOpen}
+        />
+      )}
     </header>
   );
 }
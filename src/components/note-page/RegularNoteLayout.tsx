@@ -1,23 +1,38 @@
 
 import { NoteEditor } from "@/components/NoteEditor";
+import { BacklinksPanel } from "@/components/note-page/BacklinksPanel";
+import { videoUrl } from "@/lib/blocks";
+import { getYoutubeVideoId } from "@/lib/utils";
 
 interface RegularNoteLayoutProps {
   note: any;
   onSave: (updatedNote: any) => void;
+  highlightRange?: { start: number; end: number };
 }
 
-export function RegularNoteLayout({ note, onSave }: RegularNoteLayoutProps) {
+export function RegularNoteLayout({ note, onSave, highlightRange }: RegularNoteLayoutProps) {
+  // Timestamps open the note's source video at that point
+  const sourceVideoId = note.source_url ? getYoutubeVideoId(note.source_url) : null;
+
   return (
-    <div className="p-6 h-full">
+    <div className="p-6 h-full space-y-6">
       <NoteEditor 
         initialNote={{
           id: note.id,
           title: note.title,
           content: note.content,
           tags: note.tags.map(tag => tag.id),
+          updated_at: note.updated_at,
+          user_id: note.user_id,
+          shared_permissions: note.shared_permissions,
         }} 
         onSave={onSave}
+        highlightRange={highlightRange}
+        onTimestampClick={sourceVideoId
+          ? seconds => window.open(videoUrl(sourceVideoId, seconds), "_blank", "noopener,noreferrer")
+          : undefined}
       />
+      <BacklinksPanel noteId={note.id} noteTitle={note.title} />
     </div>
   );
 }
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { format, isPast, parseISO } from "date-fns";
+import { Bell, BellRing, CalendarClock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Note, ReminderRecurrence, REMINDER_RECURRENCES, useUpdateNote } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface ReminderPopoverProps {
+  note: Note;
+}
+
+const RECURRENCE_LABELS: Record<ReminderRecurrence, string> = {
+  daily: "Every day",
+  weekly: "Every week",
+  monthly: "Every month",
+  yearly: "Every year"
+};
+
+// Due dates are notified at 9:00 on the day
+const DUE_TIME = "09:00";
+
+const withTime = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const result = new Date(date);
+  result.setHours(hours || 0, minutes || 0, 0, 0);
+  return result;
+};
+
+// The owner's reminder and due date for a note
+export function ReminderPopover({ note }: ReminderPopoverProps) {
+  const { toast } = useToast();
+  const updateNoteMutation = useUpdateNote();
+  const [open, setOpen] = useState(false);
+
+  const savedReminder = note.is_reminder && note.reminder_date ? parseISO(note.reminder_date) : undefined;
+  const savedDue = note.due_date ? parseISO(note.due_date) : undefined;
+
+  const [reminderDate, setReminderDate] = useState<Date | undefined>(savedReminder);
+  const [reminderTime, setReminderTime] = useState(savedReminder ? format(savedReminder, "HH:mm") : DUE_TIME);
+  const [recurrence, setRecurrence] = useState<ReminderRecurrence | "none">(
+    (note.reminder_recurrence as ReminderRecurrence | null) ?? "none"
+  );
+  const [email, setEmail] = useState(note.reminder_email);
+  const [dueDate, setDueDate] = useState<Date | undefined>(savedDue);
+
+  // Starts from what is saved each time it opens
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setReminderDate(savedReminder);
+      setReminderTime(savedReminder ? format(savedReminder, "HH:mm") : DUE_TIME);
+      setRecurrence((note.reminder_recurrence as ReminderRecurrence | null) ?? "none");
+      setEmail(note.reminder_email);
+      setDueDate(savedDue);
+    }
+    setOpen(nextOpen);
+  };
+
+  const save = (updates: Partial<Note>, successTitle: string, successDescription?: string) => {
+    updateNoteMutation.mutate({ id: note.id, updates }, {
+      onSuccess: () => {
+        toast({ title: successTitle, description: successDescription });
+        setOpen(false);
+      },
+      onError: (error) => {
+        console.error("Error saving reminder:", error);
+        toast({
+          title: "Error saving reminder",
+          description: "Failed to save the reminder. Please try again.",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleSave = () => {
+    const reminderAt = reminderDate ? withTime(reminderDate, reminderTime) : null;
+    if (reminderAt && isPast(reminderAt) && recurrence === "none") {
+      toast({
+        title: "Reminder is in the past",
+        description: "Pick a later time for the reminder.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    save({
+      is_reminder: !!reminderAt,
+      reminder_date: reminderAt?.toISOString() ?? null,
+      reminder_recurrence: reminderAt && recurrence !== "none" ? recurrence : null,
+      reminder_email: email,
+      due_date: dueDate ? withTime(dueDate, DUE_TIME).toISOString() : null
+    }, "Reminder saved", reminderAt ? `We'll remind you ${format(reminderAt, "PPP 'at' p")}` : undefined);
+  };
+
+  const handleClear = () => {
+    save({
+      is_reminder: false,
+      reminder_date: null,
+      reminder_recurrence: null,
+      due_date: null
+    }, "Reminder removed");
+  };
+
+  const hasSchedule = !!savedReminder || !!savedDue;
+  const isOverdue = !!savedDue && isPast(savedDue);
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(
+            "hover:bg-amber-50 hover:border-amber-300 hover:text-amber-700 transition-colors",
+            isOverdue && "border-red-300 text-red-600"
+          )}
+        >
+          {hasSchedule ? <BellRing className="h-4 w-4 mr-2" /> : <Bell className="h-4 w-4 mr-2" />}
+          {savedReminder
+            ? format(savedReminder, "MMM d, p")
+            : savedDue
+              ? `Due ${format(savedDue, "MMM d")}`
+              : "Remind"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="p-3 space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <BellRing className="h-4 w-4 text-primary" />
+            Remind me
+          </div>
+          <Calendar
+            mode="single"
+            selected={reminderDate}
+            onSelect={setReminderDate}
+            initialFocus
+            className="p-0"
+          />
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={reminderTime}
+              onChange={(e) => setReminderTime(e.target.value)}
+              disabled={!reminderDate}
+              className="w-32"
+              aria-label="Reminder time"
+            />
+            <Select
+              value={recurrence}
+              onValueChange={(value) => setRecurrence(value as ReminderRecurrence | "none")}
+              disabled={!reminderDate}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Once</SelectItem>
+                {REMINDER_RECURRENCES.map(value => (
+                  <SelectItem key={value} value={value}>{RECURRENCE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {reminderDate && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => setReminderDate(undefined)}>
+              Remove reminder
+            </Button>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="p-3 space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <CalendarClock className="h-4 w-4 text-primary" />
+            Due date
+          </div>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="w-full justify-start font-normal">
+                {dueDate ? format(dueDate, "PPP") : "No due date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar mode="single" selected={dueDate} onSelect={setDueDate} initialFocus />
+              {dueDate && (
+                <div className="border-t p-1">
+                  <Button variant="ghost" size="sm" className="w-full" onClick={() => setDueDate(undefined)}>
+                    Remove due date
+                  </Button>
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        <Separator />
+
+        <div className="p-3 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="reminder-email" className="text-sm font-normal">Also send an email</Label>
+            <Switch id="reminder-email" checked={email} onCheckedChange={setEmail} />
+          </div>
+          <div className="flex gap-2">
+            {hasSchedule && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={handleClear}
+                disabled={updateNoteMutation.isPending}
+              >
+                Clear all
+              </Button>
+            )}
+            <Button size="sm" className="flex-1" onClick={handleSave} disabled={updateNoteMutation.isPending}>
+              {updateNoteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,266 @@
+import { FormEvent, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, LogOut, Mail, UserPlus, Users, X } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { ShareLinksPanel } from "@/components/ShareLinksPanel";
+import { useToast } from "@/hooks/use-toast";
+import { collaboratorColor } from "@/hooks/useNoteCollaboration";
+import {
+  NoteAccessRole,
+  NoteInvite,
+  NoteShare,
+  NoteShareRole,
+  NOTE_SHARE_ROLES,
+  useNoteInvites,
+  useShareNote,
+  useUnshareNote,
+  useWithdrawNoteInvite,
+} from "@/lib/api";
+
+interface ShareNoteDialogProps {
+  noteId: string;
+  shares: NoteShare[];
+  role: NoteAccessRole;
+  userId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ROLE_LABELS: Record<NoteShareRole, string> = {
+  viewer: "Can view",
+  commenter: "Can comment",
+  editor: "Can edit"
+};
+
+interface RoleSelectProps {
+  value: NoteShareRole;
+  onChange: (role: NoteShareRole) => void;
+  disabled?: boolean;
+}
+
+function RoleSelect({ value, onChange, disabled }: RoleSelectProps) {
+  return (
+    <Select value={value} onValueChange={role => onChange(role as NoteShareRole)} disabled={disabled}>
+      <SelectTrigger className="w-32 h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {NOTE_SHARE_ROLES.map(shareRole => (
+          <SelectItem key={shareRole} value={shareRole}>{ROLE_LABELS[shareRole]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function ShareNoteDialog({ noteId, shares, role, userId, open, onOpenChange }: ShareNoteDialogProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const shareMutation = useShareNote();
+  const unshareMutation = useUnshareNote();
+  const withdrawMutation = useWithdrawNoteInvite();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<NoteShareRole>("editor");
+  const isOwner = role === "owner";
+  // Only the owner can see who was invited
+  const { data: invites = [] } = useNoteInvites(noteId, isOwner && open);
+
+  const share = (shareEmail: string, shareRole: NoteShareRole, onSuccess?: () => void) => {
+    shareMutation.mutate({ noteId, email: shareEmail, role: shareRole }, {
+      onSuccess,
+      onError: (error) => {
+        toast({
+          title: "Error sharing note",
+          description: error instanceof Error ? error.message : "The note could not be shared.",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleInvite = (e: FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    share(email.trim(), inviteRole, () => {
+      toast({
+        title: "Invitation saved",
+        description: `${email.trim()} ${ROLE_LABELS[inviteRole].toLowerCase()} this note once they sign in with that email.`,
+      });
+      setEmail("");
+    });
+  };
+
+  const handleRemove = (collaborator: NoteShare) => {
+    const isLeaving = collaborator.user_id === userId;
+    unshareMutation.mutate({ noteId, userId: collaborator.user_id }, {
+      onSuccess: () => {
+        if (isLeaving) {
+          toast({ title: "Left note", description: "The note is no longer shared with you." });
+          navigate("/dashboard");
+        }
+      },
+      onError: (error) => {
+        toast({
+          title: isLeaving ? "Error leaving note" : "Error removing collaborator",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleWithdraw = (invite: NoteInvite) => {
+    withdrawMutation.mutate(invite, {
+      onError: (error) => {
+        toast({
+          title: "Error withdrawing invitation",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const currentShare = shares.find(collaborator => collaborator.user_id === userId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            {isOwner ? "Share note" : "Shared note"}
+          </DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? "Invite people by the email they sign in with. Editors see each other's changes live."
+              : "This note belongs to someone else and is shared with you."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="name@example.com"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              className="flex-1"
+            />
+            <Select value={inviteRole} onValueChange={value => setInviteRole(value as NoteShareRole)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NOTE_SHARE_ROLES.map(shareRole => (
+                  <SelectItem key={shareRole} value={shareRole}>{ROLE_LABELS[shareRole]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={!email.trim() || shareMutation.isPending}>
+              {shareMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        {shares.length === 0 && invites.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Only you can see this note.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {shares.map(collaborator => (
+              <li key={collaborator.user_id} className="flex items-center gap-3 px-3 py-2">
+                <div
+                  className="h-8 w-8 shrink-0 rounded-full flex items-center justify-center text-sm font-medium text-white"
+                  style={{ backgroundColor: collaboratorColor(collaborator.user_id) }}
+                >
+                  {collaborator.email.charAt(0).toUpperCase()}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {collaborator.email}
+                    {collaborator.user_id === userId && <span className="text-muted-foreground"> (you)</span>}
+                  </p>
+                  {collaborator.invited_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Invited {formatDistanceToNow(new Date(collaborator.invited_at), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                {isOwner ? (
+                  <>
+                    <RoleSelect
+                      value={collaborator.role}
+                      onChange={shareRole => share(collaborator.email, shareRole)}
+                      disabled={shareMutation.isPending}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Remove"
+                      onClick={() => handleRemove(collaborator)}
+                      disabled={unshareMutation.isPending}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-xs text-muted-foreground">{ROLE_LABELS[collaborator.role]}</span>
+                )}
+              </li>
+            ))}
+            {invites.map(invite => (
+              <li key={`invite:${invite.email}`} className="flex items-center gap-3 px-3 py-2">
+                <div className="h-8 w-8 shrink-0 rounded-full flex items-center justify-center bg-muted text-muted-foreground">
+                  <Mail className="h-4 w-4" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{invite.email}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Invited {formatDistanceToNow(new Date(invite.invited_at), { addSuffix: true })}, joins when they sign in
+                  </p>
+                </div>
+                <RoleSelect
+                  value={invite.role}
+                  onChange={shareRole => share(invite.email, shareRole)}
+                  disabled={shareMutation.isPending}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Withdraw invitation"
+                  onClick={() => handleWithdraw(invite)}
+                  disabled={withdrawMutation.isPending}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isOwner && (
+          <>
+            <Separator />
+            <ShareLinksPanel target={{ noteId }} />
+          </>
+        )}
+
+        {!isOwner && currentShare && (
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => handleRemove(currentShare)} disabled={unshareMutation.isPending}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave note
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -90,6 +90,7 @@ export function VideoNoteLayout({ note, videoId, updateNoteMutation, onSave }: V
             content: newContent,
             updated_at: new Date().toISOString(),
           },
+          expectedUpdatedAt: note.updated_at,
         });
         
         toast({
@@ -128,6 +129,7 @@ export function VideoNoteLayout({ note, videoId, updateNoteMutation, onSave }: V
               content: newContent,
               updated_at: new Date().toISOString(),
             },
+            expectedUpdatedAt: note.updated_at,
           });
           
           toast({
@@ -271,6 +273,7 @@ export function VideoNoteLayout({ note, videoId, updateNoteMutation, onSave }: V
                           content: summary,
                           updated_at: new Date().toISOString(),
                         },
+                        expectedUpdatedAt: note.updated_at,
                       });
                     }}
                   />
@@ -10,7 +10,8 @@ import { useToast } from "@/hooks/use-toast";
 import { OCRService, OCRResult } from "@/lib/ocrService";
 
 interface OCRUploaderProps {
-  onTextExtracted: (text: string, fileName: string) => void;
+  // The file is passed on so the note can keep the original
+  onTextExtracted: (text: string, fileName: string, file: File) => void;
   className?: string;
 }
 
@@ -43,7 +44,7 @@ export function OCRUploader({ onTextExtracted, className }: OCRUploaderProps) {
       if (ocrResult.success && ocrResult.text) {
         setResult(ocrResult);
         setExtractedText(ocrResult.text);
-        onTextExtracted(ocrResult.text, file.name);
+        onTextExtracted(ocrResult.text, file.name, file);
         
         toast({
           title: "✅ Text Extracted Successfully!",
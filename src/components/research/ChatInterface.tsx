@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { Citation } from "@/lib/aiResearch/contextProcessor";
+import { CitedAnswer } from "@/components/ai-research/CitedAnswer";
 
 interface SearchResult {
   id: string;
@@ -21,6 +23,7 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   sources?: SearchResult[];
+  citations?: Citation[];
   responseTime?: number;
   tokenCount?: number;
 }
@@ -86,7 +89,7 @@ export function ChatInterface({
                       : "bg-muted"
                   )}
                 >
-                  <p className="whitespace-pre-wrap">{message.content}</p>
+                  <CitedAnswer content={message.content} citations={message.citations} compact />
                   {message.type === 'assistant' && (
                     <div className="mt-1 pt-1 border-t border-muted-foreground/20">
                       <div className="flex items-center gap-2 text-xs opacity-75">
@@ -1,9 +1,12 @@
 
 import { useRef, useEffect } from "react";
-import { Search, Zap } from "lucide-react";
+import { Search, Zap, Loader2 } from "lucide-react";
+import { Link } from "react-router-dom";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { HighlightedSnippet } from "@/components/search/HighlightedSnippet";
 
 interface SearchResult {
   id: string;
@@ -16,10 +19,22 @@ interface SearchResult {
 interface SearchInterfaceProps {
   searchQuery: string;
   searchResults: SearchResult[];
+  searchTotal?: number;
+  hasMoreResults?: boolean;
+  isSearching?: boolean;
   onSearch: (query: string) => void;
+  onLoadMore?: () => void;
 }
 
-export function SearchInterface({ searchQuery, searchResults, onSearch }: SearchInterfaceProps) {
+export function SearchInterface({
+  searchQuery,
+  searchResults,
+  searchTotal,
+  hasMoreResults,
+  isSearching,
+  onSearch,
+  onLoadMore
+}: SearchInterfaceProps) {
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -42,18 +57,40 @@ export function SearchInterface({ searchQuery, searchResults, onSearch }: Search
         {searchResults.length > 0 ? (
           <div className="space-y-2">
             {searchResults.map((result) => (
-              <div key={result.id} className="p-2 border rounded text-xs hover:bg-muted/50 cursor-pointer transition-colors">
-                <div className="flex items-start justify-between mb-1">
-                  <h4 className="font-medium truncate pr-2">{result.title}</h4>
-                  <Badge variant="outline" className="text-xs h-4 px-1 shrink-0">
-                    {result.relevance.toFixed(1)}
-                  </Badge>
+              <Link key={result.id} to={`/note/${result.id}`} className="block">
+                <div className="p-2 border rounded text-xs hover:bg-muted/50 cursor-pointer transition-colors">
+                  <div className="flex items-start justify-between mb-1">
+                    <h4 className="font-medium truncate pr-2">{result.title}</h4>
+                    <Badge variant="outline" className="text-xs h-4 px-1 shrink-0">
+                      {result.relevance.toFixed(2)}
+                    </Badge>
+                  </div>
+                  <HighlightedSnippet
+                    snippet={result.snippet}
+                    className="text-muted-foreground text-xs line-clamp-2"
+                  />
                 </div>
-                <p className="text-muted-foreground text-xs line-clamp-2">
-                  {result.snippet}
-                </p>
-              </div>
+              </Link>
             ))}
+            {hasMoreResults && onLoadMore && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full h-6 text-xs"
+                onClick={onLoadMore}
+                disabled={isSearching}
+              >
+                {isSearching ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  `Show more (${searchResults.length} of ${searchTotal ?? searchResults.length})`
+                )}
+              </Button>
+            )}
+          </div>
+        ) : isSearching ? (
+          <div className="flex justify-center py-4 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
           </div>
         ) : searchQuery ? (
           <div className="text-center py-4 text-muted-foreground text-xs">
@@ -64,7 +101,7 @@ export function SearchInterface({ searchQuery, searchResults, onSearch }: Search
           <div className="text-center py-4 text-muted-foreground text-xs">
             <Zap className="h-6 w-6 mx-auto mb-2 text-yellow-500 opacity-50" />
             <p>Ultra-fast search ready</p>
-            <p className="text-xs mt-1 opacity-75">Enhanced with smart caching</p>
+            <p className="text-xs mt-1 opacity-75">Ranked full-text search</p>
           </div>
         )}
       </ScrollArea>
@@ -0,0 +1,40 @@
+interface HighlightedSnippetProps {
+  snippet: string;
+  className?: string;
+}
+
+// Snippets come back from search_notes_ranked with <mark></mark> around the
+// matched terms. Split on those markers instead of injecting HTML so note
+// content can never be rendered as markup.
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+export function HighlightedSnippet({ snippet, className }: HighlightedSnippetProps) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let lastIndex = 0;
+
+  for (const match of snippet.matchAll(MARK_PATTERN)) {
+    if (match.index > lastIndex) {
+      parts.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    parts.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < snippet.length) {
+    parts.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return (
+    <p className={className}>
+      {parts.map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="rounded-sm bg-yellow-200/70 px-0.5 text-foreground dark:bg-yellow-500/30">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
@@ -1,28 +1,134 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Sparkles, List, FileText, CheckCircle, Loader2, Brain, Lightbulb, BookOpen } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Sparkles, List, FileText, CheckCircle, Loader2, Brain, Lightbulb, BookOpen, Square, History, AlertTriangle, GitCompare, ListChecks } from "lucide-react";
+import { TextDiff } from "@/components/TextDiff";
+import { MarkdownRenderer } from "@/components/markdown/MarkdownRenderer";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { AIService, PROVIDER_LABELS, type ProviderId } from "@/lib/aiService";
+import { NewNoteArtifact, NoteArtifactType, useNoteArtifacts, useSaveNoteArtifacts } from "@/lib/api";
+import { hashText } from "@/lib/embeddings";
+import { SUMMARIZER_PROMPT_VERSION, SummarizationProgress, TranscriptSummarizer } from "@/lib/summarization";
+import { toActionItemChecklist } from "@/lib/tasks";
 
 interface AISummaryPanelProps {
   noteId: string;
   content: string;
   onSummaryGenerated?: (summary: string) => void;
+  // Makes [mm:ss] timestamps in the summaries clickable
+  onTimestampClick?: (seconds: number) => void;
+  // Shows an action items button; gets the items as a markdown checklist
+  onActionItemsExtracted?: (checklist: string) => void;
 }
 
-export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummaryPanelProps) {
+// Stored with each artifact; bump when the request options below change
+const SUMMARY_PROMPT_VERSION = 'video-analysis-v1';
+const NARRATIVE_PROMPT_VERSION = 'video-narrative-v1';
+
+// Artifact shown by each summary tab
+const TAB_ARTIFACTS: Record<string, NoteArtifactType> = {
+  full: 'summary',
+  'key-points': 'key_points',
+  highlights: 'highlights',
+  narrative: 'narrative'
+};
+
+type Generation = Pick<NewNoteArtifact, 'provider' | 'model' | 'prompt_version' | 'source_hash'>;
+
+export function AISummaryPanel({ noteId, content, onSummaryGenerated, onTimestampClick, onActionItemsExtracted }: AISummaryPanelProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isGeneratingNarrative, setIsGeneratingNarrative] = useState(false);
+  const [isExtractingActions, setIsExtractingActions] = useState(false);
   const [summaryType, setSummaryType] = useState<string>("full");
   const [summary, setSummary] = useState<string | null>(null);
   const [keyPoints, setKeyPoints] = useState<string | null>(null);
   const [highlights, setHighlights] = useState<string | null>(null);
   const [narrativeSummary, setNarrativeSummary] = useState<string | null>(null);
+  // Set while a long transcript is summarized part by part
+  const [summaryProgress, setSummaryProgress] = useState<SummarizationProgress | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const loadedNoteRef = useRef<string | null>(null);
   const { toast } = useToast();
+  const { data: artifacts } = useNoteArtifacts(noteId);
+  const saveArtifacts = useSaveNoteArtifacts();
+  const isGenerating = isProcessing || isGeneratingNarrative || isExtractingActions;
+
+  const sourceHash = useMemo(() => hashText(content), [content]);
+  const isStale = (type: NoteArtifactType) => {
+    const current = artifacts?.[type]?.[0];
+    return !!current && current.source_hash !== sourceHash;
+  };
+  const hasStaleArtifacts = Object.values(TAB_ARTIFACTS).some(isStale);
+  const [currentArtifact, previousArtifact] = artifacts?.[TAB_ARTIFACTS[summaryType]] ?? [];
+
+  // Show what was generated before instead of paying for it again
+  useEffect(() => {
+    if (!artifacts || loadedNoteRef.current === noteId) return;
+    loadedNoteRef.current = noteId;
+    setSummary(artifacts.summary?.[0]?.content ?? null);
+    setKeyPoints(artifacts.key_points?.[0]?.content ?? null);
+    setHighlights(artifacts.highlights?.[0]?.content ?? null);
+    setNarrativeSummary(artifacts.narrative?.[0]?.content ?? null);
+  }, [artifacts, noteId]);
+
+  // Stop any summary still streaming when the panel goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const persistArtifacts = (generated: NewNoteArtifact[]) => {
+    if (!noteId) return;
+    saveArtifacts.mutate({ noteId, artifacts: generated }, {
+      onError: () => {
+        toast({
+          title: "Summary not saved",
+          description: "It is shown here but will have to be regenerated next time.",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const applySummary = (processedText: string, generation: Generation, keyPointsText?: string) => {
+    // Set the entire processed content as summary for now
+    setSummary(processedText);
+    const generated: NewNoteArtifact[] = [{ artifact_type: 'summary', content: processedText, ...generation }];
+    
+    // Extract key points if available
+    const extractedKeyPoints = keyPointsText || processedText.match(/(?:##|###) Key Points[\s\S]*?(?=(?:##|###)|$)/i)?.[0];
+    if (extractedKeyPoints) {
+      setKeyPoints(extractedKeyPoints);
+      generated.push({ artifact_type: 'key_points', content: extractedKeyPoints, ...generation });
+    }
+    
+    // Extract highlights if available
+    const highlightsMatch = processedText.match(/(?:##|###) Key Highlights[\s\S]*?(?=(?:##|###)|$)/i);
+    if (highlightsMatch) {
+      setHighlights(highlightsMatch[0]);
+      generated.push({ artifact_type: 'highlights', content: highlightsMatch[0], ...generation });
+    }
+    
+    persistArtifacts(generated);
+    
+    if (onSummaryGenerated) {
+      onSummaryGenerated(processedText);
+    }
+    
+    toast({
+      title: "Summary generated",
+      description: "AI summary has been successfully generated.",
+    });
+  };
 
   const generateSummary = async () => {
     if (!content || content.length < 50) {
@@ -34,55 +140,66 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const previousSummary = summary;
+    const generatedFrom = sourceHash;
+
+    // The summary tab fills in as the response streams
     setIsProcessing(true);
+    setSummary(null);
+    setSummaryType("full");
     try {
-      const { data, error } = await supabase.functions.invoke("process-content-with-deepseek", {
-        body: {
-          content,
-          type: "video",
-          options: {
-            summary: true,
-            keyPoints: true,
-            highlights: true
-          }
-        },
+      // Transcripts too long for one request are summarized part by part
+      if (TranscriptSummarizer.needsChunking(content)) {
+        const result = await TranscriptSummarizer.summarize(content, {
+          outputs: ['full', 'keypoints'],
+          signal: controller.signal,
+          onProgress: setSummaryProgress
+        });
+        if (!result.outputs.full) throw new Error("No processed content returned");
+        applySummary(result.outputs.full, {
+          provider: result.provider,
+          model: result.model,
+          prompt_version: SUMMARIZER_PROMPT_VERSION,
+          source_hash: generatedFrom
+        }, result.outputs.keypoints);
+        return;
+      }
+
+      const streamed = await AIService.streamContent({
+        content,
+        type: "video",
+        options: {
+          summary: true,
+          keyPoints: true,
+          highlights: true
+        }
+      }, {
+        signal: controller.signal,
+        onDelta: setSummary
       });
 
-      if (error) {
-        throw new Error(error.message);
+      // A stopped summary keeps what was written so far
+      if (streamed.aborted) {
+        if (!streamed.content) setSummary(previousSummary);
+        return;
       }
 
-      if (data.processedContent) {
-        // Parse different sections from the response
-        const processedText = data.processedContent;
-        
-        // Set the entire processed content as summary for now
-        setSummary(processedText);
-        
-        // Extract key points if available
-        const keyPointsMatch = processedText.match(/(?:##|###) Key Points[\s\S]*?(?=(?:##|###)|$)/i);
-        if (keyPointsMatch) {
-          setKeyPoints(keyPointsMatch[0]);
-        }
-        
-        // Extract highlights if available
-        const highlightsMatch = processedText.match(/(?:##|###) Key Highlights[\s\S]*?(?=(?:##|###)|$)/i);
-        if (highlightsMatch) {
-          setHighlights(highlightsMatch[0]);
-        }
-        
-        if (onSummaryGenerated) {
-          onSummaryGenerated(processedText);
-        }
-        
-        toast({
-          title: "Summary generated",
-          description: "AI summary has been successfully generated.",
+      if (streamed.content) {
+        applySummary(streamed.content, {
+          provider: streamed.provider,
+          model: streamed.model,
+          prompt_version: SUMMARY_PROMPT_VERSION,
+          source_hash: generatedFrom
         });
       } else {
         throw new Error("No processed content returned");
       }
     } catch (error) {
+      setSummary(previousSummary);
+      if (error instanceof DOMException && error.name === "AbortError") return;
+
       console.error("Error generating summary:", error);
       toast({
         title: "Error generating summary",
@@ -91,6 +208,10 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
       });
     } finally {
       setIsProcessing(false);
+      setSummaryProgress(null);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
@@ -104,28 +225,47 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const previousNarrative = narrativeSummary;
+    const generatedFrom = sourceHash;
+
     setIsGeneratingNarrative(true);
+    setNarrativeSummary(null);
     try {
-      const { data, error } = await supabase.functions.invoke("process-content-with-deepseek", {
-        body: {
-          content,
-          type: "video",
-          options: {
-            summary: true,
-            conversational: true,
-            helpful: true,
-            educational: true
-          }
-        },
+      const streamed = await AIService.streamContent({
+        content,
+        type: "video",
+        options: {
+          summary: true,
+          conversational: true,
+          helpful: true,
+          educational: true
+        }
+      }, {
+        signal: controller.signal,
+        onDelta: (partial) => {
+          setNarrativeSummary(partial);
+          setSummaryType("narrative");
+        }
       });
 
-      if (error) {
-        throw new Error(error.message);
+      if (streamed.aborted) {
+        if (!streamed.content) setNarrativeSummary(previousNarrative);
+        return;
       }
 
-      if (data.processedContent) {
-        setNarrativeSummary(data.processedContent);
+      if (streamed.content) {
+        setNarrativeSummary(streamed.content);
         setSummaryType("narrative");
+        persistArtifacts([{
+          artifact_type: 'narrative',
+          content: streamed.content,
+          provider: streamed.provider,
+          model: streamed.model,
+          prompt_version: NARRATIVE_PROMPT_VERSION,
+          source_hash: generatedFrom
+        }]);
         
         toast({
           title: "Narrative summary generated",
@@ -136,6 +276,7 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
       }
     } catch (error) {
       console.error("Error generating narrative summary:", error);
+      setNarrativeSummary(previousNarrative);
       toast({
         title: "Error generating narrative summary",
         description: error instanceof Error ? error.message : "An unknown error occurred",
@@ -143,6 +284,46 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
       });
     } finally {
       setIsGeneratingNarrative(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const extractActionItems = async () => {
+    if (!onActionItemsExtracted) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsExtractingActions(true);
+    try {
+      const result = await TranscriptSummarizer.summarize(content, {
+        outputs: ['actions'],
+        signal: controller.signal
+      });
+      const checklist = toActionItemChecklist(result.outputs.actions || '');
+      if (!checklist) {
+        toast({
+          title: "No action items found",
+          description: "Nothing in this content reads as a task someone agreed to do.",
+        });
+        return;
+      }
+      onActionItemsExtracted(checklist);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return;
+
+      console.error("Error extracting action items:", error);
+      toast({
+        title: "Error extracting action items",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExtractingActions(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
@@ -164,9 +345,20 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
           </div>
           
           <div className="flex gap-2">
+            {isGenerating && (
+              <Button
+                onClick={stopGenerating}
+                variant="outline"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            )}
+
             <Button 
               onClick={generateSummary}
-              disabled={isProcessing || !content || content.length < 50}
+              disabled={isGenerating || !content || content.length < 50}
               className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white shadow-lg"
             >
               {isProcessing ? (
@@ -177,14 +369,14 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
               ) : (
                 <>
                   <Brain className="h-4 w-4 mr-2" />
-                  Generate Summary
+                  {summary ? "Regenerate Summary" : "Generate Summary"}
                 </>
               )}
             </Button>
 
             <Button 
               onClick={generateNarrativeSummary}
-              disabled={isGeneratingNarrative || !content || content.length < 50}
+              disabled={isGenerating || !content || content.length < 50}
               variant="outline"
               className="border-blue-500 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-950/20"
             >
@@ -196,10 +388,26 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
               ) : (
                 <>
                   <BookOpen className="h-4 w-4 mr-2" />
-                  Narrative Summary
+                  {narrativeSummary ? "Regenerate Narrative" : "Narrative Summary"}
                 </>
               )}
             </Button>
+
+            {onActionItemsExtracted && (
+              <Button
+                onClick={extractActionItems}
+                disabled={isGenerating || !content || content.length < 50}
+                variant="outline"
+                title="Add the action items in this content to the note as tasks"
+              >
+                {isExtractingActions ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ListChecks className="h-4 w-4 mr-2" />
+                )}
+                Action Items
+              </Button>
+            )}
           </div>
         </div>
         
@@ -226,10 +434,17 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
               Narrative Ready
             </Badge>
           )}
+
+          {hasStaleArtifacts && !isGenerating && (
+            <Badge variant="outline" className="bg-amber-50 text-amber-700 dark:bg-amber-900 dark:text-amber-200">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              Content changed since generated
+            </Badge>
+          )}
         </div>
       </div>
       
-      {!summary && !isProcessing && !isGeneratingNarrative ? (
+      {!summary && !narrativeSummary && !isGenerating ? (
         <Card className="flex-1 bg-gradient-to-br from-background via-muted/20 to-primary/5 border-dashed border-2">
           <CardContent className="flex flex-col items-center justify-center h-full text-center p-8 space-y-6">
             <div className="bg-gradient-to-r from-purple-100 to-pink-100 dark:from-purple-900/20 dark:to-pink-900/20 rounded-full p-6">
@@ -344,10 +559,41 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
                 </TabsTrigger>
               )}
             </TabsList>
+
+            {currentArtifact && !isGenerating && (
+              <div className="flex flex-wrap items-center justify-between gap-2 pt-3 text-xs text-muted-foreground">
+                <div className="flex items-center gap-2">
+                  <History className="h-3.5 w-3.5" />
+                  <span title={`Prompt version ${currentArtifact.prompt_version}`}>
+                    Generated {formatDistanceToNow(new Date(currentArtifact.created_at), { addSuffix: true })}
+                    {currentArtifact.provider && ` with ${PROVIDER_LABELS[currentArtifact.provider as ProviderId] ?? currentArtifact.provider}`}
+                    {currentArtifact.model && ` (${currentArtifact.model})`}
+                  </span>
+                  {isStale(currentArtifact.artifact_type) && (
+                    <Badge
+                      variant="outline"
+                      className="border-amber-500 text-amber-700 dark:text-amber-300"
+                      title="The note changed after this was generated. Regenerate to update it."
+                    >
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      Stale
+                    </Badge>
+                  )}
+                </div>
+
+                {previousArtifact && (
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setShowDiff(!showDiff)}>
+                    <GitCompare className="h-3.5 w-3.5 mr-1" />
+                    {showDiff ? "Hide changes" : "Compare with previous"}
+                  </Button>
+                )}
+              </div>
+            )}
             
             <Card className="flex-1 border-border/50 shadow-lg">
               <CardContent className="p-6 h-full">
-                {(isProcessing || isGeneratingNarrative) ? (
+                {/* The spinner only covers the wait for the first tokens */}
+                {(isProcessing && !summary) || (isGeneratingNarrative && !narrativeSummary) ? (
                   <div className="flex items-center justify-center h-full">
                     <div className="text-center space-y-4">
                       <div className="relative">
@@ -356,23 +602,26 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
                       </div>
                       <div>
                         <p className="font-medium text-foreground">
-                          {isGeneratingNarrative ? "Generating narrative summary..." : "Generating AI summary..."}
+                          {isGeneratingNarrative ? "Generating narrative summary..." : summaryProgress?.message ?? "Generating AI summary..."}
                         </p>
-                        <p className="text-sm text-muted-foreground">This may take a few moments</p>
+                        {summaryProgress ? (
+                          <Progress value={summaryProgress.percent} className="w-64 mx-auto" />
+                        ) : (
+                          <p className="text-sm text-muted-foreground">This may take a few moments</p>
+                        )}
                       </div>
                     </div>
                   </div>
+                ) : showDiff && currentArtifact && previousArtifact ? (
+                  <ScrollArea className="h-full">
+                    <TextDiff oldText={previousArtifact.content} newText={currentArtifact.content} />
+                  </ScrollArea>
                 ) : (
                   <ScrollArea className="h-full">
                     <TabsContent value="full" className="mt-0 h-full">
                       <div className="prose prose-sm dark:prose-invert max-w-none">
                         {summary ? (
-                          <div 
-                            className="space-y-4 text-foreground leading-relaxed"
-                            dangerouslySetInnerHTML={{ 
-                              __html: summary.replace(/\n/g, "<br />").replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
-                            }} 
-                          />
+                          <MarkdownRenderer content={summary} onTimestampClick={onTimestampClick} />
                         ) : (
                           <div className="text-center text-muted-foreground py-8">
                             <FileText className="h-8 w-8 mx-auto mb-3 opacity-50" />
@@ -385,12 +634,7 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
                     <TabsContent value="key-points" className="mt-0 h-full">
                       <div className="prose prose-sm dark:prose-invert max-w-none">
                         {keyPoints ? (
-                          <div 
-                            className="space-y-4 text-foreground leading-relaxed"
-                            dangerouslySetInnerHTML={{ 
-                              __html: keyPoints.replace(/\n/g, "<br />").replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
-                            }} 
-                          />
+                          <MarkdownRenderer content={keyPoints} onTimestampClick={onTimestampClick} />
                         ) : (
                           <div className="text-center text-muted-foreground py-8">
                             <List className="h-8 w-8 mx-auto mb-3 opacity-50" />
@@ -403,12 +647,7 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
                     <TabsContent value="highlights" className="mt-0 h-full">
                       <div className="prose prose-sm dark:prose-invert max-w-none">
                         {highlights ? (
-                          <div 
-                            className="space-y-4 text-foreground leading-relaxed"
-                            dangerouslySetInnerHTML={{ 
-                              __html: highlights.replace(/\n/g, "<br />").replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
-                            }} 
-                          />
+                          <MarkdownRenderer content={highlights} onTimestampClick={onTimestampClick} />
                         ) : (
                           <div className="text-center text-muted-foreground py-8">
                             <CheckCircle className="h-8 w-8 mx-auto mb-3 opacity-50" />
@@ -421,12 +660,7 @@ export function AISummaryPanel({ noteId, content, onSummaryGenerated }: AISummar
                     {narrativeSummary && (
                       <TabsContent value="narrative" className="mt-0 h-full">
                         <div className="prose prose-sm dark:prose-invert max-w-none">
-                          <div 
-                            className="space-y-4 text-foreground leading-relaxed"
-                            dangerouslySetInnerHTML={{ 
-                              __html: narrativeSummary.replace(/\n/g, "<br />").replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
-                            }} 
-                          />
+                          <MarkdownRenderer content={narrativeSummary} onTimestampClick={onTimestampClick} />
                         </div>
                       </TabsContent>
                     )}
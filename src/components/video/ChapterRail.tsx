@@ -0,0 +1,103 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ListOrdered, Loader2, RefreshCw, Sparkles } from "lucide-react";
+import type { VideoChapter } from "@/lib/summarization";
+import { formatTimestamp } from "@/lib/timestamps";
+import { cn } from "@/lib/utils";
+
+interface ChapterRailProps {
+  chapters: VideoChapter[];
+  currentTime?: number;
+  onChapterClick: (chapter: VideoChapter) => void;
+  onGenerate?: () => void;
+  isGenerating?: boolean;
+  // The stored chapters were made from an older version of the note
+  isStale?: boolean;
+  className?: string;
+}
+
+export function ChapterRail({
+  chapters,
+  currentTime = 0,
+  onChapterClick,
+  onGenerate,
+  isGenerating,
+  isStale,
+  className
+}: ChapterRailProps) {
+  const activeIndex = chapters.findIndex((chapter, index) =>
+    currentTime >= chapter.start &&
+    (currentTime < chapter.end || index === chapters.length - 1)
+  );
+
+  return (
+    <div className={cn("flex flex-col min-h-0", className)}>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <ListOrdered className="h-4 w-4 text-primary" />
+          Chapters
+          {chapters.length > 0 && (
+            <Badge variant="secondary" className="text-xs">{chapters.length}</Badge>
+          )}
+        </h4>
+        {onGenerate && chapters.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn("h-7 px-2", isStale && "text-amber-600 hover:text-amber-700")}
+            onClick={onGenerate}
+            disabled={isGenerating}
+            title={isStale ? "The note changed since these chapters were made. Regenerate them." : "Regenerate chapters"}
+          >
+            {isGenerating ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+          </Button>
+        )}
+      </div>
+
+      {chapters.length > 0 ? (
+        <div className="max-h-80 overflow-y-auto">
+          <ol className="space-y-1 pr-2">
+            {chapters.map((chapter, index) => (
+              <li key={`${chapter.start}-${index}`}>
+                <button
+                  type="button"
+                  onClick={() => onChapterClick(chapter)}
+                  className={cn(
+                    "w-full text-left rounded-md border px-3 py-2 transition-colors",
+                    index === activeIndex
+                      ? "bg-primary/10 border-primary/30"
+                      : "border-transparent hover:bg-muted/50"
+                  )}
+                >
+                  <div className="flex items-baseline gap-2">
+                    <span className="font-mono text-xs text-primary shrink-0">{formatTimestamp(chapter.start)}</span>
+                    <span className="text-sm font-medium text-foreground leading-snug">{chapter.title}</span>
+                  </div>
+                  {chapter.summary && (
+                    <p className="mt-1 text-xs text-muted-foreground line-clamp-2">{chapter.summary}</p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : (
+        <div className="rounded-md border border-dashed p-4 text-center space-y-3">
+          <p className="text-xs text-muted-foreground">
+            Chapters come from the video description, or are found in the transcript with AI.
+          </p>
+          {onGenerate && (
+            <Button variant="outline" size="sm" onClick={onGenerate} disabled={isGenerating}>
+              {isGenerating ? (
+                <Loader2 className="h-3.5 w-3.5 mr-2 animate-spin" />
+              ) : (
+                <Sparkles className="h-3.5 w-3.5 mr-2" />
+              )}
+              {isGenerating ? "Finding chapters..." : "Find chapters"}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
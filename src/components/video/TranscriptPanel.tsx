@@ -1,5 +1,5 @@
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -10,6 +10,8 @@ interface TranscriptPanelProps {
   transcript: string;
   currentTime?: number;
   onTimestampClick?: (timestamp: number) => void;
+  // Each new object scrolls the segment playing at `time` into view
+  scrollTarget?: { time: number };
 }
 
 interface TranscriptSegment {
@@ -20,8 +22,20 @@ interface TranscriptSegment {
   confidence?: number;
 }
 
-export function TranscriptPanel({ transcript, currentTime = 0, onTimestampClick }: TranscriptPanelProps) {
+const parseTimeString = (timeStr: string): number => {
+  const parts = timeStr.split(':');
+  const minutes = parseInt(parts[0], 10);
+  const secondsParts = parts[1].split('.');
+  const seconds = parseInt(secondsParts[0], 10);
+  const milliseconds = secondsParts[1] ? parseInt(secondsParts[1], 10) : 0;
+  
+  return minutes * 60 + seconds + (milliseconds / 1000);
+};
+
+export function TranscriptPanel({ transcript, currentTime = 0, onTimestampClick, scrollTarget }: TranscriptPanelProps) {
   const [searchTerm, setSearchTerm] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+  const pendingScrollRef = useRef<number | null>(null);
   
   const transcriptSegments = useMemo(() => {
     if (!transcript) return [];
@@ -72,16 +86,6 @@ export function TranscriptPanel({ transcript, currentTime = 0, onTimestampClick
     return segments.sort((a, b) => a.startTime - b.startTime);
   }, [transcript]);
   
-  const parseTimeString = (timeStr: string): number => {
-    const parts = timeStr.split(':');
-    const minutes = parseInt(parts[0], 10);
-    const secondsParts = parts[1].split('.');
-    const seconds = parseInt(secondsParts[0], 10);
-    const milliseconds = secondsParts[1] ? parseInt(secondsParts[1], 10) : 0;
-    
-    return minutes * 60 + seconds + (milliseconds / 1000);
-  };
-  
   const filteredSegments = useMemo(() => {
     if (!searchTerm) return transcriptSegments;
     return transcriptSegments.filter(segment => 
@@ -89,6 +93,25 @@ export function TranscriptPanel({ transcript, currentTime = 0, onTimestampClick
       (segment.speaker && segment.speaker.toLowerCase().includes(searchTerm.toLowerCase()))
     );
   }, [transcriptSegments, searchTerm]);
+
+  // The target segment may be filtered out, so the search is cleared first
+  useEffect(() => {
+    if (!scrollTarget) return;
+    pendingScrollRef.current = scrollTarget.time;
+    setSearchTerm("");
+  }, [scrollTarget]);
+
+  useEffect(() => {
+    const time = pendingScrollRef.current;
+    if (time === null || searchTerm) return;
+    pendingScrollRef.current = null;
+
+    let index = transcriptSegments.findIndex(segment => segment.startTime > time) - 1;
+    if (index === -2) index = transcriptSegments.length - 1;
+    listRef.current
+      ?.querySelector(`[data-segment-index="${Math.max(0, index)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [scrollTarget, searchTerm, transcriptSegments]);
   
   const formatTimestamp = (seconds: number): string => {
     const minutes = Math.floor(seconds / 60);
@@ -182,7 +205,7 @@ export function TranscriptPanel({ transcript, currentTime = 0, onTimestampClick
       </div>
       
       {/* Enhanced Transcript Content */}
-      <div className="flex-1 overflow-y-auto space-y-1">
+      <div ref={listRef} className="flex-1 overflow-y-auto space-y-1">
         {filteredSegments.length > 0 ? (
           <div className="space-y-1">
             {filteredSegments.map((segment, index) => {
@@ -193,6 +216,7 @@ export function TranscriptPanel({ transcript, currentTime = 0, onTimestampClick
               return (
                 <Card 
                   key={index}
+                  data-segment-index={index}
                   className={`p-3 transition-all duration-200 cursor-pointer hover:shadow-sm border ${
                     isActive 
                       ? 'bg-primary/10 border-primary/30 shadow-sm scale-[1.01]' 
@@ -1,15 +1,29 @@
-
 import { useEffect, useRef, useCallback } from 'react';
-import { useUpdateNote } from '@/lib/api';
+import { NoteConflictError, NoteWithTags, useUpdateNote } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 
+// The note as last loaded from or saved to the server
+export interface SavedNoteState {
+  title: string;
+  content: string | null;
+  tagIds: string[];
+  updated_at?: string;
+}
+
 interface AutoSaveOptions {
   noteId: string;
   content: string | null;
   title: string;
+  // Left out when the tags are not the user's to change, e.g. on a shared note
   tagIds?: string[];
+  // Changes are measured against this, and its updated_at is the version the
+  // save must still apply to
+  saved: SavedNoteState;
   delay?: number; // milliseconds
   enabled?: boolean;
+  onSaved?: (note: NoteWithTags) => void;
+  // The note was saved elsewhere in the meantime; nothing was written
+  onConflict?: (error: NoteConflictError) => void;
 }
 
 export function useAutoSave({
@@ -17,36 +31,31 @@ export function useAutoSave({
   content,
   title,
   tagIds,
+  saved,
   delay = 3000, // 3 seconds default
-  enabled = true
+  enabled = true,
+  onSaved,
+  onConflict
 }: AutoSaveOptions) {
   const timeoutRef = useRef<NodeJS.Timeout>();
-  const lastSavedRef = useRef<{ content: string | null; title: string; tagIds?: string[] }>({
-    content: null,
-    title: '',
-    tagIds: []
-  });
-  
+  // A save started from an older baseline would conflict with the one in flight
+  const inFlightRef = useRef(false);
+
   const updateNoteMutation = useUpdateNote();
   const { toast } = useToast();
 
-  const saveNote = useCallback(async () => {
-    if (!enabled || !noteId) return;
-
-    const currentData = { content, title, tagIds };
-    const lastSaved = lastSavedRef.current;
-
-    // Check if data has actually changed
-    const hasContentChanged = currentData.content !== lastSaved.content;
-    const hasTitleChanged = currentData.title !== lastSaved.title;
-    const haveTagsChanged = JSON.stringify(currentData.tagIds) !== JSON.stringify(lastSaved.tagIds);
+  // Tags come back from the server in any order
+  const hasChanges =
+    content !== saved.content ||
+    title !== saved.title ||
+    (tagIds !== undefined && [...tagIds].sort().join() !== [...saved.tagIds].sort().join());
 
-    if (!hasContentChanged && !hasTitleChanged && !haveTagsChanged) {
-      return;
-    }
+  const saveNote = useCallback(async () => {
+    if (!enabled || !noteId || !hasChanges || inFlightRef.current) return;
 
+    inFlightRef.current = true;
     try {
-      await updateNoteMutation.mutateAsync({
+      const note = await updateNoteMutation.mutateAsync({
         id: noteId,
         updates: {
           title,
@@ -54,24 +63,29 @@ export function useAutoSave({
           updated_at: new Date().toISOString(),
         },
         tagIds,
+        autosave: true,
+        expectedUpdatedAt: saved.updated_at,
       });
 
-      // Update last saved reference
-      lastSavedRef.current = { ...currentData };
-      
-      console.log('Auto-saved note successfully');
+      onSaved?.(note);
     } catch (error) {
+      if (error instanceof NoteConflictError) {
+        onConflict?.(error);
+        return;
+      }
       console.error('Auto-save failed:', error);
       toast({
         title: "Auto-save failed",
         description: "Your changes couldn't be saved automatically. Please save manually.",
         variant: "destructive",
       });
+    } finally {
+      inFlightRef.current = false;
     }
-  }, [noteId, content, title, tagIds, enabled, updateNoteMutation, toast]);
+  }, [noteId, content, title, tagIds, saved.updated_at, hasChanges, enabled, updateNoteMutation, onSaved, onConflict, toast]);
 
   useEffect(() => {
-    if (!enabled) return;
+    if (!enabled || !hasChanges) return;
 
     // Clear existing timeout
     if (timeoutRef.current) {
@@ -87,7 +101,7 @@ export function useAutoSave({
         clearTimeout(timeoutRef.current);
       }
     };
-  }, [content, title, tagIds, delay, enabled, saveNote]);
+  }, [content, title, tagIds, delay, enabled, hasChanges, saveNote]);
 
   // Manual save function
   const saveNow = useCallback(() => {
@@ -99,6 +113,7 @@ export function useAutoSave({
 
   return {
     saveNow,
+    hasChanges,
     isSaving: updateNoteMutation.isPending,
   };
 }
@@ -2,9 +2,10 @@
 import { useState, useRef, useCallback, useMemo } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useNotes } from "@/lib/api";
-import { supabase } from "@/integrations/supabase/client";
+import { AIService } from "@/lib/aiService";
 import { OptimizedSearchService } from "@/lib/aiResearch/searchService";
-import { ContextProcessor } from "@/lib/aiResearch/contextProcessor";
+import { ContextProcessor, Citation } from "@/lib/aiResearch/contextProcessor";
+import { useResearchSession } from "@/hooks/useResearchSession";
 
 interface SearchResult {
   id: string;
@@ -20,6 +21,7 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   sources?: SearchResult[];
+  citations?: Citation[];
   responseTime?: number;
   tokenCount?: number;
 }
@@ -34,6 +36,9 @@ interface PerformanceMetrics {
 export function useDeepResearch() {
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isChatMode, setIsChatMode] = useState(false);
@@ -43,32 +48,71 @@ export function useDeepResearch() {
   const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const { data: notes } = useNotes();
+  const { activeSessionId, saveExchange, loadSession, startNewSession } = useResearchSession();
+
+  const latestSearchRef = useRef(0);
+
+  const runSearch = useCallback(async (query: string, offset: number) => {
+    const requestId = ++latestSearchRef.current;
+    const searchStart = performance.now();
+    setIsSearching(true);
+
+    try {
+      const page = await OptimizedSearchService.searchNotes(query, { offset });
+
+      // Drop responses for queries the user has already typed past
+      if (requestId !== latestSearchRef.current) return;
+
+      const searchTime = performance.now() - searchStart;
+      setSearchResults(prev => offset === 0 ? page.results : [...prev, ...page.results]);
+      setSearchTotal(page.total);
+      setHasMoreResults(page.hasMore);
+      setMetrics(prev => ({ ...prev, searchTime } as PerformanceMetrics));
+    } catch (error) {
+      if (requestId !== latestSearchRef.current) return;
+
+      console.error('Search error:', error);
+      toast({
+        title: "Search failed",
+        description: "Could not search your notes. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      if (requestId === latestSearchRef.current) {
+        setIsSearching(false);
+      }
+    }
+  }, [toast]);
 
   const debouncedSearch = useMemo(() => {
     let timeoutId: NodeJS.Timeout;
     return (query: string) => {
       clearTimeout(timeoutId);
       timeoutId = setTimeout(() => {
-        if (!notes || !query.trim()) {
+        if (!query.trim()) {
+          latestSearchRef.current++;
           setSearchResults([]);
+          setSearchTotal(0);
+          setHasMoreResults(false);
+          setIsSearching(false);
           return;
         }
-        
-        const searchStart = performance.now();
-        const results = OptimizedSearchService.searchNotes(notes, query);
-        const searchTime = performance.now() - searchStart;
-        
-        setSearchResults(results.slice(0, 6));
-        setMetrics(prev => ({ ...prev, searchTime } as PerformanceMetrics));
+
+        runSearch(query, 0);
       }, 150);
     };
-  }, [notes]);
+  }, [runSearch]);
 
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
     debouncedSearch(query);
   }, [debouncedSearch]);
 
+  const loadMoreResults = useCallback(() => {
+    if (!hasMoreResults || isSearching) return;
+    runSearch(searchQuery, searchResults.length);
+  }, [hasMoreResults, isSearching, runSearch, searchQuery, searchResults.length]);
+
   const handleChatSubmit = async () => {
     if (!chatInput.trim() || isLoading) return;
 
@@ -95,34 +139,33 @@ export function useDeepResearch() {
 
     try {
       const contextStart = performance.now();
-      const contextData = ContextProcessor.processNotesForContext(notes || [], currentInput);
+      const contextData = await ContextProcessor.processNotesForContext(notes || [], currentInput);
       const contextTime = performance.now() - contextStart;
       
       const knowledgeBase = contextData.relevantChunks.join('\n\n---\n\n');
       
       const ragContext = knowledgeBase ? 
-        `Context (${contextData.totalTokens} chars from ${contextData.sources.length} sources):\n\n${knowledgeBase}\n\nQ: ${currentInput}` : 
+        `Context (${contextData.totalTokens} chars from ${contextData.sources.length} sources):\n\n${knowledgeBase}\n\n` +
+        `Cite the passage each claim comes from with its CITATION number in square brackets, e.g. [2].\n\nQ: ${currentInput}` : 
         currentInput;
 
       console.log(`⚡ Ultra-fast context: ${contextTime.toFixed(1)}ms | ${contextData.totalTokens} chars | ${contextData.sources.length} sources`);
 
       const apiStart = performance.now();
-      const { data, error } = await supabase.functions.invoke('process-content-with-deepseek', {
-        body: {
-          content: ragContext,
-          type: 'chat',
-          options: { rag: true },
-          stream: false
-        }
+      const streamed = await AIService.streamContent({
+        content: ragContext,
+        type: 'chat',
+        options: { rag: true, citations: true }
+      }, {
+        signal: controller.signal,
+        onDelta: setStreamingContent
       });
 
-      if (controller.signal.aborted) return;
+      if (streamed.aborted) return;
 
       const apiTime = performance.now() - apiStart;
       const totalTime = performance.now() - startTime;
 
-      if (error) throw error;
-
       const responseMetrics: PerformanceMetrics = {
         searchTime: 0,
         contextTime,
@@ -133,10 +176,11 @@ export function useDeepResearch() {
       const assistantMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: data.processedContent || "I'm sorry, I couldn't process your request.",
+        content: streamed.content || "I'm sorry, I couldn't process your request.",
         timestamp: new Date(),
         responseTime: totalTime,
-        tokenCount: data.usage?.total_tokens || contextData.totalTokens,
+        tokenCount: streamed.usage?.total_tokens || contextData.totalTokens,
+        citations: contextData.citations,
         sources: contextData.sources.slice(0, 3).map(source => ({
           id: source.id,
           title: source.title,
@@ -149,6 +193,18 @@ export function useDeepResearch() {
       setChatMessages(prev => [...prev, assistantMessage]);
       setMetrics(responseMetrics);
 
+      saveExchange([
+        { role: 'user', content: userMessage.content },
+        {
+          role: 'assistant',
+          content: assistantMessage.content,
+          sources: assistantMessage.sources,
+          citations: assistantMessage.citations,
+          response_time_ms: Math.round(totalTime),
+          token_count: assistantMessage.tokenCount
+        }
+      ]);
+
       if (totalTime < 2000) {
         console.log(`🚀 Lightning fast response: ${totalTime.toFixed(0)}ms`);
       } else if (totalTime < 5000) {
@@ -190,26 +246,51 @@ export function useDeepResearch() {
     setIsChatMode(!isChatMode);
     if (!isChatMode) {
       setSearchResults([]);
+      setSearchTotal(0);
+      setHasMoreResults(false);
       setSearchQuery("");
     } else {
       setChatMessages([]);
       setMetrics(null);
+      startNewSession();
     }
-  }, [isChatMode]);
+  }, [isChatMode, startNewSession]);
 
+  // The current conversation stays in research history; the next question starts a new one
   const clearChat = useCallback(() => {
     setChatMessages([]);
     setMetrics(null);
+    startNewSession();
     OptimizedSearchService.clearCache();
     toast({
       title: "Chat Cleared",
-      description: "Conversation history and cache cleared.",
+      description: "Started a new conversation. The previous one is kept in your research history.",
     });
-  }, [toast]);
+  }, [startNewSession, toast]);
+
+  const openSession = useCallback(async (sessionId: string) => {
+    if (isLoading) return;
+
+    try {
+      setChatMessages(await loadSession(sessionId));
+      setMetrics(null);
+      setIsChatMode(true);
+    } catch (error) {
+      console.error('Error loading research session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the research session.",
+        variant: "destructive"
+      });
+    }
+  }, [isLoading, loadSession, toast]);
 
   return {
     searchQuery,
     searchResults,
+    searchTotal,
+    hasMoreResults,
+    isSearching,
     chatMessages,
     isLoading,
     isChatMode,
@@ -218,10 +299,14 @@ export function useDeepResearch() {
     metrics,
     streamingContent,
     handleSearch,
+    loadMoreResults,
     handleChatSubmit,
     cancelRequest,
     toggleMode,
     clearChat,
+    activeSessionId,
+    openSession,
+    startNewSession,
     abortControllerRef
   };
 }
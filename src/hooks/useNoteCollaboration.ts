@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { NoteAccessRole } from '@/lib/api';
+
+// Colours for collaborators' cursors and avatars, picked by user id
+const CURSOR_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4d7c0f'];
+// Keystrokes and cursor moves are sent at most this often; the latest state
+// always goes out
+const EDIT_THROTTLE_MS = 150;
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+export interface Collaborator {
+  // One per open editor, so the same user in two tabs appears twice
+  key: string;
+  userId: string;
+  email: string;
+  role: NoteAccessRole;
+  color: string;
+  selection: TextSelection | null;
+}
+
+export interface RemoteEdit {
+  from: string;
+  title: string;
+  content: string;
+}
+
+export interface RemoteSave {
+  title: string;
+  content: string;
+  updated_at: string;
+}
+
+interface PresencePayload {
+  userId: string;
+  email: string;
+  role: NoteAccessRole;
+  selection: TextSelection | null;
+}
+
+interface NoteCollaborationOptions {
+  noteId?: string;
+  userId?: string;
+  email?: string;
+  role: NoteAccessRole | null;
+  enabled: boolean;
+  onRemoteEdit: (edit: RemoteEdit) => void;
+  onRemoteSave: (save: RemoteSave) => void;
+}
+
+export const collaboratorColor = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+// Live editing of a shared note over the private Realtime channel
+// "note:<id>". Presence carries who is in the note and where their cursor is;
+// broadcasts carry the text as it is typed and each save. Row-level security
+// on realtime.messages decides who may join and who may send edits.
+export function useNoteCollaboration({
+  noteId,
+  userId,
+  email,
+  role,
+  enabled,
+  onRemoteEdit,
+  onRemoteSave
+}: NoteCollaborationOptions) {
+  const clientKey = useMemo(() => crypto.randomUUID(), []);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const [peers, setPeers] = useState<Collaborator[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const presenceRef = useRef<PresencePayload | null>(null);
+  const pendingEditRef = useRef<Omit<RemoteEdit, 'from'> | null>(null);
+  const editTimerRef = useRef<NodeJS.Timeout>();
+  const presenceTimerRef = useRef<NodeJS.Timeout>();
+
+  // Handlers change with the editor's state; the channel keeps the first ones
+  const handlersRef = useRef({ onRemoteEdit, onRemoteSave });
+  handlersRef.current = { onRemoteEdit, onRemoteSave };
+
+  useEffect(() => {
+    if (!enabled || !noteId || !userId || !role) return;
+
+    presenceRef.current = { userId, email: email ?? '', role, selection: null };
+    const channel = supabase.channel(`note:${noteId}`, {
+      config: {
+        private: true,
+        broadcast: { self: false },
+        presence: { key: clientKey },
+      },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        setPeers(Object.entries(state)
+          .filter(([key, presences]) => key !== clientKey && presences.length > 0)
+          .map(([key, presences]) => {
+            const presence = presences[presences.length - 1];
+            return {
+              key,
+              userId: presence.userId,
+              email: presence.email,
+              role: presence.role,
+              color: collaboratorColor(presence.userId),
+              selection: presence.selection,
+            };
+          }));
+      })
+      .on('broadcast', { event: 'edit' }, ({ payload }) => {
+        handlersRef.current.onRemoteEdit(payload as RemoteEdit);
+      })
+      .on('broadcast', { event: 'saved' }, ({ payload }) => {
+        handlersRef.current.onRemoteSave(payload as RemoteSave);
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          setIsConnected(true);
+          if (presenceRef.current) await channel.track(presenceRef.current);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          setIsConnected(false);
+        }
+      });
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(editTimerRef.current);
+      clearTimeout(presenceTimerRef.current);
+      editTimerRef.current = undefined;
+      presenceTimerRef.current = undefined;
+      pendingEditRef.current = null;
+      channelRef.current = null;
+      setPeers([]);
+      setIsConnected(false);
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, noteId, userId, email, role, clientKey]);
+
+  const flushEdit = useCallback(() => {
+    editTimerRef.current = undefined;
+    const edit = pendingEditRef.current;
+    pendingEditRef.current = null;
+    if (!edit || !channelRef.current) return;
+    channelRef.current.send({ type: 'broadcast', event: 'edit', payload: { ...edit, from: clientKey } });
+  }, [clientKey]);
+
+  const broadcastEdit = useCallback((title: string, content: string) => {
+    if (!channelRef.current) return;
+    pendingEditRef.current = { title, content };
+    if (!editTimerRef.current) {
+      editTimerRef.current = setTimeout(flushEdit, EDIT_THROTTLE_MS);
+    }
+  }, [flushEdit]);
+
+  const broadcastSave = useCallback((save: RemoteSave) => {
+    channelRef.current?.send({ type: 'broadcast', event: 'saved', payload: save });
+  }, []);
+
+  const updateSelection = useCallback((selection: TextSelection | null) => {
+    const presence = presenceRef.current;
+    if (!presence || !channelRef.current) return;
+    if (presence.selection?.start === selection?.start && presence.selection?.end === selection?.end) return;
+    presenceRef.current = { ...presence, selection };
+    if (!presenceTimerRef.current) {
+      presenceTimerRef.current = setTimeout(() => {
+        presenceTimerRef.current = undefined;
+        if (channelRef.current && presenceRef.current) channelRef.current.track(presenceRef.current);
+      }, EDIT_THROTTLE_MS);
+    }
+  }, []);
+
+  // One editor writes to the database for everyone, so saves made from the
+  // same synced text do not conflict: the owner if present, otherwise the
+  // editor with the lowest key
+  const isSaver = useMemo(() => {
+    if (role !== 'owner' && role !== 'editor') return false;
+    const writers = [{ key: clientKey, role }, ...peers]
+      .filter(writer => writer.role === 'owner' || writer.role === 'editor');
+    const owners = writers.filter(writer => writer.role === 'owner');
+    const candidates = owners.length > 0 ? owners : writers;
+    return candidates.some(writer => writer.key === clientKey) &&
+      candidates.every(writer => writer.key >= clientKey);
+  }, [clientKey, peers, role]);
+
+  return {
+    clientKey,
+    peers,
+    isConnected,
+    isSaver,
+    broadcastEdit,
+    broadcastSave,
+    updateSelection,
+  };
+}
@@ -0,0 +1,125 @@
+import { useState, useRef, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  addResearchMessages,
+  createResearchSession,
+  fetchResearchMessages,
+  NewResearchMessage,
+  ResearchMessage
+} from "@/lib/api";
+import { Citation } from "@/lib/aiResearch/contextProcessor";
+
+// Shape shared by the AI Research chat views
+export interface RestoredChatMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  sources?: {
+    id: string;
+    title: string;
+    content: string | null;
+    relevance: number;
+    snippet: string;
+  }[];
+  citations?: Citation[];
+  responseTime?: number;
+  tokenCount?: number;
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+const toSessionTitle = (question: string): string => {
+  const title = question.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title || 'Research session';
+};
+
+export const toChatMessage = (message: ResearchMessage): RestoredChatMessage => ({
+  id: message.id,
+  type: message.role,
+  content: message.content,
+  timestamp: new Date(message.created_at),
+  sources: message.sources.map(source => ({ ...source, content: null })),
+  citations: message.citations,
+  responseTime: message.response_time_ms ?? undefined,
+  tokenCount: message.token_count ?? undefined
+});
+
+// Tracks which saved research session the chat belongs to. A session is
+// created lazily with the first exchange, titled after its first question.
+export function useResearchSession() {
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  // Read from async handlers that outlive the render they started in
+  const activeSessionRef = useRef<string | null>(null);
+  // The session being created for the first exchange, shared with exchanges
+  // that arrive before it exists so they are not split into sessions of their own
+  const pendingSessionRef = useRef<Promise<string> | null>(null);
+  // Saves run one after another so that messages keep the order they were asked in
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const selectSession = useCallback((sessionId: string | null) => {
+    activeSessionRef.current = sessionId;
+    pendingSessionRef.current = null;
+    setActiveSessionId(sessionId);
+  }, []);
+
+  const saveExchange = useCallback((messages: NewResearchMessage[]): Promise<void> => {
+    // The session is picked when the exchange happens, not when its save runs
+    let session: Promise<string>;
+    if (activeSessionRef.current) {
+      session = Promise.resolve(activeSessionRef.current);
+    } else {
+      if (!pendingSessionRef.current) {
+        const question = messages.find(message => message.role === 'user')?.content ?? '';
+        const pending = createResearchSession(toSessionTitle(question)).then(created => created.id);
+        pendingSessionRef.current = pending;
+        // Unless another session was picked in the meantime
+        pending.then(
+          sessionId => {
+            if (pendingSessionRef.current === pending) selectSession(sessionId);
+          },
+          () => {
+            if (pendingSessionRef.current === pending) pendingSessionRef.current = null;
+          }
+        );
+      }
+      session = pendingSessionRef.current;
+    }
+
+    const save = saveQueueRef.current.then(async () => {
+      try {
+        await addResearchMessages(await session, messages);
+        queryClient.invalidateQueries({ queryKey: ["research-sessions"] });
+      } catch (error) {
+        console.error('Error saving research conversation:', error);
+        toast({
+          title: "Conversation not saved",
+          description: "The answer is shown but could not be added to your research history.",
+          variant: "destructive"
+        });
+      }
+    });
+    saveQueueRef.current = save;
+    return save;
+  }, [queryClient, selectSession, toast]);
+
+  const loadSession = useCallback(async (sessionId: string): Promise<RestoredChatMessage[]> => {
+    const messages = await fetchResearchMessages(sessionId);
+    selectSession(sessionId);
+    return messages.map(toChatMessage);
+  }, [selectSession]);
+
+  const startNewSession = useCallback(() => {
+    selectSession(null);
+  }, [selectSession]);
+
+  return {
+    activeSessionId,
+    saveExchange,
+    loadSession,
+    startNewSession
+  };
+}
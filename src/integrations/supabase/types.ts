@@ -46,7 +46,174 @@ export type Database = {
           uploaded_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "files_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_artifacts: {
+        Row: {
+          artifact_type: string
+          content: string
+          created_at: string
+          id: string
+          model: string | null
+          note_id: string
+          prompt_version: string
+          provider: string | null
+          source_hash: string
+          user_id: string
+        }
+        Insert: {
+          artifact_type: string
+          content: string
+          created_at?: string
+          id?: string
+          model?: string | null
+          note_id: string
+          prompt_version: string
+          provider?: string | null
+          source_hash: string
+          user_id: string
+        }
+        Update: {
+          artifact_type?: string
+          content?: string
+          created_at?: string
+          id?: string
+          model?: string | null
+          note_id?: string
+          prompt_version?: string
+          provider?: string | null
+          source_hash?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_artifacts_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          content_hash: string
+          created_at: string
+          embedding: string
+          embedding_model: string
+          end_offset: number
+          id: string
+          note_id: string
+          start_offset: number
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          content_hash: string
+          created_at?: string
+          embedding: string
+          embedding_model: string
+          end_offset: number
+          id?: string
+          note_id: string
+          start_offset: number
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          content_hash?: string
+          created_at?: string
+          embedding?: string
+          embedding_model?: string
+          end_offset?: number
+          id?: string
+          note_id?: string
+          start_offset?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_chunks_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_invites: {
+        Row: {
+          email: string
+          invited_at: string
+          note_id: string
+          role: string
+        }
+        Insert: {
+          email: string
+          invited_at?: string
+          note_id: string
+          role: string
+        }
+        Update: {
+          email?: string
+          invited_at?: string
+          note_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_invites_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_links: {
+        Row: {
+          created_at: string
+          source_note_id: string
+          target_note_id: string
+        }
+        Insert: {
+          created_at?: string
+          source_note_id: string
+          target_note_id: string
+        }
+        Update: {
+          created_at?: string
+          source_note_id?: string
+          target_note_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_links_source_note_id_fkey"
+            columns: ["source_note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_links_target_note_id_fkey"
+            columns: ["target_note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       note_tags: {
         Row: {
@@ -84,6 +251,57 @@ export type Database = {
           },
         ]
       }
+      note_versions: {
+        Row: {
+          content: string | null
+          created_at: string
+          id: string
+          note_id: string
+          reason: string
+          restored_from: string | null
+          title: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          note_id: string
+          reason?: string
+          restored_from?: string | null
+          title: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          note_id?: string
+          reason?: string
+          restored_from?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_versions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_versions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "note_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notebooks: {
         Row: {
           color: string | null
@@ -91,6 +309,8 @@ export type Database = {
           description: string | null
           id: string
           name: string
+          parent_id: string | null
+          position: number
           updated_at: string
           user_id: string
         }
@@ -100,6 +320,8 @@ export type Database = {
           description?: string | null
           id?: string
           name: string
+          parent_id?: string | null
+          position?: number
           updated_at?: string
           user_id: string
         }
@@ -109,13 +331,24 @@ export type Database = {
           description?: string | null
           id?: string
           name?: string
+          parent_id?: string | null
+          position?: number
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "notebooks_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       notes: {
         Row: {
+          blocks: Json | null
           content: string | null
           created_at: string
           due_date: string | null
@@ -124,6 +357,8 @@ export type Database = {
           is_transcription: boolean | null
           notebook_id: string | null
           reminder_date: string | null
+          reminder_email: boolean
+          reminder_recurrence: string | null
           shared_permissions: Json | null
           source_url: string | null
           task_progress: Json | null
@@ -133,6 +368,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          blocks?: Json | null
           content?: string | null
           created_at?: string
           due_date?: string | null
@@ -141,6 +377,8 @@ export type Database = {
           is_transcription?: boolean | null
           notebook_id?: string | null
           reminder_date?: string | null
+          reminder_email?: boolean
+          reminder_recurrence?: string | null
           shared_permissions?: Json | null
           source_url?: string | null
           task_progress?: Json | null
@@ -150,6 +388,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          blocks?: Json | null
           content?: string | null
           created_at?: string
           due_date?: string | null
@@ -158,6 +397,8 @@ export type Database = {
           is_transcription?: boolean | null
           notebook_id?: string | null
           reminder_date?: string | null
+          reminder_email?: boolean
+          reminder_recurrence?: string | null
           shared_permissions?: Json | null
           source_url?: string | null
           task_progress?: Json | null
@@ -176,6 +417,217 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          created_at: string
+          delivered_at: string
+          emailed_at: string | null
+          id: string
+          kind: string
+          note_id: string
+          read_at: string | null
+          scheduled_for: string
+          snoozed_until: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          delivered_at?: string
+          emailed_at?: string | null
+          id?: string
+          kind: string
+          note_id: string
+          read_at?: string | null
+          scheduled_for: string
+          snoozed_until?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          delivered_at?: string
+          emailed_at?: string | null
+          id?: string
+          kind?: string
+          note_id?: string
+          read_at?: string | null
+          scheduled_for?: string
+          snoozed_until?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_messages: {
+        Row: {
+          citations: Json
+          content: string
+          created_at: string
+          id: string
+          response_time_ms: number | null
+          role: string
+          session_id: string
+          sources: Json
+          token_count: number | null
+          user_id: string
+        }
+        Insert: {
+          citations?: Json
+          content: string
+          created_at?: string
+          id?: string
+          response_time_ms?: number | null
+          role: string
+          session_id: string
+          sources?: Json
+          token_count?: number | null
+          user_id: string
+        }
+        Update: {
+          citations?: Json
+          content?: string
+          created_at?: string
+          id?: string
+          response_time_ms?: number | null
+          role?: string
+          session_id?: string
+          sources?: Json
+          token_count?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "research_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "research_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          note_id: string | null
+          notebook_id: string | null
+          revoked_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          note_id?: string | null
+          notebook_id?: string | null
+          revoked_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          note_id?: string | null
+          notebook_id?: string | null
+          revoked_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "share_links_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      smart_notebooks: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      storage_quotas: {
+        Row: {
+          quota_bytes: number
+          user_id: string
+        }
+        Insert: {
+          quota_bytes: number
+          user_id: string
+        }
+        Update: {
+          quota_bytes?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       tags: {
         Row: {
           color: string
@@ -205,6 +657,34 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_note_invites: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      deliver_due_notifications: {
+        Args: { batch_size?: number }
+        Returns: {
+          created_at: string
+          delivered_at: string
+          emailed_at: string | null
+          id: string
+          kind: string
+          note_id: string
+          read_at: string | null
+          scheduled_for: string
+          snoozed_until: string | null
+          title: string
+          user_id: string
+        }[]
+      }
+      get_notebook_note_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          notebook_id: string
+          note_count: number
+          total_count: number
+        }[]
+      }
       get_reminder_notes: {
         Args: { user_uuid: string }
         Returns: {
@@ -218,6 +698,25 @@ export type Database = {
           updated_at: string
         }[]
       }
+      get_shared_content: {
+        Args: { share_token: string; target_note_id?: string }
+        Returns: Json
+      }
+      get_storage_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          used_bytes: number
+          quota_bytes: number
+        }[]
+      }
+      get_tag_note_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          tag_id: string
+          note_count: number
+          total_count: number
+        }[]
+      }
       handle_file_upload: {
         Args: {
           file_name: string
@@ -228,6 +727,72 @@ export type Database = {
         }
         Returns: string
       }
+      match_note_chunks: {
+        Args: {
+          query_embedding: string
+          embedding_model: string
+          match_count?: number
+          min_similarity?: number
+        }
+        Returns: {
+          id: string
+          note_id: string
+          chunk_index: number
+          content: string
+          start_offset: number
+          end_offset: number
+          similarity: number
+        }[]
+      }
+      merge_tags: {
+        Args: { source_tag_ids: string[]; target_tag_id: string }
+        Returns: number
+      }
+      move_notebook: {
+        Args: {
+          target_notebook_id: string
+          new_parent_id: string | null
+          new_position: number
+        }
+        Returns: undefined
+      }
+      note_access_role: {
+        Args: { target_note_id: string }
+        Returns: string
+      }
+      note_link_titles: {
+        Args: { note_content: string }
+        Returns: string[]
+      }
+      note_search_vector: {
+        Args: { note_title: string; note_content: string }
+        Returns: unknown
+      }
+      note_source_domain: {
+        Args: { source_url: string }
+        Returns: string
+      }
+      notebook_subtree: {
+        Args: { root_notebook_id: string }
+        Returns: string[]
+      }
+      rename_tag: {
+        Args: { target_tag_id: string; new_name: string }
+        Returns: undefined
+      }
+      replace_note_chunks: {
+        Args: {
+          target_note_id: string
+          embedding_model: string
+          content_hash: string
+          chunks: Json
+        }
+        Returns: undefined
+      }
+      restore_note_version: {
+        Args: { version_id: string }
+        Returns: undefined
+      }
       search_notes: {
         Args: { search_term: string; user_uuid: string }
         Returns: {
@@ -239,6 +804,58 @@ export type Database = {
           rank: number
         }[]
       }
+      search_notes_ranked: {
+        Args: {
+          search_query: string
+          filter_notebook_id?: string
+          filter_is_transcription?: boolean
+          filter_tag_names?: string[]
+          filter_notebook_names?: string[]
+          filter_created_after?: string
+          filter_created_before?: string
+          filter_source_domains?: string[]
+          query_embedding?: string
+          embedding_model?: string
+          semantic_weight?: number
+          min_similarity?: number
+          result_limit?: number
+          result_offset?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          snippet: string
+          rank: number
+          keyword_score: number
+          semantic_score: number
+          source_url: string
+          is_transcription: boolean
+          notebook_id: string
+          created_at: string
+          updated_at: string
+          total_count: number
+        }[]
+      }
+      share_note: {
+        Args: {
+          target_note_id: string
+          invitee_email: string
+          share_role: string
+        }
+        Returns: Json
+      }
+      storage_quota_bytes: {
+        Args: { target_user_id: string }
+        Returns: number
+      }
+      tag_name_matches: {
+        Args: { tag_name: string; wanted_name: string }
+        Returns: boolean
+      }
+      unshare_note: {
+        Args: { target_note_id: string; collaborator_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { getCitationHref, getCitedPassages, linkCitationsInMarkdown, parseCitedAnswer } from "./citations";
+import type { Citation } from "./contextProcessor";
+
+const citation = (number: number, extra: Partial<Citation> = {}): Citation => ({
+  number,
+  noteId: `note-${number}`,
+  noteTitle: `Note ${number}`,
+  excerpt: `Passage ${number}`,
+  startOffset: number * 100,
+  endOffset: number * 100 + 50,
+  ...extra,
+});
+
+const citations = [citation(1), citation(2), citation(3, { timestamp: 81.7 })];
+
+describe("parseCitedAnswer", () => {
+  it("splits the answer into text and the passages it cites", () => {
+    expect(parseCitedAnswer("Attention weighs tokens [2]. It scales [1][3].", citations)).toEqual([
+      { type: "text", text: "Attention weighs tokens " },
+      { type: "citation", citation: citations[1] },
+      { type: "text", text: ". It scales " },
+      { type: "citation", citation: citations[0] },
+      { type: "citation", citation: citations[2] },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("reads several numbers in one marker", () => {
+    const segments = parseCitedAnswer("Both agree [1, 3]", citations);
+    expect(segments.filter(segment => segment.type === "citation")).toHaveLength(2);
+  });
+
+  it("leaves numbers the context never held and timestamps as text", () => {
+    const content = "Unknown [7], partly known [1, 9], at [01:20] and [a].";
+    expect(parseCitedAnswer(content, citations)).toEqual([{ type: "text", text: content }]);
+  });
+
+  it("returns the answer as it is without citations", () => {
+    expect(parseCitedAnswer("Claim [1]")).toEqual([{ type: "text", text: "Claim [1]" }]);
+  });
+});
+
+describe("getCitedPassages", () => {
+  it("lists each cited passage once, in order of first use", () => {
+    expect(getCitedPassages("A [3]. B [1][3]. C [3, 1] [8].", citations).map(cited => cited.number)).toEqual([3, 1]);
+  });
+});
+
+describe("getCitationHref", () => {
+  it("opens the note at the passage", () => {
+    expect(getCitationHref(citations[0])).toBe("/note/note-1?passage=100-150");
+  });
+
+  it("seeks videos to the whole second the passage starts at", () => {
+    expect(getCitationHref(citations[2])).toBe("/note/note-3?t=81&passage=300-350");
+  });
+});
+
+describe("linkCitationsInMarkdown", () => {
+  it("links each marker to its passage with escaped brackets", () => {
+    expect(linkCitationsInMarkdown("Claim [1][9]", citations)).toBe("Claim [\\[1\\]](/note/note-1?passage=100-150)[9]");
+  });
+});
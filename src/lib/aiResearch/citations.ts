@@ -0,0 +1,68 @@
+import { Citation } from "./contextProcessor";
+
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; citation: Citation };
+
+// [2], [1, 3] or [1][3]; transcript timestamps like [01:20] never match
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Splits an answer into text and citation markers. Numbers the context never
+// contained are left as plain text rather than linked to a wrong passage.
+export const parseCitedAnswer = (content: string, citations: Citation[] = []): AnswerSegment[] => {
+  if (citations.length === 0) return [{ type: 'text', text: content }];
+
+  const byNumber = new Map(citations.map(citation => [citation.number, citation]));
+  const segments: AnswerSegment[] = [];
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const previous = segments[segments.length - 1];
+    if (previous?.type === 'text') {
+      previous.text += text;
+    } else {
+      segments.push({ type: 'text', text });
+    }
+  };
+
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    const numbers = match[1].split(',').map(value => parseInt(value.trim(), 10));
+    if (!numbers.every(number => byNumber.has(number))) continue;
+
+    pushText(content.slice(lastIndex, index));
+    numbers.forEach(number => segments.push({ type: 'citation', citation: byNumber.get(number)! }));
+    lastIndex = index + match[0].length;
+  }
+
+  pushText(content.slice(lastIndex));
+  return segments;
+};
+
+// Citations referenced by the answer, in order of first use
+export const getCitedPassages = (content: string, citations: Citation[] = []): Citation[] => {
+  const seen = new Set<number>();
+  return parseCitedAnswer(content, citations)
+    .flatMap(segment => segment.type === 'citation' ? [segment.citation] : [])
+    .filter(citation => !seen.has(citation.number) && seen.add(citation.number));
+};
+
+// Video passages seek the player; other notes open with the passage selected
+export const getCitationHref = (citation: Citation): string => {
+  const params = new URLSearchParams();
+  if (citation.timestamp !== undefined) {
+    params.set('t', String(Math.floor(citation.timestamp)));
+  }
+  params.set('passage', `${citation.startOffset}-${citation.endOffset}`);
+  return `/note/${citation.noteId}?${params.toString()}`;
+};
+
+// Markdown with every citation marker turned into a link to its passage
+export const linkCitationsInMarkdown = (content: string, citations: Citation[] = []): string =>
+  parseCitedAnswer(content, citations)
+    .map(segment => segment.type === 'text'
+      ? segment.text
+      // Escaped brackets render as "[2]" and are not mistaken for a wiki link
+      : `[\\[${segment.citation.number}\\]](${getCitationHref(segment.citation)})`)
+    .join('');
@@ -1,3 +1,5 @@
+import { chunkText, EmbeddingService, IndexableNote, SimilarChunk, TextChunk } from "@/lib/embeddings";
+import { findTimestampAt } from "@/lib/timestamps";
 
 export interface SourceData {
   id: string;
@@ -13,8 +15,22 @@ export interface SourceData {
   };
 }
 
+// A numbered passage the model can cite as [n]
+export interface Citation {
+  number: number;
+  noteId: string;
+  noteTitle: string;
+  excerpt: string;
+  // Character range of the passage in the note content
+  startOffset: number;
+  endOffset: number;
+  // Seconds into the video, for transcription notes
+  timestamp?: number;
+}
+
 export interface ProcessedContext {
   relevantChunks: string[];
+  citations: Citation[];
   sources: SourceData[];
   totalTokens: number;
   contextSummary: string;
@@ -24,13 +40,16 @@ export interface ProcessedContext {
 export class ContextProcessor {
   private static readonly MAX_CONTEXT_LENGTH = 6000; // Reduced for better focus
   private static readonly MIN_RELEVANCE_THRESHOLD = 0.4; // Higher threshold for accuracy
-  private static readonly CHUNK_SIZE = 600; // Smaller chunks for precision
   private static readonly MAX_SOURCES = 3; // Limit sources for clarity
+  private static readonly SEMANTIC_WEIGHT = 0.5; // Share of chunk similarity in the hybrid score
+  private static readonly MIN_HYBRID_RELEVANCE = 0.3;
+  private static readonly MIN_CHUNK_SIMILARITY = 0.25;
 
-  static processNotesForContext(notes: any[], query: string): ProcessedContext {
+  static async processNotesForContext(notes: any[], query: string): Promise<ProcessedContext> {
     if (!notes || notes.length === 0) {
       return {
         relevantChunks: [],
+        citations: [],
         sources: [],
         totalTokens: 0,
         contextSummary: "No relevant notes found.",
@@ -40,26 +59,42 @@ export class ContextProcessor {
 
     console.log(`🔍 STRICT CONTEXT: Processing ${notes.length} notes for: "${query}"`);
 
+    // Null when embeddings are unavailable; scoring then falls back to keywords
+    const semanticMatches = await this.findSemanticMatches(notes, query);
+
     // Enhanced relevance scoring with stricter criteria
     const scoredNotes = notes
       .map(note => {
-        const relevanceScore = this.calculateStrictRelevance(note, query);
+        const keywordScore = this.calculateStrictRelevance(note, query);
+        const matchedChunks = semanticMatches?.get(note.id) || [];
+        const semanticScore = matchedChunks[0]?.similarity ?? 0;
+        const relevanceScore = semanticMatches
+          ? (1 - this.SEMANTIC_WEIGHT) * keywordScore + this.SEMANTIC_WEIGHT * semanticScore
+          : keywordScore;
         return {
           ...note,
+          keywordScore,
+          semanticScore,
           relevanceScore,
+          matchedChunks,
           sourceIdentifier: `${note.title}_${note.id}`,
           contentHash: this.createContentHash(note.content || '')
         };
       })
-      .filter(note => note.relevanceScore >= this.MIN_RELEVANCE_THRESHOLD)
+      // A strong keyword match qualifies on its own, as before hybrid scoring
+      .filter(note =>
+        note.keywordScore >= this.MIN_RELEVANCE_THRESHOLD ||
+        (semanticMatches !== null && note.relevanceScore >= this.MIN_HYBRID_RELEVANCE)
+      )
       .sort((a, b) => b.relevanceScore - a.relevanceScore)
       .slice(0, this.MAX_SOURCES); // Strict limit
 
-    console.log(`🎯 FILTERED: ${scoredNotes.length} sources above threshold (${this.MIN_RELEVANCE_THRESHOLD})`);
+    console.log(`🎯 FILTERED: ${scoredNotes.length} sources above threshold (${semanticMatches ? 'hybrid' : 'keyword only'})`);
 
     if (scoredNotes.length === 0) {
       return {
         relevantChunks: [],
+        citations: [],
         sources: [],
         totalTokens: 0,
         contextSummary: `No sources found relevant enough for query: "${query}"`,
@@ -70,6 +105,7 @@ export class ContextProcessor {
     // Process with strict source attribution
     const processedSources: SourceData[] = [];
     const contextChunks: string[] = [];
+    const citations: Citation[] = [];
     let totalTokens = 0;
 
     for (const note of scoredNotes) {
@@ -89,11 +125,22 @@ export class ContextProcessor {
         }
       };
 
+      // Prefer the passages that matched semantically, in document order
+      const passages: TextChunk[] = [...note.matchedChunks]
+        .sort((a: SimilarChunk, b: SimilarChunk) => a.startOffset - b.startOffset)
+        .map((chunk: SimilarChunk, index: number) => ({
+          index,
+          content: chunk.content,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset
+        }));
+
       // Create clearly attributed content chunks with validation
-      const chunks = this.createValidatedChunks(note, query);
-      for (const chunk of chunks) {
+      const chunks = this.createValidatedChunks(note, query, passages, citations.length + 1);
+      for (const { chunk, citation } of chunks) {
         if (totalTokens + chunk.length <= this.MAX_CONTEXT_LENGTH) {
           contextChunks.push(chunk);
+          citations.push(citation);
           totalTokens += chunk.length;
         } else {
           break;
@@ -101,7 +148,7 @@ export class ContextProcessor {
       }
 
       processedSources.push(sourceData);
-      console.log(`📄 PROCESSED: "${note.title}" (ID: ${note.id}, relevance: ${note.relevanceScore.toFixed(3)})`);
+      console.log(`📄 PROCESSED: "${note.title}" (ID: ${note.id}, relevance: ${note.relevanceScore.toFixed(3)}, keyword: ${note.keywordScore.toFixed(3)}, semantic: ${note.semanticScore.toFixed(3)})`);
     }
 
     // Create strict context summary
@@ -112,6 +159,7 @@ export class ContextProcessor {
 
     return {
       relevantChunks: contextChunks,
+      citations,
       sources: processedSources,
       totalTokens,
       contextSummary,
@@ -119,6 +167,30 @@ export class ContextProcessor {
     };
   }
 
+  private static async findSemanticMatches(notes: IndexableNote[], query: string): Promise<Map<string, SimilarChunk[]> | null> {
+    try {
+      await EmbeddingService.ensureNotesIndexed(notes);
+      const chunks = await EmbeddingService.findSimilarChunks(query, {
+        matchCount: 24,
+        minSimilarity: this.MIN_CHUNK_SIMILARITY
+      });
+
+      // Chunks arrive sorted by similarity, so the first per note is its best
+      const noteIds = new Set(notes.map(note => note.id));
+      const matches = new Map<string, SimilarChunk[]>();
+      for (const chunk of chunks) {
+        if (!noteIds.has(chunk.noteId)) continue;
+        matches.set(chunk.noteId, [...(matches.get(chunk.noteId) || []), chunk]);
+      }
+
+      console.log(`🧭 SEMANTIC: ${chunks.length} chunks across ${matches.size} notes`);
+      return matches;
+    } catch (error) {
+      console.warn('⚠️ Semantic retrieval unavailable, using keyword relevance only:', error);
+      return null;
+    }
+  }
+
   private static calculateStrictRelevance(note: any, query: string): number {
     const queryLower = query.toLowerCase().trim();
     const titleLower = (note.title || '').toLowerCase();
@@ -172,8 +244,14 @@ export class ContextProcessor {
     return Math.pow(normalizedScore, 1.5); // Apply power curve for stricter filtering
   }
 
-  private static createValidatedChunks(note: any, query: string): string[] {
-    const chunks: string[] = [];
+  // Every chunk carries a citation number; numbers continue across notes so
+  // they are unique within one context
+  private static createValidatedChunks(
+    note: any,
+    query: string,
+    passages: TextChunk[],
+    firstCitationNumber: number
+  ): { chunk: string; citation: Citation }[] {
     const content = note.content || '';
     
     // Create enhanced header with strict source attribution
@@ -182,69 +260,43 @@ export class ContextProcessor {
       `TYPE: ${note.is_transcription ? 'VIDEO_TRANSCRIPT' : 'TEXT_NOTE'}\n` +
       `SOURCE_URL: ${note.source_url || 'NONE'}\n` +
       `CREATED: ${note.created_at ? new Date(note.created_at).toISOString() : 'UNKNOWN'}\n` +
-      `QUERY_RELEVANCE: ${this.calculateStrictRelevance(note, query).toFixed(3)}\n` +
-      `CONTENT_VERIFICATION: This content is exclusively from the above source.\n` +
-      `---CONTENT_START---\n`;
+      `QUERY_RELEVANCE: ${(note.relevanceScore ?? this.calculateStrictRelevance(note, query)).toFixed(3)}\n` +
+      `CONTENT_VERIFICATION: This content is exclusively from the above source.\n`;
 
     const footer = `\n---CONTENT_END---\n` +
       `ATTRIBUTION: All above content is strictly from "${note.title}" (ID: ${note.id})\n`;
 
-    if (content.length <= this.CHUNK_SIZE - sourceHeader.length - footer.length) {
-      chunks.push(sourceHeader + content + footer);
-    } else {
-      // Split content with clear attribution
-      const availableSpace = this.CHUNK_SIZE - sourceHeader.length - footer.length;
-      const contentChunks = this.splitIntoMeaningfulChunks(content, availableSpace);
-      
-      contentChunks.forEach((chunk, index) => {
-        const chunkHeader = index === 0 ? sourceHeader : 
-          `**CONTINUED: ${note.title} (Part ${index + 1})**\n` +
-          `SOURCE_ID: ${note.id}\n` +
-          `---CONTENT_CONTINUATION---\n`;
-        
-        chunks.push(chunkHeader + chunk + footer);
-      });
+    // Without semantic matches the whole note is split in document order
+    const contentChunks = passages.length > 0 ? passages : chunkText(content);
+    if (contentChunks.length === 0) {
+      contentChunks.push({ index: 0, content, startOffset: 0, endOffset: content.length });
     }
 
-    return chunks;
-  }
+    return contentChunks.map((passage, index) => {
+      const number = firstCitationNumber + index;
+      const chunkHeader = (index === 0 ? sourceHeader :
+        `**CONTINUED: ${note.title} (Part ${index + 1})**\n` +
+        `SOURCE_ID: ${note.id}\n`) +
+        `CITATION: [${number}]\n` +
+        `---CONTENT_START---\n`;
 
-  private static splitIntoMeaningfulChunks(text: string, chunkSize: number): string[] {
-    const chunks: string[] = [];
-    
-    // Split by paragraphs first, then sentences
-    const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim());
-    
-    let currentChunk = '';
-    for (const paragraph of paragraphs) {
-      if ((currentChunk + paragraph).length <= chunkSize) {
-        currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-      } else {
-        if (currentChunk) chunks.push(currentChunk.trim());
-        
-        // Handle oversized paragraphs
-        if (paragraph.length > chunkSize) {
-          const sentences = paragraph.split(/[.!?]+/).filter(s => s.trim());
-          let sentenceChunk = '';
-          
-          for (const sentence of sentences) {
-            if ((sentenceChunk + sentence).length <= chunkSize) {
-              sentenceChunk += sentence + '. ';
-            } else {
-              if (sentenceChunk) chunks.push(sentenceChunk.trim());
-              sentenceChunk = sentence + '. ';
-            }
-          }
-          
-          if (sentenceChunk) currentChunk = sentenceChunk.trim();
-        } else {
-          currentChunk = paragraph;
+      const timestamp = note.is_transcription
+        ? findTimestampAt(content, passage.startOffset, passage.endOffset)
+        : null;
+
+      return {
+        chunk: chunkHeader + passage.content + footer,
+        citation: {
+          number,
+          noteId: note.id,
+          noteTitle: note.title,
+          excerpt: passage.content.length > 280 ? `${passage.content.slice(0, 280)}…` : passage.content,
+          startOffset: passage.startOffset,
+          endOffset: passage.endOffset,
+          ...(timestamp !== null && { timestamp })
         }
-      }
-    }
-    
-    if (currentChunk) chunks.push(currentChunk.trim());
-    return chunks;
+      };
+    });
   }
 
   private static createStrictContextSummary(sources: SourceData[], query: string): string {
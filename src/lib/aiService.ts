@@ -0,0 +1,107 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { readCompletionStream, StreamContentOptions, StreamedContent } from "./aiStream";
+import {
+  MODEL_HEADER,
+  PROVIDER_HEADER,
+  type ProcessContentErrorResponse,
+  type ProcessContentRequest,
+  type ProcessContentResponse,
+  type ProviderId
+} from "../../supabase/functions/_shared/processContent.ts";
+
+export type {
+  ContentType,
+  ProcessContentOptions,
+  ProcessContentRequest,
+  ProcessContentResponse,
+  ProviderId,
+  TokenUsage
+} from "../../supabase/functions/_shared/processContent.ts";
+export type { StreamContentOptions, StreamedContent } from "./aiStream";
+
+const PROVIDERS: ProviderId[] = ['deepseek', 'openai', 'local'];
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  deepseek: 'DeepSeek',
+  openai: 'OpenAI',
+  local: 'Local model'
+};
+
+// Client-side defaults; unset means the server's configured provider order
+const DEFAULT_PROVIDER = PROVIDERS.find(provider => provider === import.meta.env.VITE_AI_PROVIDER);
+const DEFAULT_MODEL: string | undefined = import.meta.env.VITE_AI_MODEL || undefined;
+
+// Single entry point for LLM calls: every request goes through the
+// process-content edge function, which picks a provider and falls back
+export class AIService {
+  private static withDefaults(request: ProcessContentRequest): ProcessContentRequest {
+    if (request.provider || !DEFAULT_PROVIDER) return request;
+    return { ...request, provider: DEFAULT_PROVIDER, model: request.model ?? DEFAULT_MODEL };
+  }
+
+  // Surfaces the function's own error message instead of "non-2xx status code"
+  private static async toError(error: unknown): Promise<Error> {
+    if (error instanceof FunctionsHttpError) {
+      try {
+        const body: ProcessContentErrorResponse = await error.context.json();
+        if (body?.error) return new Error(body.error);
+      } catch {
+        // Not a JSON error body; fall through to the generic error
+      }
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  static async processContent(request: ProcessContentRequest): Promise<ProcessContentResponse> {
+    const { data, error } = await supabase.functions.invoke('process-content', {
+      body: { ...this.withDefaults(request), stream: false }
+    });
+
+    if (error) {
+      console.error('Error processing content:', error);
+      throw await this.toError(error);
+    }
+
+    if (data.failedAttempts?.length) {
+      console.warn(`AI provider fallback: answered by ${data.provider} after`, data.failedAttempts);
+    }
+
+    return data;
+  }
+
+  static async streamContent(
+    request: ProcessContentRequest,
+    options: StreamContentOptions = {}
+  ): Promise<StreamedContent> {
+    const { data, error } = await supabase.functions.invoke('process-content', {
+      body: { ...this.withDefaults(request), stream: true }
+    });
+
+    if (error) {
+      console.error('Error streaming content:', error);
+      throw await this.toError(error);
+    }
+
+    // Non-streaming answers still arrive as JSON, e.g. from an older deployment
+    if (!(data instanceof Response) || !data.body) {
+      const response = data as ProcessContentResponse;
+      const content = response?.processedContent ?? '';
+      if (content && !options.signal?.aborted) options.onDelta?.(content, content);
+      return {
+        content,
+        usage: response?.usage,
+        provider: response?.provider,
+        model: response?.model,
+        aborted: !!options.signal?.aborted
+      };
+    }
+
+    const streamed = await readCompletionStream(data, options);
+    return {
+      ...streamed,
+      provider: (data.headers.get(PROVIDER_HEADER) as ProviderId | null) ?? undefined,
+      model: data.headers.get(MODEL_HEADER) ?? undefined
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import type { ProviderId, TokenUsage } from "../../supabase/functions/_shared/processContent.ts";
+
+export interface StreamedContent {
+  content: string;
+  usage?: TokenUsage;
+  // Provider and model that answered, when the server reports them
+  provider?: ProviderId;
+  model?: string;
+  // True when the signal stopped the stream; content holds what arrived before
+  aborted: boolean;
+}
+
+export interface StreamContentOptions {
+  signal?: AbortSignal;
+  onDelta?: (content: string, delta: string) => void;
+}
+
+// Splits buffered server-sent-event text into the data payloads of complete
+// events, returning the unfinished tail to prepend to the next chunk
+export const splitServerSentEvents = (buffer: string): { events: string[]; rest: string } => {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events = blocks
+    .map(block => block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n'))
+    .filter(Boolean);
+
+  return { events, rest };
+};
+
+const readChunk = (payload: string): { delta?: string; usage?: TokenUsage } => {
+  const chunk = JSON.parse(payload);
+  if (chunk.error) {
+    throw new Error(typeof chunk.error === 'string' ? chunk.error : chunk.error.message || 'Stream failed');
+  }
+  return {
+    delta: chunk.choices?.[0]?.delta?.content ?? undefined,
+    usage: chunk.usage ?? undefined
+  };
+};
+
+// Reads an OpenAI-compatible chat completion stream, reporting the answer as
+// it grows. Aborting the signal cancels the body, so the upstream model
+// request is closed rather than left to finish unseen.
+export async function readCompletionStream(
+  response: Response,
+  { signal, onDelta }: StreamContentOptions = {}
+): Promise<Omit<StreamedContent, 'provider' | 'model'>> {
+  const reader = response.body!.getReader();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+  if (signal?.aborted) cancel();
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let usage: TokenUsage | undefined;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const { events, rest } = splitServerSentEvents(buffer);
+      buffer = rest;
+
+      for (const event of events) {
+        if (event === '[DONE]') continue;
+        const chunk = readChunk(event);
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.delta) {
+          content += chunk.delta;
+          onDelta?.(content, chunk.delta);
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+
+  return { content, usage, aborted: !!signal?.aborted };
+}
@@ -1,6 +1,14 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Json } from "@/integrations/supabase/types";
+import { EmbeddingService } from "@/lib/embeddings";
+import { toStoredBlocks } from "@/lib/blocks";
+import { toTaskProgress } from "@/lib/tasks";
+import type { Citation } from "@/lib/aiResearch/contextProcessor";
+import { linkCitationsInMarkdown } from "@/lib/aiResearch/citations";
+import { NoteClassifier, type ClassifiableNote, type NoteClassification } from "@/lib/classification";
+import { parseSmartNotebookFilters, type SmartNotebookFilters } from "@/lib/smartNotebooks";
 
 // Types for our data
 export interface Tag {
@@ -13,6 +21,41 @@ export interface Notebook {
   id: string;
   name: string;
   description: string | null;
+  // The notebook this one is in, or null at the top level
+  parent_id: string | null;
+  // Order among the notebooks with the same parent
+  position: number;
+}
+
+export interface NotebookNoteCount {
+  notebook_id: string;
+  // Notes in the notebook itself
+  note_count: number;
+  // Notes in it and every notebook inside it
+  total_count: number;
+}
+
+// A saved filter listed with the notebooks; see src/lib/smartNotebooks.ts
+export interface SmartNotebook {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: SmartNotebookFilters;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TagNoteCount {
+  tag_id: string;
+  // Notes with the tag itself
+  note_count: number;
+  // Notes with it or any tag nested under it
+  total_count: number;
+}
+
+export interface NoteListFilters {
+  // Only notes in this notebook or the notebooks inside it
+  notebookId?: string;
 }
 
 export interface Note {
@@ -25,12 +68,312 @@ export interface Note {
   thumbnail: string | null;
   source_url: string | null;
   is_transcription: boolean | null;
+  user_id: string;
+  // Collaborators by user id; read it with getNoteShares
+  shared_permissions: Json | null;
+  // Structured form of content, saved with it; read it with getNoteBlocks
+  blocks: Json | null;
+  // Checklist items of content, saved with it; read it with getNoteTasks
+  task_progress: Json | null;
+  // The note's own deadline, set by its owner; tasks keep their due dates
+  // in task_progress
+  due_date: string | null;
+  is_reminder: boolean | null;
+  reminder_date: string | null;
+  // One of REMINDER_RECURRENCES, or null for a one-off reminder
+  reminder_recurrence: string | null;
+  // Reminders and due dates are emailed as well as shown in the app
+  reminder_email: boolean;
 }
 
 export interface NoteWithTags extends Note {
   tags: Tag[];
 }
 
+export type NoteShareRole = 'viewer' | 'commenter' | 'editor';
+export type NoteAccessRole = 'owner' | NoteShareRole;
+
+export const NOTE_SHARE_ROLES: NoteShareRole[] = ['viewer', 'commenter', 'editor'];
+
+export interface NoteShare {
+  user_id: string;
+  email: string;
+  role: NoteShareRole;
+  invited_at: string;
+}
+
+// Someone invited to a note by email who has not signed in with it yet
+export interface NoteInvite {
+  note_id: string;
+  email: string;
+  role: NoteShareRole;
+  invited_at: string;
+}
+
+// A note another user shared with the current one. Its tags are the owner's
+// and are not visible to collaborators.
+export interface SharedNote extends NoteWithTags {
+  role: NoteShareRole;
+}
+
+export interface NoteSearchFilters {
+  notebookId?: string;
+  isTranscription?: boolean;
+  tagNames?: string[];
+  notebookNames?: string[];
+  // ISO timestamps; createdBefore is exclusive, createdAfter inclusive
+  createdAfter?: string;
+  createdBefore?: string;
+  sourceDomains?: string[];
+  // Blend chunk embedding similarity into the rank (hybrid search)
+  semantic?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface NoteSearchResult {
+  id: string;
+  title: string;
+  // Matched terms are wrapped in <mark></mark> by the database
+  snippet: string;
+  rank: number;
+  keyword_score: number;
+  semantic_score: number;
+  source_url: string | null;
+  is_transcription: boolean | null;
+  notebook_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NoteSearchResponse {
+  results: NoteSearchResult[];
+  total: number;
+  hasMore: boolean;
+}
+
+export interface ResearchSource {
+  id: string;
+  title: string;
+  relevance: number;
+  snippet: string;
+}
+
+export interface ResearchSession {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ResearchMessage {
+  id: string;
+  session_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources: ResearchSource[];
+  citations: Citation[];
+  response_time_ms: number | null;
+  token_count: number | null;
+  created_at: string;
+}
+
+export type NewResearchMessage = Pick<ResearchMessage, 'role' | 'content'> &
+  Partial<Pick<ResearchMessage, 'sources' | 'citations' | 'response_time_ms' | 'token_count'>>;
+
+export interface NoteVersion {
+  id: string;
+  note_id: string;
+  title: string;
+  content: string | null;
+  // 'original' is what the note held before its first recorded save
+  reason: 'original' | 'edit' | 'autosave' | 'restore';
+  restored_from: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpdateNoteOptions {
+  // Autosaves in quick succession share one version in the note history
+  autosave?: boolean;
+  // The note's updated_at the edit was based on; the save is rejected with a
+  // NoteConflictError when the note has been saved elsewhere since. Required
+  // when the title or content change, which the database checks as well.
+  expectedUpdatedAt?: string;
+}
+
+// Thrown by updateNote when the note changed after the editor loaded it.
+// Carries the note as it is now so the two versions can be merged.
+export class NoteConflictError extends Error {
+  current: NoteWithTags;
+
+  constructor(current: NoteWithTags) {
+    super("The note was changed somewhere else since it was opened.");
+    this.name = "NoteConflictError";
+    this.current = current;
+  }
+}
+
+export type NoteArtifactType = 'summary' | 'key_points' | 'highlights' | 'narrative' | 'chapters';
+
+export interface NoteArtifact {
+  id: string;
+  note_id: string;
+  artifact_type: NoteArtifactType;
+  content: string;
+  provider: string | null;
+  model: string | null;
+  prompt_version: string;
+  // Hash of the note text the artifact was generated from
+  source_hash: string;
+  created_at: string;
+}
+
+export type NewNoteArtifact = Pick<NoteArtifact, 'artifact_type' | 'content' | 'prompt_version' | 'source_hash'> &
+  Partial<Pick<NoteArtifact, 'provider' | 'model'>>;
+
+// A public link to a note or a notebook, readable without an account
+export interface ShareLink {
+  id: string;
+  token: string;
+  note_id: string | null;
+  notebook_id: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type ShareLinkTarget = { noteId: string } | { notebookId: string };
+
+export interface SharedNotebookNote {
+  id: string;
+  title: string;
+  source_url: string | null;
+  thumbnail: string | null;
+  updated_at: string;
+}
+
+export interface SharedContentNote extends SharedNotebookNote {
+  content: string | null;
+  is_transcription: boolean | null;
+  created_at: string;
+}
+
+export interface SharedContentArtifact {
+  content: string;
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+}
+
+// What a visitor to a share link sees. For a notebook link, `note` is the
+// note picked from `notes`, if any.
+export interface SharedContent {
+  kind: 'note' | 'notebook';
+  expires_at: string | null;
+  notebook: { id: string; name: string; description: string | null; color: string | null } | null;
+  notes: SharedNotebookNote[] | null;
+  note: SharedContentNote | null;
+  // The latest artifact of each type
+  artifacts: Partial<Record<NoteArtifactType, SharedContentArtifact>> | null;
+}
+
+// A note that links to another with [[its title]]
+export interface Backlink {
+  id: string;
+  title: string;
+  content: string | null;
+  is_transcription: boolean | null;
+  updated_at: string;
+}
+
+export interface NoteLink {
+  source_note_id: string;
+  target_note_id: string;
+}
+
+export type ReminderRecurrence = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type NotificationKind = 'reminder' | 'due';
+
+export interface AppNotification {
+  id: string;
+  note_id: string;
+  kind: NotificationKind;
+  // Title of the note when it was delivered
+  title: string;
+  // The reminder or due date it is for
+  scheduled_for: string;
+  delivered_at: string;
+  snoozed_until: string | null;
+  read_at: string | null;
+}
+
+// An original upload kept with a note, in the attachments bucket
+export interface NoteAttachment {
+  id: string;
+  note_id: string;
+  user_id: string;
+  name: string;
+  storage_path: string;
+  mime_type: string | null;
+  size: number;
+  created_at: string;
+}
+
+export interface StorageUsage {
+  used_bytes: number;
+  quota_bytes: number;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(usage: StorageUsage) {
+    super(`This file does not fit in your storage quota (${formatBytes(usage.used_bytes)} of ${formatBytes(usage.quota_bytes)} used).`);
+    this.name = "StorageQuotaError";
+  }
+}
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export const NOTE_ARTIFACT_TYPES: NoteArtifactType[] = ['summary', 'key_points', 'highlights', 'narrative', 'chapters'];
+
+export const REMINDER_RECURRENCES: ReminderRecurrence[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+const NOTIFICATIONS_LIMIT = 50;
+
+// Error code the database refuses a save based on an outdated note with
+const NOTE_CONFLICT_CODE = '40001';
+
+const ATTACHMENTS_BUCKET = 'attachments';
+// How long preview and download links work, in seconds
+const ATTACHMENT_URL_TTL = 60 * 60;
+// Raised by the database when an upload does not fit in the quota; storage
+// passes on the message but not the error code
+const QUOTA_EXCEEDED_MESSAGE = /storage quota exceeded/i;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+};
+
+const hasSearchFieldFilters = (filters: NoteSearchFilters): boolean =>
+  Boolean(
+    filters.notebookId ||
+    filters.tagNames?.length ||
+    filters.notebookNames?.length ||
+    filters.sourceDomains?.length ||
+    filters.createdAfter ||
+    filters.createdBefore ||
+    filters.isTranscription !== undefined
+  );
+
 // Notebooks API
 export const fetchNotebooks = async (): Promise<Notebook[]> => {
   const { data, error } = await supabase
@@ -46,7 +389,12 @@ export const fetchNotebooks = async (): Promise<Notebook[]> => {
   return data || [];
 };
 
-export const createNotebook = async (notebook: { name: string; description?: string }): Promise<Notebook> => {
+export const createNotebook = async (notebook: {
+  name: string;
+  description?: string;
+  parent_id?: string | null;
+  position?: number;
+}): Promise<Notebook> => {
   // Get the current user
   const { data: { user } } = await supabase.auth.getUser();
   
@@ -99,6 +447,110 @@ export const deleteNotebook = async (id: string): Promise<void> => {
   }
 };
 
+// Puts the notebook under parentId (null for the top level) at position among
+// its new siblings; the database refuses to move a notebook into itself
+export const moveNotebook = async (id: string, parentId: string | null, position: number): Promise<void> => {
+  const { error } = await supabase.rpc("move_notebook", {
+    target_notebook_id: id,
+    new_parent_id: parentId,
+    new_position: position
+  });
+  
+  if (error) {
+    console.error("Error moving notebook:", error);
+    throw error;
+  }
+};
+
+export const fetchNotebookNoteCounts = async (): Promise<Record<string, NotebookNoteCount>> => {
+  const { data, error } = await supabase.rpc("get_notebook_note_counts");
+  
+  if (error) {
+    console.error("Error fetching notebook note counts:", error);
+    throw error;
+  }
+  
+  return Object.fromEntries((data || []).map(count => [count.notebook_id, count]));
+};
+
+// Smart notebooks API
+export const fetchSmartNotebooks = async (): Promise<SmartNotebook[]> => {
+  const { data, error } = await supabase
+    .from("smart_notebooks")
+    .select("*")
+    .order("name");
+  
+  if (error) {
+    console.error("Error fetching smart notebooks:", error);
+    throw error;
+  }
+  
+  return (data || []).map(row => ({ ...row, filters: parseSmartNotebookFilters(row.filters) }));
+};
+
+export const createSmartNotebook = async (smartNotebook: {
+  name: string;
+  filters: SmartNotebookFilters;
+}): Promise<SmartNotebook> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) {
+    throw new Error("User must be authenticated to create a smart notebook");
+  }
+  
+  const { data, error } = await supabase
+    .from("smart_notebooks")
+    .insert({
+      name: smartNotebook.name,
+      filters: smartNotebook.filters as unknown as Json,
+      user_id: user.id
+    })
+    .select()
+    .single();
+  
+  if (error) {
+    console.error("Error creating smart notebook:", error);
+    throw error;
+  }
+  
+  return { ...data, filters: parseSmartNotebookFilters(data.filters) };
+};
+
+export const updateSmartNotebook = async (
+  id: string,
+  updates: { name?: string; filters?: SmartNotebookFilters }
+): Promise<SmartNotebook> => {
+  const { data, error } = await supabase
+    .from("smart_notebooks")
+    .update({
+      name: updates.name,
+      filters: updates.filters as unknown as Json | undefined,
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", id)
+    .select()
+    .single();
+  
+  if (error) {
+    console.error("Error updating smart notebook:", error);
+    throw error;
+  }
+  
+  return { ...data, filters: parseSmartNotebookFilters(data.filters) };
+};
+
+export const deleteSmartNotebook = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("smart_notebooks")
+    .delete()
+    .eq("id", id);
+  
+  if (error) {
+    console.error("Error deleting smart notebook:", error);
+    throw error;
+  }
+};
+
 // Tags API
 export const fetchTags = async (): Promise<Tag[]> => {
   const { data, error } = await supabase
@@ -140,12 +592,25 @@ export const createTag = async (tag: { name: string; color: string }): Promise<T
 };
 
 export const updateTag = async (id: string, updates: Partial<Tag>): Promise<Tag> => {
-  const { data, error } = await supabase
-    .from("tags")
-    .update(updates)
-    .eq("id", id)
-    .select()
-    .single();
+  const { name, ...rest } = updates;
+  
+  // Renaming goes through rename_tag so that the tags nested under it follow
+  if (name !== undefined) {
+    const { error: renameError } = await supabase.rpc("rename_tag", {
+      target_tag_id: id,
+      new_name: name
+    });
+    
+    if (renameError) {
+      console.error("Error renaming tag:", renameError);
+      throw renameError;
+    }
+  }
+  
+  // A rename on its own leaves nothing else to update
+  const { data, error } = Object.keys(rest).length > 0
+    ? await supabase.from("tags").update(rest).eq("id", id).select().single()
+    : await supabase.from("tags").select().eq("id", id).single();
   
   if (error) {
     console.error("Error updating tag:", error);
@@ -167,12 +632,116 @@ export const deleteTag = async (id: string): Promise<void> => {
   }
 };
 
+// Moves the notes tagged with the source tags onto the target tag and deletes
+// the source tags; resolves to how many notes gained the target tag
+export const mergeTags = async (sourceTagIds: string[], targetTagId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc("merge_tags", {
+    source_tag_ids: sourceTagIds,
+    target_tag_id: targetTagId
+  });
+  
+  if (error) {
+    console.error("Error merging tags:", error);
+    throw error;
+  }
+  
+  return data ?? 0;
+};
+
+export const fetchTagNoteCounts = async (): Promise<Record<string, TagNoteCount>> => {
+  const { data, error } = await supabase.rpc("get_tag_note_counts");
+  
+  if (error) {
+    console.error("Error fetching tag note counts:", error);
+    throw error;
+  }
+  
+  return Object.fromEntries((data || []).map(count => [count.tag_id, count]));
+};
+
+// Tags every note with every tag, skipping the pairs that already exist
+export const addTagsToNotes = async (noteIds: string[], tagIds: string[]): Promise<void> => {
+  if (noteIds.length === 0 || tagIds.length === 0) return;
+  
+  const { data: existing, error: fetchError } = await supabase
+    .from("note_tags")
+    .select("note_id, tag_id")
+    .in("note_id", noteIds)
+    .in("tag_id", tagIds);
+  
+  if (fetchError) {
+    console.error("Error fetching note tags:", fetchError);
+    throw fetchError;
+  }
+  
+  const existingPairs = new Set((existing || []).map(row => `${row.note_id}:${row.tag_id}`));
+  const noteTagsToInsert = noteIds.flatMap(noteId =>
+    tagIds
+      .filter(tagId => !existingPairs.has(`${noteId}:${tagId}`))
+      .map(tagId => ({ note_id: noteId, tag_id: tagId }))
+  );
+  if (noteTagsToInsert.length === 0) return;
+  
+  const { error } = await supabase
+    .from("note_tags")
+    .insert(noteTagsToInsert);
+  
+  if (error) {
+    console.error("Error adding tags to notes:", error);
+    throw error;
+  }
+};
+
+export const removeTagsFromNotes = async (noteIds: string[], tagIds: string[]): Promise<void> => {
+  if (noteIds.length === 0 || tagIds.length === 0) return;
+  
+  const { error } = await supabase
+    .from("note_tags")
+    .delete()
+    .in("note_id", noteIds)
+    .in("tag_id", tagIds);
+  
+  if (error) {
+    console.error("Error removing tags from notes:", error);
+    throw error;
+  }
+};
+
+// AI suggestions of tags and a notebook for a note, chosen from the user's
+// current tags and notebooks
+export const classifyNote = async (note: ClassifiableNote): Promise<NoteClassification> => {
+  const [tags, notebooks] = await Promise.all([fetchTags(), fetchNotebooks()]);
+  return NoteClassifier.classify(note, { tags, notebooks });
+};
+
 // Notes API with tags
-export const fetchNotes = async (): Promise<NoteWithTags[]> => {
-  // First, fetch all notes
-  const { data: notes, error: notesError } = await supabase
+export const fetchNotes = async (filters: NoteListFilters = {}): Promise<NoteWithTags[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error("User must be authenticated to fetch notes");
+  }
+
+  let notebookIds: string[] | null = null;
+  if (filters.notebookId) {
+    const { data: subtree, error: subtreeError } = await supabase
+      .rpc("notebook_subtree", { root_notebook_id: filters.notebookId });
+    
+    if (subtreeError) {
+      console.error("Error fetching notebook subtree:", subtreeError);
+      throw subtreeError;
+    }
+    notebookIds = subtree || [];
+  }
+
+  // First, fetch all notes; notes shared with the user are fetched separately
+  let notesQuery = supabase
     .from("notes")
     .select("*")
+    .eq("user_id", user.id);
+  if (notebookIds) {
+    notesQuery = notesQuery.in("notebook_id", notebookIds);
+  }
+  const { data: notes, error: notesError } = await notesQuery
     .order("created_at", { ascending: false });
   
   if (notesError) {
@@ -277,6 +846,8 @@ export const createNote = async (
     .from("notes")
     .insert({
       ...note,
+      blocks: toStoredBlocks(note.content ?? null),
+      task_progress: toTaskProgress(note.content ?? null),
       user_id: user.id
     })
     .select()
@@ -320,6 +891,8 @@ export const createNote = async (
     .map(item => item.tags)
     .filter(tag => tag !== null) as Tag[];
   
+  EmbeddingService.queueNoteIndexing(newNote);
+  
   return {
     ...newNote,
     tags
@@ -329,20 +902,46 @@ export const createNote = async (
 export const updateNote = async (
   id: string, 
   updates: Partial<Note>,
-  tagIds?: string[]
+  tagIds?: string[],
+  options: UpdateNoteOptions = {}
 ): Promise<NoteWithTags> => {
-  // Update the note
-  const { data: updatedNote, error: noteError } = await supabase
+  if ((updates.title !== undefined || updates.content !== undefined) && !options.expectedUpdatedAt) {
+    throw new Error("A note's title and content can only be saved over the version they were edited from");
+  }
+  
+  // Update the note; the database records a version when title or content change
+  let query = supabase
     .from("notes")
-    .update(updates)
-    .eq("id", id)
+    .update(updates.content !== undefined ? {
+      ...updates,
+      blocks: toStoredBlocks(updates.content),
+      task_progress: toTaskProgress(updates.content)
+    } : updates)
+    .eq("id", id);
+  if (options.expectedUpdatedAt) {
+    query = query
+      .eq("updated_at", options.expectedUpdatedAt)
+      .setHeader("x-note-base-updated-at", options.expectedUpdatedAt);
+  }
+  const { data: updatedNote, error: noteError } = await query
     .select()
-    .single();
+    .maybeSingle()
+    .setHeader("x-note-save-kind", options.autosave ? "autosave" : "edit");
+  
+  // Refused by the database: the note was saved elsewhere in the meantime
+  if (noteError?.code === NOTE_CONFLICT_CODE) {
+    throw new NoteConflictError(await fetchNoteById(id));
+  }
   
   if (noteError) {
     console.error("Error updating note:", noteError);
     throw noteError;
   }
+
+  // No row matched: the note was saved elsewhere after expectedUpdatedAt
+  if (!updatedNote) {
+    throw new NoteConflictError(await fetchNoteById(id));
+  }
   
   // If tagIds are provided, update the tag associations
   if (tagIds !== undefined) {
@@ -391,21 +990,774 @@ export const updateNote = async (
     .map(item => item.tags)
     .filter(tag => tag !== null) as Tag[];
   
+  // Only content changes affect the embedding index
+  if (updates.title !== undefined || updates.content !== undefined) {
+    EmbeddingService.queueNoteIndexing(updatedNote);
+  }
+  
   return {
     ...updatedNote,
     tags
   };
 };
 
+// Removes the stored attachments first: their files rows go with the note,
+// and an object left behind would still count against the owner's quota
 export const deleteNote = async (id: string): Promise<void> => {
-  // Delete note (note_tags will be deleted via cascade)
+  const { data: attachments, error: attachmentsError } = await supabase
+    .from("files")
+    .select("storage_path")
+    .eq("note_id", id);
+  
+  if (attachmentsError) {
+    console.error("Error fetching note attachments:", attachmentsError);
+    throw attachmentsError;
+  }
+  
+  const paths = (attachments || []).map(file => file.storage_path).filter((path): path is string => !!path);
+  if (paths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+    if (storageError) {
+      console.error("Error removing note attachments:", storageError);
+      throw storageError;
+    }
+  }
+  
+  // Delete note (note_tags and files will be deleted via cascade)
+  const { error } = await supabase
+    .from("notes")
+    .delete()
+    .eq("id", id);
+  
+  if (error) {
+    console.error("Error deleting note:", error);
+    throw error;
+  }
+};
+
+// Search API
+export const searchNotes = async (
+  query: string,
+  filters: NoteSearchFilters = {}
+): Promise<NoteSearchResponse> => {
+  const trimmedQuery = query.trim();
+
+  // With field filters alone the database lists every matching note
+  if (!trimmedQuery && !hasSearchFieldFilters(filters)) {
+    return { results: [], total: 0, hasMore: false };
+  }
+
+  const limit = filters.limit ?? SEARCH_PAGE_SIZE;
+  const offset = filters.offset ?? 0;
+
+  // Semantic ranking is best effort; keyword search still works without it
+  let queryEmbedding: string | undefined;
+  if (filters.semantic && trimmedQuery) {
+    try {
+      queryEmbedding = EmbeddingService.toVectorLiteral(await EmbeddingService.embedQuery(trimmedQuery));
+    } catch (embeddingError) {
+      console.error("Error embedding search query:", embeddingError);
+    }
+  }
+
+  const { data, error } = await supabase.rpc("search_notes_ranked", {
+    search_query: trimmedQuery,
+    filter_notebook_id: filters.notebookId,
+    filter_is_transcription: filters.isTranscription,
+    filter_tag_names: filters.tagNames,
+    filter_notebook_names: filters.notebookNames,
+    filter_created_after: filters.createdAfter,
+    filter_created_before: filters.createdBefore,
+    filter_source_domains: filters.sourceDomains,
+    query_embedding: queryEmbedding,
+    embedding_model: queryEmbedding ? EmbeddingService.getProvider().model : undefined,
+    result_limit: limit,
+    result_offset: offset
+  });
+
+  if (error) {
+    console.error("Error searching notes:", error);
+    throw error;
+  }
+
+  const rows = data || [];
+  const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+  return {
+    results: rows.map(({ total_count, ...result }) => result),
+    total,
+    hasMore: offset + rows.length < total
+  };
+};
+
+// Research sessions API
+export const fetchResearchSessions = async (): Promise<ResearchSession[]> => {
+  const { data, error } = await supabase
+    .from("research_sessions")
+    .select("id, title, created_at, updated_at")
+    .order("updated_at", { ascending: false });
+  
+  if (error) {
+    console.error("Error fetching research sessions:", error);
+    throw error;
+  }
+  
+  return data || [];
+};
+
+export const fetchResearchMessages = async (sessionId: string): Promise<ResearchMessage[]> => {
+  const { data, error } = await supabase
+    .from("research_messages")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+  
+  if (error) {
+    console.error("Error fetching research messages:", error);
+    throw error;
+  }
+  
+  return (data || []).map(message => ({
+    id: message.id,
+    session_id: message.session_id,
+    role: message.role as ResearchMessage["role"],
+    content: message.content,
+    sources: (message.sources as unknown as ResearchSource[] | null) || [],
+    citations: (message.citations as unknown as Citation[] | null) || [],
+    response_time_ms: message.response_time_ms,
+    token_count: message.token_count,
+    created_at: message.created_at
+  }));
+};
+
+export const createResearchSession = async (title: string): Promise<ResearchSession> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) {
+    throw new Error("User must be authenticated to save a research session");
+  }
+  
+  const { data, error } = await supabase
+    .from("research_sessions")
+    .insert({ title, user_id: user.id })
+    .select("id, title, created_at, updated_at")
+    .single();
+  
+  if (error) {
+    console.error("Error creating research session:", error);
+    throw error;
+  }
+  
+  return data;
+};
+
+export const renameResearchSession = async (id: string, title: string): Promise<ResearchSession> => {
+  const { data, error } = await supabase
+    .from("research_sessions")
+    .update({ title })
+    .eq("id", id)
+    .select("id, title, created_at, updated_at")
+    .single();
+  
+  if (error) {
+    console.error("Error renaming research session:", error);
+    throw error;
+  }
+  
+  return data;
+};
+
+export const deleteResearchSession = async (id: string): Promise<void> => {
+  // Messages are removed via cascade
   const { error } = await supabase
+    .from("research_sessions")
+    .delete()
+    .eq("id", id);
+  
+  if (error) {
+    console.error("Error deleting research session:", error);
+    throw error;
+  }
+};
+
+export const addResearchMessages = async (
+  sessionId: string,
+  messages: NewResearchMessage[]
+): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) {
+    throw new Error("User must be authenticated to save a research session");
+  }
+  
+  // Explicit timestamps keep a question ordered before its answer
+  const baseTime = Date.now();
+  const { error } = await supabase
+    .from("research_messages")
+    .insert(messages.map((message, index) => ({
+      session_id: sessionId,
+      user_id: user.id,
+      role: message.role,
+      content: message.content,
+      sources: (message.sources || []) as unknown as Json,
+      citations: (message.citations || []) as unknown as Json,
+      response_time_ms: message.response_time_ms ?? null,
+      token_count: message.token_count ?? null,
+      created_at: new Date(baseTime + index).toISOString()
+    })));
+  
+  if (error) {
+    console.error("Error saving research messages:", error);
+    throw error;
+  }
+};
+
+// Writes the conversation as a markdown note; cited notes become links
+export const saveResearchSessionAsNote = async (sessionId: string): Promise<NoteWithTags> => {
+  const { data: session, error } = await supabase
+    .from("research_sessions")
+    .select("title")
+    .eq("id", sessionId)
+    .single();
+  
+  if (error) {
+    console.error("Error fetching research session:", error);
+    throw error;
+  }
+  
+  const messages = await fetchResearchMessages(sessionId);
+  const citedSources = new Map<string, ResearchSource>();
+  const sections = messages.map(message => {
+    if (message.role === "user") {
+      return `### ${message.content.replace(/\s+/g, " ").trim()}`;
+    }
+    
+    message.sources.forEach(source => citedSources.set(source.id, source));
+    const sourceLinks = message.sources
+      .map(source => `[${source.title}](/note/${source.id})`)
+      .join(", ");
+    
+    const answer = linkCitationsInMarkdown(message.content, message.citations);
+    return sourceLinks ? `${answer}\n\n_Sources: ${sourceLinks}_` : answer;
+  });
+  
+  if (citedSources.size > 0) {
+    sections.push(
+      "## Sources\n\n" +
+      Array.from(citedSources.values())
+        .map(source => `- [${source.title}](/note/${source.id})`)
+        .join("\n")
+    );
+  }
+  
+  return createNote({
+    title: session.title,
+    content: sections.join("\n\n")
+  });
+};
+
+// Note versions API
+export const fetchNoteVersions = async (noteId: string): Promise<NoteVersion[]> => {
+  const { data, error } = await supabase
+    .from("note_versions")
+    .select("id, note_id, title, content, reason, restored_from, created_at, updated_at")
+    .eq("note_id", noteId)
+    .order("created_at", { ascending: false })
+    .limit(100);
+  
+  if (error) {
+    console.error("Error fetching note versions:", error);
+    throw error;
+  }
+  
+  return (data || []).map(version => ({
+    ...version,
+    reason: version.reason as NoteVersion["reason"]
+  }));
+};
+
+// Saves the version's title and content as the note's current state, which
+// is itself recorded as a new version
+export const restoreNoteVersion = async (noteId: string, versionId: string): Promise<void> => {
+  const { error } = await supabase.rpc("restore_note_version", { version_id: versionId });
+  
+  if (error) {
+    console.error("Error restoring note version:", error);
+    throw error;
+  }
+  
+  EmbeddingService.queueNoteIndexing(await fetchNoteById(noteId));
+};
+
+// Note sharing API
+export const getNoteShares = (note: Pick<Note, "shared_permissions">): NoteShare[] => {
+  const permissions = note.shared_permissions;
+  if (!permissions || typeof permissions !== "object" || Array.isArray(permissions)) {
+    return [];
+  }
+
+  return Object.entries(permissions)
+    .map(([userId, entry]) => {
+      const share = (entry && typeof entry === "object" && !Array.isArray(entry) ? entry : {}) as Record<string, Json>;
+      return {
+        user_id: userId,
+        email: typeof share.email === "string" ? share.email : "",
+        role: share.role as NoteShareRole,
+        invited_at: typeof share.invited_at === "string" ? share.invited_at : "",
+      };
+    })
+    .filter(share => NOTE_SHARE_ROLES.includes(share.role))
+    .sort((a, b) => a.email.localeCompare(b.email));
+};
+
+export const getNoteAccessRole = (
+  note: Pick<Note, "user_id" | "shared_permissions">,
+  userId: string | undefined
+): NoteAccessRole | null => {
+  if (!userId) return null;
+  if (note.user_id === userId) return "owner";
+  return getNoteShares(note).find(share => share.user_id === userId)?.role ?? null;
+};
+
+export const fetchSharedNotes = async (): Promise<SharedNote[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error("User must be authenticated to fetch shared notes");
+  }
+
+  // Joins the notes the user was invited to since they last looked
+  const { error: acceptError } = await supabase.rpc("accept_note_invites");
+  if (acceptError) {
+    console.error("Error accepting note invites:", acceptError);
+    throw acceptError;
+  }
+
+  // Row-level security returns other users' notes only when shared with this one
+  const { data, error } = await supabase
     .from("notes")
+    .select("*")
+    .neq("user_id", user.id)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching shared notes:", error);
+    throw error;
+  }
+
+  return (data || []).flatMap(note => {
+    const role = getNoteAccessRole(note, user.id);
+    return role && role !== "owner" ? [{ ...note, tags: [], role }] : [];
+  });
+};
+
+// Invites someone by email, or changes the role of a collaborator with that
+// email. Invitees join once they sign in, and the result is the same whether
+// or not the email has an account yet.
+export const shareNote = async (noteId: string, email: string, role: NoteShareRole): Promise<NoteShare[]> => {
+  const { data, error } = await supabase.rpc("share_note", {
+    target_note_id: noteId,
+    invitee_email: email,
+    share_role: role,
+  });
+
+  if (error) {
+    console.error("Error sharing note:", error);
+    throw error;
+  }
+
+  return getNoteShares({ shared_permissions: data });
+};
+
+export const fetchNoteInvites = async (noteId: string): Promise<NoteInvite[]> => {
+  const { data, error } = await supabase
+    .from("note_invites")
+    .select("note_id, email, role, invited_at")
+    .eq("note_id", noteId)
+    .order("email");
+
+  if (error) {
+    console.error("Error fetching note invites:", error);
+    throw error;
+  }
+
+  return (data || []).filter(invite => NOTE_SHARE_ROLES.includes(invite.role as NoteShareRole)) as NoteInvite[];
+};
+
+export const withdrawNoteInvite = async (invite: Pick<NoteInvite, "note_id" | "email">): Promise<void> => {
+  const { error } = await supabase
+    .from("note_invites")
+    .delete()
+    .eq("note_id", invite.note_id)
+    .eq("email", invite.email);
+
+  if (error) {
+    console.error("Error withdrawing note invite:", error);
+    throw error;
+  }
+};
+
+// Owners remove collaborators; collaborators remove themselves to leave a note
+export const unshareNote = async (noteId: string, userId: string): Promise<NoteShare[]> => {
+  const { data, error } = await supabase.rpc("unshare_note", {
+    target_note_id: noteId,
+    collaborator_id: userId,
+  });
+
+  if (error) {
+    console.error("Error removing note collaborator:", error);
+    throw error;
+  }
+
+  return getNoteShares({ shared_permissions: data });
+};
+
+// Share links API
+export const getShareLinkUrl = (token: string): string => `${window.location.origin}/s/${token}`;
+
+export const isShareLinkActive = (link: Pick<ShareLink, "expires_at" | "revoked_at">): boolean =>
+  !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date());
+
+const shareLinksKey = (target: ShareLinkTarget) =>
+  "noteId" in target ? ["share-links", "note", target.noteId] : ["share-links", "notebook", target.notebookId];
+
+export const fetchShareLinks = async (target: ShareLinkTarget): Promise<ShareLink[]> => {
+  let query = supabase
+    .from("share_links")
+    .select("id, token, note_id, notebook_id, expires_at, revoked_at, created_at");
+  query = "noteId" in target
+    ? query.eq("note_id", target.noteId)
+    : query.eq("notebook_id", target.notebookId);
+
+  const { data, error } = await query.order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching share links:", error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+export const createShareLink = async (target: ShareLinkTarget, expiresAt: string | null): Promise<ShareLink> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("User must be authenticated to create share links");
+  }
+
+  const { data, error } = await supabase
+    .from("share_links")
+    .insert({
+      user_id: user.id,
+      note_id: "noteId" in target ? target.noteId : null,
+      notebook_id: "notebookId" in target ? target.notebookId : null,
+      expires_at: expiresAt,
+    })
+    .select("id, token, note_id, notebook_id, expires_at, revoked_at, created_at")
+    .single();
+
+  if (error) {
+    console.error("Error creating share link:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Revoked links stay listed so the owner can see what was shared
+export const revokeShareLink = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error revoking share link:", error);
+    throw error;
+  }
+};
+
+// Works without signing in. Null when the link is unknown, revoked or expired.
+export const fetchSharedContent = async (token: string, noteId?: string): Promise<SharedContent | null> => {
+  const { data, error } = await supabase.rpc("get_shared_content", {
+    share_token: token,
+    target_note_id: noteId,
+  });
+
+  if (error) {
+    console.error("Error fetching shared content:", error);
+    throw error;
+  }
+
+  return data as unknown as SharedContent | null;
+};
+
+// Note links API
+// Notes linking to the given one; links are kept by the database from the
+// [[Note title]] links in each note's content
+export const fetchBacklinks = async (noteId: string): Promise<Backlink[]> => {
+  const { data, error } = await supabase
+    .from("note_links")
+    .select("source:notes!note_links_source_note_id_fkey(id, title, content, is_transcription, updated_at)")
+    .eq("target_note_id", noteId);
+  
+  if (error) {
+    console.error("Error fetching backlinks:", error);
+    throw error;
+  }
+  
+  return (data || [])
+    .map(link => link.source)
+    .filter((note): note is Backlink => note !== null)
+    .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+};
+
+// Every link between notes the user can read, for the knowledge graph
+export const fetchNoteLinks = async (): Promise<NoteLink[]> => {
+  const { data, error } = await supabase
+    .from("note_links")
+    .select("source_note_id, target_note_id");
+  
+  if (error) {
+    console.error("Error fetching note links:", error);
+    throw error;
+  }
+  
+  return data || [];
+};
+
+// Note artifacts API
+// The current artifact of each type and the one it replaced, newest first
+export const fetchNoteArtifacts = async (
+  noteId: string
+): Promise<Partial<Record<NoteArtifactType, NoteArtifact[]>>> => {
+  const results = await Promise.all(NOTE_ARTIFACT_TYPES.map(type =>
+    supabase
+      .from("note_artifacts")
+      .select("id, note_id, artifact_type, content, provider, model, prompt_version, source_hash, created_at")
+      .eq("note_id", noteId)
+      .eq("artifact_type", type)
+      .order("created_at", { ascending: false })
+      .limit(2)
+  ));
+  
+  const artifacts: Partial<Record<NoteArtifactType, NoteArtifact[]>> = {};
+  results.forEach(({ data, error }, index) => {
+    if (error) {
+      console.error("Error fetching note artifacts:", error);
+      throw error;
+    }
+    if (data?.length) {
+      artifacts[NOTE_ARTIFACT_TYPES[index]] = data.map(artifact => ({
+        ...artifact,
+        artifact_type: artifact.artifact_type as NoteArtifactType
+      }));
+    }
+  });
+  
+  return artifacts;
+};
+
+export const saveNoteArtifacts = async (
+  noteId: string,
+  artifacts: NewNoteArtifact[]
+): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) {
+    throw new Error("User must be authenticated to save AI artifacts");
+  }
+  
+  const { error } = await supabase
+    .from("note_artifacts")
+    .insert(artifacts.map(artifact => ({
+      note_id: noteId,
+      user_id: user.id,
+      artifact_type: artifact.artifact_type,
+      content: artifact.content,
+      provider: artifact.provider ?? null,
+      model: artifact.model ?? null,
+      prompt_version: artifact.prompt_version,
+      source_hash: artifact.source_hash
+    })));
+  
+  if (error) {
+    console.error("Error saving note artifacts:", error);
+    throw error;
+  }
+};
+
+// Notifications API
+// Reminders and due dates delivered by the send-reminders function, newest
+// first; snoozed ones stay hidden until they are delivered again
+export const fetchNotifications = async (): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id, note_id, kind, title, scheduled_for, delivered_at, snoozed_until, read_at")
+    .is("snoozed_until", null)
+    .order("delivered_at", { ascending: false })
+    .limit(NOTIFICATIONS_LIMIT);
+  
+  if (error) {
+    console.error("Error fetching notifications:", error);
+    throw error;
+  }
+  
+  return (data || []) as AppNotification[];
+};
+
+export const markNotificationsRead = async (ids: string[]): Promise<void> => {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", ids)
+    .is("read_at", null);
+  
+  if (error) {
+    console.error("Error marking notifications read:", error);
+    throw error;
+  }
+};
+
+export const snoozeNotification = async (id: string, until: Date): Promise<void> => {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ snoozed_until: until.toISOString(), read_at: new Date().toISOString() })
+    .eq("id", id);
+  
+  if (error) {
+    console.error("Error snoozing notification:", error);
+    throw error;
+  }
+};
+
+export const deleteNotification = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("notifications")
     .delete()
     .eq("id", id);
   
   if (error) {
-    console.error("Error deleting note:", error);
+    console.error("Error deleting notification:", error);
+    throw error;
+  }
+};
+
+// Attachments API
+export const fetchNoteAttachments = async (noteId: string): Promise<NoteAttachment[]> => {
+  const { data, error } = await supabase
+    .from("files")
+    .select("id, note_id, user_id, name, storage_path, mime_type, size, created_at")
+    .eq("note_id", noteId)
+    .order("created_at", { ascending: true });
+  
+  if (error) {
+    console.error("Error fetching attachments:", error);
+    throw error;
+  }
+  
+  return (data || []) as NoteAttachment[];
+};
+
+export const fetchStorageUsage = async (): Promise<StorageUsage> => {
+  const { data, error } = await supabase.rpc("get_storage_usage");
+  
+  if (error) {
+    console.error("Error fetching storage usage:", error);
+    throw error;
+  }
+  
+  return data?.[0] ?? { used_bytes: 0, quota_bytes: 0 };
+};
+
+// Stores the file under the user's folder and links it to the note. The
+// database checks the quota again when the file is stored, so an upload that
+// slips past the check here is turned away.
+export const uploadNoteAttachment = async (noteId: string, file: File): Promise<NoteAttachment> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) {
+    throw new Error("User must be authenticated to upload files");
+  }
+  
+  const usage = await fetchStorageUsage();
+  if (usage.used_bytes + file.size > usage.quota_bytes) {
+    throw new StorageQuotaError(usage);
+  }
+  
+  const safeName = file.name.replace(/[^\w.-]+/g, "_").slice(-100) || "file";
+  const storagePath = `${user.id}/${noteId}/${crypto.randomUUID()}-${safeName}`;
+  
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(storagePath, file, { contentType: file.type || undefined });
+  
+  if (uploadError) {
+    console.error("Error uploading attachment:", uploadError);
+    if (QUOTA_EXCEEDED_MESSAGE.test(uploadError.message)) {
+      throw new StorageQuotaError(await fetchStorageUsage());
+    }
+    throw uploadError;
+  }
+  
+  const { data, error } = await supabase
+    .from("files")
+    .insert({
+      note_id: noteId,
+      user_id: user.id,
+      name: file.name,
+      file_path: storagePath,
+      storage_path: storagePath,
+      mime_type: file.type || null,
+      size: file.size
+    })
+    .select("id, note_id, user_id, name, storage_path, mime_type, size, created_at")
+    .single();
+  
+  if (error) {
+    console.error("Error saving attachment:", error);
+    await supabase.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+    throw error;
+  }
+  
+  return data as NoteAttachment;
+};
+
+// A link that works for an hour; with download it saves the file under its name
+export const getAttachmentUrl = async (
+  attachment: NoteAttachment,
+  options: { download?: boolean } = {}
+): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.storage_path, ATTACHMENT_URL_TTL, options.download ? { download: attachment.name } : undefined);
+  
+  if (error) {
+    console.error("Error creating attachment link:", error);
+    throw error;
+  }
+  
+  return data.signedUrl;
+};
+
+// Removes the stored file first, so a failure leaves a row that can be deleted again
+export const deleteNoteAttachment = async (attachment: NoteAttachment): Promise<void> => {
+  const { error: storageError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove([attachment.storage_path]);
+  
+  if (storageError) {
+    console.error("Error removing attachment file:", storageError);
+    throw storageError;
+  }
+  
+  const { error } = await supabase
+    .from("files")
+    .delete()
+    .eq("id", attachment.id);
+  
+  if (error) {
+    console.error("Error deleting attachment:", error);
     throw error;
   }
 };
@@ -425,10 +1777,10 @@ export const useTags = () => {
   });
 };
 
-export const useNotes = () => {
+export const useNotes = (filters: NoteListFilters = {}) => {
   return useQuery({
-    queryKey: ["notes"],
-    queryFn: fetchNotes,
+    queryKey: filters.notebookId ? ["notes", "notebook", filters.notebookId] : ["notes"],
+    queryFn: () => fetchNotes(filters),
   });
 };
 
@@ -440,6 +1792,77 @@ export const useNote = (id: string) => {
   });
 };
 
+export const useSearchNotes = (query: string, filters: NoteSearchFilters = {}) => {
+  return useQuery({
+    queryKey: ["notes", "search", query.trim(), filters],
+    queryFn: () => searchNotes(query, filters),
+    enabled: query.trim().length >= 2 || hasSearchFieldFilters(filters),
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useNoteArtifacts = (noteId: string) => {
+  return useQuery({
+    queryKey: ["notes", noteId, "artifacts"],
+    queryFn: () => fetchNoteArtifacts(noteId),
+    enabled: !!noteId,
+  });
+};
+
+export const useNoteLinks = () => {
+  return useQuery({
+    queryKey: ["notes", "links"],
+    queryFn: fetchNoteLinks,
+  });
+};
+
+export const useBacklinks = (noteId: string) => {
+  return useQuery({
+    queryKey: ["notes", noteId, "backlinks"],
+    queryFn: () => fetchBacklinks(noteId),
+    enabled: !!noteId,
+  });
+};
+
+export const useNoteVersions = (noteId: string, enabled = true) => {
+  return useQuery({
+    queryKey: ["notes", noteId, "versions"],
+    queryFn: () => fetchNoteVersions(noteId),
+    enabled: !!noteId && enabled,
+  });
+};
+
+export const useSharedNotes = () => {
+  return useQuery({
+    queryKey: ["notes", "shared"],
+    queryFn: fetchSharedNotes,
+  });
+};
+
+export const useShareLinks = (target: ShareLinkTarget, enabled = true) => {
+  return useQuery({
+    queryKey: shareLinksKey(target),
+    queryFn: () => fetchShareLinks(target),
+    enabled,
+  });
+};
+
+export const useSharedContent = (token: string, noteId?: string) => {
+  return useQuery({
+    queryKey: ["shared-content", token, noteId ?? null],
+    queryFn: () => fetchSharedContent(token, noteId),
+    enabled: !!token,
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useResearchSessions = () => {
+  return useQuery({
+    queryKey: ["research-sessions"],
+    queryFn: fetchResearchSessions,
+  });
+};
+
 // Mutation hooks
 export const useCreateNotebook = () => {
   const queryClient = useQueryClient();
@@ -471,21 +1894,84 @@ export const useDeleteNotebook = () => {
     mutationFn: deleteNotebook,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["notebooks"] });
+      queryClient.invalidateQueries({ queryKey: ["notes", "notebook-counts"] });
     },
   });
 };
 
-export const useCreateTag = () => {
+export const useMoveNotebook = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: createTag,
+    mutationFn: ({ id, parentId, position }: { id: string; parentId: string | null; position: number }) =>
+      moveNotebook(id, parentId, position),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["notebooks"] });
+      queryClient.invalidateQueries({ queryKey: ["notes", "notebook-counts"] });
+    },
+  });
+};
+
+export const useNotebookNoteCounts = () => {
+  return useQuery({
+    // Under notes so that adding, moving and deleting notes refreshes it
+    queryKey: ["notes", "notebook-counts"],
+    queryFn: fetchNotebookNoteCounts,
+  });
+};
+
+export const useSmartNotebooks = () => {
+  return useQuery({
+    queryKey: ["smart-notebooks"],
+    queryFn: fetchSmartNotebooks,
+  });
+};
+
+export const useCreateSmartNotebook = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: createSmartNotebook,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      queryClient.invalidateQueries({ queryKey: ["smart-notebooks"] });
+    },
+  });
+};
+
+export const useUpdateSmartNotebook = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: { name?: string; filters?: SmartNotebookFilters } }) =>
+      updateSmartNotebook(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["smart-notebooks"] });
     },
   });
 };
 
+export const useDeleteSmartNotebook = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: deleteSmartNotebook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["smart-notebooks"] });
+    },
+  });
+};
+
+export const useCreateTag = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: createTag,
+    // Waits for the refetch so that the new tag is listed by the time callers
+    // select it
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["tags"] }),
+  });
+};
+
 export const useUpdateTag = () => {
   const queryClient = useQueryClient();
   
@@ -494,6 +1980,8 @@ export const useUpdateTag = () => {
       updateTag(id, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["tags"] });
+      // Notes show the tag names
+      queryClient.invalidateQueries({ queryKey: ["notes"] });
     },
   });
 };
@@ -509,6 +1997,57 @@ export const useDeleteTag = () => {
   });
 };
 
+export const useMergeTags = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ sourceTagIds, targetTagId }: { sourceTagIds: string[]; targetTagId: string }) =>
+      mergeTags(sourceTagIds, targetTagId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      queryClient.invalidateQueries({ queryKey: ["notes"] });
+    },
+  });
+};
+
+export const useTagNoteCounts = () => {
+  return useQuery({
+    // Under notes so that retagging notes refreshes it
+    queryKey: ["notes", "tag-counts"],
+    queryFn: fetchTagNoteCounts,
+  });
+};
+
+export const useAddTagsToNotes = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ noteIds, tagIds }: { noteIds: string[]; tagIds: string[] }) =>
+      addTagsToNotes(noteIds, tagIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notes"] });
+    },
+  });
+};
+
+export const useRemoveTagsFromNotes = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ noteIds, tagIds }: { noteIds: string[]; tagIds: string[] }) =>
+      removeTagsFromNotes(noteIds, tagIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notes"] });
+    },
+  });
+};
+
+export const useClassifyNote = () => {
+  return useMutation({
+    mutationFn: classifyNote,
+  });
+};
+
 export const useCreateNote = () => {
   const queryClient = useQueryClient();
   
@@ -525,12 +2064,18 @@ export const useUpdateNote = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ id, updates, tagIds }: { id: string; updates: Partial<Note>; tagIds?: string[] }) => 
-      updateNote(id, updates, tagIds),
+    mutationFn: ({ id, updates, tagIds, ...options }: { id: string; updates: Partial<Note>; tagIds?: string[] } & UpdateNoteOptions) => 
+      updateNote(id, updates, tagIds, options),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ["notes"] });
       queryClient.invalidateQueries({ queryKey: ["notes", variables.id] });
     },
+    onError: (error, variables) => {
+      // Show the version that won instead of the one the edit was based on
+      if (error instanceof NoteConflictError) {
+        queryClient.setQueryData(["notes", variables.id], error.current);
+      }
+    },
   });
 };
 
@@ -541,6 +2086,214 @@ export const useDeleteNote = () => {
     mutationFn: deleteNote,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["notes"] });
+      queryClient.invalidateQueries({ queryKey: ["storage-usage"] });
+    },
+  });
+};
+
+export const useSaveNoteArtifacts = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ noteId, artifacts }: { noteId: string; artifacts: NewNoteArtifact[] }) =>
+      saveNoteArtifacts(noteId, artifacts),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["notes", variables.noteId, "artifacts"] });
+    },
+  });
+};
+
+export const useRestoreNoteVersion = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ noteId, versionId }: { noteId: string; versionId: string }) =>
+      restoreNoteVersion(noteId, versionId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["notes"] });
+      queryClient.invalidateQueries({ queryKey: ["notes", variables.noteId] });
+    },
+  });
+};
+
+export const useShareNote = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ noteId, email, role }: { noteId: string; email: string; role: NoteShareRole }) =>
+      shareNote(noteId, email, role),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["notes", variables.noteId] });
+      queryClient.invalidateQueries({ queryKey: ["note-invites", variables.noteId] });
+    },
+  });
+};
+
+export const useNoteInvites = (noteId: string, enabled = true) => {
+  return useQuery({
+    queryKey: ["note-invites", noteId],
+    queryFn: () => fetchNoteInvites(noteId),
+    enabled: !!noteId && enabled,
+  });
+};
+
+export const useWithdrawNoteInvite = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: withdrawNoteInvite,
+    onSuccess: (_, invite) => {
+      queryClient.invalidateQueries({ queryKey: ["note-invites", invite.note_id] });
+    },
+  });
+};
+
+export const useUnshareNote = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ noteId, userId }: { noteId: string; userId: string }) =>
+      unshareNote(noteId, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notes"] });
+    },
+  });
+};
+
+export const useCreateShareLink = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ target, expiresAt }: { target: ShareLinkTarget; expiresAt: string | null }) =>
+      createShareLink(target, expiresAt),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: shareLinksKey(variables.target) });
+    },
+  });
+};
+
+export const useRevokeShareLink = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id }: { id: string; target: ShareLinkTarget }) => revokeShareLink(id),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: shareLinksKey(variables.target) });
+    },
+  });
+};
+
+export const useRenameResearchSession = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) => 
+      renameResearchSession(id, title),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["research-sessions"] });
+    },
+  });
+};
+
+export const useDeleteResearchSession = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: deleteResearchSession,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["research-sessions"] });
+    },
+  });
+};
+
+export const useSaveResearchSessionAsNote = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: saveResearchSessionAsNote,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notes"] });
+    },
+  });
+};
+
+export const useNotifications = () => {
+  return useQuery({
+    queryKey: ["notifications"],
+    queryFn: fetchNotifications,
+    // Reminders are delivered every few minutes
+    refetchInterval: 60_000,
+  });
+};
+
+export const useMarkNotificationsRead = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: markNotificationsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+};
+
+export const useSnoozeNotification = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id, until }: { id: string; until: Date }) => snoozeNotification(id, until),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+};
+
+export const useDeleteNotification = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: deleteNotification,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+};
+
+export const useNoteAttachments = (noteId: string) => {
+  return useQuery({
+    queryKey: ["notes", noteId, "attachments"],
+    queryFn: () => fetchNoteAttachments(noteId),
+    enabled: !!noteId,
+  });
+};
+
+export const useStorageUsage = () => {
+  return useQuery({
+    queryKey: ["storage-usage"],
+    queryFn: fetchStorageUsage,
+  });
+};
+
+export const useUploadNoteAttachment = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ noteId, file }: { noteId: string; file: File }) => uploadNoteAttachment(noteId, file),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["notes", variables.noteId, "attachments"] });
+      queryClient.invalidateQueries({ queryKey: ["storage-usage"] });
+    },
+  });
+};
+
+export const useDeleteNoteAttachment = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: deleteNoteAttachment,
+    onSuccess: (_, attachment) => {
+      queryClient.invalidateQueries({ queryKey: ["notes", attachment.note_id, "attachments"] });
+      queryClient.invalidateQueries({ queryKey: ["storage-usage"] });
     },
   });
 };
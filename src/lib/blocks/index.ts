@@ -0,0 +1,6 @@
+// Main exports for the note blocks module
+export { blocksToMarkdown, parseMarkdownBlocks, videoUrl } from "./markdown";
+export { blocksToNotion, toNotionRichText } from "./notion";
+export { getNoteBlocks, toStoredBlocks } from "./storage";
+export { CALLOUT_VARIANTS } from "./types";
+export type { CalloutVariant, NoteBlock, NoteBlockType, StoredNoteBlocks } from "./types";
@@ -0,0 +1,245 @@
+import { getYoutubeVideoId } from '@/lib/utils';
+import { formatTimestamp } from '@/lib/timestamps';
+import { CALLOUT_VARIANTS, CalloutVariant, NoteBlock, NoteBlockType } from './types';
+
+// Markdown for note blocks. Parsing keeps every line it does not recognise as
+// paragraph text, and writing the parsed blocks back gives the same markdown
+// up to blank lines, so notes written before blocks existed are not mangled.
+
+const HEADING = /^(#{1,3})(?: (.*))?$/;
+const TODO = /^[-*+] \[([ xX])\](?: (.*))?$/;
+const BULLET = /^[-*+](?: (.*))?$/;
+const NUMBERED = /^\d{1,9}[.)](?: (.*))?$/;
+const DIVIDER = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+const FENCE = /^(`{3,})\s*([\w+#.-]*)\s*$/;
+const QUOTE = /^>(?: ?(.*))?$/;
+const CALLOUT = /^\[!(\w+)\]\s*$/;
+const IMAGE = /^!\[([^\]]*)\]\((\S+?)\)$/;
+const LINK = /^\[([^\]]*)\]\((https?:\/\/\S+?)\)$/;
+const TABLE_DELIMITER = /^\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const LIST_TYPES: NoteBlockType[] = ['bulleted', 'numbered', 'todo'];
+
+const isListBlock = (block: NoteBlock) => LIST_TYPES.includes(block.type);
+
+// Seconds from a YouTube t= or start= parameter: 754, 754s or 12m34s
+const parseVideoStart = (url: string): number => {
+  const match = url.match(/[?&#](?:t|start)=([\dhms]+)/);
+  if (!match) return 0;
+  const value = match[1];
+  if (/^\d+s?$/.test(value)) return parseInt(value, 10);
+
+  const parts = value.match(/(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?/);
+  if (!parts) return 0;
+  return (parseInt(parts[1] || '0', 10) * 3600) + (parseInt(parts[2] || '0', 10) * 60) + parseInt(parts[3] || '0', 10);
+};
+
+export const videoUrl = (videoId: string, start = 0): string =>
+  `https://www.youtube.com/watch?v=${videoId}${start > 0 ? `&t=${Math.floor(start)}s` : ''}`;
+
+const videoLabel = (start: number) => `▶ ${formatTimestamp(start)}`;
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], index: number) =>
+  lines[index].trim().startsWith('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1]) &&
+  lines[index + 1].includes('-');
+
+// A line that begins a block other than a paragraph, which ends the
+// paragraph before it
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  return HEADING.test(line) || FENCE.test(line) || QUOTE.test(line) || DIVIDER.test(line) ||
+    TODO.test(line) || BULLET.test(line) || NUMBERED.test(line) ||
+    IMAGE.test(line) || isVideoLine(line) || isTableStart(lines, index);
+};
+
+const isVideoLine = (line: string) => {
+  const match = line.match(LINK);
+  return !!match && !!getYoutubeVideoId(match[2]);
+};
+
+const singleLineBlock = (line: string): NoteBlock | null => {
+  if (DIVIDER.test(line)) return { type: 'divider' };
+
+  let match = line.match(HEADING);
+  if (match) return { type: 'heading', level: match[1].length as 1 | 2 | 3, text: match[2] ?? '' };
+
+  match = line.match(IMAGE);
+  if (match) return { type: 'image', alt: match[1], url: match[2] };
+
+  match = line.match(LINK);
+  const videoId = match ? getYoutubeVideoId(match[2]) : null;
+  if (match && videoId) {
+    const start = parseVideoStart(match[2]);
+    return { type: 'video', videoId, start, caption: match[1] === videoLabel(start) ? '' : match[1] };
+  }
+
+  return null;
+};
+
+export const parseMarkdownBlocks = (markdown: string): NoteBlock[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: NoteBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      index++;
+      // The fence closes at a line of at least as many backticks, or the end
+      while (index < lines.length && !(lines[index].trim().startsWith(fence[1]) && /^`+\s*$/.test(lines[index].trim()))) {
+        body.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({ type: 'code', language: fence[2], text: body.join('\n') });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        body.push(lines[index].match(QUOTE)?.[1] ?? '');
+        index++;
+      }
+      const callout = body[0].match(CALLOUT);
+      const variant = callout?.[1].toLowerCase() as CalloutVariant | undefined;
+      if (variant && CALLOUT_VARIANTS.includes(variant)) {
+        blocks.push({ type: 'callout', variant, text: body.slice(1).join('\n') });
+      } else {
+        blocks.push({ type: 'quote', text: body.join('\n') });
+      }
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const rows = [splitTableRow(line)];
+      index += 2;
+      while (index < lines.length && lines[index].trim().startsWith('|')) {
+        rows.push(splitTableRow(lines[index]));
+        index++;
+      }
+      const width = rows[0].length;
+      blocks.push({
+        type: 'table',
+        rows: rows.map(row => Array.from({ length: width }, (_, column) => row[column] ?? ''))
+      });
+      continue;
+    }
+
+    const single = singleLineBlock(line);
+    if (single) {
+      blocks.push(single);
+      index++;
+      continue;
+    }
+
+    // List items and paragraphs run on over the lines that follow them, up to
+    // a blank line or the start of another block
+    let block: NoteBlock;
+    const todo = line.match(TODO);
+    const bullet = line.match(BULLET);
+    const numbered = line.match(NUMBERED);
+    if (todo) {
+      block = { type: 'todo', checked: todo[1] !== ' ', text: todo[2] ?? '' };
+    } else if (bullet) {
+      block = { type: 'bulleted', text: bullet[1] ?? '' };
+    } else if (numbered) {
+      block = { type: 'numbered', text: numbered[1] ?? '' };
+    } else {
+      block = { type: 'paragraph', text: line };
+    }
+    index++;
+    while (index < lines.length && lines[index].trim() && !startsBlock(lines, index)) {
+      block.text += `\n${lines[index]}`;
+      index++;
+    }
+    blocks.push(block);
+  }
+
+  return blocks;
+};
+
+const prefixLines = (text: string, prefix: string) =>
+  text.split('\n').map(line => line ? `${prefix}${line}` : prefix.trimEnd()).join('\n');
+
+const tableRow = (cells: string[]) =>
+  `| ${cells.map(cell => cell.replace(/\n/g, ' ').replace(/\|/g, '\\|')).join(' | ')} |`;
+
+const blockToMarkdown = (block: NoteBlock, listNumber: number): string => {
+  switch (block.type) {
+    case 'paragraph':
+      return block.text;
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${block.text}`;
+    case 'bulleted':
+      return `- ${block.text}`;
+    case 'numbered':
+      return `${listNumber}. ${block.text}`;
+    case 'todo':
+      return `- [${block.checked ? 'x' : ' '}] ${block.text}`;
+    case 'quote':
+      return prefixLines(block.text, '> ');
+    case 'callout':
+      return block.text
+        ? `> [!${block.variant.toUpperCase()}]\n${prefixLines(block.text, '> ')}`
+        : `> [!${block.variant.toUpperCase()}]`;
+    case 'code': {
+      // A fence longer than any backtick run inside the code
+      const longest = Math.max(0, ...(block.text.match(/^`+/gm) ?? []).map(run => run.length));
+      const fence = '`'.repeat(Math.max(3, longest + 1));
+      return `${fence}${block.language}\n${block.text}\n${fence}`;
+    }
+    case 'table': {
+      const [header = [''], ...body] = block.rows;
+      return [tableRow(header), tableRow(header.map(() => '---')), ...body.map(tableRow)].join('\n');
+    }
+    case 'image':
+      return `![${block.alt}](${block.url})`;
+    case 'video':
+      return `[${block.caption || videoLabel(block.start)}](${videoUrl(block.videoId, block.start)})`;
+    case 'divider':
+      return '---';
+  }
+};
+
+// Empty paragraphs, and images and videos without an address, are only
+// placeholders in the editor
+export const isPlaceholder = (block: NoteBlock) =>
+  (block.type === 'paragraph' && !block.text.trim()) ||
+  (block.type === 'image' && !block.url) ||
+  (block.type === 'video' && !block.videoId);
+
+// Consecutive list items are one list; every other block is set apart by a
+// blank line
+export const blocksToMarkdown = (blocks: NoteBlock[]): string => {
+  let markdown = '';
+  let previous: NoteBlock | null = null;
+  let listNumber = 0;
+
+  for (const block of blocks) {
+    if (isPlaceholder(block)) continue;
+
+    listNumber = block.type === 'numbered' && previous?.type === 'numbered' ? listNumber + 1 : 1;
+    if (previous) {
+      markdown += isListBlock(previous) && isListBlock(block) ? '\n' : '\n\n';
+    }
+    markdown += blockToMarkdown(block, listNumber);
+    previous = block;
+  }
+
+  return markdown;
+};
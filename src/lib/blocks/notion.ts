@@ -0,0 +1,139 @@
+import { CalloutVariant, NoteBlock } from './types';
+import { isPlaceholder, videoUrl } from './markdown';
+
+// Note blocks as children for Notion's "append block children" API
+
+interface NotionRichText {
+  type: 'text';
+  text: { content: string; link?: { url: string } };
+  annotations?: { bold?: boolean; italic?: boolean; strikethrough?: boolean; code?: boolean };
+}
+
+// Notion rejects rich text objects longer than this
+const MAX_RICH_TEXT_LENGTH = 2000;
+
+const CALLOUT_ICONS: Record<CalloutVariant, string> = {
+  note: 'ℹ️',
+  tip: '💡',
+  important: '❗',
+  warning: '⚠️',
+  caution: '🛑'
+};
+
+// Languages Notion highlights under a different name, or not at all
+const CODE_LANGUAGES: Record<string, string> = {
+  '': 'plain text',
+  text: 'plain text',
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  yml: 'yaml',
+  md: 'markdown',
+  cs: 'c#',
+  cpp: 'c++',
+  rb: 'ruby',
+  rs: 'rust'
+};
+
+// Bold, italic, strikethrough, inline code and links; they do not nest
+const INLINE = /\*\*([^*]+)\*\*|__([^_]+)__|~~([^~]+)~~|`([^`]+)`|\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)|\*([^*\s][^*]*)\*|_([^_\s][^_]*)_/g;
+
+const textObject = (content: string, extra: Omit<NotionRichText, 'type' | 'text'> = {}, url?: string): NotionRichText[] => {
+  const chunks: NotionRichText[] = [];
+  for (let start = 0; start < content.length; start += MAX_RICH_TEXT_LENGTH) {
+    chunks.push({
+      type: 'text',
+      text: { content: content.slice(start, start + MAX_RICH_TEXT_LENGTH), ...(url ? { link: { url } } : {}) },
+      ...extra
+    });
+  }
+  return chunks;
+};
+
+export const toNotionRichText = (markdown: string): NotionRichText[] => {
+  const richText: NotionRichText[] = [];
+  let position = 0;
+
+  for (const match of markdown.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > position) richText.push(...textObject(markdown.slice(position, index)));
+    const [, bold, boldUnderscore, strike, code, linkText, linkUrl, italic, italicUnderscore] = match;
+
+    if (bold ?? boldUnderscore) richText.push(...textObject(bold ?? boldUnderscore, { annotations: { bold: true } }));
+    else if (strike) richText.push(...textObject(strike, { annotations: { strikethrough: true } }));
+    else if (code) richText.push(...textObject(code, { annotations: { code: true } }));
+    else if (linkText) richText.push(...textObject(linkText, {}, linkUrl));
+    else richText.push(...textObject(italic ?? italicUnderscore, { annotations: { italic: true } }));
+
+    position = index + match[0].length;
+  }
+  if (position < markdown.length) richText.push(...textObject(markdown.slice(position)));
+
+  return richText;
+};
+
+const block = (type: string, value: object) => ({ object: 'block', type, [type]: value });
+
+const toNotionBlock = (noteBlock: NoteBlock) => {
+  switch (noteBlock.type) {
+    case 'paragraph':
+      return block('paragraph', { rich_text: toNotionRichText(noteBlock.text) });
+    case 'heading':
+      return block(`heading_${noteBlock.level}`, { rich_text: toNotionRichText(noteBlock.text) });
+    case 'bulleted':
+      return block('bulleted_list_item', { rich_text: toNotionRichText(noteBlock.text) });
+    case 'numbered':
+      return block('numbered_list_item', { rich_text: toNotionRichText(noteBlock.text) });
+    case 'todo':
+      return block('to_do', { rich_text: toNotionRichText(noteBlock.text), checked: noteBlock.checked });
+    case 'quote':
+      return block('quote', { rich_text: toNotionRichText(noteBlock.text) });
+    case 'callout':
+      return block('callout', {
+        rich_text: toNotionRichText(noteBlock.text),
+        icon: { type: 'emoji', emoji: CALLOUT_ICONS[noteBlock.variant] }
+      });
+    case 'code': {
+      const language = noteBlock.language.toLowerCase();
+      return block('code', {
+        rich_text: textObject(noteBlock.text),
+        language: CODE_LANGUAGES[language] ?? language
+      });
+    }
+    case 'table': {
+      const width = noteBlock.rows[0]?.length ?? 1;
+      return block('table', {
+        table_width: width,
+        has_column_header: true,
+        has_row_header: false,
+        children: noteBlock.rows.map(row => block('table_row', {
+          cells: row.map(cell => toNotionRichText(cell))
+        }))
+      });
+    }
+    case 'image':
+      return block('image', {
+        type: 'external',
+        external: { url: noteBlock.url },
+        caption: noteBlock.alt ? textObject(noteBlock.alt) : []
+      });
+    case 'video':
+      return block('video', {
+        type: 'external',
+        external: { url: videoUrl(noteBlock.videoId, noteBlock.start) },
+        caption: noteBlock.caption ? toNotionRichText(noteBlock.caption) : []
+      });
+    case 'divider':
+      return block('divider', {});
+  }
+};
+
+export const blocksToNotion = (blocks: NoteBlock[]) =>
+  blocks
+    .filter(noteBlock => !isPlaceholder(noteBlock))
+    .map(toNotionBlock);
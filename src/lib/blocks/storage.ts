@@ -0,0 +1,16 @@
+import type { Json } from '@/integrations/supabase/types';
+import { parseMarkdownBlocks } from './markdown';
+import { NoteBlock, StoredNoteBlocks } from './types';
+
+// notes.blocks for the given markdown, written alongside notes.content
+export const toStoredBlocks = (markdown: string | null): Json =>
+  ({ version: 1, blocks: parseMarkdownBlocks(markdown || '') } satisfies StoredNoteBlocks) as unknown as Json;
+
+const isStoredBlocks = (value: Json | null | undefined): value is Json & StoredNoteBlocks =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  value.version === 1 && Array.isArray(value.blocks);
+
+// A note's blocks. The database clears notes.blocks when something saves the
+// content without them, e.g. an edge function, and then they are parsed again.
+export const getNoteBlocks = (note: { content: string | null; blocks?: Json | null }): NoteBlock[] =>
+  isStoredBlocks(note.blocks) ? note.blocks.blocks : parseMarkdownBlocks(note.content || '');
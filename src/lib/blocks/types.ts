@@ -0,0 +1,31 @@
+// The structured form of a note. Every block maps to plain markdown, so
+// notes.content stays the markdown text that search, history and sharing use.
+
+// The kinds of GitHub alert, written `> [!NOTE]` in markdown
+export type CalloutVariant = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+export type NoteBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'bulleted'; text: string }
+  | { type: 'numbered'; text: string }
+  | { type: 'todo'; text: string; checked: boolean }
+  | { type: 'quote'; text: string }
+  | { type: 'callout'; variant: CalloutVariant; text: string }
+  | { type: 'code'; language: string; text: string }
+  // The first row is the header
+  | { type: 'table'; rows: string[][] }
+  | { type: 'image'; url: string; alt: string }
+  // A YouTube video from `start` seconds; an empty caption shows the time
+  | { type: 'video'; videoId: string; start: number; caption: string }
+  | { type: 'divider' };
+
+export type NoteBlockType = NoteBlock['type'];
+
+// Shape of notes.blocks
+export interface StoredNoteBlocks {
+  version: 1;
+  blocks: NoteBlock[];
+}
+
+export const CALLOUT_VARIANTS: CalloutVariant[] = ['note', 'tip', 'important', 'warning', 'caution'];
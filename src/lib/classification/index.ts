@@ -0,0 +1,3 @@
+// Main exports for the classification module
+export { NoteClassifier, parseClassificationJson, resolveClassification, withCreatedTag } from "./noteClassifier";
+export type { ClassifiableNote, ClassifyOptions, NoteClassification } from "./noteClassifier";
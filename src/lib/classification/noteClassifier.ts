@@ -0,0 +1,184 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AIService, ProviderId } from "@/lib/aiService";
+import { EmbeddingService } from "@/lib/embeddings";
+import { getNotebookPath } from "@/lib/notebookTree";
+import { normalizeTagName } from "@/lib/tagTree";
+import type { Notebook, Tag } from "@/lib/api";
+
+export interface ClassifiableNote {
+  // Left out for notes that are not saved yet, e.g. in the import preview
+  id?: string;
+  title: string;
+  content: string | null;
+}
+
+export interface NoteClassification {
+  // Existing tags that fit the note
+  tags: Tag[];
+  // Names for tags the user does not have yet
+  newTags: string[];
+  notebook: Notebook | null;
+  // Why the notebook was picked, shown next to it
+  notebookReason?: string;
+  provider?: ProviderId;
+  model?: string;
+}
+
+export interface ClassifyOptions {
+  tags: Tag[];
+  notebooks: Notebook[];
+}
+
+interface SimilarNote {
+  title: string;
+  notebookId: string | null;
+  tagNames: string[];
+}
+
+const MAX_CONTENT_CHARS = 6000;
+const MAX_SIMILAR_NOTES = 5;
+const MAX_TAGS = 5;
+const MAX_NEW_TAGS = 3;
+
+// The model is asked for JSON but may wrap it in prose or a code fence
+export const parseClassificationJson = (text: string): Record<string, unknown> | null => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    const value = JSON.parse(text.slice(start, end + 1));
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Turns the model's answer into tags and a notebook the user has, dropping
+// anything it made up that does not match
+export const resolveClassification = (
+  answer: Record<string, unknown>,
+  { tags, notebooks }: ClassifyOptions
+): Omit<NoteClassification, 'provider' | 'model'> => {
+  const tagsByName = new Map(tags.map(tag => [tag.name.toLowerCase(), tag]));
+  const suggestedTags = stringList(answer.tags)
+    .map(name => tagsByName.get(normalizeTagName(name).toLowerCase()))
+    .filter((tag): tag is Tag => !!tag);
+
+  // A "new" tag the user already has is suggested as the existing one
+  const newTags: string[] = [];
+  stringList(answer.new_tags).map(normalizeTagName).filter(Boolean).forEach(name => {
+    const existing = tagsByName.get(name.toLowerCase());
+    if (existing) {
+      suggestedTags.push(existing);
+    } else if (!newTags.some(other => other.toLowerCase() === name.toLowerCase())) {
+      newTags.push(name);
+    }
+  });
+
+  const notebookName = typeof answer.notebook === 'string' ? answer.notebook.trim().toLowerCase() : '';
+  const notebook = notebookName
+    ? notebooks.find(candidate => getNotebookPath(notebooks, candidate.id).toLowerCase() === notebookName) ??
+      notebooks.find(candidate => candidate.name.toLowerCase() === notebookName) ??
+      null
+    : null;
+
+  return {
+    tags: [...new Map(suggestedTags.map(tag => [tag.id, tag])).values()].slice(0, MAX_TAGS),
+    newTags: newTags.slice(0, MAX_NEW_TAGS),
+    notebook,
+    notebookReason: notebook && typeof answer.notebook_reason === 'string' ? answer.notebook_reason.trim() || undefined : undefined
+  };
+};
+
+// The classification once a suggested new tag has been created as `tag`
+export const withCreatedTag = (classification: NoteClassification, tag: Tag): NoteClassification => ({
+  ...classification,
+  tags: [...classification.tags.filter(other => other.id !== tag.id), tag],
+  newTags: classification.newTags.filter(name => name.toLowerCase() !== tag.name.toLowerCase())
+});
+
+// Suggests tags and a notebook for a note from its content, the user's tags
+// and notebooks, and how the most similar notes are filed
+export class NoteClassifier {
+  static async classify(note: ClassifiableNote, options: ClassifyOptions): Promise<NoteClassification> {
+    const similarNotes = await this.findSimilarNotes(note);
+    const notebookPath = (id: string | null) => id ? getNotebookPath(options.notebooks, id) : '';
+
+    const prompt = [
+      `Suggest how to file a note. Answer with JSON only, in this shape:`,
+      `{"tags": ["existing tag"], "new_tags": ["new tag"], "notebook": "existing notebook or null", "notebook_reason": "one short sentence"}`,
+      ``,
+      `Rules:`,
+      `- "tags": up to ${MAX_TAGS} of the existing tags below that fit the note, spelled exactly as listed. Nested tags use "/", e.g. "ml/nlp"; prefer the most specific one that fits.`,
+      `- "new_tags": up to ${MAX_NEW_TAGS} short lowercase tags for topics the existing tags miss, only when clearly useful. Never repeat an existing tag with different spelling.`,
+      `- "notebook": one existing notebook path from the list below, or null when none fits. Similar notes show where related notes are kept.`,
+      ``,
+      `Existing tags: ${options.tags.length > 0 ? options.tags.map(tag => tag.name).join(', ') : '(none)'}`,
+      `Existing notebooks: ${options.notebooks.length > 0 ? options.notebooks.map(notebook => notebookPath(notebook.id)).join('; ') : '(none)'}`,
+      ``,
+      `Similar notes:`,
+      ...(similarNotes.length > 0
+        ? similarNotes.map(similar =>
+            `- "${similar.title}" in ${notebookPath(similar.notebookId) || 'no notebook'}, tagged ${similar.tagNames.join(', ') || 'nothing'}`)
+        : ['(none)']),
+      ``,
+      `Note title: ${note.title}`,
+      `Note content:`,
+      (note.content || '').slice(0, MAX_CONTENT_CHARS)
+    ].join('\n');
+
+    const response = await AIService.processContent({
+      content: prompt,
+      type: 'chat',
+      options: { temperature: 0.2, max_tokens: 400 }
+    });
+
+    const answer = parseClassificationJson(response.processedContent);
+    if (!answer) {
+      throw new Error('The AI answer could not be read. Please try again.');
+    }
+
+    return {
+      ...resolveClassification(answer, options),
+      provider: response.provider,
+      model: response.model
+    };
+  }
+
+  // Nearest notes by embedding; suggestions still work without them, e.g.
+  // before the user's notes have been indexed
+  private static async findSimilarNotes(note: ClassifiableNote): Promise<SimilarNote[]> {
+    try {
+      const chunks = await EmbeddingService.findSimilarChunks(
+        `${note.title}\n\n${(note.content || '').slice(0, 2000)}`,
+        { matchCount: 20, minSimilarity: 0.3 }
+      );
+      const noteIds = [...new Set(chunks.map(chunk => chunk.noteId))]
+        .filter(id => id !== note.id)
+        .slice(0, MAX_SIMILAR_NOTES);
+      if (noteIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from("notes")
+        .select("id, title, notebook_id, note_tags(tags(name))")
+        .in("id", noteIds);
+
+      if (error) throw error;
+
+      return noteIds
+        .map(id => data?.find(row => row.id === id))
+        .filter(row => !!row)
+        .map(row => ({
+          title: row.title,
+          notebookId: row.notebook_id,
+          tagNames: (row.note_tags || []).map(noteTag => noteTag.tags?.name).filter((name): name is string => !!name)
+        }));
+    } catch (error) {
+      console.warn('Similar notes unavailable for classification:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { TextChunk } from "./types";
+
+const TARGET_CHUNK_SIZE = 800;
+const MAX_OVERLAP = 200;
+
+// Sentences, lines (transcript segments) or the trailing remainder
+const UNIT_PATTERN = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g;
+
+interface TextUnit {
+  start: number;
+  end: number;
+}
+
+const splitIntoUnits = (text: string): TextUnit[] => {
+  const units: TextUnit[] = [];
+
+  for (const match of text.matchAll(UNIT_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+
+    // Hard-split run-on text without punctuation
+    for (let offset = start; offset < end; offset += TARGET_CHUNK_SIZE) {
+      units.push({ start: offset, end: Math.min(offset + TARGET_CHUNK_SIZE, end) });
+    }
+  }
+
+  return units;
+};
+
+// Groups sentences into chunks of roughly TARGET_CHUNK_SIZE characters. Offsets
+// point into the original text so a retrieved chunk can be located in the note.
+export const chunkText = (text: string): TextChunk[] => {
+  const units = splitIntoUnits(text);
+  const chunks: TextChunk[] = [];
+
+  let first = 0;
+  while (first < units.length) {
+    let last = first;
+    while (
+      last + 1 < units.length &&
+      units[last + 1].end - units[first].start <= TARGET_CHUNK_SIZE
+    ) {
+      last++;
+    }
+
+    const startOffset = units[first].start;
+    const endOffset = units[last].end;
+    const content = text.slice(startOffset, endOffset).trim();
+
+    if (content) {
+      chunks.push({ index: chunks.length, content, startOffset, endOffset });
+    }
+
+    if (last + 1 >= units.length) break;
+
+    // Carry the trailing sentence into the next chunk when it is short
+    const trailing = units[last];
+    first = last > first && trailing.end - trailing.start <= MAX_OVERLAP ? last : last + 1;
+  }
+
+  return chunks;
+};
+
+// FNV-1a; only used to detect whether a note changed since it was indexed
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0") + text.length.toString(36);
+};
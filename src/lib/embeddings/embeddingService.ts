@@ -0,0 +1,191 @@
+import { supabase } from "@/integrations/supabase/client";
+import { EmbeddingProvider, IndexableNote, SimilarChunk } from "./types";
+import { chunkText, hashText } from "./chunker";
+import { LocalHashEmbeddingProvider } from "./providers/localHashProvider";
+import { OpenAIEdgeEmbeddingProvider } from "./providers/openaiEdgeProvider";
+
+const createDefaultProvider = (): EmbeddingProvider => {
+  switch (import.meta.env.VITE_EMBEDDING_PROVIDER) {
+    case 'openai':
+      return new OpenAIEdgeEmbeddingProvider();
+    default:
+      return new LocalHashEmbeddingProvider();
+  }
+};
+
+export class EmbeddingService {
+  private static provider: EmbeddingProvider = createDefaultProvider();
+  private static pendingIndexing = new Map<string, ReturnType<typeof setTimeout>>();
+  // note id -> content hash that is known to be indexed for the current model
+  private static indexedHashes = new Map<string, string>();
+  private static readonly INDEX_DEBOUNCE_MS = 2000; // Auto-save updates notes every few seconds
+  private static readonly EMBED_BATCH_SIZE = 32;
+  private static readonly MAX_BACKFILL_NOTES = 25;
+
+  static getProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
+  static setProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+    this.indexedHashes.clear();
+    console.log(`🧭 Embedding provider set to ${provider.model}`);
+  }
+
+  static async embedQuery(query: string): Promise<number[]> {
+    const [embedding] = await this.provider.embed([query]);
+    return embedding;
+  }
+
+  // pgvector accepts vectors in their text form
+  static toVectorLiteral(embedding: number[]): string {
+    return `[${embedding.join(',')}]`;
+  }
+
+  // Debounced so rapid saves of the same note only re-index once
+  static queueNoteIndexing(note: IndexableNote): void {
+    const pending = this.pendingIndexing.get(note.id);
+    if (pending) clearTimeout(pending);
+
+    this.pendingIndexing.set(note.id, setTimeout(() => {
+      this.pendingIndexing.delete(note.id);
+      this.indexNote(note).catch(error => {
+        console.error(`Error indexing note ${note.id} for semantic search:`, error);
+      });
+    }, this.INDEX_DEBOUNCE_MS));
+  }
+
+  static async indexNote(note: IndexableNote): Promise<void> {
+    const provider = this.provider;
+    const text = this.getIndexableText(note);
+    const contentHash = hashText(text);
+
+    if (this.indexedHashes.get(note.id) === contentHash) return;
+
+    const { data: existing, error: existingError } = await supabase
+      .from("note_chunks")
+      .select("content_hash")
+      .eq("note_id", note.id)
+      .eq("embedding_model", provider.model)
+      .limit(1);
+
+    if (existingError) {
+      console.error("Error reading note chunks:", existingError);
+      throw existingError;
+    }
+
+    if (existing?.[0]?.content_hash === contentHash) {
+      this.indexedHashes.set(note.id, contentHash);
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error("User must be authenticated to index a note");
+    }
+    // The index belongs to the owner, who catches up on edits made by
+    // collaborators the next time their notes are checked
+    if (note.user_id && note.user_id !== user.id) return;
+
+    // Offsets refer to note.content; a title-only note still gets one chunk
+    const contentChunks = chunkText(note.content || '');
+    const chunks = contentChunks.length > 0
+      ? contentChunks
+      : [{ index: 0, content: note.title, startOffset: 0, endOffset: 0 }];
+
+    // Each chunk is embedded with the note title for context
+    const embeddings: number[][] = [];
+    for (let i = 0; i < chunks.length; i += this.EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + this.EMBED_BATCH_SIZE);
+      embeddings.push(...await provider.embed(batch.map(chunk => `${note.title}\n${chunk.content}`)));
+    }
+
+    // Old and new chunks are swapped in one transaction
+    const { error: replaceError } = await supabase.rpc("replace_note_chunks", {
+      target_note_id: note.id,
+      embedding_model: provider.model,
+      content_hash: contentHash,
+      chunks: chunks.map((chunk, i) => ({
+        chunk_index: chunk.index,
+        content: chunk.content,
+        start_offset: chunk.startOffset,
+        end_offset: chunk.endOffset,
+        embedding: this.toVectorLiteral(embeddings[i])
+      }))
+    });
+
+    if (replaceError) {
+      console.error("Error saving note chunks:", replaceError);
+      throw replaceError;
+    }
+
+    this.indexedHashes.set(note.id, contentHash);
+    console.log(`🧭 Indexed "${note.title}" as ${chunks.length} chunks (${provider.model})`);
+  }
+
+  // Indexes notes that predate the embedding index or were edited elsewhere.
+  // Capped per call so opening AI Research never triggers a huge batch.
+  static async ensureNotesIndexed(notes: IndexableNote[]): Promise<void> {
+    const unchecked = notes
+      .filter(note => this.indexedHashes.get(note.id) !== hashText(this.getIndexableText(note)))
+      .slice(0, this.MAX_BACKFILL_NOTES);
+
+    if (unchecked.length === 0) return;
+
+    const { data, error } = await supabase
+      .from("note_chunks")
+      .select("note_id, content_hash")
+      .in("note_id", unchecked.map(note => note.id))
+      .eq("embedding_model", this.provider.model)
+      .eq("chunk_index", 0);
+
+    if (error) {
+      console.error("Error checking note chunks:", error);
+      throw error;
+    }
+
+    const storedHashes = new Map((data || []).map(row => [row.note_id, row.content_hash]));
+
+    for (const note of unchecked) {
+      const contentHash = hashText(this.getIndexableText(note));
+      if (storedHashes.get(note.id) === contentHash) {
+        this.indexedHashes.set(note.id, contentHash);
+      } else {
+        await this.indexNote(note);
+      }
+    }
+  }
+
+  static async findSimilarChunks(
+    query: string,
+    options: { matchCount?: number; minSimilarity?: number } = {}
+  ): Promise<SimilarChunk[]> {
+    const embedding = await this.embedQuery(query);
+
+    const { data, error } = await supabase.rpc("match_note_chunks", {
+      query_embedding: this.toVectorLiteral(embedding),
+      embedding_model: this.provider.model,
+      match_count: options.matchCount ?? 12,
+      min_similarity: options.minSimilarity ?? 0.2
+    });
+
+    if (error) {
+      console.error("Error matching note chunks:", error);
+      throw error;
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      noteId: row.note_id,
+      chunkIndex: row.chunk_index,
+      content: row.content,
+      startOffset: row.start_offset,
+      endOffset: row.end_offset,
+      similarity: row.similarity
+    }));
+  }
+
+  private static getIndexableText(note: IndexableNote): string {
+    return `${note.title}\n\n${note.content || ''}`;
+  }
+}
@@ -0,0 +1,6 @@
+// Main exports for the embeddings module
+export { EmbeddingService } from "./embeddingService";
+export { LocalHashEmbeddingProvider } from "./providers/localHashProvider";
+export { OpenAIEdgeEmbeddingProvider } from "./providers/openaiEdgeProvider";
+export { chunkText, hashText } from "./chunker";
+export type { EmbeddingProvider, IndexableNote, SimilarChunk, TextChunk } from "./types";
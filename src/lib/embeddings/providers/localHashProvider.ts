@@ -0,0 +1,73 @@
+import { EmbeddingProvider } from "../types";
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our',
+  'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Deterministic, dependency-free embeddings built with the hashing trick over
+// word stems, word bigrams and character trigrams. Quality is well below a
+// learned model, but identical input always yields the identical vector, it
+// works offline and it catches morphological variants that plain keyword
+// search misses.
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'local/hash-384-v1';
+  readonly dimensions = 384;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const stems = this.tokenize(text);
+
+    stems.forEach((stem, i) => {
+      this.addFeature(vector, `w:${stem}`, 1);
+      if (i > 0) this.addFeature(vector, `b:${stems[i - 1]}_${stem}`, 0.5);
+
+      const padded = `#${stem}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        this.addFeature(vector, `c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    // Dampen very frequent features, then L2-normalize so dot product = cosine
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] = Math.sign(vector[i]) * Math.log1p(Math.abs(vector[i]));
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  private tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+      .map(word => this.stem(word));
+  }
+
+  private stem(word: string): string {
+    return word
+      .replace(/(ies)$/, 'y')
+      .replace(/(ing|ed|ly|es|s)$/, '')
+      .replace(/(.)\1$/, '$1') || word;
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = this.hash(feature);
+    // The top bit picks the sign so colliding features tend to cancel out
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[(hash & 0x7fffffff) % this.dimensions] += sign * weight;
+  }
+
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,27 @@
+import { supabase } from "@/integrations/supabase/client";
+import { EmbeddingProvider } from "../types";
+
+// Embeddings from OpenAI through the generate-embeddings edge function, which
+// keeps the API key server-side and truncates vectors to 384 dimensions so
+// they fit the same note_chunks column as the local provider.
+export class OpenAIEdgeEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'openai/text-embedding-3-small-384';
+  readonly dimensions = 384;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const { data, error } = await supabase.functions.invoke('generate-embeddings', {
+      body: { input: texts, dimensions: this.dimensions }
+    });
+
+    if (error) {
+      console.error("generate-embeddings error:", error);
+      throw new Error(error.message || 'Embedding request failed');
+    }
+
+    if (!Array.isArray(data?.embeddings) || data.embeddings.length !== texts.length) {
+      throw new Error('Embedding service returned an unexpected response');
+    }
+
+    return data.embeddings;
+  }
+}
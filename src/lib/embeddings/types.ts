@@ -0,0 +1,30 @@
+export interface EmbeddingProvider {
+  // Stored with every chunk; vectors from different models are never compared
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface SimilarChunk {
+  id: string;
+  noteId: string;
+  chunkIndex: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  similarity: number;
+}
+
+export interface IndexableNote {
+  id: string;
+  title: string;
+  content: string | null;
+  user_id?: string;
+}
@@ -0,0 +1,195 @@
+// A force-directed layout: nodes push each other apart, edges pull their ends
+// together and a weak pull keeps the graph centred. Optionally nodes are also
+// drawn towards the centre of their cluster so clusters sit apart.
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+interface Body extends LayoutPoint {
+  vx: number;
+  vy: number;
+  // Set while the node is dragged
+  pinned: boolean;
+}
+
+interface LayoutEdge {
+  source: string;
+  target: string;
+  // Resting length of the edge
+  length: number;
+}
+
+const REPULSION = 900;
+const SPRING = 0.04;
+const CENTERING = 0.006;
+const CLUSTERING = 0.03;
+const VELOCITY_DECAY = 0.55;
+const ALPHA_DECAY = 0.985;
+const MIN_ALPHA = 0.004;
+// Pairs further apart than this do not push each other
+const MAX_REPULSION_DISTANCE = 600;
+
+export class ForceLayout {
+  private bodies = new Map<string, Body>();
+  private edges: LayoutEdge[] = [];
+  private clusters = new Map<string, number>();
+  private useClusters = false;
+  private alpha = 1;
+
+  // Keeps the positions of nodes that stay, and places new ones next to a
+  // neighbour that already has a position, or on a spiral around the centre
+  setGraph(nodeIds: string[], edges: LayoutEdge[], clusters: Map<string, number>, useClusters: boolean) {
+    const previous = this.bodies;
+    this.bodies = new Map();
+    this.edges = edges;
+    this.clusters = clusters;
+    this.useClusters = useClusters;
+
+    const neighbours = new Map<string, string[]>();
+    for (const edge of edges) {
+      neighbours.set(edge.source, [...(neighbours.get(edge.source) ?? []), edge.target]);
+      neighbours.set(edge.target, [...(neighbours.get(edge.target) ?? []), edge.source]);
+    }
+
+    nodeIds.forEach((id, index) => {
+      const kept = previous.get(id);
+      if (kept) {
+        this.bodies.set(id, kept);
+        return;
+      }
+      const anchor = (neighbours.get(id) ?? []).map(neighbour => previous.get(neighbour)).find(Boolean);
+      const angle = index * 2.39996;
+      const radius = anchor ? 30 : 20 * Math.sqrt(index + 1);
+      this.bodies.set(id, {
+        x: (anchor?.x ?? 0) + radius * Math.cos(angle),
+        y: (anchor?.y ?? 0) + radius * Math.sin(angle),
+        vx: 0,
+        vy: 0,
+        pinned: false
+      });
+    });
+    this.alpha = 1;
+  }
+
+  get isSettled() {
+    return this.alpha < MIN_ALPHA;
+  }
+
+  reheat(alpha = 0.5) {
+    this.alpha = Math.max(this.alpha, alpha);
+  }
+
+  position(id: string): LayoutPoint | undefined {
+    return this.bodies.get(id);
+  }
+
+  pin(id: string, point: LayoutPoint) {
+    const body = this.bodies.get(id);
+    if (!body) return;
+    Object.assign(body, point, { vx: 0, vy: 0, pinned: true });
+    this.reheat(0.3);
+  }
+
+  release(id: string) {
+    const body = this.bodies.get(id);
+    if (body) body.pinned = false;
+  }
+
+  tick() {
+    if (this.isSettled) return;
+    const entries = [...this.bodies.values()];
+    const alpha = this.alpha;
+
+    for (let i = 0; i < entries.length; i++) {
+      const a = entries[i];
+      for (let j = i + 1; j < entries.length; j++) {
+        const b = entries[j];
+        let dx = b.x - a.x;
+        let dy = b.y - a.y;
+        if (dx === 0 && dy === 0) {
+          dx = (i - j) * 0.01;
+          dy = 0.01;
+        }
+        const distanceSquared = dx * dx + dy * dy;
+        if (distanceSquared > MAX_REPULSION_DISTANCE * MAX_REPULSION_DISTANCE) continue;
+        const force = (REPULSION * alpha) / Math.max(distanceSquared, 25);
+        const distance = Math.sqrt(distanceSquared);
+        const fx = (dx / distance) * force;
+        const fy = (dy / distance) * force;
+        a.vx -= fx;
+        a.vy -= fy;
+        b.vx += fx;
+        b.vy += fy;
+      }
+    }
+
+    for (const edge of this.edges) {
+      const a = this.bodies.get(edge.source);
+      const b = this.bodies.get(edge.target);
+      if (!a || !b) continue;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      const force = (distance - edge.length) * SPRING * alpha;
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      a.vx += fx;
+      a.vy += fy;
+      b.vx -= fx;
+      b.vy -= fy;
+    }
+
+    let centroids: Map<number, LayoutPoint> | null = null;
+    if (this.useClusters) {
+      const sums = new Map<number, { x: number; y: number; count: number }>();
+      for (const [id, body] of this.bodies) {
+        const cluster = this.clusters.get(id) ?? 0;
+        const sum = sums.get(cluster) ?? { x: 0, y: 0, count: 0 };
+        sum.x += body.x;
+        sum.y += body.y;
+        sum.count++;
+        sums.set(cluster, sum);
+      }
+      centroids = new Map([...sums].map(([cluster, sum]) => [cluster, { x: sum.x / sum.count, y: sum.y / sum.count }]));
+    }
+
+    for (const [id, body] of this.bodies) {
+      if (body.pinned) {
+        body.vx = 0;
+        body.vy = 0;
+        continue;
+      }
+      body.vx -= body.x * CENTERING * alpha;
+      body.vy -= body.y * CENTERING * alpha;
+      const centroid = centroids?.get(this.clusters.get(id) ?? 0);
+      if (centroid) {
+        body.vx += (centroid.x - body.x) * CLUSTERING * alpha;
+        body.vy += (centroid.y - body.y) * CLUSTERING * alpha;
+      }
+      body.vx *= VELOCITY_DECAY;
+      body.vy *= VELOCITY_DECAY;
+      body.x += body.vx;
+      body.y += body.vy;
+    }
+
+    this.alpha *= ALPHA_DECAY;
+  }
+
+  // The box around every node, for fitting the graph into view
+  bounds(): { minX: number; minY: number; maxX: number; maxY: number } | null {
+    if (this.bodies.size === 0) return null;
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const body of this.bodies.values()) {
+      minX = Math.min(minX, body.x);
+      minY = Math.min(minY, body.y);
+      maxX = Math.max(maxX, body.x);
+      maxY = Math.max(maxY, body.y);
+    }
+    return { minX, minY, maxX, maxY };
+  }
+}
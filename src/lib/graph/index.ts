@@ -0,0 +1,6 @@
+// Main exports for the knowledge graph module
+export { buildKnowledgeGraph, findOrphanNoteIds, noteNodeId, tagNodeId, notebookNodeId } from "./knowledgeGraph";
+export type { GraphNode, GraphNodeKind, GraphEdge, GraphEdgeKind, GraphFilters, KnowledgeGraph } from "./knowledgeGraph";
+export { ForceLayout } from "./forceLayout";
+export type { LayoutPoint } from "./forceLayout";
+export { tagColorHex, clusterColor } from "./colors";
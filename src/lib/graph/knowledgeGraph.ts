@@ -0,0 +1,191 @@
+// The knowledge graph: notes, the tags and notebooks they belong to, and the
+// [[links]] between notes, as nodes and edges to lay out and draw.
+
+export type GraphNodeKind = 'note' | 'tag' | 'notebook';
+export type GraphEdgeKind = 'link' | 'tag' | 'notebook';
+
+export interface GraphNode {
+  // Unique across kinds, e.g. "note:<id>"
+  id: string;
+  kind: GraphNodeKind;
+  // The note, tag or notebook id
+  refId: string;
+  label: string;
+  // Number of edges drawn to the node
+  degree: number;
+  // Index of the group of closely connected nodes it belongs to
+  cluster: number;
+  // Notes only: no tags and no links in either direction
+  isOrphan: boolean;
+  isTranscription: boolean;
+  // Tags only: their color class, e.g. "bg-red-500"
+  colorClass?: string;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: GraphEdgeKind;
+}
+
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  clusterCount: number;
+}
+
+export interface GraphFilters {
+  // Notes with any of these tags; none means all notes
+  tagIds: string[];
+  // Notes in any of these notebooks; none means all notes
+  notebookIds: string[];
+  showTags: boolean;
+  showNotebooks: boolean;
+  orphansOnly: boolean;
+}
+
+interface GraphSource {
+  notes: {
+    id: string;
+    title: string;
+    notebook_id: string | null;
+    is_transcription: boolean | null;
+    tags: { id: string }[];
+  }[];
+  tags: { id: string; name: string; color: string }[];
+  notebooks: { id: string; name: string }[];
+  links: { source_note_id: string; target_note_id: string }[];
+}
+
+export const noteNodeId = (id: string) => `note:${id}`;
+export const tagNodeId = (id: string) => `tag:${id}`;
+export const notebookNodeId = (id: string) => `notebook:${id}`;
+
+const MAX_CLUSTER_ROUNDS = 20;
+
+// Notes with no tags and no links in either direction
+export const findOrphanNoteIds = ({ notes, links }: Pick<GraphSource, 'notes' | 'links'>): Set<string> => {
+  const noteIds = new Set(notes.map(note => note.id));
+  const linked = new Set(links
+    .filter(link => link.source_note_id !== link.target_note_id && noteIds.has(link.source_note_id) && noteIds.has(link.target_note_id))
+    .flatMap(link => [link.source_note_id, link.target_note_id]));
+  return new Set(notes.filter(note => note.tags.length === 0 && !linked.has(note.id)).map(note => note.id));
+};
+
+// Groups nodes by label propagation: each node takes the label most of its
+// neighbours have until nothing changes. Ties go to the smallest label, so the
+// same graph always gives the same clusters.
+const findClusters = (nodeIds: string[], edges: GraphEdge[]): Map<string, number> => {
+  const neighbours = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  for (const edge of edges) {
+    neighbours.get(edge.source)?.push(edge.target);
+    neighbours.get(edge.target)?.push(edge.source);
+  }
+
+  const labels = new Map<string, number>(nodeIds.map((id, index) => [id, index]));
+  for (let round = 0; round < MAX_CLUSTER_ROUNDS; round++) {
+    let changed = false;
+    for (const id of nodeIds) {
+      const counts = new Map<number, number>();
+      for (const neighbour of neighbours.get(id) ?? []) {
+        const label = labels.get(neighbour) as number;
+        counts.set(label, (counts.get(label) ?? 0) + 1);
+      }
+      if (counts.size === 0) continue;
+
+      let best = labels.get(id) as number;
+      let bestCount = counts.get(best) ?? 0;
+      for (const [label, count] of counts) {
+        if (count > bestCount || (count === bestCount && label < best)) {
+          best = label;
+          bestCount = count;
+        }
+      }
+      if (best !== labels.get(id)) {
+        labels.set(id, best);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  // Number clusters from 0, largest first
+  const sizes = new Map<number, number>();
+  for (const label of labels.values()) sizes.set(label, (sizes.get(label) ?? 0) + 1);
+  const order = [...sizes.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0]).map(([label]) => label);
+  const index = new Map(order.map((label, position) => [label, position]));
+  return new Map([...labels].map(([id, label]) => [id, index.get(label) as number]));
+};
+
+export const buildKnowledgeGraph = (source: GraphSource, filters: GraphFilters): KnowledgeGraph => {
+  const noteIds = new Set(source.notes.map(note => note.id));
+  const links = source.links.filter(link =>
+    link.source_note_id !== link.target_note_id && noteIds.has(link.source_note_id) && noteIds.has(link.target_note_id));
+  const orphanIds = findOrphanNoteIds(source);
+
+  const notes = source.notes.filter(note =>
+    (filters.tagIds.length === 0 || note.tags.some(tag => filters.tagIds.includes(tag.id))) &&
+    (filters.notebookIds.length === 0 || (note.notebook_id !== null && filters.notebookIds.includes(note.notebook_id))) &&
+    (!filters.orphansOnly || orphanIds.has(note.id)));
+  const shown = new Set(notes.map(note => note.id));
+
+  const edges: GraphEdge[] = links
+    .filter(link => shown.has(link.source_note_id) && shown.has(link.target_note_id))
+    .map(link => ({ source: noteNodeId(link.source_note_id), target: noteNodeId(link.target_note_id), kind: 'link' }));
+
+  const tagIds = new Set<string>();
+  const notebookIds = new Set<string>();
+  for (const note of notes) {
+    if (filters.showTags) {
+      for (const tag of note.tags) {
+        tagIds.add(tag.id);
+        edges.push({ source: noteNodeId(note.id), target: tagNodeId(tag.id), kind: 'tag' });
+      }
+    }
+    if (filters.showNotebooks && note.notebook_id) {
+      notebookIds.add(note.notebook_id);
+      edges.push({ source: noteNodeId(note.id), target: notebookNodeId(note.notebook_id), kind: 'notebook' });
+    }
+  }
+
+  const nodes: Omit<GraphNode, 'degree' | 'cluster'>[] = [
+    ...notes.map(note => ({
+      id: noteNodeId(note.id),
+      kind: 'note' as const,
+      refId: note.id,
+      label: note.title || 'Untitled Note',
+      isOrphan: orphanIds.has(note.id),
+      isTranscription: !!note.is_transcription
+    })),
+    ...source.tags.filter(tag => tagIds.has(tag.id)).map(tag => ({
+      id: tagNodeId(tag.id),
+      kind: 'tag' as const,
+      refId: tag.id,
+      label: `#${tag.name}`,
+      isOrphan: false,
+      isTranscription: false,
+      colorClass: tag.color
+    })),
+    ...source.notebooks.filter(notebook => notebookIds.has(notebook.id)).map(notebook => ({
+      id: notebookNodeId(notebook.id),
+      kind: 'notebook' as const,
+      refId: notebook.id,
+      label: notebook.name,
+      isOrphan: false,
+      isTranscription: false
+    }))
+  ];
+
+  const degrees = new Map<string, number>();
+  for (const edge of edges) {
+    degrees.set(edge.source, (degrees.get(edge.source) ?? 0) + 1);
+    degrees.set(edge.target, (degrees.get(edge.target) ?? 0) + 1);
+  }
+  const clusters = findClusters(nodes.map(node => node.id), edges);
+
+  return {
+    nodes: nodes.map(node => ({ ...node, degree: degrees.get(node.id) ?? 0, cluster: clusters.get(node.id) ?? 0 })),
+    edges,
+    clusterCount: new Set(clusters.values()).size
+  };
+};
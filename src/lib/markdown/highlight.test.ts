@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { highlightCode } from "./highlight";
+
+describe("highlightCode", () => {
+  it("marks keywords, numbers, strings and comments", () => {
+    expect(highlightCode("const a = 'x'; // note", "typescript")).toEqual([
+      { type: "keyword", text: "const" },
+      { type: "plain", text: " a = " },
+      { type: "string", text: "'x'" },
+      { type: "plain", text: "; " },
+      { type: "comment", text: "// note" },
+    ]);
+  });
+
+  it("knows common language aliases", () => {
+    expect(highlightCode("return None", "py")).toEqual([
+      { type: "keyword", text: "return" },
+      { type: "plain", text: " " },
+      { type: "literal", text: "None" },
+    ]);
+  });
+
+  it("keeps tags inside comments as comments", () => {
+    expect(highlightCode("/** @param x */", "js")).toEqual([{ type: "comment", text: "/** @param x */" }]);
+  });
+
+  it("leaves unknown languages and markup as plain text", () => {
+    expect(highlightCode("<script>alert(1)</script>", "")).toEqual([{ type: "plain", text: "<script>alert(1)</script>" }]);
+    expect(highlightCode("x = 1", "not-a-language")).toEqual([{ type: "plain", text: "x = 1" }]);
+  });
+
+  it("returns the code unchanged when the tokens are joined", () => {
+    const code = "function f(a) {\n  return `${a}` + \"<b>\";\n}\n";
+    expect(highlightCode(code, "javascript").map(token => token.text).join("")).toBe(code);
+  });
+});
@@ -0,0 +1,63 @@
+import { common, createLowlight } from 'lowlight';
+import type { Element, Root, RootContent } from 'hast';
+
+// Syntax highlighting for fenced code with highlight.js grammars (through
+// lowlight, which returns a tree instead of HTML), flattened to the few token
+// types the renderer styles.
+
+export type CodeTokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+const lowlight = createLowlight(common);
+
+// highlight.js scopes, without the hljs- prefix; others are plain
+const SCOPE_TYPES: Record<string, CodeTokenType> = {
+  comment: 'comment',
+  quote: 'comment',
+  string: 'string',
+  regexp: 'string',
+  number: 'number',
+  keyword: 'keyword',
+  built_in: 'keyword',
+  type: 'keyword',
+  literal: 'literal',
+  symbol: 'literal'
+};
+
+const scopeType = (element: Element): CodeTokenType | null => {
+  const classNames = Array.isArray(element.properties.className) ? element.properties.className : [];
+  for (const className of classNames) {
+    const type = SCOPE_TYPES[String(className).replace(/^hljs-/, '')];
+    if (type) return type;
+  }
+  return null;
+};
+
+export const highlightCode = (code: string, language: string): CodeToken[] => {
+  const name = language.toLowerCase();
+  if (!name || !lowlight.registered(name)) return [{ type: 'plain', text: code }];
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  // Text takes the type of the innermost scope that has one, e.g. a doc tag
+  // inside a comment stays a comment
+  const walk = (nodes: (Root | RootContent)[], type: CodeTokenType) => {
+    for (const node of nodes) {
+      if (node.type === 'text') push(type, node.value);
+      else if (node.type === 'element') walk(node.children, scopeType(node) ?? type);
+      else if (node.type === 'root') walk(node.children, type);
+    }
+  };
+  walk([lowlight.highlight(name, code)], 'plain');
+
+  return tokens;
+};
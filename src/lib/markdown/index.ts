@@ -0,0 +1,6 @@
+// Main exports for the markdown rendering module
+export { parseInline, safeUrl, noteIdFromUrl } from "./inline";
+export type { InlineNode } from "./inline";
+export { highlightCode } from "./highlight";
+export type { CodeToken, CodeTokenType } from "./highlight";
+export { renderTex } from "./math";
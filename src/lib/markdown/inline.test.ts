@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { parseInline, safeUrl } from "./inline";
+
+describe("safeUrl", () => {
+  it("allows web, mail, path and anchor addresses", () => {
+    expect(safeUrl("https://example.com/a?b=c")).toBe("https://example.com/a?b=c");
+    expect(safeUrl("HTTP://example.com")).toBe("HTTP://example.com");
+    expect(safeUrl("mailto:someone@example.com")).toBe("mailto:someone@example.com");
+    expect(safeUrl("/note/123")).toBe("/note/123");
+    expect(safeUrl("#section")).toBe("#section");
+  });
+
+  it("refuses script and data addresses", () => {
+    expect(safeUrl("javascript:alert(1)")).toBeNull();
+    expect(safeUrl("JavaScript:alert(1)")).toBeNull();
+    expect(safeUrl(" javascript:alert(1)")).toBeNull();
+    expect(safeUrl("java\tscript:alert(1)")).toBeNull();
+    expect(safeUrl("vbscript:msgbox(1)")).toBeNull();
+    expect(safeUrl("data:text/html,<script>alert(1)</script>")).toBeNull();
+    expect(safeUrl("data:image/svg+xml;base64,PHN2Zz4=")).toBeNull();
+  });
+
+  it("refuses addresses that leave the site without a scheme", () => {
+    expect(safeUrl("//evil.example")).toBeNull();
+    expect(safeUrl("/\\evil.example")).toBeNull();
+  });
+});
+
+describe("parseInline", () => {
+  it("shows links to unsafe addresses as their text", () => {
+    expect(parseInline("[click](javascript:alert(1))")).toEqual([
+      { type: "text", text: "click)" },
+    ]);
+  });
+
+  it("shows images with unsafe addresses as text", () => {
+    expect(parseInline("![x](data:image/png;base64,AAAA)")).toEqual([
+      { type: "text", text: "![x](data:image/png;base64,AAAA)" },
+    ]);
+  });
+
+  it("keeps raw HTML as text", () => {
+    expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([
+      { type: "text", text: "<img src=x onerror=alert(1)>" },
+    ]);
+  });
+
+  it("parses links, emphasis, code, math and timestamps", () => {
+    expect(parseInline("**bold** [site](https://example.com) `x` $a^2$ [01:05]")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " " },
+      { type: "link", href: "https://example.com", children: [{ type: "text", text: "site" }] },
+      { type: "text", text: " " },
+      { type: "code", text: "x" },
+      { type: "text", text: " " },
+      { type: "math", tex: "a^2" },
+      { type: "text", text: " " },
+      { type: "timestamp", seconds: 65, label: "01:05" },
+    ]);
+  });
+
+  it("parses wiki links with and without a label", () => {
+    expect(parseInline("[[Meeting notes]] [[Plan|the plan]]")).toEqual([
+      { type: "wikiLink", title: "Meeting notes", label: "Meeting notes" },
+      { type: "text", text: " " },
+      { type: "wikiLink", title: "Plan", label: "the plan" },
+    ]);
+  });
+});
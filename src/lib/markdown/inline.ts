@@ -0,0 +1,121 @@
+import { parseTimestamp } from '@/lib/timestamps';
+
+// Inline markdown inside a block: emphasis, code, math, links, [[note links]],
+// images, bare addresses and [mm:ss] timestamps. Raw HTML is not interpreted;
+// it stays text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  // A link to another note, e.g. [Meeting](/note/<id>)
+  | { type: 'noteLink'; noteId: string; children: InlineNode[] }
+  // [[Note title]] or [[Note title|shown text]], resolved by title when shown
+  | { type: 'wikiLink'; title: string; label: string }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'timestamp'; seconds: number; label: string };
+
+const INLINE = new RegExp([
+  /\\([\\`*_{}[\]()#+\-.!~$|>])/.source,
+  /(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/.source,
+  /\$(?![\s$])([^$\n]+?)(?<!\s)\$(?!\d)/.source,
+  /!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,
+  /\[\[([^[\]|\n]+)(?:\|([^[\]\n]*))?\]\]/.source,
+  /\[((?:[^[\]]|\[[^\]]*\])*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,
+  /\[((?:\d{1,2}:)?\d{1,3}:\d{2})\]/.source,
+  /\*\*(?!\s)([\s\S]+?)(?<!\s)\*\*|(?<!\w)__(?!\s)([\s\S]+?)(?<!\s)__(?!\w)/.source,
+  /~~(?!\s)([\s\S]+?)(?<!\s)~~/.source,
+  /\*(?![\s*])([\s\S]+?)(?<![\s*])\*|(?<!\w)_(?![\s_])([\s\S]+?)(?<![\s_])_(?!\w)/.source,
+  /https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~]/.source
+].map(pattern => `(?:${pattern})`).join('|'), 'g');
+
+const NOTE_PATH = /^\/note\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\/?$/i;
+
+// Addresses a link or image may point at; anything else, e.g. javascript:,
+// is shown as text. Browsers read /\ like //, so neither starts a path here.
+export const safeUrl = (url: string): string | null =>
+  /^(?:https?:|mailto:)/i.test(url) || /^[/#](?![/\\])/.test(url) ? url : null;
+
+// The note a link points at, whether written as a path or a full address of
+// this app
+export const noteIdFromUrl = (url: string): string | null => {
+  let path = url;
+  if (/^https?:/i.test(url) && typeof window !== 'undefined') {
+    try {
+      const parsed = new URL(url);
+      if (parsed.origin !== window.location.origin) return null;
+      path = parsed.pathname;
+    } catch {
+      return null;
+    }
+  }
+  return path.match(NOTE_PATH)?.[1] ?? null;
+};
+
+const pushText = (nodes: InlineNode[], text: string) => {
+  text.split('\n').forEach((line, index) => {
+    if (index > 0) nodes.push({ type: 'break' });
+    if (!line) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.text += line;
+    else nodes.push({ type: 'text', text: line });
+  });
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    pushText(nodes, text.slice(position, index));
+    position = index + match[0].length;
+
+    const [
+      source, escaped, , code, math, imageAlt, imageUrl, wikiTitle, wikiLabel, linkText, linkUrl, timestamp,
+      strong, strongUnderscore, strike, emphasis, emphasisUnderscore
+    ] = match;
+
+    if (escaped !== undefined) {
+      pushText(nodes, escaped);
+    } else if (code !== undefined) {
+      nodes.push({ type: 'code', text: code.length > 2 && code.startsWith(' ') && code.endsWith(' ') ? code.slice(1, -1) : code });
+    } else if (math !== undefined) {
+      nodes.push({ type: 'math', tex: math });
+    } else if (imageUrl !== undefined) {
+      const src = safeUrl(imageUrl);
+      if (src) nodes.push({ type: 'image', src, alt: imageAlt });
+      else pushText(nodes, source);
+    } else if (wikiTitle !== undefined) {
+      nodes.push({ type: 'wikiLink', title: wikiTitle.trim(), label: wikiLabel?.trim() || wikiTitle.trim() });
+    } else if (linkUrl !== undefined) {
+      const noteId = noteIdFromUrl(linkUrl);
+      const href = safeUrl(linkUrl);
+      const children = parseInline(linkText || linkUrl);
+      if (noteId) nodes.push({ type: 'noteLink', noteId, children });
+      else if (href) nodes.push({ type: 'link', href, children });
+      else nodes.push(...children);
+    } else if (timestamp !== undefined) {
+      const seconds = parseTimestamp(timestamp);
+      if (seconds === null) pushText(nodes, source);
+      else nodes.push({ type: 'timestamp', seconds, label: timestamp });
+    } else if ((strong ?? strongUnderscore) !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongUnderscore) });
+    } else if (strike !== undefined) {
+      nodes.push({ type: 'strike', children: parseInline(strike) });
+    } else if ((emphasis ?? emphasisUnderscore) !== undefined) {
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis ?? emphasisUnderscore) });
+    } else {
+      const noteId = noteIdFromUrl(source);
+      nodes.push(noteId
+        ? { type: 'noteLink', noteId, children: [{ type: 'text', text: source }] }
+        : { type: 'link', href: source, children: [{ type: 'text', text: source }] });
+    }
+  }
+  pushText(nodes, text.slice(position));
+
+  return nodes;
+};
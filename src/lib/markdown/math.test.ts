@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { renderTex } from "./math";
+
+describe("renderTex", () => {
+  it("renders TeX as MathML", () => {
+    const html = renderTex("\\frac{a}{b}");
+    expect(html).toContain("<math");
+    expect(html).toContain("<mfrac>");
+  });
+
+  it("marks display math as a block", () => {
+    expect(renderTex("x", true)).toContain('display="block"');
+  });
+
+  it("shows malformed TeX as escaped source instead of throwing", () => {
+    for (const tex of ["\\frac{1}{2", "x^", "\\left( x", "\\begin{matrix} a", "}{", "\\unknowncommand"]) {
+      expect(() => renderTex(tex)).not.toThrow();
+    }
+    const html = renderTex("\\frac{<b>}{2");
+    expect(html).toContain("katex-error");
+    expect(html).not.toContain("<b>");
+  });
+
+  it("refuses commands that link out or add markup", () => {
+    for (const tex of [
+      "\\href{javascript:alert(1)}{x}",
+      "\\url{javascript:alert(1)}",
+      "\\htmlClass{x}{y}",
+      "\\htmlData{onclick=alert(1)}{y}",
+    ]) {
+      const html = renderTex(tex);
+      // The TeX source is kept as escaped text in the annotation only
+      expect(html).not.toMatch(/<a\b|\shref=|\sonclick=|class="x"/);
+    }
+  });
+
+  it("escapes text inside formulas", () => {
+    expect(renderTex("\\text{<script>alert(1)</script>}")).not.toContain("<script>");
+  });
+
+  it("stops on runaway macro expansion", () => {
+    expect(() => renderTex("\\def\\a{\\a\\a}\\a")).not.toThrow();
+  });
+});
@@ -0,0 +1,17 @@
+import katex from 'katex';
+
+// $TeX$ rendered by KaTeX as MathML, which browsers lay out natively. TeX it
+// cannot parse comes back as its escaped source marked as an error rather than
+// throwing, and commands that link out or add markup, e.g. \href or
+// \htmlClass, are refused.
+export const renderTex = (tex: string, display = false): string =>
+  katex.renderToString(tex, {
+    displayMode: display,
+    output: 'mathml',
+    throwOnError: false,
+    trust: false,
+    strict: 'ignore',
+    // Keeps pathological input, e.g. recursive macros, from hanging the preview
+    maxExpand: 500,
+    maxSize: 20
+  });
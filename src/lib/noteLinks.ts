@@ -0,0 +1,42 @@
+// [[Note title]] links between notes. The database resolves them into
+// note_links when a note is saved; these do the same in the browser for
+// showing and suggesting links.
+
+interface LinkableNote {
+  id: string;
+  title: string;
+  updated_at: string;
+}
+
+const normaliseTitle = (title: string) => title.trim().toLowerCase();
+
+// Finds the note a title links to: the most recently updated note with that
+// title, ignoring case, as the database picks it
+export const createNoteTitleResolver = (notes: LinkableNote[]) => {
+  const byTitle = new Map<string, LinkableNote>();
+  for (const note of notes) {
+    const key = normaliseTitle(note.title);
+    const current = byTitle.get(key);
+    if (key && (!current || new Date(note.updated_at) > new Date(current.updated_at))) {
+      byTitle.set(key, note);
+    }
+  }
+  return (title: string): string | null => byTitle.get(normaliseTitle(title))?.id ?? null;
+};
+
+// The link being typed, from an unclosed [[ on the same line up to the caret
+export const getWikiLinkQuery = (textBeforeCaret: string): { start: number; query: string } | null => {
+  const match = textBeforeCaret.match(/\[\[([^[\]|\n]*)$/);
+  return match ? { start: textBeforeCaret.length - match[0].length, query: match[1] } : null;
+};
+
+// Notes whose titles contain the query, those starting with it first
+export const suggestNotes = <T extends LinkableNote>(notes: T[], query: string, excludeId?: string, limit = 8): T[] => {
+  const search = normaliseTitle(query);
+  return notes
+    .filter(note => note.id !== excludeId && note.title.trim() && normaliseTitle(note.title).includes(search))
+    .sort((a, b) =>
+      Number(normaliseTitle(b.title).startsWith(search)) - Number(normaliseTitle(a.title).startsWith(search)) ||
+      new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+    .slice(0, limit);
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { buildNotebookTree, getNotebookMove, getNotebookPath, getNotebookSubtreeIds } from "./notebookTree";
+
+const notebook = (id: string, parent_id: string | null, position: number, name = id) =>
+  ({ id, name, parent_id, position });
+
+// course
+//   module-1
+//     lecture
+//   module-2
+// inbox
+const notebooks = [
+  notebook("inbox", null, 1),
+  notebook("course", null, 0),
+  notebook("module-2", "course", 1),
+  notebook("module-1", "course", 0),
+  notebook("lecture", "module-1", 0),
+];
+
+const shape = (nodes: ReturnType<typeof buildNotebookTree>): unknown[] =>
+  nodes.map(node => [node.notebook.id, node.depth, shape(node.children)]);
+
+describe("buildNotebookTree", () => {
+  it("nests notebooks under their parents in sibling order", () => {
+    expect(shape(buildNotebookTree(notebooks))).toEqual([
+      ["course", 0, [
+        ["module-1", 1, [["lecture", 2, []]]],
+        ["module-2", 1, []],
+      ]],
+      ["inbox", 0, []],
+    ]);
+  });
+
+  it("orders siblings with the same position by name", () => {
+    const tree = buildNotebookTree([notebook("b", null, 0, "Beta"), notebook("a", null, 0, "Alpha")]);
+    expect(tree.map(node => node.notebook.name)).toEqual(["Alpha", "Beta"]);
+  });
+
+  it("shows a notebook whose parent is not in the list at the top level", () => {
+    const tree = buildNotebookTree([notebook("shared", "someone-elses", 0)]);
+    expect(shape(tree)).toEqual([["shared", 0, []]]);
+  });
+
+  it("leaves out notebooks that form a cycle with no way in from the top", () => {
+    const tree = buildNotebookTree([notebook("a", "b", 0), notebook("b", "a", 0), notebook("c", null, 0)]);
+    expect(shape(tree)).toEqual([["c", 0, []]]);
+  });
+});
+
+describe("getNotebookSubtreeIds", () => {
+  it("includes the notebook and everything inside it", () => {
+    expect([...getNotebookSubtreeIds(notebooks, "course")].sort()).toEqual(["course", "lecture", "module-1", "module-2"]);
+    expect([...getNotebookSubtreeIds(notebooks, "inbox")]).toEqual(["inbox"]);
+  });
+});
+
+describe("getNotebookPath", () => {
+  it("joins the names from the top level down", () => {
+    expect(getNotebookPath(notebooks, "lecture")).toBe("course / module-1 / lecture");
+  });
+
+  it("stops at a cycle", () => {
+    expect(getNotebookPath([notebook("a", "b", 0), notebook("b", "a", 0)], "a")).toBe("b / a");
+  });
+});
+
+describe("getNotebookMove", () => {
+  it("moves a notebook to the end of the one it is dropped inside", () => {
+    expect(getNotebookMove(notebooks, "inbox", "course", "inside")).toEqual({ parentId: "course", position: 2 });
+  });
+
+  it("refuses to move a notebook into itself or a notebook inside it", () => {
+    expect(getNotebookMove(notebooks, "course", "course", "inside")).toBeNull();
+    expect(getNotebookMove(notebooks, "course", "lecture", "inside")).toBeNull();
+    expect(getNotebookMove(notebooks, "course", "module-2", "after")).toBeNull();
+  });
+
+  it("ignores drops that leave the notebook where it is", () => {
+    expect(getNotebookMove(notebooks, "lecture", "module-1", "inside")).toBeNull();
+    expect(getNotebookMove(notebooks, "module-1", "module-2", "before")).toBeNull();
+    expect(getNotebookMove(notebooks, "module-2", "module-1", "after")).toBeNull();
+  });
+
+  it("places the notebook before or after a sibling", () => {
+    expect(getNotebookMove(notebooks, "module-2", "module-1", "before")).toEqual({ parentId: "course", position: 0 });
+    expect(getNotebookMove(notebooks, "module-1", "module-2", "after")).toEqual({ parentId: "course", position: 1 });
+  });
+
+  it("places the notebook next to a notebook under another parent", () => {
+    expect(getNotebookMove(notebooks, "lecture", "course", "after")).toEqual({ parentId: null, position: 1 });
+    expect(getNotebookMove(notebooks, "inbox", "module-1", "after")).toEqual({ parentId: "course", position: 1 });
+  });
+
+  it("returns null for notebooks that do not exist", () => {
+    expect(getNotebookMove(notebooks, "missing", "course", "inside")).toBeNull();
+    expect(getNotebookMove(notebooks, "inbox", "missing", "before")).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+// Notebooks nest through parent_id and are ordered among their siblings by
+// position. These build the tree the sidebar and the Notebooks page show.
+
+interface TreeNotebook {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  position: number;
+}
+
+export interface NotebookTreeNode<T extends TreeNotebook> {
+  notebook: T;
+  depth: number;
+  children: NotebookTreeNode<T>[];
+}
+
+// Where a dragged notebook lands relative to the one it is dropped on
+export type NotebookDropPosition = 'before' | 'inside' | 'after';
+
+export interface NotebookMove {
+  parentId: string | null;
+  position: number;
+}
+
+const bySiblingOrder = (a: TreeNotebook, b: TreeNotebook) =>
+  a.position - b.position || a.name.localeCompare(b.name);
+
+// Notebooks whose parent is not in the list, such as one shared without its
+// parent, are shown at the top level
+export const buildNotebookTree = <T extends TreeNotebook>(notebooks: T[]): NotebookTreeNode<T>[] => {
+  const ids = new Set(notebooks.map(notebook => notebook.id));
+  const childrenByParent = new Map<string | null, T[]>();
+  notebooks.forEach(notebook => {
+    const parentId = notebook.parent_id && ids.has(notebook.parent_id) ? notebook.parent_id : null;
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), notebook]);
+  });
+
+  const build = (parentId: string | null, depth: number, seen: Set<string>): NotebookTreeNode<T>[] =>
+    (childrenByParent.get(parentId) || [])
+      .filter(notebook => !seen.has(notebook.id))
+      .sort(bySiblingOrder)
+      .map(notebook => ({
+        notebook,
+        depth,
+        children: build(notebook.id, depth + 1, new Set([...seen, notebook.id]))
+      }));
+
+  return build(null, 0, new Set());
+};
+
+// The nodes to show: those matching and the ones leading to them
+export const filterNotebookTree = <T extends TreeNotebook>(
+  nodes: NotebookTreeNode<T>[],
+  matches: (notebook: T) => boolean
+): NotebookTreeNode<T>[] =>
+  nodes.flatMap(node => {
+    const children = filterNotebookTree(node.children, matches);
+    return matches(node.notebook) || children.length > 0 ? [{ ...node, children }] : [];
+  });
+
+// The notebook and every notebook inside it
+export const getNotebookSubtreeIds = (notebooks: TreeNotebook[], rootId: string): Set<string> => {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    notebooks.forEach(notebook => {
+      if (notebook.parent_id && ids.has(notebook.parent_id) && !ids.has(notebook.id)) {
+        ids.add(notebook.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+// "Course / Module / Lecture"
+export const getNotebookPath = (notebooks: TreeNotebook[], id: string): string => {
+  const byId = new Map(notebooks.map(notebook => [notebook.id, notebook]));
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return names.join(' / ');
+};
+
+// Position for a notebook added at the end of a parent's children
+export const nextNotebookPosition = (notebooks: TreeNotebook[], parentId: string | null): number =>
+  notebooks.filter(notebook => notebook.parent_id === parentId).length;
+
+// The move_notebook arguments for dropping a notebook on another one, or null
+// when the drop would put it inside itself or leave it where it is
+export const getNotebookMove = (
+  notebooks: TreeNotebook[],
+  draggedId: string,
+  targetId: string,
+  dropPosition: NotebookDropPosition
+): NotebookMove | null => {
+  if (getNotebookSubtreeIds(notebooks, draggedId).has(targetId)) return null;
+
+  const target = notebooks.find(notebook => notebook.id === targetId);
+  const dragged = notebooks.find(notebook => notebook.id === draggedId);
+  if (!target || !dragged) return null;
+
+  if (dropPosition === 'inside') {
+    if (dragged.parent_id === target.id) return null;
+    return { parentId: target.id, position: nextNotebookPosition(notebooks, target.id) };
+  }
+
+  // Index among the target's siblings once the dragged notebook is taken out
+  const siblings = notebooks
+    .filter(notebook => notebook.parent_id === target.parent_id && notebook.id !== draggedId)
+    .sort(bySiblingOrder);
+  const index = siblings.findIndex(notebook => notebook.id === targetId);
+  const position = dropPosition === 'before' ? index : index + 1;
+
+  const current = notebooks
+    .filter(notebook => notebook.parent_id === dragged.parent_id)
+    .sort(bySiblingOrder)
+    .findIndex(notebook => notebook.id === draggedId);
+  if (dragged.parent_id === target.parent_id && current === position) return null;
+
+  return { parentId: target.parent_id, position };
+};
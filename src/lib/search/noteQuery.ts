@@ -0,0 +1,267 @@
+import type { NoteSearchFilters } from "@/lib/api";
+import { tagNameMatches } from "@/lib/tagTree";
+
+/**
+ * Structured note query language.
+ *
+ *   tag:ml notebook:"Lectures" is:video before:2026-01-01 site:youtube.com "gradient descent"
+ *
+ * Supported fields:
+ *   tag:<name>        note has the tag or one nested under it, so tag:ml
+ *                     matches ml/nlp (repeat to require several tags)
+ *   notebook:<name>   note lives in the notebook (repeat to allow any of them)
+ *   is:video          transcriptions only (aliases: transcription, transcript)
+ *   is:note           regular notes only (alias: text)
+ *   before:<date>     created before the start of that day
+ *   after:<date>      created on or after that day
+ *   site:<domain>     source_url host matches the domain or a subdomain (alias: domain)
+ *
+ * Values can be quoted to include spaces. Anything else is free text, and
+ * quoted free text is kept as an exact phrase; a leading "-" excludes a term
+ * or phrase. Field filters cannot be negated, so `-tag:x` and unknown
+ * `key:value` pairs are treated as free text.
+ */
+export interface ParsedNoteQuery {
+  /** Free-text terms and phrases, re-quoted for websearch_to_tsquery. */
+  text: string;
+  terms: string[];
+  phrases: string[];
+  tags: string[];
+  notebooks: string[];
+  isTranscription?: boolean;
+  createdBefore?: Date;
+  createdAfter?: Date;
+  domains: string[];
+}
+
+export interface NoteQueryFilterChip {
+  key: string;
+  label: string;
+  /** The raw token, so the chip can be removed from the query string. */
+  token: string;
+}
+
+interface QueryNote {
+  title: string;
+  content: string | null;
+  notebook_id: string | null;
+  created_at: string;
+  source_url?: string | null;
+  is_transcription?: boolean | null;
+  tags: { name: string }[];
+}
+
+const TOKEN_PATTERN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+const TRANSCRIPTION_VALUES = new Set(["video", "transcription", "transcript"]);
+const NOTE_VALUES = new Set(["note", "text"]);
+
+const parseDate = (value: string): Date | undefined => {
+  const match = value.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, day ? Number(day) : 1);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const normalizeDomain = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#:]/)[0];
+
+export const parseNoteQuery = (input: string): ParsedNoteQuery => {
+  const parsed: ParsedNoteQuery = {
+    text: "",
+    terms: [],
+    phrases: [],
+    tags: [],
+    notebooks: [],
+    domains: []
+  };
+
+  for (const match of (input || "").matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, rawKey, quotedValue, bareValue] = match;
+    const key = rawKey?.toLowerCase();
+    const value = (quotedValue ?? bareValue ?? "").trim();
+    const isQuoted = quotedValue !== undefined;
+
+    if (!value) continue;
+
+    let handled = !negation;
+    switch (handled ? key : undefined) {
+      case "tag":
+      case "tags":
+        parsed.tags.push(value.replace(/^#/, ""));
+        break;
+      case "notebook":
+      case "nb":
+        parsed.notebooks.push(value);
+        break;
+      case "is":
+      case "type":
+        if (TRANSCRIPTION_VALUES.has(value.toLowerCase())) {
+          parsed.isTranscription = true;
+        } else if (NOTE_VALUES.has(value.toLowerCase())) {
+          parsed.isTranscription = false;
+        } else {
+          handled = false;
+        }
+        break;
+      case "before": {
+        const date = parseDate(value);
+        if (date) parsed.createdBefore = date;
+        else handled = false;
+        break;
+      }
+      case "after":
+      case "since": {
+        const date = parseDate(value);
+        if (date) parsed.createdAfter = date;
+        else handled = false;
+        break;
+      }
+      case "site":
+      case "domain":
+        parsed.domains.push(normalizeDomain(value));
+        break;
+      default:
+        handled = false;
+    }
+
+    if (handled) continue;
+
+    // Free text, including negated terms which websearch_to_tsquery understands
+    if (key) {
+      parsed.terms.push(raw.replace(/"/g, ""));
+    } else if (isQuoted) {
+      parsed.phrases.push(negation ? `-${value}` : value);
+    } else {
+      parsed.terms.push(`${negation}${value}`);
+    }
+  }
+
+  parsed.text = [
+    ...parsed.phrases.map(phrase =>
+      phrase.startsWith("-") ? `-"${phrase.slice(1)}"` : `"${phrase}"`
+    ),
+    ...parsed.terms
+  ].join(" ");
+
+  return parsed;
+};
+
+export const hasFieldFilters = (parsed: ParsedNoteQuery): boolean =>
+  parsed.tags.length > 0 ||
+  parsed.notebooks.length > 0 ||
+  parsed.domains.length > 0 ||
+  parsed.isTranscription !== undefined ||
+  parsed.createdBefore !== undefined ||
+  parsed.createdAfter !== undefined;
+
+export const toNoteSearchFilters = (parsed: ParsedNoteQuery): NoteSearchFilters => ({
+  tagNames: parsed.tags.length > 0 ? parsed.tags : undefined,
+  notebookNames: parsed.notebooks.length > 0 ? parsed.notebooks : undefined,
+  isTranscription: parsed.isTranscription,
+  createdBefore: parsed.createdBefore?.toISOString(),
+  createdAfter: parsed.createdAfter?.toISOString(),
+  sourceDomains: parsed.domains.length > 0 ? parsed.domains : undefined
+});
+
+export const getSourceDomain = (sourceUrl: string | null | undefined): string | null => {
+  if (!sourceUrl) return null;
+
+  try {
+    return normalizeDomain(new URL(sourceUrl).hostname);
+  } catch {
+    return null;
+  }
+};
+
+/** Case-insensitive substring match used by list pages for plain name filters. */
+export const matchesText = (query: string, ...fields: (string | null | undefined)[]): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return fields.some(field => field?.toLowerCase().includes(needle));
+};
+
+/**
+ * Client-side evaluation of a parsed query against an already loaded note.
+ * Mirrors the server semantics of search_notes_ranked closely enough for list
+ * filtering: free text is matched as substrings rather than stemmed lexemes.
+ */
+export const matchesNoteQuery = (
+  note: QueryNote,
+  parsed: ParsedNoteQuery,
+  notebookNamesById: Record<string, string> = {}
+): boolean => {
+  if (!parsed.tags.every(wanted => note.tags.some(tag => tagNameMatches(tag.name, wanted)))) {
+    return false;
+  }
+
+  if (parsed.notebooks.length > 0) {
+    const notebookName = note.notebook_id ? notebookNamesById[note.notebook_id]?.toLowerCase() : undefined;
+    if (!notebookName || !parsed.notebooks.some(name => name.toLowerCase() === notebookName)) {
+      return false;
+    }
+  }
+
+  if (parsed.isTranscription !== undefined && Boolean(note.is_transcription) !== parsed.isTranscription) {
+    return false;
+  }
+
+  const createdAt = new Date(note.created_at);
+  if (parsed.createdBefore && createdAt >= parsed.createdBefore) return false;
+  if (parsed.createdAfter && createdAt < parsed.createdAfter) return false;
+
+  if (parsed.domains.length > 0) {
+    const domain = getSourceDomain(note.source_url);
+    if (!domain || !parsed.domains.some(d => domain === d || domain.endsWith(`.${d}`))) {
+      return false;
+    }
+  }
+
+  const haystack = `${note.title}\n${note.content || ""}`.toLowerCase();
+  const freeText = [...parsed.phrases, ...parsed.terms];
+
+  return freeText.every(part => {
+    const excluded = part.startsWith("-") && part.length > 1;
+    const needle = (excluded ? part.slice(1) : part).toLowerCase();
+    return excluded ? !haystack.includes(needle) : haystack.includes(needle);
+  });
+};
+
+/** Describes the structured filters of a query for display as removable chips. */
+export const describeNoteQuery = (input: string): NoteQueryFilterChip[] => {
+  const chips: NoteQueryFilterChip[] = [];
+
+  for (const match of (input || "").matchAll(TOKEN_PATTERN)) {
+    const [raw, , rawKey] = match;
+    if (!rawKey) continue;
+
+    const single = parseNoteQuery(raw);
+    if (!hasFieldFilters(single)) continue;
+
+    const key = rawKey.toLowerCase();
+    let label = raw;
+    if (single.tags.length) label = `#${single.tags[0]}`;
+    else if (single.notebooks.length) label = `Notebook: ${single.notebooks[0]}`;
+    else if (single.isTranscription !== undefined) label = single.isTranscription ? "Videos" : "Notes";
+    else if (single.createdBefore) label = `Before ${single.createdBefore.toLocaleDateString()}`;
+    else if (single.createdAfter) label = `After ${single.createdAfter.toLocaleDateString()}`;
+    else if (single.domains.length) label = single.domains[0];
+
+    chips.push({ key, label, token: raw });
+  }
+
+  return chips;
+};
+
+/** Builds a `field:value` token, quoting values that contain whitespace. */
+export const formatQueryToken = (field: string, value: string): string =>
+  /\s/.test(value) ? `${field}:"${value.replace(/"/g, "")}"` : `${field}:${value}`;
+
+export const removeQueryToken = (input: string, token: string): string =>
+  input.replace(token, "").replace(/\s{2,}/g, " ").trim();
@@ -0,0 +1,148 @@
+import type { Json } from "@/integrations/supabase/types";
+import { getNotebookPath, getNotebookSubtreeIds } from "@/lib/notebookTree";
+import { getSourceDomain } from "@/lib/search/noteQuery";
+import { tagNameMatches } from "@/lib/tagTree";
+import { getTaskProgress } from "@/lib/tasks";
+
+// A smart notebook lists the notes matching its filters, stored as JSON in
+// smart_notebooks.filters. Every filter is optional and all of them must
+// match; relative dates are counted from when the notebook is looked at.
+
+export type SmartNotebookKind = 'transcription' | 'note';
+
+// open: has unfinished tasks, done: has tasks and all are done, none: no tasks
+export type SmartNotebookTaskFilter = 'open' | 'done' | 'none';
+
+export interface SmartNotebookFilters {
+  // Every tag, or a tag nested under it
+  tags?: string[];
+  // Any of these notebooks or the notebooks inside them
+  notebookIds?: string[];
+  kind?: SmartNotebookKind;
+  createdWithinDays?: number;
+  updatedWithinDays?: number;
+  // Any of these domains or their subdomains
+  sourceDomains?: string[];
+  tasks?: SmartNotebookTaskFilter;
+  // Title or content contains it
+  text?: string;
+}
+
+interface SmartNotebookNote {
+  title: string;
+  content: string | null;
+  notebook_id: string | null;
+  created_at: string;
+  updated_at: string;
+  source_url?: string | null;
+  is_transcription?: boolean | null;
+  task_progress?: Json | null;
+  tags: { name: string }[];
+}
+
+interface SmartNotebookNotebook {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  position: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TASK_FILTERS: SmartNotebookTaskFilter[] = ['open', 'done', 'none'];
+
+const stringList = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+  return items.length > 0 ? items : undefined;
+};
+
+const positiveNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+// Reads stored filters, dropping fields that are missing or malformed
+export const parseSmartNotebookFilters = (value: Json | null | undefined): SmartNotebookFilters => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const filters: SmartNotebookFilters = {
+    tags: stringList(value.tags),
+    notebookIds: stringList(value.notebookIds),
+    kind: value.kind === 'transcription' || value.kind === 'note' ? value.kind : undefined,
+    createdWithinDays: positiveNumber(value.createdWithinDays),
+    updatedWithinDays: positiveNumber(value.updatedWithinDays),
+    sourceDomains: stringList(value.sourceDomains),
+    tasks: TASK_FILTERS.find(filter => filter === value.tasks),
+    text: typeof value.text === 'string' && value.text.trim() ? value.text.trim() : undefined
+  };
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, field]) => field !== undefined)
+  ) as SmartNotebookFilters;
+};
+
+export const hasSmartNotebookFilters = (filters: SmartNotebookFilters): boolean =>
+  Object.values(filters).some(field => Array.isArray(field) ? field.length > 0 : field !== undefined && field !== '');
+
+// Returns a test for notes; the notebook subtrees are worked out once here
+// rather than for every note
+export const smartNotebookMatcher = (
+  filters: SmartNotebookFilters,
+  notebooks: SmartNotebookNotebook[] = [],
+  now: Date = new Date()
+) => {
+  const notebookIds = filters.notebookIds?.length
+    ? new Set(filters.notebookIds.flatMap(id => [...getNotebookSubtreeIds(notebooks, id)]))
+    : null;
+  const createdAfter = filters.createdWithinDays ? now.getTime() - filters.createdWithinDays * DAY_MS : null;
+  const updatedAfter = filters.updatedWithinDays ? now.getTime() - filters.updatedWithinDays * DAY_MS : null;
+  const domains = filters.sourceDomains?.map(domain => domain.trim().toLowerCase().replace(/^www\./, ''));
+  const text = filters.text?.toLowerCase();
+
+  return (note: SmartNotebookNote): boolean => {
+    if (filters.tags && !filters.tags.every(wanted => note.tags.some(tag => tagNameMatches(tag.name, wanted)))) {
+      return false;
+    }
+
+    if (notebookIds && (!note.notebook_id || !notebookIds.has(note.notebook_id))) return false;
+
+    if (filters.kind && Boolean(note.is_transcription) !== (filters.kind === 'transcription')) return false;
+
+    if (createdAfter !== null && new Date(note.created_at).getTime() < createdAfter) return false;
+    if (updatedAfter !== null && new Date(note.updated_at).getTime() < updatedAfter) return false;
+
+    if (domains) {
+      const domain = getSourceDomain(note.source_url);
+      if (!domain || !domains.some(wanted => domain === wanted || domain.endsWith(`.${wanted}`))) return false;
+    }
+
+    if (filters.tasks) {
+      const { total, completed } = getTaskProgress(note);
+      if (filters.tasks === 'open' && completed >= total) return false;
+      if (filters.tasks === 'done' && (total === 0 || completed < total)) return false;
+      if (filters.tasks === 'none' && total > 0) return false;
+    }
+
+    if (text && !`${note.title}\n${note.content || ''}`.toLowerCase().includes(text)) return false;
+
+    return true;
+  };
+};
+
+const TASK_LABELS: Record<SmartNotebookTaskFilter, string> = {
+  open: 'Unfinished tasks',
+  done: 'All tasks done',
+  none: 'No tasks'
+};
+
+// The filters as short labels, e.g. for chips and tooltips
+export const describeSmartNotebookFilters = (
+  filters: SmartNotebookFilters,
+  notebooks: SmartNotebookNotebook[] = []
+): string[] => [
+  ...(filters.tags || []).map(tag => `#${tag}`),
+  ...(filters.notebookIds || []).map(id => `Notebook: ${getNotebookPath(notebooks, id) || '…'}`),
+  ...(filters.kind ? [filters.kind === 'transcription' ? 'Transcriptions' : 'Notes'] : []),
+  ...(filters.createdWithinDays ? [`Created in the last ${filters.createdWithinDays} days`] : []),
+  ...(filters.updatedWithinDays ? [`Updated in the last ${filters.updatedWithinDays} days`] : []),
+  ...(filters.sourceDomains || []),
+  ...(filters.tasks ? [TASK_LABELS[filters.tasks]] : []),
+  ...(filters.text ? [`"${filters.text}"`] : [])
+];
@@ -0,0 +1,132 @@
+import { parseTimestamp } from "@/lib/timestamps";
+import { TimedSegment } from "./transcriptWindows";
+
+export interface VideoChapter {
+  title: string;
+  // Seconds
+  start: number;
+  end: number;
+  summary: string;
+}
+
+const TIME = String.raw`(?:\d{1,2}:)?\d{1,3}:\d{2}`;
+// "0:00 Intro", "- 01:30 - Setup", "(12:30) Questions", "1:02:03 | Wrap-up"
+const LEADING_TIMESTAMP = new RegExp(String.raw`^\s*(?:[-*•]\s*)?[[(]?(${TIME})[\])]?\s*[-–—:|.]?\s*(.+?)\s*$`);
+// "Intro - 0:00", "Questions (12:30)"
+const TRAILING_TIMESTAMP = new RegExp(String.raw`^\s*(?:[-*•]\s*)?(.+?)\s*[-–—:|]?\s*[[(]?(${TIME})[\])]?\s*$`);
+// "### [00:00 - 04:10] Title", as written by the summarizer's chapters output
+const CHAPTER_HEADING = new RegExp(String.raw`^#{2,4}\s*\[(${TIME})\s*-\s*(${TIME})\]\s*(.+?)\s*$`);
+
+// YouTube only turns a description list into chapters from this many entries
+const MIN_DESCRIPTION_CHAPTERS = 3;
+const EXCERPT_CHARS = 220;
+
+// Gives every chapter an end: the next chapter's start, or the video's end
+const closeChapters = (chapters: VideoChapter[], duration?: number): VideoChapter[] =>
+  chapters.map((chapter, index) => {
+    const next = chapters[index + 1];
+    const end = next ? next.start : Math.max(chapter.end, duration ?? 0);
+    return { ...chapter, end: Math.max(chapter.start, end) };
+  });
+
+// Reads the chapter list from a video description: the first block of
+// consecutive timestamped lines that, following YouTube's rules, starts at
+// 0:00, runs in order and has at least three entries. Other timestamps in the
+// description are ignored.
+export const parseDescriptionChapters = (description: string, duration?: number): VideoChapter[] => {
+  const blocks: VideoChapter[][] = [[]];
+
+  for (const line of description.split('\n')) {
+    const leading = line.match(LEADING_TIMESTAMP);
+    const trailing = leading ? null : line.match(TRAILING_TIMESTAMP);
+    const time = leading?.[1] ?? trailing?.[2];
+    const title = leading?.[2] ?? trailing?.[1];
+    const start = time ? parseTimestamp(time) : null;
+
+    if (start !== null && title) {
+      blocks[blocks.length - 1].push({ title, start, end: start, summary: '' });
+    } else if (blocks[blocks.length - 1].length > 0) {
+      blocks.push([]);
+    }
+  }
+
+  const chapters = blocks.find(block =>
+    block.length >= MIN_DESCRIPTION_CHAPTERS &&
+    block[0].start === 0 &&
+    block.every((chapter, index) => index === 0 || chapter.start > block[index - 1].start)
+  );
+  return chapters ? closeChapters(chapters, duration) : [];
+};
+
+// Reads "### [mm:ss - mm:ss] Title" headings and the text under them
+export const parseChapterMarkdown = (markdown: string, duration?: number): VideoChapter[] => {
+  const chapters: VideoChapter[] = [];
+  let current: VideoChapter | null = null;
+  const summaryLines: string[] = [];
+
+  const flush = () => {
+    if (!current) return;
+    current.summary = summaryLines.join(' ').trim();
+    chapters.push(current);
+    summaryLines.length = 0;
+  };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(CHAPTER_HEADING);
+    const start = heading ? parseTimestamp(heading[1]) : null;
+
+    if (heading && start !== null) {
+      flush();
+      current = { title: heading[3], start, end: parseTimestamp(heading[2]) ?? start, summary: '' };
+    } else if (/^#{1,4}\s/.test(line) || line.trim() === '---') {
+      // Any other heading or rule ends the chapter list
+      flush();
+      current = null;
+    } else if (current && line.trim()) {
+      summaryLines.push(line.trim());
+    }
+  }
+  flush();
+
+  const ordered = chapters.sort((a, b) => a.start - b.start);
+  return ordered.map((chapter, index) => {
+    const next = ordered[index + 1];
+    // Keep the model's end unless it runs into the next chapter
+    const end = next ? Math.min(Math.max(chapter.end, chapter.start), next.start) : Math.max(chapter.end, duration ?? 0);
+    return { ...chapter, end: Math.max(chapter.start, end) };
+  });
+};
+
+// Fills in chapter summaries with the opening words spoken in each chapter,
+// for chapters whose titles came without any
+export const excerptChapters = (chapters: VideoChapter[], segments: TimedSegment[]): VideoChapter[] =>
+  chapters.map(chapter => {
+    if (chapter.summary) return chapter;
+
+    const text = segments
+      .filter(segment => segment.start !== null && segment.start >= chapter.start && (segment.start < chapter.end || chapter.end === chapter.start))
+      .map(segment => segment.text)
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text.length <= EXCERPT_CHARS) return { ...chapter, summary: text };
+
+    const cut = text.lastIndexOf(' ', EXCERPT_CHARS);
+    return { ...chapter, summary: `${text.slice(0, cut > 0 ? cut : EXCERPT_CHARS)}…` };
+  });
+
+// Chapters stored as JSON, e.g. in a note artifact; invalid entries are dropped
+export const parseChapterJson = (json: string): VideoChapter[] => {
+  try {
+    const value = JSON.parse(json);
+    if (!Array.isArray(value)) return [];
+    return value.filter((chapter): chapter is VideoChapter =>
+      typeof chapter?.title === 'string' &&
+      typeof chapter.start === 'number' &&
+      typeof chapter.end === 'number' &&
+      typeof chapter.summary === 'string'
+    );
+  } catch {
+    return [];
+  }
+};
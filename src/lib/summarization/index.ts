@@ -0,0 +1,7 @@
+// Main exports for the summarization module
+export { SUMMARIZER_PROMPT_VERSION, TranscriptSummarizer } from "./transcriptSummarizer";
+export { excerptChapters, parseChapterJson, parseChapterMarkdown, parseDescriptionChapters } from "./chapters";
+export { formatRange, groupIntoWindows, parseTranscriptSegments } from "./transcriptWindows";
+export type { SummarizationProgress, SummarizeOptions, SummaryOutput, TranscriptSummary } from "./transcriptSummarizer";
+export type { TimedSegment, TranscriptWindow } from "./transcriptWindows";
+export type { VideoChapter } from "./chapters";
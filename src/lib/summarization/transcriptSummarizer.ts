@@ -0,0 +1,221 @@
+import { AIService, type ProviderId } from "@/lib/aiService";
+import { formatRange, groupIntoWindows, parseTranscriptSegments, TranscriptWindow } from "./transcriptWindows";
+
+export type SummaryOutput = 'full' | 'keypoints' | 'chapters' | 'concepts' | 'actions';
+
+export interface SummarizationProgress {
+  stage: 'summarizing' | 'condensing' | 'merging' | 'done';
+  completed: number;
+  total: number;
+  percent: number;
+  message: string;
+}
+
+export interface SummarizeOptions {
+  outputs?: SummaryOutput[];
+  // Video or episode title, given to the model as context
+  title?: string;
+  onProgress?: (progress: SummarizationProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptSummary {
+  outputs: Partial<Record<SummaryOutput, string>>;
+  // Number of windows summarized separately; 1 when the transcript fit at once
+  windowCount: number;
+  // Provider and model that wrote the final outputs
+  provider?: ProviderId;
+  model?: string;
+}
+
+// Recorded with stored summaries; bump when the prompts below change
+export const SUMMARIZER_PROMPT_VERSION = 'map-reduce-v1';
+
+// Transcripts up to this size are summarized in a single request
+const SINGLE_PASS_CHARS = 24000;
+const WINDOW_CHARS = 12000;
+// Partial summaries are condensed until they fit one merge request
+const MAX_MERGE_CHARS = 24000;
+// Each round at least halves the partials, so this is only reached when the
+// model keeps answering at length
+const MAX_CONDENSE_ROUNDS = 6;
+const MAP_CONCURRENCY = 3;
+
+const OUTPUT_INSTRUCTIONS: Record<SummaryOutput, string> = {
+  full: `Write a comprehensive summary in markdown. Start with a short overview paragraph, then use "##" headers for the main topics in the order they are covered. Mention the [mm:ss] timestamp of important moments.`,
+  keypoints: `List the 8-15 most important key points as markdown bullets, in the order they are covered. End each bullet with the [mm:ss] timestamp where it is discussed.`,
+  chapters: `Divide the content into 4-12 chapters in chronological order. The chapters must be contiguous and together cover the whole content. Format each chapter exactly as:
+### [mm:ss - mm:ss] Chapter title
+One or two sentences summarizing the chapter.`,
+  concepts: `Identify the key concepts, terms and ideas. For each, write a markdown bullet "**Concept**: explanation in one or two sentences ([mm:ss])" using the timestamp where it is introduced.`,
+  actions: `List the action items: tasks someone agreed, was assigned or promised to do. Write each as a markdown checklist item "- [ ] Task, starting with a verb (Owner, if named) [mm:ss]". When a deadline is stated as a calendar date, end the item with "due:YYYY-MM-DD". Do not invent tasks; if there are none, answer "None".`
+};
+
+const OUTPUT_LABELS: Record<SummaryOutput, string> = {
+  full: 'full summary',
+  keypoints: 'key points',
+  chapters: 'chapters',
+  concepts: 'key concepts',
+  actions: 'action items'
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Summarization cancelled', 'AbortError');
+  }
+};
+
+// Runs tasks with at most `limit` in flight, keeping results in input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Map-reduce summarization for transcripts longer than one model request:
+// each window of [mm:ss - mm:ss] segments is summarized on its own, the
+// partial summaries are condensed if needed, then merged into each output
+export class TranscriptSummarizer {
+  static needsChunking(transcript: string): boolean {
+    return transcript.length > SINGLE_PASS_CHARS;
+  }
+
+  static async summarize(transcript: string, options: SummarizeOptions = {}): Promise<TranscriptSummary> {
+    const { outputs = ['full'], title, onProgress, signal } = options;
+    const windows = this.needsChunking(transcript)
+      ? groupIntoWindows(parseTranscriptSegments(transcript), WINDOW_CHARS)
+      : [];
+    const chunked = windows.length > 1;
+
+    let completed = 0;
+    let total = (chunked ? windows.length : 0) + outputs.length;
+    // Condensing adds steps once the partial sizes are known; never go backwards
+    let percent = 0;
+    const report = (stage: SummarizationProgress['stage'], message: string) => {
+      percent = Math.max(percent, Math.round((completed / total) * 100));
+      onProgress?.({ stage, completed, total, percent, message });
+    };
+
+    let source = transcript;
+    if (chunked) {
+      report('summarizing', `Summarizing part 1 of ${windows.length}...`);
+      const partials = await mapWithConcurrency(windows, MAP_CONCURRENCY, async window => {
+        throwIfAborted(signal);
+        const partial = await this.summarizeWindow(window, windows.length, title);
+        completed++;
+        report('summarizing', `Summarized part ${completed} of ${windows.length}`);
+        return partial;
+      });
+
+      source = await this.condense(partials, {
+        title,
+        signal,
+        onRound: (batches) => {
+          total += batches;
+          report('condensing', `Condensing ${partials.length} partial summaries...`);
+        },
+        onBatch: () => {
+          completed++;
+          report('condensing', 'Condensing partial summaries...');
+        }
+      });
+    }
+
+    const summary: TranscriptSummary = { outputs: {}, windowCount: Math.max(1, windows.length) };
+    for (const output of outputs) {
+      throwIfAborted(signal);
+      report('merging', `Writing ${OUTPUT_LABELS[output]}...`);
+      const response = await this.writeOutput(output, source, chunked, title);
+      summary.outputs[output] = response.processedContent.trim();
+      summary.provider = response.provider;
+      summary.model = response.model;
+      completed++;
+    }
+
+    report('done', 'Summary ready');
+    return summary;
+  }
+
+  private static complete(content: string, maxTokens: number) {
+    return AIService.processContent({
+      content,
+      type: 'chat',
+      options: { temperature: 0.3, max_tokens: maxTokens }
+    });
+  }
+
+  private static summarizeWindow(window: TranscriptWindow, windowCount: number, title?: string): Promise<string> {
+    const range = formatRange(window.start, window.end);
+    const heading = `### Part ${window.index + 1}${range ? ` [${range}]` : ''}`;
+
+    return this.complete(
+      `You are summarizing part ${window.index + 1} of ${windowCount} of a transcript${title ? ` of "${title}"` : ''}${range ? `, covering ${range}` : ''}.\n` +
+      `Write concise bullet-point notes of what this part covers: main points, arguments, examples, definitions and conclusions, in order. ` +
+      `Start each bullet with the [mm:ss] timestamp it comes from, taken from the transcript. Do not add an introduction or conclusion.\n\n` +
+      `Transcript:\n${window.text}`,
+      800
+    ).then(response => `${heading}\n${response.processedContent.trim()}`);
+  }
+
+  // Merges neighbouring partial summaries until all of them fit one request.
+  // Nothing is cut off: partials that cannot be condensed enough fail the run.
+  private static async condense(
+    partials: string[],
+    hooks: { title?: string; signal?: AbortSignal; onRound: (batches: number) => void; onBatch: () => void }
+  ): Promise<string> {
+    let current = partials;
+
+    for (let round = 0; round < MAX_CONDENSE_ROUNDS && current.join('\n\n').length > MAX_MERGE_CHARS; round++) {
+      const batches: string[][] = [];
+      for (const partial of current) {
+        const batch = batches[batches.length - 1];
+        // A partial that fits with none of its neighbours is still paired
+        // with one, so that every round leaves fewer partials
+        if (batch && (batch.length === 1 || batch.join('\n\n').length + partial.length <= MAX_MERGE_CHARS)) {
+          batch.push(partial);
+        } else {
+          batches.push([partial]);
+        }
+      }
+
+      hooks.onRound(batches.length);
+      current = await mapWithConcurrency(batches, MAP_CONCURRENCY, async batch => {
+        throwIfAborted(hooks.signal);
+        const response = await this.complete(
+          `Condense these consecutive partial summaries of a transcript${hooks.title ? ` of "${hooks.title}"` : ''} into one set of bullet-point notes. ` +
+          `Keep the most important points and their [mm:ss] timestamps, in order. Start with the "### Part" heading of the first part.\n\n${batch.join('\n\n')}`,
+          1200
+        );
+        hooks.onBatch();
+        return response.processedContent.trim();
+      });
+    }
+
+    const merged = current.join('\n\n');
+    if (merged.length > MAX_MERGE_CHARS) {
+      throw new Error('The transcript is too long to summarize: its partial summaries could not be condensed enough.');
+    }
+    return merged;
+  }
+
+  private static writeOutput(output: SummaryOutput, source: string, fromPartials: boolean, title?: string) {
+    const about = title ? ` of "${title}"` : '';
+    const intro = fromPartials
+      ? `Below are timestamped notes on consecutive parts of a long transcript${about}. Treat them as one continuous piece of content.`
+      : `Below is a timestamped transcript${about}.`;
+
+    return this.complete(
+      `${intro}\n\n${OUTPUT_INSTRUCTIONS[output]}\nOnly use information from the ${fromPartials ? 'notes' : 'transcript'}.\n\n${source}`,
+      output === 'full' ? 2000 : 1200
+    );
+  }
+}
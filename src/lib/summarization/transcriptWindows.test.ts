@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { formatRange, groupIntoWindows, parseTranscriptSegments } from "./transcriptWindows";
+
+describe("parseTranscriptSegments", () => {
+  it("reads ranges and single markers, ending a single marker at the next one", () => {
+    const transcript = [
+      "[00:00 - 00:04.500] Welcome back.",
+      "[00:05] Today: attention.",
+      "[1:02:03] Wrapping up",
+    ].join("\n");
+    expect(parseTranscriptSegments(transcript)).toEqual([
+      { start: 0, end: 4.5, text: "Welcome back." },
+      { start: 5, end: 3723, text: "Today: attention." },
+      { start: 3723, end: 3723, text: "Wrapping up" },
+    ]);
+  });
+
+  it("joins unmarked lines to the segment above them", () => {
+    expect(parseTranscriptSegments("[00:10] First\ncontinued here\n\n[00:20] Second")).toEqual([
+      { start: 10, end: 20, text: "First continued here" },
+      { start: 20, end: 20, text: "Second" },
+    ]);
+  });
+
+  it("keeps text without markers as untimed paragraphs", () => {
+    expect(parseTranscriptSegments("Intro\n\n[not a time] aside\n[00:07] Timed")).toEqual([
+      { start: null, end: null, text: "Intro" },
+      { start: null, end: null, text: "[not a time] aside" },
+      { start: 7, end: 7, text: "Timed" },
+    ]);
+    expect(parseTranscriptSegments("  \n")).toEqual([]);
+  });
+});
+
+describe("formatRange", () => {
+  it("formats a range, a single time and no time", () => {
+    expect(formatRange(65, 3725)).toBe("01:05 - 1:02:05");
+    expect(formatRange(9, null)).toBe("00:09 - 00:09");
+    expect(formatRange(null, 10)).toBeNull();
+  });
+});
+
+describe("groupIntoWindows", () => {
+  const segments = [
+    { start: 0, end: 10, text: "one" },
+    { start: 10, end: 20, text: "two" },
+    { start: 20, end: 30, text: "three" },
+  ];
+
+  it("fills each window with whole segments up to the limit", () => {
+    // Each line is "[00:00 - 00:10] one", about twenty characters
+    const windows = groupIntoWindows(segments, 45);
+    expect(windows.map(window => window.text)).toEqual([
+      "[00:00 - 00:10] one\n[00:10 - 00:20] two",
+      "[00:20 - 00:30] three",
+    ]);
+    expect(windows.map(({ index, start, end }) => ({ index, start, end }))).toEqual([
+      { index: 0, start: 0, end: 20 },
+      { index: 1, start: 20, end: 30 },
+    ]);
+    expect(windows.every(window => window.text.length <= 45)).toBe(true);
+  });
+
+  it("puts everything in one window when it fits", () => {
+    expect(groupIntoWindows(segments, 1000)).toHaveLength(1);
+    expect(groupIntoWindows([], 1000)).toEqual([]);
+  });
+
+  it("breaks a segment longer than a window at spaces, keeping its time", () => {
+    const words = Array.from({ length: 40 }, (_, i) => `word${i}`).join(" ");
+    const windows = groupIntoWindows([{ start: 60, end: 90, text: words }], 100);
+    expect(windows.length).toBeGreaterThan(1);
+    windows.forEach(window => {
+      expect(window.text.startsWith("[01:00 - 01:30] word")).toBe(true);
+      expect(window.start).toBe(60);
+    });
+    const text = windows.map(window => window.text.replace("[01:00 - 01:30] ", "")).join(" ");
+    expect(text).toBe(words);
+  });
+
+  it("leaves untimed windows without a time", () => {
+    expect(groupIntoWindows([{ start: null, end: null, text: "Intro" }], 100)).toEqual([
+      { index: 0, start: null, end: null, text: "Intro" },
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { formatTimestamp, parseTimestamp } from "@/lib/timestamps";
+
+export interface TimedSegment {
+  // Seconds; null for text without a timestamp marker
+  start: number | null;
+  end: number | null;
+  text: string;
+}
+
+export interface TranscriptWindow {
+  index: number;
+  start: number | null;
+  end: number | null;
+  // Segments as "[mm:ss - mm:ss] text" lines, ready to send to the model
+  text: string;
+}
+
+// "[01:05 - 01:09.500] text" or "[01:05] text"
+const SEGMENT_PATTERN = /^\s*\[((?:\d+:)?\d+:\d{2}(?:\.\d+)?)(?:\s*-\s*((?:\d+:)?\d+:\d{2}(?:\.\d+)?))?\]\s*(.*)$/;
+
+export const formatRange = (start: number | null, end: number | null): string | null => {
+  if (start === null) return null;
+  return `${formatTimestamp(start)} - ${formatTimestamp(end ?? start)}`;
+};
+
+// Splits a transcript into its timed segments. Lines without a marker belong
+// to the segment above them; a transcript without any markers becomes
+// untimed paragraphs.
+export const parseTranscriptSegments = (transcript: string): TimedSegment[] => {
+  const segments: TimedSegment[] = [];
+
+  for (const line of transcript.split('\n')) {
+    const match = line.match(SEGMENT_PATTERN);
+    const start = match ? parseTimestamp(match[1]) : null;
+
+    if (match && start !== null) {
+      const end = match[2] ? parseTimestamp(match[2]) : null;
+      const previous = segments[segments.length - 1];
+      // Single markers end where the next segment starts
+      if (previous && previous.start !== null && previous.end === null) {
+        previous.end = start;
+      }
+      segments.push({ start, end, text: match[3].trim() });
+    } else if (line.trim()) {
+      const previous = segments[segments.length - 1];
+      if (previous && previous.start !== null) {
+        previous.text += ` ${line.trim()}`;
+      } else {
+        segments.push({ start: null, end: null, text: line.trim() });
+      }
+    }
+  }
+
+  const last = segments[segments.length - 1];
+  if (last && last.start !== null && last.end === null) {
+    last.end = last.start;
+  }
+
+  return segments;
+};
+
+const formatSegment = (segment: TimedSegment): string => {
+  const range = formatRange(segment.start, segment.end);
+  return range ? `[${range}] ${segment.text}` : segment.text;
+};
+
+// Breaks text longer than a window at whitespace
+const splitLongText = (text: string, maxChars: number): string[] => {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const cut = rest.lastIndexOf(' ', maxChars);
+    const index = cut > maxChars / 2 ? cut : maxChars;
+    parts.push(rest.slice(0, index).trim());
+    rest = rest.slice(index).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+};
+
+// Groups consecutive segments into windows of at most maxChars, so a window
+// never cuts through a segment and covers one contiguous stretch of time
+export const groupIntoWindows = (segments: TimedSegment[], maxChars: number): TranscriptWindow[] => {
+  const windows: TranscriptWindow[] = [];
+  let lines: string[] = [];
+  let length = 0;
+  let start: number | null = null;
+  let end: number | null = null;
+
+  const flush = () => {
+    if (lines.length === 0) return;
+    windows.push({ index: windows.length, start, end, text: lines.join('\n') });
+    lines = [];
+    length = 0;
+    start = null;
+    end = null;
+  };
+
+  for (const segment of segments) {
+    for (const text of splitLongText(segment.text, maxChars)) {
+      const line = formatSegment({ ...segment, text });
+      if (length > 0 && length + line.length + 1 > maxChars) flush();
+
+      lines.push(line);
+      length += line.length + 1;
+      if (segment.start !== null) {
+        start = start ?? segment.start;
+        end = segment.end ?? segment.start;
+      }
+    }
+  }
+  flush();
+
+  return windows;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildTagTree, findDuplicateTags, getTagDescendants, normalizeTagName, tagNameMatches } from "./tagTree";
+
+const tag = (name: string) => ({ id: name, name });
+
+describe("normalizeTagName", () => {
+  it("trims each part of the path and drops empty ones", () => {
+    expect(normalizeTagName(" ml / nlp/ ")).toBe("ml/nlp");
+    expect(normalizeTagName("//ml//deep   learning")).toBe("ml/deep learning");
+    expect(normalizeTagName(" / ")).toBe("");
+  });
+});
+
+describe("tagNameMatches", () => {
+  it("matches the tag and the tags nested under it, ignoring case", () => {
+    expect(tagNameMatches("ml", "ml")).toBe(true);
+    expect(tagNameMatches("ML/NLP", "ml")).toBe(true);
+    expect(tagNameMatches("ml/nlp/transformers", "ml/nlp")).toBe(true);
+  });
+
+  it("does not match tags that only start with the same letters or sit above it", () => {
+    expect(tagNameMatches("mlops", "ml")).toBe(false);
+    expect(tagNameMatches("ml", "ml/nlp")).toBe(false);
+    expect(tagNameMatches("ai/ml", "ml")).toBe(false);
+  });
+});
+
+describe("getTagDescendants", () => {
+  it("lists the tags a rename carries along, but not the tag itself or look-alikes", () => {
+    const tags = [tag("ml"), tag("ml/nlp"), tag("ML/vision/ocr"), tag("mlops"), tag("ai/ml")];
+    expect(getTagDescendants(tags, tags[0]).map(other => other.name)).toEqual(["ml/nlp", "ML/vision/ocr"]);
+    expect(getTagDescendants(tags, tags[1])).toEqual([]);
+  });
+});
+
+describe("buildTagTree", () => {
+  const shape = (nodes: ReturnType<typeof buildTagTree>): unknown[] =>
+    nodes.map(node => [node.label, node.tag?.id ?? null, shape(node.children)]);
+
+  it("nests tags by path, with a node for parents that are not tags", () => {
+    const tree = buildTagTree([tag("ml/nlp"), tag("books"), tag("ml/vision/ocr"), tag("Art")]);
+    expect(shape(tree)).toEqual([
+      ["Art", "Art", []],
+      ["books", "books", []],
+      ["ml", null, [
+        ["nlp", "ml/nlp", []],
+        ["vision", null, [["ocr", "ml/vision/ocr", []]]],
+      ]],
+    ]);
+    expect(tree[2].children[1].children[0]).toMatchObject({ path: "ml/vision/ocr", depth: 2 });
+  });
+
+  it("gives a parent its tag whichever comes first", () => {
+    expect(shape(buildTagTree([tag("ml/nlp"), tag("ml")]))).toEqual([["ml", "ml", [["nlp", "ml/nlp", []]]]]);
+  });
+});
+
+describe("findDuplicateTags", () => {
+  const names = (groups: { name: string }[][]) => groups.map(group => group.map(other => other.name));
+
+  it("groups tags that differ in case, spacing, punctuation or a plural", () => {
+    const tags = [tag("Machine-Learning"), tag("machine learning"), tag("machine_learnings"), tag("physics")];
+    expect(names(findDuplicateTags(tags))).toEqual([["machine learning", "machine_learnings", "Machine-Learning"]]);
+  });
+
+  it("groups a multi-word tag with its initials", () => {
+    expect(names(findDuplicateTags([tag("ML"), tag("machine-learning"), tag("ml-ops")]))).toEqual([["machine-learning", "ML"]]);
+  });
+
+  it("keeps nested tags and short words apart", () => {
+    expect(findDuplicateTags([tag("ml/nlp"), tag("nlp"), tag("bus"), tag("bu")])).toEqual([]);
+    expect(names(findDuplicateTags([tag("ml/NLP"), tag("ML / nlp")]))).toEqual([["ML / nlp", "ml/NLP"]]);
+  });
+});
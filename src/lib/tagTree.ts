@@ -0,0 +1,135 @@
+// Tags nest by name: "ml/nlp" sits under "ml", whether or not "ml" is a tag
+// itself. These build the tree the Tags page shows and find tags that are
+// probably the same thing spelled differently.
+
+interface TreeTag {
+  id: string;
+  name: string;
+}
+
+export interface TagTreeNode<T extends TreeTag> {
+  // The last part of the path, "nlp" for "ml/nlp"
+  label: string;
+  path: string;
+  // Null for a parent that only exists through the tags under it
+  tag: T | null;
+  depth: number;
+  children: TagTreeNode<T>[];
+}
+
+export const TAG_PATH_SEPARATOR = '/';
+
+// "ml / nlp/" -> "ml/nlp"
+export const normalizeTagName = (name: string): string =>
+  name
+    .split(TAG_PATH_SEPARATOR)
+    .map(part => part.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join(TAG_PATH_SEPARATOR);
+
+// Same rule as tag_name_matches in the database: "ml" matches "ml" and
+// "ml/nlp", but not "mlops"
+export const tagNameMatches = (tagName: string, wantedName: string): boolean => {
+  const name = tagName.toLowerCase();
+  const wanted = wantedName.toLowerCase();
+  return name === wanted || name.startsWith(wanted + TAG_PATH_SEPARATOR);
+};
+
+// The tags nested under a tag, which renaming it also renames
+export const getTagDescendants = <T extends TreeTag>(tags: T[], tag: TreeTag): T[] =>
+  tags.filter(other => other.id !== tag.id && tagNameMatches(other.name, tag.name));
+
+const byLabel = <T extends TreeTag>(a: TagTreeNode<T>, b: TagTreeNode<T>) =>
+  a.label.localeCompare(b.label, undefined, { sensitivity: 'base' }) || a.label.localeCompare(b.label);
+
+export const buildTagTree = <T extends TreeTag>(tags: T[]): TagTreeNode<T>[] => {
+  const roots: TagTreeNode<T>[] = [];
+  const nodesByPath = new Map<string, TagTreeNode<T>>();
+
+  tags.forEach(tag => {
+    const parts = normalizeTagName(tag.name).split(TAG_PATH_SEPARATOR);
+    let siblings = roots;
+    parts.forEach((label, index) => {
+      const path = parts.slice(0, index + 1).join(TAG_PATH_SEPARATOR);
+      let node = nodesByPath.get(path);
+      if (!node) {
+        node = { label, path, tag: null, depth: index, children: [] };
+        nodesByPath.set(path, node);
+        siblings.push(node);
+      }
+      if (index === parts.length - 1 && !node.tag) node.tag = tag;
+      siblings = node.children;
+    });
+  });
+
+  const sort = (nodes: TagTreeNode<T>[]): TagTreeNode<T>[] =>
+    nodes.sort(byLabel).map(node => ({ ...node, children: sort(node.children) }));
+
+  return sort(roots);
+};
+
+// The nodes to show: those matching and the ones leading to them
+export const filterTagTree = <T extends TreeTag>(
+  nodes: TagTreeNode<T>[],
+  matches: (node: TagTreeNode<T>) => boolean
+): TagTreeNode<T>[] =>
+  nodes.flatMap(node => {
+    const children = filterTagTree(node.children, matches);
+    return matches(node) || children.length > 0 ? [{ ...node, children }] : [];
+  });
+
+const splitWords = (part: string) => part.toLowerCase().split(/[\s_.-]+/).filter(Boolean);
+
+const singular = (word: string) =>
+  word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+// "Machine-Learning", "machine learning" and "machine_learnings" share a key
+const duplicateKey = (name: string) =>
+  normalizeTagName(name)
+    .split(TAG_PATH_SEPARATOR)
+    .map(part => splitWords(part).map(singular).join(''))
+    .join(TAG_PATH_SEPARATOR);
+
+// "machine-learning" -> "ml"; null for single words and nested tags
+const acronymKey = (name: string) => {
+  if (name.includes(TAG_PATH_SEPARATOR)) return null;
+  const words = splitWords(name);
+  return words.length > 1 ? words.map(word => word[0]).join('') : null;
+};
+
+// Groups of two or more tags that look like the same tag: the same apart
+// from case, spacing, punctuation or a plural "s", or a multi-word tag and
+// its initials ("ML" and "machine-learning")
+export const findDuplicateTags = <T extends TreeTag>(tags: T[]): T[][] => {
+  // Tags with the same key form a group; a multi-word tag's group is joined
+  // with the group of its initials
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    const next = parent.get(key) ?? key;
+    if (next === key) return key;
+    const root = find(next);
+    parent.set(key, root);
+    return root;
+  };
+  const join = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootA, rootB);
+  };
+
+  const keys = new Set(tags.map(tag => duplicateKey(tag.name)));
+  tags.forEach(tag => {
+    const acronym = acronymKey(tag.name);
+    if (acronym && keys.has(acronym)) join(duplicateKey(tag.name), acronym);
+  });
+
+  const groups = new Map<string, T[]>();
+  tags.forEach(tag => {
+    const root = find(duplicateKey(tag.name));
+    groups.set(root, [...(groups.get(root) || []), tag]);
+  });
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => group.sort((a, b) => a.name.localeCompare(b.name)));
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  ACTION_ITEMS_HEADING,
+  getNoteTasks,
+  getTaskProgress,
+  mergeActionItems,
+  parseNoteTasks,
+  setTaskDone,
+  setTaskDueDate,
+  toActionItemChecklist,
+  toTaskProgress,
+} from "./tasks";
+
+const note = [
+  "# Plan",
+  "- [ ] Send the report due:2026-10-25",
+  "* [x] Book the room",
+  "+ [X] Call back 📅 2026-11-01",
+  "- [ ]",
+  "- not a task",
+  "```",
+  "- [ ] inside a code block",
+  "```",
+  "  - [ ] Nested task",
+].join("\n");
+
+describe("parseNoteTasks", () => {
+  it("finds checklist items with their line, state and due date", () => {
+    expect(parseNoteTasks(note)).toEqual([
+      { line: 1, text: "Send the report", done: false, due_date: "2026-10-25" },
+      { line: 2, text: "Book the room", done: true, due_date: null },
+      { line: 3, text: "Call back", done: true, due_date: "2026-11-01" },
+      { line: 9, text: "Nested task", done: false, due_date: null },
+    ]);
+  });
+
+  it("reads a due date anywhere in the line but not inside a word", () => {
+    expect(parseNoteTasks("- [ ] due:2026-10-25 Send it")[0]).toMatchObject({ text: "Send it", due_date: "2026-10-25" });
+    expect(parseNoteTasks("- [ ] Read overdue:2026-10-25")[0]).toMatchObject({ text: "Read overdue:2026-10-25", due_date: null });
+    expect(parseNoteTasks("- [ ] Pay due:2026-10-25x")[0]).toMatchObject({ due_date: null });
+  });
+
+  it("keeps dates that do not exist in the text instead of as due dates", () => {
+    for (const date of ["2026-02-30", "2026-13-01", "2026-00-10"]) {
+      expect(parseNoteTasks(`- [ ] Pay due:${date}`)[0]).toEqual({ line: 0, text: `Pay due:${date}`, done: false, due_date: null });
+    }
+    expect(parseNoteTasks("- [ ] Leap day due:2028-02-29")[0].due_date).toBe("2028-02-29");
+  });
+
+  it("handles Windows line endings", () => {
+    expect(parseNoteTasks("- [ ] One due:2026-10-25\r\n- [x] Two\r\n")).toEqual([
+      { line: 0, text: "One", done: false, due_date: "2026-10-25" },
+      { line: 1, text: "Two", done: true, due_date: null },
+    ]);
+  });
+});
+
+describe("task progress", () => {
+  it("counts the tasks stored with the content", () => {
+    expect(toTaskProgress(note)).toMatchObject({ version: 1, total: 4, completed: 2 });
+    expect(toTaskProgress(null)).toEqual({ version: 1, total: 0, completed: 0, tasks: [] });
+  });
+
+  it("reads stored progress and parses the content when it was cleared", () => {
+    const stored = { content: "", task_progress: toTaskProgress("- [x] Done") };
+    expect(getTaskProgress(stored)).toEqual({ total: 1, completed: 1 });
+    expect(getNoteTasks(stored)).toHaveLength(1);
+
+    const cleared = { content: "- [ ] Open\n- [x] Done", task_progress: null };
+    expect(getTaskProgress(cleared)).toEqual({ total: 2, completed: 1 });
+    expect(getNoteTasks({ content: "- [ ] Open", task_progress: { version: 2 } })).toHaveLength(1);
+  });
+});
+
+describe("editing a task", () => {
+  const [report, room] = parseNoteTasks(note);
+
+  it("ticks and unticks the task's line", () => {
+    expect(setTaskDone(note, report, true)?.split("\n")[1]).toBe("- [x] Send the report due:2026-10-25");
+    expect(setTaskDone(note, room, false)?.split("\n")[2]).toBe("* [ ] Book the room");
+  });
+
+  it("sets, moves and removes the due date", () => {
+    expect(setTaskDueDate(note, room, "2026-12-01")?.split("\n")[2]).toBe("* [x] Book the room due:2026-12-01");
+    expect(setTaskDueDate(note, report, "2026-10-30")?.split("\n")[1]).toBe("- [ ] Send the report due:2026-10-30");
+    expect(setTaskDueDate(note, report, null)?.split("\n")[1]).toBe("- [ ] Send the report");
+    expect(setTaskDueDate("- [ ] One\r\n", parseNoteTasks("- [ ] One")[0], "2026-10-25")).toBe("- [ ] One due:2026-10-25\r\n");
+  });
+
+  it("refuses when the line no longer holds the task", () => {
+    const edited = note.replace("Send the report", "Send the summary");
+    expect(setTaskDone(edited, report, true)).toBeNull();
+    expect(setTaskDueDate("# Plan", report, null)).toBeNull();
+  });
+});
+
+describe("action items", () => {
+  it("turns list items into checklist lines and drops the rest", () => {
+    expect(toActionItemChecklist("Here are the items:\n- Email Sam\n2. Book flights\n* [x] Pack\nNone")).toBe(
+      "- [ ] Email Sam\n- [ ] Book flights\n- [ ] Pack"
+    );
+  });
+
+  it("adds a section for new items and skips ones the note already has", () => {
+    expect(mergeActionItems("Notes", "- [ ] Email Sam\n- [ ] Book flights due:2026-11-02")).toBe(
+      `Notes\n\n${ACTION_ITEMS_HEADING}\n\n- [ ] Email Sam\n- [ ] Book flights due:2026-11-02\n`
+    );
+    expect(mergeActionItems("- [x] email sam", "- [ ] Email Sam")).toBeNull();
+  });
+
+  it("appends to the existing section's checklist", () => {
+    const markdown = `${ACTION_ITEMS_HEADING}\n\n- [ ] Email Sam\n\n## Later`;
+    expect(mergeActionItems(markdown, "- [ ] Email Sam\n- [ ] Pack")).toBe(
+      `${ACTION_ITEMS_HEADING}\n\n- [ ] Email Sam\n- [ ] Pack\n\n## Later`
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Checklist items in a note, `- [ ] Send the report due:2026-10-25`, tracked as
+// tasks. notes.content stays the source of truth: ticking a task or moving its
+// due date rewrites its line, and notes.task_progress is saved alongside the
+// content so lists can show progress without parsing every note. Task due
+// dates stay there and never set notes.due_date, the owner's own deadline.
+
+export interface NoteTask {
+  // Line of the note content the task is on
+  line: number;
+  // Text without the checkbox and due date
+  text: string;
+  done: boolean;
+  // YYYY-MM-DD
+  due_date: string | null;
+}
+
+// Shape of notes.task_progress
+export interface StoredTaskProgress {
+  version: 1;
+  total: number;
+  completed: number;
+  tasks: NoteTask[];
+}
+
+// Heading of the section AI-extracted action items are written under
+export const ACTION_ITEMS_HEADING = '## ✅ Action Items';
+
+const TASK = /^(\s*[-*+] \[)([ xX])(\] ?)(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+// `due:2026-10-25`, or `📅 2026-10-25` as other task apps write it
+const DUE = /(?:^|\s)(?:due:|📅\s?)(\d{4}-\d{2}-\d{2})(?=\s|$)/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d{1,3}[.)])\s+(?:\[[ xX]\]\s*)?(.+)$/;
+
+// Date would roll 2026-02-30 over to March, so the day has to come back out
+const isValidDate = (value: string) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const parseTaskLine = (line: string, index: number): NoteTask | null => {
+  const match = line.match(TASK);
+  if (!match) return null;
+  const due = match[4].match(DUE);
+  const dueDate = due && isValidDate(due[1]) ? due[1] : null;
+  return {
+    line: index,
+    text: (dueDate ? match[4].replace(DUE, '') : match[4]).trim(),
+    done: match[2] !== ' ',
+    due_date: dueDate
+  };
+};
+
+export const parseNoteTasks = (markdown: string): NoteTask[] => {
+  const tasks: NoteTask[] = [];
+  let inFence = false;
+  markdown.split('\n').forEach((line, index) => {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const task = inFence ? null : parseTaskLine(line.replace(/\r$/, ''), index);
+    if (task?.text) tasks.push(task);
+  });
+  return tasks;
+};
+
+// notes.task_progress for the given markdown, written alongside notes.content
+export const toTaskProgress = (markdown: string | null): Json => {
+  const tasks = parseNoteTasks(markdown || '');
+  return {
+    version: 1,
+    total: tasks.length,
+    completed: tasks.filter(task => task.done).length,
+    tasks
+  } satisfies StoredTaskProgress as unknown as Json;
+};
+
+const isStoredTaskProgress = (value: Json | null | undefined): value is Json & StoredTaskProgress =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  value.version === 1 && Array.isArray(value.tasks);
+
+// A note's tasks. The database clears notes.task_progress when something
+// saves the content without it, and then the content is parsed again.
+export const getNoteTasks = (note: { content: string | null; task_progress?: Json | null }): NoteTask[] =>
+  isStoredTaskProgress(note.task_progress) ? note.task_progress.tasks : parseNoteTasks(note.content || '');
+
+export const getTaskProgress = (note: { content: string | null; task_progress?: Json | null }) => {
+  if (isStoredTaskProgress(note.task_progress)) {
+    return { total: note.task_progress.total, completed: note.task_progress.completed };
+  }
+  const tasks = parseNoteTasks(note.content || '');
+  return { total: tasks.length, completed: tasks.filter(task => task.done).length };
+};
+
+// Rewrites the task's line, or returns null when the line no longer holds
+// that task because the note changed since it was read
+const updateTaskLine = (markdown: string, task: NoteTask, update: (line: string) => string): string | null => {
+  const lines = markdown.split('\n');
+  const current = lines[task.line] !== undefined ? parseTaskLine(lines[task.line].replace(/\r$/, ''), task.line) : null;
+  if (!current || current.text !== task.text) return null;
+  lines[task.line] = update(lines[task.line]);
+  return lines.join('\n');
+};
+
+export const setTaskDone = (markdown: string, task: NoteTask, done: boolean): string | null =>
+  updateTaskLine(markdown, task, line => line.replace(TASK, (_, start, _mark, end, rest) => `${start}${done ? 'x' : ' '}${end}${rest}`));
+
+export const setTaskDueDate = (markdown: string, task: NoteTask, dueDate: string | null): string | null =>
+  updateTaskLine(markdown, task, line => {
+    const withoutDue = line.replace(/\r$/, '').replace(DUE, '').trimEnd();
+    return `${withoutDue}${dueDate ? ` due:${dueDate}` : ''}${line.endsWith('\r') ? '\r' : ''}`;
+  });
+
+// Turns the model's list of action items into checklist lines, dropping
+// anything that is not a list item, e.g. "None" or a preamble
+export const toActionItemChecklist = (text: string): string =>
+  text.split('\n')
+    .map(line => line.match(LIST_ITEM)?.[1].trim())
+    .filter((item): item is string => !!item)
+    .map(item => `- [ ] ${item}`)
+    .join('\n');
+
+// Adds the action items the note does not list yet under ACTION_ITEMS_HEADING.
+// Returns null when every item is already there.
+export const mergeActionItems = (markdown: string, checklist: string): string | null => {
+  const existing = new Set(parseNoteTasks(markdown).map(task => task.text.toLowerCase()));
+  const added = parseNoteTasks(checklist).filter(task => !existing.has(task.text.toLowerCase()));
+  if (added.length === 0) return null;
+
+  const lines = added.map(task => `- [ ] ${task.text}${task.due_date ? ` due:${task.due_date}` : ''}`);
+  const content = markdown.split('\n');
+  const heading = content.findIndex(line => line.trim() === ACTION_ITEMS_HEADING);
+  if (heading === -1) {
+    return `${markdown.trimEnd()}${markdown.trim() ? '\n\n' : ''}${ACTION_ITEMS_HEADING}\n\n${lines.join('\n')}\n`;
+  }
+
+  // After the checklist that follows the heading
+  let end = heading + 1;
+  while (end < content.length && !content[end].trim()) end++;
+  while (end < content.length && TASK.test(content[end])) end++;
+  content.splice(end, 0, ...lines);
+  return content.join('\n');
+};
@@ -0,0 +1,241 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many cells the LCS table gets too large to build in the browser;
+// the changed middle is then shown as one removal and one addition
+const MAX_TABLE_CELLS = 4_000_000;
+
+// Words and the whitespace between them as separate tokens, so a changed
+// line break does not make the neighbouring words differ
+const tokenize = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+// lengths[i * (b.length + 1) + j] = LCS length of a[i..] and b[j..], or null
+// when the table would be too large
+const buildLcsTable = (a: string[], b: string[]): Uint32Array | null => {
+  const n = a.length;
+  const width = b.length + 1;
+  if ((n + 1) * width > MAX_TABLE_CELLS) return null;
+
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  return lengths;
+};
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else if (text) {
+    parts.push({ type, text });
+  }
+};
+
+// Word-level diff of two texts based on their longest common subsequence.
+// Joining the 'equal' and 'removed' parts gives the old text back, joining
+// 'equal' and 'added' gives the new one.
+export const diffWords = (oldText: string, newText: string): DiffPart[] => {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // Common prefix and suffix never need the table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, prefix).join(''));
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  const lengths = buildLcsTable(oldMiddle, newMiddle);
+  if (!lengths) {
+    pushPart(parts, 'removed', oldMiddle.join(''));
+    pushPart(parts, 'added', newMiddle.join(''));
+  } else {
+    const width = m + 1;
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        pushPart(parts, 'equal', oldMiddle[i++]);
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushPart(parts, 'removed', oldMiddle[i++]);
+      } else {
+        pushPart(parts, 'added', newMiddle[j++]);
+      }
+    }
+    pushPart(parts, 'removed', oldMiddle.slice(i).join(''));
+    pushPart(parts, 'added', newMiddle.slice(j).join(''));
+  }
+
+  pushPart(parts, 'equal', a.slice(a.length - suffix).join(''));
+  return parts;
+};
+
+export const countChangedWords = (parts: DiffPart[]): { added: number; removed: number } =>
+  parts.reduce(
+    (counts, part) => {
+      if (part.type === 'equal') return counts;
+      const words = part.text.trim() ? part.text.trim().split(/\s+/).length : 0;
+      return part.type === 'added'
+        ? { ...counts, added: counts.added + words }
+        : { ...counts, removed: counts.removed + words };
+    },
+    { added: 0, removed: 0 }
+  );
+
+export const CONFLICT_MARKERS = {
+  mine: '<<<<<<< Your version',
+  separator: '=======',
+  theirs: '>>>>>>> Other version',
+};
+
+export interface MergeResult {
+  text: string;
+  // Places where both sides changed the same lines differently; each is
+  // written out between conflict markers
+  conflicts: number;
+}
+
+// For each line of a, the index of the line of b it is matched with by their
+// longest common subsequence, or -1
+const matchLines = (a: string[], b: string[]): Int32Array => {
+  const matches = new Int32Array(a.length).fill(-1);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    matches[prefix] = prefix;
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    matches[a.length - 1 - suffix] = b.length - 1 - suffix;
+    suffix++;
+  }
+
+  const aMiddle = a.slice(prefix, a.length - suffix);
+  const bMiddle = b.slice(prefix, b.length - suffix);
+  const lengths = buildLcsTable(aMiddle, bMiddle);
+  if (!lengths) return matches;
+
+  const width = bMiddle.length + 1;
+  let i = 0;
+  let j = 0;
+  while (i < aMiddle.length && j < bMiddle.length) {
+    if (aMiddle[i] === bMiddle[j]) {
+      matches[prefix + i++] = prefix + j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+};
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+// Line-based three-way merge of two texts edited from a common base. Changes
+// made on only one side are applied; where both sides changed the same lines
+// differently, both versions are kept between conflict markers, or only the
+// preferred side's when one is given.
+export const mergeLines = (
+  base: string,
+  mine: string,
+  theirs: string,
+  prefer?: 'mine' | 'theirs'
+): MergeResult => {
+  const o = base.split('\n');
+  const a = mine.split('\n');
+  const b = theirs.split('\n');
+  const toMine = matchLines(o, a);
+  const toTheirs = matchLines(o, b);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i < o.length || j < a.length || k < b.length) {
+    // The next base line that is still in both versions ends the current chunk
+    let next = i;
+    while (next < o.length && (toMine[next] === -1 || toTheirs[next] === -1)) next++;
+
+    if (next === i && next < o.length && toMine[next] === j && toTheirs[next] === k) {
+      output.push(o[i++]);
+      j++;
+      k++;
+      continue;
+    }
+
+    const mineEnd = next < o.length ? toMine[next] : a.length;
+    const theirsEnd = next < o.length ? toTheirs[next] : b.length;
+    const baseChunk = o.slice(i, next);
+    const mineChunk = a.slice(j, mineEnd);
+    const theirsChunk = b.slice(k, theirsEnd);
+
+    if (sameLines(mineChunk, baseChunk) || sameLines(mineChunk, theirsChunk)) {
+      output.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk)) {
+      output.push(...mineChunk);
+    } else if (prefer) {
+      conflicts++;
+      output.push(...(prefer === 'mine' ? mineChunk : theirsChunk));
+    } else {
+      conflicts++;
+      output.push(CONFLICT_MARKERS.mine, ...mineChunk, CONFLICT_MARKERS.separator, ...theirsChunk, CONFLICT_MARKERS.theirs);
+    }
+
+    i = next;
+    j = mineEnd;
+    k = theirsEnd;
+  }
+
+  return { text: output.join('\n'), conflicts };
+};
+
+// Where an offset into oldText ends up in newText, for keeping a caret in
+// place when the text around it changes
+export const mapOffset = (oldText: string, newText: string, offset: number): number => {
+  let prefix = 0;
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) prefix++;
+  if (offset <= prefix) return offset;
+
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) suffix++;
+  if (offset >= oldText.length - suffix) return offset + newText.length - oldText.length;
+
+  // Inside the changed span: keep to its end
+  return newText.length - suffix;
+};
+
+export const hasConflictMarkers = (text: string): boolean =>
+  text.split('\n').some(line => line === CONFLICT_MARKERS.mine || line === CONFLICT_MARKERS.theirs);
@@ -0,0 +1,39 @@
+// Styles that decide where a textarea's text wraps, for copies of its text
+// laid out the same way
+export const MIRRORED_STYLES = [
+  "fontFamily", "fontSize", "fontWeight", "fontStyle", "letterSpacing", "lineHeight", "textTransform",
+  "wordSpacing", "textIndent", "tabSize", "paddingTop", "paddingRight", "paddingBottom", "paddingLeft",
+  "borderTopWidth", "borderRightWidth", "borderBottomWidth", "borderLeftWidth", "boxSizing"
+] as const;
+
+// Where the caret at `offset` is drawn, in viewport coordinates. Textareas do
+// not expose this, so the text before it is laid out in a hidden copy.
+export const getCaretRect = (textarea: HTMLTextAreaElement, offset: number) => {
+  const computed = getComputedStyle(textarea);
+  const mirror = document.createElement("div");
+  for (const property of MIRRORED_STYLES) mirror.style[property] = computed[property];
+  Object.assign(mirror.style, {
+    position: "absolute",
+    top: "0",
+    left: "-9999px",
+    visibility: "hidden",
+    whiteSpace: "pre-wrap",
+    overflowWrap: "break-word",
+    borderStyle: "solid",
+    width: `${textarea.offsetWidth}px`
+  });
+  mirror.textContent = textarea.value.slice(0, offset);
+  const marker = document.createElement("span");
+  marker.textContent = "\u200b";
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+
+  const bounds = textarea.getBoundingClientRect();
+  const rect = {
+    top: bounds.top + marker.offsetTop - textarea.scrollTop,
+    left: bounds.left + marker.offsetLeft - textarea.scrollLeft,
+    height: marker.offsetHeight
+  };
+  mirror.remove();
+  return rect;
+};
@@ -0,0 +1,49 @@
+// Helpers for the [mm:ss] / [hh:mm:ss] markers used in video transcripts
+
+// Transcripts count minutes past 59 for long videos, e.g. [125:30]
+const TIMESTAMP_PATTERN = /\[(\d{1,2}:)?(\d{1,3}):(\d{2})(?:\.\d+)?/g;
+
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d{1,2}):)?(\d{1,3}):(\d{2})(?:\.(\d+))?$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    (hours ? parseInt(hours, 10) * 3600 : 0) +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    (fraction ? parseFloat(`0.${fraction}`) : 0)
+  );
+};
+
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${String(minutes).padStart(2, '0')}:${rest}`;
+};
+
+// The timestamp a passage of a transcript starts at: the last marker at or
+// before its start, or the first marker inside it when none precedes it
+export const findTimestampAt = (text: string, start: number, end: number): number | null => {
+  let current: number | null = null;
+
+  for (const match of text.matchAll(TIMESTAMP_PATTERN)) {
+    const index = match.index ?? 0;
+    const seconds = parseTimestamp(match[0].slice(1));
+    if (seconds === null) continue;
+
+    // Only whitespace before the marker still counts as the passage start
+    if (index <= start || !text.slice(start, index).trim()) {
+      current = seconds;
+    } else {
+      return current ?? (index < end ? seconds : null);
+    }
+  }
+
+  return current;
+};
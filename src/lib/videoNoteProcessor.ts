@@ -1,10 +1,26 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { ProviderId } from "@/lib/aiService";
+import type { NewNoteArtifact } from "@/lib/api";
+import { hashText } from "@/lib/embeddings";
+import {
+  excerptChapters,
+  parseChapterMarkdown,
+  parseDescriptionChapters,
+  parseTranscriptSegments,
+  SUMMARIZER_PROMPT_VERSION,
+  SummarizationProgress,
+  TimedSegment,
+  TranscriptSummarizer,
+  VideoChapter
+} from "@/lib/summarization";
+import { parseTimestamp } from "@/lib/timestamps";
 
 export interface VideoProcessingOptions {
   fetchMetadata?: boolean;
   fetchTranscript?: boolean;
   generateSummary?: boolean;
   summaryType?: 'full' | 'keypoints' | 'chapters' | 'concepts';
+  onSummaryProgress?: (progress: SummarizationProgress) => void;
   transcriptOptions?: {
     includeTimestamps?: boolean;
     language?: string;
@@ -20,6 +36,28 @@ export interface TranscriptSegment {
   speaker?: string;
 }
 
+export interface VideoChapters {
+  chapters: VideoChapter[];
+  // Where the chapter titles and boundaries came from
+  source: 'description' | 'transcript';
+  provider?: ProviderId;
+  model?: string;
+}
+
+export interface ChapterOptions {
+  // Used to look up the description when it is not given
+  videoId?: string;
+  description?: string;
+  // "4:13" or "1:02:03", as reported by the metadata
+  duration?: string;
+  title?: string;
+  onProgress?: (progress: SummarizationProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Recorded as the prompt version of chapters read from a description
+const DESCRIPTION_CHAPTERS_VERSION = 'description-v1';
+
 export interface VideoProcessingResult {
   success: boolean;
   metadata?: {
@@ -33,6 +71,7 @@ export interface VideoProcessingResult {
   transcript?: string;
   segments?: TranscriptSegment[];
   summary?: string;
+  chapters?: VideoChapters;
   error?: string;
 }
 
@@ -47,6 +86,7 @@ export class VideoNoteProcessor {
         fetchTranscript = true,
         generateSummary = false,
         summaryType = 'full',
+        onSummaryProgress,
         transcriptOptions = {}
       } = options;
 
@@ -102,26 +142,45 @@ export class VideoNoteProcessor {
         result.transcript = await this.fetchTranscriptWithRetries(videoId, transcriptOptions);
       }
 
+      // A chapter list in the description costs nothing to read, so always use it
+      if (result.transcript && result.metadata?.description) {
+        const segments = parseTranscriptSegments(result.transcript);
+        const chapters = parseDescriptionChapters(
+          result.metadata.description,
+          this.getDuration(segments, result.metadata.duration)
+        );
+        if (chapters.length > 0) {
+          result.chapters = { chapters: excerptChapters(chapters, segments), source: 'description' };
+        }
+      }
+
       // Generate AI summary if requested and we have valid transcript
       if (generateSummary && result.transcript && this.isValidTranscript(result.transcript)) {
         try {
           console.log('Generating AI summary...');
-          const summaryResult = await supabase.functions.invoke('process-content-with-deepseek', {
-            body: {
-              content: result.transcript,
-              type: 'video',
-              options: {
-                summary: summaryType === 'full' || summaryType === 'chapters',
-                highlights: summaryType === 'keypoints' || summaryType === 'full',
-                keyPoints: summaryType === 'keypoints' || summaryType === 'concepts',
-              }
-            }
+          // Long transcripts are summarized window by window, then merged
+          const summaryResult = await TranscriptSummarizer.summarize(result.transcript, {
+            outputs: [summaryType],
+            title: result.metadata?.title,
+            onProgress: onSummaryProgress
           });
 
-          if (summaryResult.data?.processedContent) {
-            result.summary = summaryResult.data.processedContent;
+          if (summaryResult.outputs[summaryType]) {
+            result.summary = summaryResult.outputs[summaryType];
             console.log('AI summary generated successfully');
           }
+
+          if (summaryType === 'chapters' && result.summary && !result.chapters) {
+            result.chapters = {
+              chapters: parseChapterMarkdown(
+                result.summary,
+                this.getDuration(parseTranscriptSegments(result.transcript), result.metadata?.duration)
+              ),
+              source: 'transcript',
+              provider: summaryResult.provider,
+              model: summaryResult.model
+            };
+          }
         } catch (error) {
           console.warn('Failed to generate AI summary:', error);
         }
@@ -137,6 +196,79 @@ export class VideoNoteProcessor {
     }
   }
 
+  // Chapters for a video transcript: the description's own chapter list when
+  // it has one, otherwise chapters the summarizer finds in the transcript.
+  // Transcripts without timestamps get no chapters.
+  static async generateChapters(transcript: string, options: ChapterOptions = {}): Promise<VideoChapters> {
+    let { description, duration } = options;
+    if (description === undefined && options.videoId) {
+      const metadata = await this.fetchDescription(options.videoId);
+      description = metadata.description;
+      duration = duration ?? metadata.duration;
+    }
+
+    const segments = parseTranscriptSegments(transcript);
+    const videoDuration = this.getDuration(segments, duration);
+    const fromDescription = description ? parseDescriptionChapters(description, videoDuration) : [];
+    if (fromDescription.length > 0) {
+      return { chapters: excerptChapters(fromDescription, segments), source: 'description' };
+    }
+
+    if (!segments.some(segment => segment.start !== null)) {
+      return { chapters: [], source: 'transcript' };
+    }
+
+    const summary = await TranscriptSummarizer.summarize(transcript, {
+      outputs: ['chapters'],
+      title: options.title,
+      onProgress: options.onProgress,
+      signal: options.signal
+    });
+    return {
+      chapters: parseChapterMarkdown(summary.outputs.chapters ?? '', videoDuration),
+      source: 'transcript',
+      provider: summary.provider,
+      model: summary.model
+    };
+  }
+
+  // Chapters are stored as a note artifact holding their JSON
+  static toChapterArtifact(result: VideoChapters, sourceContent: string): NewNoteArtifact {
+    return {
+      artifact_type: 'chapters',
+      content: JSON.stringify(result.chapters),
+      provider: result.provider,
+      model: result.model,
+      prompt_version: result.source === 'description' ? DESCRIPTION_CHAPTERS_VERSION : SUMMARIZER_PROMPT_VERSION,
+      source_hash: hashText(sourceContent)
+    };
+  }
+
+  private static async fetchDescription(videoId: string): Promise<{ description?: string; duration?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('youtube-metadata', {
+        body: { videoId }
+      });
+      if (error || !data || data.error) {
+        console.warn('Metadata fetch error:', error || data?.error);
+        return {};
+      }
+      return { description: data.description, duration: data.duration };
+    } catch (error) {
+      console.warn('Failed to fetch metadata:', error);
+      return {};
+    }
+  }
+
+  // Seconds from the metadata duration, or the end of the last timed segment
+  private static getDuration(segments: TimedSegment[], duration?: string): number | undefined {
+    const fromMetadata = duration ? parseTimestamp(duration) : null;
+    if (fromMetadata !== null) return fromMetadata;
+
+    const timed = segments.filter(segment => segment.start !== null);
+    return timed.length > 0 ? timed[timed.length - 1].end ?? undefined : undefined;
+  }
+
   private static async fetchTranscriptWithRetries(
     videoId: string, 
     options: any = {}
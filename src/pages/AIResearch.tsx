@@ -1,13 +1,15 @@
 
-import React, { useState, useCallback, useMemo } from "react";
-import { useNotes } from "@/lib/api";
+import React, { useState, useCallback, useMemo, useRef } from "react";
+import { useNotes, SEARCH_PAGE_SIZE } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { AIService } from "@/lib/aiService";
 import { OptimizedSearchService } from "@/lib/aiResearch/searchService";
-import { ContextProcessor } from "@/lib/aiResearch/contextProcessor";
+import { ContextProcessor, Citation } from "@/lib/aiResearch/contextProcessor";
 import { Sidebar } from "@/components/Sidebar";
 import { AIResearchHeader } from "@/components/ai-research/AIResearchHeader";
 import { AIResearchContent } from "@/components/ai-research/AIResearchContent";
+import { ResearchHistorySidebar } from "@/components/ai-research/ResearchHistorySidebar";
+import { useResearchSession } from "@/hooks/useResearchSession";
 
 interface SearchResult {
   id: string;
@@ -23,6 +25,7 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   sources?: SearchResult[];
+  citations?: Citation[];
   isStreaming?: boolean;
   contextFingerprint?: string;
 }
@@ -30,41 +33,86 @@ interface ChatMessage {
 export default function AIResearch() {
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isChatMode, setIsChatMode] = useState(false);
   const [chatInput, setChatInput] = useState("");
   const { toast } = useToast();
   const { data: notes } = useNotes();
+  const { activeSessionId, saveExchange, loadSession, startNewSession } = useResearchSession();
+  const latestSearchRef = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Server-side ranked search; stale responses are dropped by request id
+  const runSearch = useCallback(async (query: string, offset: number) => {
+    const requestId = ++latestSearchRef.current;
+    setIsSearching(true);
+
+    console.log(`🔍 SEARCH INITIATED: "${query}" (offset ${offset})`);
+    const searchStart = performance.now();
+
+    try {
+      const page = await OptimizedSearchService.searchNotes(query, {
+        limit: SEARCH_PAGE_SIZE,
+        offset
+      });
+
+      if (requestId !== latestSearchRef.current) return;
+
+      const searchTime = performance.now() - searchStart;
+      console.log(`⚡ SEARCH COMPLETED: ${searchTime.toFixed(1)}ms, ${page.results.length} of ${page.total} results`);
+
+      setSearchResults(prev => offset === 0 ? page.results : [...prev, ...page.results]);
+      setSearchTotal(page.total);
+      setHasMoreResults(page.hasMore);
+    } catch (error) {
+      if (requestId !== latestSearchRef.current) return;
+
+      console.error('🚨 SEARCH ERROR:', error);
+      toast({
+        title: "Search failed",
+        description: "Could not search your notes. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      if (requestId === latestSearchRef.current) {
+        setIsSearching(false);
+      }
+    }
+  }, [toast]);
 
-  // Enhanced search with strict validation
   const debouncedSearch = useMemo(() => {
     let timeoutId: NodeJS.Timeout;
     return (query: string) => {
       clearTimeout(timeoutId);
       timeoutId = setTimeout(() => {
-        if (!notes || !query.trim() || query.trim().length < 2) {
+        if (!query.trim() || query.trim().length < 2) {
+          latestSearchRef.current++;
           setSearchResults([]);
+          setSearchTotal(0);
+          setHasMoreResults(false);
+          setIsSearching(false);
           return;
         }
-        
-        console.log(`🔍 SEARCH INITIATED: "${query}" across ${notes.length} notes`);
-        const searchStart = performance.now();
-        
-        const results = OptimizedSearchService.searchNotes(notes, query);
-        const searchTime = performance.now() - searchStart;
-        
-        console.log(`⚡ SEARCH COMPLETED: ${searchTime.toFixed(1)}ms, ${results.length} results`);
-        setSearchResults(results);
+
+        runSearch(query, 0);
       }, 150);
     };
-  }, [notes]);
+  }, [runSearch]);
 
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
     debouncedSearch(query);
   }, [debouncedSearch]);
 
+  const loadMoreResults = useCallback(() => {
+    if (!hasMoreResults || isSearching) return;
+    runSearch(searchQuery, searchResults.length);
+  }, [hasMoreResults, isSearching, runSearch, searchQuery, searchResults.length]);
+
   const handleChatSubmit = async () => {
     if (!chatInput.trim() || isLoading) return;
 
@@ -75,12 +123,15 @@ export default function AIResearch() {
       timestamp: new Date()
     };
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setChatMessages(prev => [...prev, userMessage]);
     const currentInput = chatInput;
     setChatInput("");
     setIsLoading(true);
 
-    // Add streaming message placeholder
+    // Add streaming message placeholder, filled in as tokens arrive
     const streamingMessage: ChatMessage = {
       id: `assistant_${Date.now()}`,
       type: 'assistant',
@@ -96,7 +147,7 @@ export default function AIResearch() {
       console.log(`🧠 CONTEXT PROCESSING: Starting for query "${currentInput}"`);
       
       // STRICT context processing with enhanced validation
-      const contextData = ContextProcessor.processNotesForContext(notes || [], currentInput);
+      const contextData = await ContextProcessor.processNotesForContext(notes || [], currentInput);
       
       if (contextData.sources.length === 0) {
         console.log('❌ NO RELEVANT SOURCES FOUND');
@@ -112,6 +163,10 @@ export default function AIResearch() {
         
         setChatMessages(prev => [...prev, noContextMessage]);
         setIsLoading(false);
+        saveExchange([
+          { role: 'user', content: userMessage.content },
+          { role: 'assistant', content: noContextMessage.content }
+        ]);
         return;
       }
 
@@ -133,45 +188,67 @@ USER QUERY: "${currentInput}"
 
 CRITICAL INSTRUCTIONS:
 1. Answer ONLY using information from the verified sources above
-2. ALWAYS cite specific source titles when referencing information
+2. ALWAYS cite the passage each claim comes from using its CITATION number
 3. If sources contain conflicting information, acknowledge the conflict and cite each source
 4. If the query cannot be fully answered from these sources, say so explicitly
 5. DO NOT combine information from different sources unless explicitly relevant
-6. Each piece of information MUST be traceable to a specific source by title and ID
+6. Each piece of information MUST be traceable to a specific passage by its citation number
+7. Only use citation numbers that appear in the content above
 
-RESPONSE FORMAT: Reference sources like: "According to [Source Title]..." or "In the video transcript '[Title]'..."`;
+RESPONSE FORMAT: Put citation numbers in square brackets directly after each claim, e.g. "Attention lets the model weigh every token [2]." Cite several passages as [1][3].`;
 
       console.log(`📊 CONTEXT STATS: ${contextData.totalTokens} tokens from ${contextData.sources.length} verified sources`);
 
-      const { data, error } = await supabase.functions.invoke('process-content-with-deepseek', {
-        body: {
-          content: strictContext,
-          type: 'chat',
-          options: { 
-            rag: true, 
-            strict_context: true,
-            max_tokens: 2000,
-            temperature: 0.1 // Lower temperature for more factual responses
-          }
+      // Stopped before the answer started: nothing was streamed to keep
+      if (controller.signal.aborted) {
+        setChatMessages(prev => prev.filter(m => !m.isStreaming));
+        return;
+      }
+
+      const streamed = await AIService.streamContent({
+        content: strictContext,
+        type: 'chat',
+        options: { 
+          rag: true, 
+          strict_context: true,
+          citations: true,
+          max_tokens: 2000,
+          temperature: 0.1 // Lower temperature for more factual responses
         }
+      }, {
+        signal: controller.signal,
+        onDelta: content => setChatMessages(prev => prev.map(m =>
+          m.id === streamingMessage.id ? { ...m, content, citations: contextData.citations } : m
+        ))
       });
 
-      if (error) {
-        console.error('🚨 AI API ERROR:', error);
-        throw error;
-      }
-
       const responseTime = performance.now() - startTime;
       
       // Remove streaming message and add final response
       setChatMessages(prev => prev.filter(m => !m.isStreaming));
 
+      // A stopped answer keeps what was streamed but is not saved to history
+      if (streamed.aborted) {
+        if (streamed.content) {
+          setChatMessages(prev => [...prev, {
+            id: `response_${Date.now()}`,
+            type: 'assistant',
+            content: `${streamed.content}\n\n_Response stopped._`,
+            timestamp: new Date(),
+            contextFingerprint: contextData.queryFingerprint,
+            citations: contextData.citations
+          }]);
+        }
+        return;
+      }
+
       const assistantMessage: ChatMessage = {
         id: `response_${Date.now()}`,
         type: 'assistant',
-        content: data.processedContent || "I couldn't generate a response based on the available context. Please try rephrasing your question.",
+        content: streamed.content || "I couldn't generate a response based on the available context. Please try rephrasing your question.",
         timestamp: new Date(),
         contextFingerprint: contextData.queryFingerprint,
+        citations: contextData.citations,
         sources: contextData.sources.slice(0, 3).map(source => ({
           id: source.id,
           title: source.title,
@@ -183,11 +260,23 @@ RESPONSE FORMAT: Reference sources like: "According to [Source Title]..." or "In
 
       setChatMessages(prev => [...prev, assistantMessage]);
 
+      saveExchange([
+        { role: 'user', content: userMessage.content },
+        {
+          role: 'assistant',
+          content: assistantMessage.content,
+          sources: assistantMessage.sources,
+          citations: assistantMessage.citations,
+          response_time_ms: Math.round(responseTime),
+          token_count: streamed.usage?.total_tokens
+        }
+      ]);
+
       console.log(`✅ RESPONSE GENERATED: ${responseTime.toFixed(0)}ms using ${contextData.sources.length} verified sources`);
       console.log(`📈 QUALITY METRICS: Context tokens: ${contextData.totalTokens}, Sources: ${contextData.sources.length}`);
 
-      if (data.usage) {
-        console.log('💰 Token usage:', data.usage);
+      if (streamed.usage) {
+        console.log('💰 Token usage:', streamed.usage);
       }
 
       // Success notification for high-quality responses
@@ -219,9 +308,16 @@ RESPONSE FORMAT: Reference sources like: "According to [Source Title]..." or "In
       });
     } finally {
       setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  const cancelResponse = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const toggleMode = useCallback(() => {
     const newMode = !isChatMode;
     setIsChatMode(newMode);
@@ -229,22 +325,55 @@ RESPONSE FORMAT: Reference sources like: "According to [Source Title]..." or "In
     if (newMode) {
       // Switching to chat mode
       setSearchResults([]);
+      setSearchTotal(0);
+      setHasMoreResults(false);
       setSearchQuery("");
       console.log('🔄 SWITCHED TO CHAT MODE: Enhanced AI responses with strict source attribution');
     } else {
-      // Switching to search mode
+      // Switching to search mode; the conversation stays in research history
       setChatMessages([]);
-      console.log('🔄 SWITCHED TO SEARCH MODE: Fast local search across all notes');
+      startNewSession();
+      console.log('🔄 SWITCHED TO SEARCH MODE: Server-side ranked search across all notes');
     }
     
     // Clear caches for fresh start
     OptimizedSearchService.clearCache();
     ContextProcessor.clearCache();
-  }, [isChatMode]);
+  }, [isChatMode, startNewSession]);
+
+  const openSession = useCallback(async (sessionId: string) => {
+    try {
+      setChatMessages(await loadSession(sessionId));
+      setChatInput("");
+      setIsChatMode(true);
+    } catch (error) {
+      console.error('🚨 SESSION LOAD ERROR:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the research session.",
+        variant: "destructive"
+      });
+    }
+  }, [loadSession, toast]);
+
+  const startNewConversation = useCallback(() => {
+    setChatMessages([]);
+    setChatInput("");
+    setIsChatMode(true);
+    startNewSession();
+  }, [startNewSession]);
+
+  const handleSessionDeleted = useCallback((sessionId: string) => {
+    if (sessionId === activeSessionId) {
+      setChatMessages([]);
+      startNewSession();
+    }
+  }, [activeSessionId, startNewSession]);
 
   // Performance cleanup
   React.useEffect(() => {
     return () => {
+      abortControllerRef.current?.abort();
       OptimizedSearchService.clearCache();
       ContextProcessor.clearCache();
     };
@@ -257,6 +386,15 @@ RESPONSE FORMAT: Reference sources like: "According to [Source Title]..." or "In
         <Sidebar />
       </div>
 
+      <ResearchHistorySidebar
+        className="hidden lg:flex"
+        activeSessionId={activeSessionId}
+        disabled={isLoading}
+        onSelectSession={openSession}
+        onNewSession={startNewConversation}
+        onSessionDeleted={handleSessionDeleted}
+      />
+
       <div className="flex-1 flex flex-col min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
         <AIResearchHeader
           isChatMode={isChatMode}
@@ -269,12 +407,17 @@ RESPONSE FORMAT: Reference sources like: "According to [Source Title]..." or "In
           isChatMode={isChatMode}
           searchQuery={searchQuery}
           searchResults={searchResults}
+          searchTotal={searchTotal}
+          hasMoreResults={hasMoreResults}
+          isSearching={isSearching}
           chatMessages={chatMessages}
           chatInput={chatInput}
           isLoading={isLoading}
           onSearch={handleSearch}
+          onLoadMore={loadMoreResults}
           onChatInputChange={setChatInput}
           onChatSubmit={handleChatSubmit}
+          onCancelResponse={cancelResponse}
         />
       </div>
     </div>
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { PlusCircle } from "lucide-react";
 import { Sidebar } from "@/components/Sidebar";
 import { MobileNavigation } from "@/components/MobileNavigation";
@@ -7,15 +7,24 @@ import { NotesListPanel } from "@/components/NotesListPanel";
 import { NoteContentPanel } from "@/components/NoteContentPanel";
 import { EnhancedImportModal } from "@/components/import/EnhancedImportModal";
 import { useToast } from "@/hooks/use-toast";
-import { useNotes } from "@/lib/api";
+import { useNotes, useNotebooks, useSharedNotes, useSmartNotebooks } from "@/lib/api";
+import { parseNoteQuery, matchesNoteQuery } from "@/lib/search/noteQuery";
+import { getNotebookPath } from "@/lib/notebookTree";
+import { smartNotebookMatcher } from "@/lib/smartNotebooks";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { useCreateNote } from "@/lib/api";
+import { StorageQuotaError, useCreateNote, useUploadNoteAttachment } from "@/lib/api";
 
 export default function Dashboard() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const isMobile = useIsMobile();
-  const [searchQuery, setSearchQuery] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Tags and Notebooks link here with a prefilled query such as ?q=tag:ml
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get("q") || "");
+  // and the notebook tree with ?notebook=<id>, which includes the notebooks inside it
+  const notebookId = searchParams.get("notebook");
+  // and smart notebooks with ?smart=<id>
+  const smartNotebookId = searchParams.get("smart");
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
   const [importModalOpen, setImportModalOpen] = useState(false);
   const [showNoteContent, setShowNoteContent] = useState(false);
@@ -23,8 +32,12 @@ export default function Dashboard() {
   const [isSelectMode, setIsSelectMode] = useState(false);
   const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
   
-  const { data: notes, isLoading, error, refetch } = useNotes();
+  const { data: notes, isLoading, error, refetch } = useNotes({ notebookId: notebookId || undefined });
+  const { data: sharedNotes } = useSharedNotes();
+  const { data: notebooks } = useNotebooks();
+  const { data: smartNotebooks } = useSmartNotebooks();
   const createNoteMutation = useCreateNote();
+  const uploadAttachmentMutation = useUploadNoteAttachment();
 
   const handleNoteSelect = (noteId: string) => {
     if (isSelectMode) {
@@ -51,6 +64,9 @@ export default function Dashboard() {
     source_url?: string;
     thumbnail?: string;
     is_transcription?: boolean;
+    attachments?: File[];
+    tagIds?: string[];
+    notebook_id?: string;
   }) => {
     createNoteMutation.mutate(
       {
@@ -60,15 +76,29 @@ export default function Dashboard() {
           source_url: note.source_url,
           thumbnail: note.thumbnail,
           is_transcription: note.is_transcription,
+          notebook_id: note.notebook_id,
         },
-        tagIds: [],
+        tagIds: note.tagIds || [],
       },
       {
-        onSuccess: () => {
+        onSuccess: (createdNote) => {
           toast({
             title: "Content imported and saved",
             description: `Your content "${note.title}" has been imported and saved successfully.`,
           });
+          // The note is kept even when its original cannot be stored
+          note.attachments?.forEach(file => {
+            uploadAttachmentMutation.mutate({ noteId: createdNote.id, file }, {
+              onError: (error) => {
+                console.error("Attachment upload error:", error);
+                toast({
+                  title: error instanceof StorageQuotaError ? "Original file not kept" : "Error attaching file",
+                  description: error instanceof Error ? error.message : `${file.name} could not be attached to the note.`,
+                  variant: "destructive",
+                });
+              }
+            });
+          });
           refetch();
           setImportModalOpen(false);
         },
@@ -113,13 +143,43 @@ export default function Dashboard() {
     }
   };
   
-  const filteredNotes = notes?.filter(note => {
-    if (!searchQuery) return true;
-    return (
-      note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      note.content?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }) || [];
+  const parsedQuery = useMemo(() => parseNoteQuery(searchQuery), [searchQuery]);
+  const notebookNamesById = useMemo(
+    () => Object.fromEntries((notebooks || []).map(notebook => [notebook.id, notebook.name])),
+    [notebooks]
+  );
+
+  const smartNotebook = smartNotebookId
+    ? smartNotebooks?.find(smart => smart.id === smartNotebookId)
+    : undefined;
+  const matchesSmartNotebook = useMemo(
+    () => smartNotebook ? smartNotebookMatcher(smartNotebook.filters, notebooks) : null,
+    [smartNotebook, notebooks]
+  );
+
+  const filteredNotes = notes?.filter(note =>
+    matchesNoteQuery(note, parsedQuery, notebookNamesById) &&
+    (!smartNotebookId || (matchesSmartNotebook?.(note) ?? false))
+  ) || [];
+  // Shared notes are in their owners' notebooks
+  const filteredSharedNotes = notebookId || smartNotebookId ? [] : sharedNotes?.filter(note =>
+    matchesNoteQuery(note, parsedQuery, notebookNamesById)
+  ) || [];
+  const notebookFilter = smartNotebookId ? {
+    label: `Smart notebook: ${smartNotebook?.name || "…"}`,
+    onClear: () => {
+      const params = new URLSearchParams(searchParams);
+      params.delete("smart");
+      setSearchParams(params);
+    },
+  } : notebookId ? {
+    label: `Notebook: ${getNotebookPath(notebooks || [], notebookId) || "…"}`,
+    onClear: () => {
+      const params = new URLSearchParams(searchParams);
+      params.delete("notebook");
+      setSearchParams(params);
+    },
+  } : undefined;
 
   if (error) {
     return (
@@ -170,11 +230,13 @@ export default function Dashboard() {
                 <div className="flex-1 bg-[#0f0f0f]">
                   <NotesListPanel
                     notes={filteredNotes}
+                    sharedNotes={filteredSharedNotes}
                     selectedNoteId={selectedNoteId}
                     onNoteSelect={handleNoteSelect}
                     onNewNote={handleNewNote}
                     searchQuery={searchQuery}
                     onSearchChange={setSearchQuery}
+                    notebookFilter={notebookFilter}
                     isLoading={isLoading}
                     onImport={() => setImportModalOpen(true)}
                     isSelectMode={isSelectMode}
@@ -201,11 +263,13 @@ export default function Dashboard() {
             <div className={`${isNotesPanelCollapsed ? 'w-12' : 'w-80'} flex-shrink-0 transition-all duration-300 border-r border-border`}>
               <NotesListPanel
                 notes={filteredNotes}
+                sharedNotes={filteredSharedNotes}
                 selectedNoteId={selectedNoteId}
                 onNoteSelect={handleNoteSelect}
                 onNewNote={handleNewNote}
                 searchQuery={searchQuery}
                 onSearchChange={setSearchQuery}
+                notebookFilter={notebookFilter}
                 isLoading={isLoading}
                 onImport={() => setImportModalOpen(true)}
                 isCollapsed={isNotesPanelCollapsed}
@@ -0,0 +1,521 @@
+import { PointerEvent as ReactPointerEvent, ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { BookOpen, FileText, Hash, Maximize, Minus, Plus, Unlink, Video } from "lucide-react";
+import { Sidebar } from "@/components/Sidebar";
+import { MobileNavigation } from "@/components/MobileNavigation";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useNoteLinks, useNotebooks, useNotes, useTags } from "@/lib/api";
+import {
+  ForceLayout,
+  GraphEdgeKind,
+  GraphFilters,
+  GraphNode,
+  buildKnowledgeGraph,
+  clusterColor,
+  findOrphanNoteIds,
+  tagColorHex,
+} from "@/lib/graph";
+import { cn } from "@/lib/utils";
+import { useIsMobile } from "@/hooks/use-mobile";
+
+const EDGE_LENGTHS: Record<GraphEdgeKind, number> = { link: 70, tag: 90, notebook: 110 };
+const NOTE_COLOR = "#64748b";
+const NOTEBOOK_COLOR = "#0f766e";
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 4;
+// Note titles are drawn for small graphs, or once zoomed in this far
+const NOTE_LABEL_ZOOM = 1.2;
+const NOTE_LABEL_MAX_NODES = 40;
+// Pointer movement that turns a click on a node into a drag
+const DRAG_THRESHOLD = 4;
+const ORPHAN_LIST_LIMIT = 50;
+
+interface View {
+  x: number;
+  y: number;
+  k: number;
+}
+
+type PointerAction =
+  | { type: "pan"; startX: number; startY: number; view: View }
+  | { type: "drag"; node: GraphNode; startX: number; startY: number; moved: boolean };
+
+const nodeRadius = (node: GraphNode) =>
+  node.kind === "note" ? 5 + Math.min(Math.sqrt(node.degree) * 1.5, 7) : node.kind === "tag" ? 8 : 10;
+
+interface FilterPickerProps {
+  label: string;
+  icon: ReactNode;
+  options: { id: string; name: string; color?: string }[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+function FilterPicker({ label, icon, options, selected, onChange }: FilterPickerProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full justify-start">
+          {icon}
+          <span className="ml-2 truncate">{label}</span>
+          {selected.length > 0 && <span className="ml-auto text-xs text-muted-foreground">{selected.length}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        {options.length === 0 ? (
+          <p className="p-3 text-sm text-muted-foreground">Nothing to filter by yet.</p>
+        ) : (
+          <ScrollArea className="max-h-64">
+            <div className="space-y-1 p-2">
+              {options.map(option => (
+                <label
+                  key={option.id}
+                  className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent"
+                >
+                  <Checkbox
+                    checked={selected.includes(option.id)}
+                    onCheckedChange={checked => onChange(checked
+                      ? [...selected, option.id]
+                      : selected.filter(id => id !== option.id))}
+                  />
+                  {option.color && <span className={cn("h-2.5 w-2.5 shrink-0 rounded-full", option.color)} />}
+                  <span className="truncate">{option.name}</span>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        {selected.length > 0 && (
+          <div className="border-t p-1">
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange([])}>
+              Clear
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+const Graph = () => {
+  const isMobile = useIsMobile();
+  const navigate = useNavigate();
+  const { data: notes, isLoading: notesLoading, error } = useNotes();
+  const { data: tags } = useTags();
+  const { data: notebooks } = useNotebooks();
+  const { data: links } = useNoteLinks();
+
+  const [filters, setFilters] = useState<GraphFilters>({
+    tagIds: [],
+    notebookIds: [],
+    showTags: true,
+    showNotebooks: true,
+    orphansOnly: false,
+  });
+  const [clustering, setClustering] = useState(false);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [view, setView] = useState<View>({ x: 0, y: 0, k: 1 });
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [layout] = useState(() => new ForceLayout());
+  // Bumped to redraw as the layout moves
+  const [, setFrame] = useState(0);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointerAction = useRef<PointerAction | null>(null);
+  const hasFitted = useRef(false);
+
+  const graph = useMemo(() => buildKnowledgeGraph({
+    notes: notes || [],
+    tags: tags || [],
+    notebooks: notebooks || [],
+    links: links || [],
+  }, filters), [notes, tags, notebooks, links, filters]);
+
+  const orphanNotes = useMemo(() => {
+    const orphanIds = findOrphanNoteIds({ notes: notes || [], links: links || [] });
+    return (notes || []).filter(note => orphanIds.has(note.id));
+  }, [notes, links]);
+
+  const neighbours = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    for (const edge of graph.edges) {
+      map.set(edge.source, (map.get(edge.source) ?? new Set()).add(edge.target));
+      map.set(edge.target, (map.get(edge.target) ?? new Set()).add(edge.source));
+    }
+    return map;
+  }, [graph]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    layout.setGraph(
+      graph.nodes.map(node => node.id),
+      graph.edges.map(edge => ({ source: edge.source, target: edge.target, length: EDGE_LENGTHS[edge.kind] })),
+      new Map(graph.nodes.map(node => [node.id, node.cluster])),
+      clustering
+    );
+    setFrame(frame => frame + 1);
+  }, [layout, graph, clustering]);
+
+  useEffect(() => {
+    let frame = requestAnimationFrame(function step() {
+      if (!layout.isSettled) {
+        layout.tick();
+        setFrame(count => count + 1);
+      }
+      frame = requestAnimationFrame(step);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [layout]);
+
+  const fitView = useCallback(() => {
+    const bounds = layout.bounds();
+    if (!bounds || size.width === 0) return;
+    const padding = 60;
+    const k = Math.min(
+      MAX_ZOOM,
+      Math.max(MIN_ZOOM, Math.min(
+        size.width / (bounds.maxX - bounds.minX + padding * 2),
+        size.height / (bounds.maxY - bounds.minY + padding * 2)
+      ))
+    );
+    setView({
+      x: size.width / 2 - ((bounds.minX + bounds.maxX) / 2) * k,
+      y: size.height / 2 - ((bounds.minY + bounds.maxY) / 2) * k,
+      k,
+    });
+  }, [layout, size]);
+
+  // Lay the first graph out before showing it, then fit it to the screen
+  useEffect(() => {
+    if (hasFitted.current || size.width === 0 || graph.nodes.length === 0) return;
+    for (let i = 0; i < 150 && !layout.isSettled; i++) layout.tick();
+    fitView();
+    hasFitted.current = true;
+  }, [layout, graph, size, fitView]);
+
+  const zoomAt = useCallback((factor: number, originX: number, originY: number) => {
+    setView(current => {
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.k * factor));
+      return {
+        x: originX - ((originX - current.x) / current.k) * k,
+        y: originY - ((originY - current.y) / current.k) * k,
+        k,
+      };
+    });
+  }, []);
+
+  // React listens to wheel passively, so the page would scroll as well
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(Math.exp(-event.deltaY * 0.0015), event.clientX - rect.left, event.clientY - rect.top);
+    };
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [zoomAt]);
+
+  const toGraphPoint = (event: ReactPointerEvent) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return {
+      x: (event.clientX - (rect?.left ?? 0) - view.x) / view.k,
+      y: (event.clientY - (rect?.top ?? 0) - view.y) / view.k,
+    };
+  };
+
+  const handleNodeClick = (node: GraphNode) => {
+    if (node.kind === "note") {
+      navigate(`/note/${node.refId}`);
+      return;
+    }
+    const key = node.kind === "tag" ? "tagIds" : "notebookIds";
+    setFilters(current => ({
+      ...current,
+      [key]: current[key].includes(node.refId)
+        ? current[key].filter(id => id !== node.refId)
+        : [...current[key], node.refId],
+    }));
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent, node?: GraphNode) => {
+    event.stopPropagation();
+    containerRef.current?.setPointerCapture(event.pointerId);
+    pointerAction.current = node
+      ? { type: "drag", node, startX: event.clientX, startY: event.clientY, moved: false }
+      : { type: "pan", startX: event.clientX, startY: event.clientY, view };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent) => {
+    const action = pointerAction.current;
+    if (!action) return;
+    const dx = event.clientX - action.startX;
+    const dy = event.clientY - action.startY;
+    if (action.type === "pan") {
+      setView({ ...action.view, x: action.view.x + dx, y: action.view.y + dy });
+      return;
+    }
+    if (!action.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    action.moved = true;
+    layout.pin(action.node.id, toGraphPoint(event));
+    setFrame(frame => frame + 1);
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent) => {
+    const action = pointerAction.current;
+    pointerAction.current = null;
+    if (containerRef.current?.hasPointerCapture(event.pointerId)) {
+      containerRef.current.releasePointerCapture(event.pointerId);
+    }
+    if (action?.type !== "drag") return;
+    if (action.moved) {
+      layout.release(action.node.id);
+    } else {
+      handleNodeClick(action.node);
+    }
+  };
+
+  const isFaded = (id: string) => hoveredId !== null && id !== hoveredId && !neighbours.get(hoveredId)?.has(id);
+  const showNoteLabels = view.k >= NOTE_LABEL_ZOOM || graph.nodes.length <= NOTE_LABEL_MAX_NODES;
+  const hasFilters = filters.tagIds.length > 0 || filters.notebookIds.length > 0 || filters.orphansOnly;
+
+  const nodeColor = (node: GraphNode) => {
+    if (node.kind === "tag") return tagColorHex(node.colorClass);
+    if (node.kind === "notebook") return NOTEBOOK_COLOR;
+    return clustering ? clusterColor(node.cluster) : NOTE_COLOR;
+  };
+
+  return (
+    <div className="flex h-screen">
+      {/* Desktop Sidebar */}
+      <div className="hidden md:block">
+        <Sidebar />
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className={`border-b p-4 ${isMobile ? 'bg-[#0f0f0f] border-gray-800' : 'border-border bg-background'}`}>
+          <div className="flex justify-between items-center gap-2">
+            {isMobile && <MobileNavigation />}
+            <h1 className={`text-2xl font-semibold ${isMobile ? 'text-white' : ''}`}>Graph</h1>
+            <p className={`text-sm ${isMobile ? 'text-gray-400' : 'text-muted-foreground'}`}>
+              {graph.nodes.filter(node => node.kind === "note").length} notes · {graph.edges.filter(edge => edge.kind === "link").length} links
+            </p>
+          </div>
+        </header>
+
+        <div className="flex flex-1 flex-col overflow-hidden pb-16 md:flex-row md:pb-0">
+          <div
+            ref={containerRef}
+            className="relative flex-1 touch-none select-none overflow-hidden bg-muted/20"
+            onPointerDown={event => handlePointerDown(event)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {notesLoading ? (
+              <div className="flex h-full items-center justify-center">
+                <div className="animate-pulse text-muted-foreground">Loading graph...</div>
+              </div>
+            ) : error ? (
+              <div className="p-4 text-center text-red-500">Error loading notes. Please try again.</div>
+            ) : graph.nodes.length === 0 ? (
+              <div className="flex h-full flex-col items-center justify-center gap-2 p-4 text-center text-muted-foreground">
+                <p>{hasFilters ? "No notes match these filters." : "No notes to show yet."}</p>
+                {!hasFilters && (
+                  <Button asChild size="sm">
+                    <Link to="/new">Create a note</Link>
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <svg className="h-full w-full" role="img" aria-label="Knowledge graph of notes, tags and notebooks">
+                <g transform={`translate(${view.x},${view.y}) scale(${view.k})`}>
+                  {graph.edges.map(edge => {
+                    const source = layout.position(edge.source);
+                    const target = layout.position(edge.target);
+                    if (!source || !target) return null;
+                    const faded = hoveredId !== null && edge.source !== hoveredId && edge.target !== hoveredId;
+                    return (
+                      <line
+                        key={`${edge.source}-${edge.target}`}
+                        x1={source.x}
+                        y1={source.y}
+                        x2={target.x}
+                        y2={target.y}
+                        className={edge.kind === "link" ? "stroke-muted-foreground" : "stroke-border"}
+                        strokeWidth={(edge.kind === "link" ? 1.5 : 1) / view.k}
+                        strokeDasharray={edge.kind === "link" ? undefined : `${4 / view.k} ${3 / view.k}`}
+                        opacity={faded ? 0.15 : 0.8}
+                      />
+                    );
+                  })}
+                  {graph.nodes.map(node => {
+                    const position = layout.position(node.id);
+                    if (!position) return null;
+                    const radius = nodeRadius(node);
+                    const showLabel = node.kind !== "note" || showNoteLabels || node.id === hoveredId ||
+                      (hoveredId !== null && !isFaded(node.id));
+                    return (
+                      <g
+                        key={node.id}
+                        transform={`translate(${position.x},${position.y})`}
+                        className="cursor-pointer"
+                        opacity={isFaded(node.id) ? 0.2 : 1}
+                        onPointerDown={event => handlePointerDown(event, node)}
+                        onPointerEnter={() => setHoveredId(node.id)}
+                        onPointerLeave={() => setHoveredId(current => current === node.id ? null : current)}
+                      >
+                        <title>{node.kind === "note" && node.isOrphan ? `${node.label} (no tags or links)` : node.label}</title>
+                        {node.kind === "notebook" ? (
+                          <rect x={-radius} y={-radius} width={radius * 2} height={radius * 2} rx={3} fill={nodeColor(node)} />
+                        ) : (
+                          <circle
+                            r={radius}
+                            fill={node.isOrphan ? "transparent" : nodeColor(node)}
+                            stroke={node.isOrphan ? "#f59e0b" : node.kind === "tag" ? "white" : "none"}
+                            strokeWidth={node.isOrphan ? 2 : 1}
+                            strokeDasharray={node.isOrphan ? "3 2" : undefined}
+                          />
+                        )}
+                        {showLabel && (
+                          <text
+                            y={radius + 12 / view.k}
+                            textAnchor="middle"
+                            fontSize={(node.kind === "note" ? 11 : 12) / view.k}
+                            fontWeight={node.kind === "note" ? 400 : 600}
+                            className="pointer-events-none fill-foreground"
+                          >
+                            {node.label.length > 40 ? `${node.label.slice(0, 39)}…` : node.label}
+                          </text>
+                        )}
+                      </g>
+                    );
+                  })}
+                </g>
+              </svg>
+            )}
+
+            <div className="absolute bottom-3 right-3 flex flex-col gap-1" onPointerDown={event => event.stopPropagation()}>
+              <Button variant="outline" size="icon" className="h-8 w-8" title="Zoom in"
+                onClick={() => zoomAt(1.25, size.width / 2, size.height / 2)}>
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" className="h-8 w-8" title="Zoom out"
+                onClick={() => zoomAt(0.8, size.width / 2, size.height / 2)}>
+                <Minus className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" className="h-8 w-8" title="Fit to screen" onClick={fitView}>
+                <Maximize className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <aside className="max-h-[40%] overflow-y-auto border-t border-border bg-background p-4 md:max-h-none md:w-72 md:border-l md:border-t-0">
+            <div className="space-y-3">
+              <h2 className="text-sm font-semibold">Filters</h2>
+              <FilterPicker
+                label="Tags"
+                icon={<Hash className="h-4 w-4" />}
+                options={(tags || []).map(tag => ({ id: tag.id, name: tag.name, color: tag.color }))}
+                selected={filters.tagIds}
+                onChange={tagIds => setFilters(current => ({ ...current, tagIds }))}
+              />
+              <FilterPicker
+                label="Notebooks"
+                icon={<BookOpen className="h-4 w-4" />}
+                options={(notebooks || []).map(notebook => ({ id: notebook.id, name: notebook.name }))}
+                selected={filters.notebookIds}
+                onChange={notebookIds => setFilters(current => ({ ...current, notebookIds }))}
+              />
+              <div className="flex items-center justify-between">
+                <Label htmlFor="graph-show-tags">Show tags</Label>
+                <Switch id="graph-show-tags" checked={filters.showTags}
+                  onCheckedChange={showTags => setFilters(current => ({ ...current, showTags }))} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="graph-show-notebooks">Show notebooks</Label>
+                <Switch id="graph-show-notebooks" checked={filters.showNotebooks}
+                  onCheckedChange={showNotebooks => setFilters(current => ({ ...current, showNotebooks }))} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="graph-clusters">Group clusters</Label>
+                <Switch id="graph-clusters" checked={clustering} onCheckedChange={setClustering} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="graph-orphans">Only orphan notes</Label>
+                <Switch id="graph-orphans" checked={filters.orphansOnly}
+                  onCheckedChange={orphansOnly => setFilters(current => ({ ...current, orphansOnly }))} />
+              </div>
+              {clustering && (
+                <p className="text-xs text-muted-foreground">
+                  {graph.clusterCount} {graph.clusterCount === 1 ? "cluster" : "clusters"} of closely connected notes, each in its own color.
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Click a note to open it, or a tag or notebook to filter by it. Drag to move nodes and pan, scroll to zoom.
+              </p>
+            </div>
+
+            <Separator className="my-4" />
+
+            <div className="space-y-2">
+              <h2 className="flex items-center gap-2 text-sm font-semibold">
+                <Unlink className="h-4 w-4" />
+                Orphan notes
+                <span className="font-normal text-muted-foreground">({orphanNotes.length})</span>
+              </h2>
+              {orphanNotes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Every note has a tag or a link.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Notes with no tags and no links, drawn with a dashed outline.
+                  </p>
+                  <ul className="space-y-1">
+                    {orphanNotes.slice(0, ORPHAN_LIST_LIMIT).map(note => {
+                      const Icon = note.is_transcription ? Video : FileText;
+                      return (
+                        <li key={note.id}>
+                          <Link
+                            to={`/note/${note.id}`}
+                            className="flex items-center gap-2 rounded-md px-2 py-1 text-sm hover:bg-muted/50"
+                          >
+                            <Icon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                            <span className="truncate">{note.title || "Untitled Note"}</span>
+                          </Link>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  {orphanNotes.length > ORPHAN_LIST_LIMIT && (
+                    <p className="text-xs text-muted-foreground">
+                      And {orphanNotes.length - ORPHAN_LIST_LIMIT} more.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Graph;
@@ -1,9 +1,10 @@
-import { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useMemo, useState } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { FileText } from "lucide-react";
 import { Sidebar } from "@/components/Sidebar";
 import { useToast } from "@/hooks/use-toast";
-import { useNote, useUpdateNote, useDeleteNote } from "@/lib/api";
+import { getNoteAccessRole, NoteConflictError, useNote, useUpdateNote, useDeleteNote } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
 import { getYoutubeVideoId } from "@/lib/utils";
 import { NotePageHeader } from "@/components/note-page/NotePageHeader";
 import { EnhancedVideoNoteLayout } from "@/components/note-page/EnhancedVideoNoteLayout";
@@ -11,6 +12,7 @@ import { RegularNoteLayout } from "@/components/note-page/RegularNoteLayout";
 
 export default function NotePage() {
   const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<string>("summary");
@@ -18,10 +20,21 @@ export default function NotePage() {
   const { data: note, isLoading, error } = useNote(id || "");
   const updateNoteMutation = useUpdateNote();
   const deleteNoteMutation = useDeleteNote();
+  const { user } = useAuth();
+  const role = note ? getNoteAccessRole(note, user?.id) : null;
   
   const videoId = note?.source_url ? getYoutubeVideoId(note.source_url) : null;
   const isVideoNote = !!videoId && note?.is_transcription;
 
+  // Citation links open a note at ?passage=start-end and, for videos, ?t=seconds
+  const passageParam = searchParams.get("passage");
+  const timestampParam = searchParams.get("t");
+  const highlightRange = useMemo(() => {
+    const match = passageParam?.match(/^(\d+)-(\d+)$/);
+    return match ? { start: Number(match[1]), end: Number(match[2]) } : undefined;
+  }, [passageParam]);
+  const seekToTimestamp = timestampParam && /^\d+$/.test(timestampParam) ? Number(timestampParam) : undefined;
+
   const handleSave = (updatedNote: {
     title: string;
     content: string | null;
@@ -37,7 +50,9 @@ export default function NotePage() {
           content: updatedNote.content,
           updated_at: new Date().toISOString(),
         },
-        tagIds: updatedNote.tags,
+        // Tags belong to the owner; collaborators leave them as they are
+        tagIds: role === "owner" ? updatedNote.tags : undefined,
+        expectedUpdatedAt: note?.updated_at,
       },
       {
         onSuccess: () => {
@@ -49,7 +64,9 @@ export default function NotePage() {
         onError: (error) => {
           toast({
             title: "Error saving note",
-            description: "There was an error saving your note. Please try again.",
+            description: error instanceof NoteConflictError
+              ? "This note was changed elsewhere. Your changes were not saved; the latest version is now shown."
+              : "There was an error saving your note. Please try again.",
             variant: "destructive",
           });
           console.error("Save note error:", error);
@@ -141,11 +158,14 @@ export default function NotePage() {
                 videoId={videoId || ''}
                 updateNoteMutation={updateNoteMutation}
                 onSave={handleSave}
+                seekToTimestamp={seekToTimestamp}
+                highlightRange={highlightRange}
               />
             ) : (
               <RegularNoteLayout
                 note={note}
                 onSave={handleSave}
+                highlightRange={highlightRange}
               />
             )
           ) : (
@@ -1,16 +1,58 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Sidebar } from "@/components/Sidebar";
 import { MobileNavigation } from "@/components/MobileNavigation";
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NotebookTree } from "@/components/NotebookTree";
+import { ShareLinksPanel } from "@/components/ShareLinksPanel";
+import { SmartNotebookDialog } from "@/components/SmartNotebookDialog";
 import { useToast } from "@/hooks/use-toast";
-import { useNotebooks, useCreateNotebook, useUpdateNotebook, useDeleteNotebook, Notebook } from "@/lib/api";
-import { Edit, Trash, Plus, BookOpen, Search } from "lucide-react";
+import { useNotebooks, useCreateNotebook, useUpdateNotebook, useDeleteNotebook, useMoveNotebook, useNotebookNoteCounts, useSmartNotebooks, useDeleteSmartNotebook, Notebook, SmartNotebook } from "@/lib/api";
+import { Edit, Trash, Plus, BookOpen, Search, Share2, Sparkles } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { matchesText } from "@/lib/search/noteQuery";
+import { getNotebookPath, getNotebookSubtreeIds, nextNotebookPosition } from "@/lib/notebookTree";
+import { describeSmartNotebookFilters } from "@/lib/smartNotebooks";
+
+// Select value for the top level, as Radix Select does not take an empty value
+const TOP_LEVEL = "top-level";
+
+interface ParentNotebookSelectProps {
+  id: string;
+  notebooks: Notebook[];
+  value: string;
+  onChange: (value: string) => void;
+  // The notebook being edited, which cannot go inside itself
+  excludeId?: string;
+}
+
+function ParentNotebookSelect({ id, notebooks, value, onChange, excludeId }: ParentNotebookSelectProps) {
+  const excluded = excludeId ? getNotebookSubtreeIds(notebooks, excludeId) : new Set<string>();
+  const options = notebooks
+    .filter(notebook => !excluded.has(notebook.id))
+    .map(notebook => ({ id: notebook.id, path: getNotebookPath(notebooks, notebook.id) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+        {options.map(option => (
+          <SelectItem key={option.id} value={option.id}>{option.path}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
 
 export default function Notebooks() {
   const {
@@ -22,10 +64,16 @@ export default function Notebooks() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [selectedNotebook, setSelectedNotebook] = useState<Notebook | null>(null);
+  const [sharingNotebook, setSharingNotebook] = useState<Notebook | null>(null);
+  const [isSmartNotebookDialogOpen, setIsSmartNotebookDialogOpen] = useState(false);
+  const [editingSmartNotebook, setEditingSmartNotebook] = useState<SmartNotebook | null>(null);
+  const [deletingSmartNotebook, setDeletingSmartNotebook] = useState<SmartNotebook | null>(null);
   const [newNotebookName, setNewNotebookName] = useState("");
   const [newNotebookDescription, setNewNotebookDescription] = useState("");
+  const [newNotebookParent, setNewNotebookParent] = useState(TOP_LEVEL);
   const [editedNotebookName, setEditedNotebookName] = useState("");
   const [editedNotebookDescription, setEditedNotebookDescription] = useState("");
+  const [editedNotebookParent, setEditedNotebookParent] = useState(TOP_LEVEL);
   const {
     data: notebooks,
     isLoading,
@@ -34,10 +82,17 @@ export default function Notebooks() {
   const createNotebookMutation = useCreateNotebook();
   const updateNotebookMutation = useUpdateNotebook();
   const deleteNotebookMutation = useDeleteNotebook();
-  const filteredNotebooks = notebooks?.filter(notebook => {
-    if (!searchQuery) return true;
-    return notebook.name.toLowerCase().includes(searchQuery.toLowerCase()) || notebook.description?.toLowerCase().includes(searchQuery.toLowerCase());
-  });
+  const moveNotebookMutation = useMoveNotebook();
+  const { data: noteCounts } = useNotebookNoteCounts();
+  const { data: smartNotebooks } = useSmartNotebooks();
+  const deleteSmartNotebookMutation = useDeleteSmartNotebook();
+  const matchingSmartNotebooks = (smartNotebooks || []).filter(smart => matchesText(searchQuery, smart.name));
+  const matchesSearch = (notebook: Notebook) => matchesText(searchQuery, notebook.name, notebook.description);
+  const hasMatches = !!notebooks?.some(matchesSearch);
+  const openCreateModal = (parentId: string | null = null) => {
+    setNewNotebookParent(parentId ?? TOP_LEVEL);
+    setIsCreateModalOpen(true);
+  };
   const handleCreateNotebook = () => {
     if (newNotebookName.trim() === "") {
       toast({
@@ -47,14 +102,18 @@ export default function Notebooks() {
       });
       return;
     }
+    const parentId = newNotebookParent === TOP_LEVEL ? null : newNotebookParent;
     createNotebookMutation.mutate({
       name: newNotebookName,
-      description: newNotebookDescription || undefined
+      description: newNotebookDescription || undefined,
+      parent_id: parentId,
+      position: nextNotebookPosition(notebooks || [], parentId)
     }, {
       onSuccess: () => {
         setIsCreateModalOpen(false);
         setNewNotebookName("");
         setNewNotebookDescription("");
+        setNewNotebookParent(TOP_LEVEL);
         toast({
           title: "Success",
           description: "Notebook created successfully"
@@ -80,14 +139,33 @@ export default function Notebooks() {
       });
       return;
     }
+    const notebook = selectedNotebook;
+    const parentId = editedNotebookParent === TOP_LEVEL ? null : editedNotebookParent;
     updateNotebookMutation.mutate({
-      id: selectedNotebook.id,
+      id: notebook.id,
       updates: {
         name: editedNotebookName,
         description: editedNotebookDescription || null
       }
     }, {
       onSuccess: () => {
+        // A new parent takes it at the end of its notebooks
+        if (parentId !== notebook.parent_id) {
+          moveNotebookMutation.mutate({
+            id: notebook.id,
+            parentId,
+            position: nextNotebookPosition(notebooks || [], parentId)
+          }, {
+            onError: error => {
+              console.error("Error moving notebook:", error);
+              toast({
+                title: "Error",
+                description: "Notebook saved, but it could not be moved",
+                variant: "destructive"
+              });
+            }
+          });
+        }
         setIsEditModalOpen(false);
         setSelectedNotebook(null);
         toast({
@@ -130,12 +208,37 @@ export default function Notebooks() {
     setSelectedNotebook(notebook);
     setEditedNotebookName(notebook.name);
     setEditedNotebookDescription(notebook.description || "");
+    setEditedNotebookParent(notebook.parent_id ?? TOP_LEVEL);
     setIsEditModalOpen(true);
   };
   const openDeleteModal = (notebook: Notebook) => {
     setSelectedNotebook(notebook);
     setIsDeleteModalOpen(true);
   };
+  const openSmartNotebookDialog = (smartNotebook: SmartNotebook | null = null) => {
+    setEditingSmartNotebook(smartNotebook);
+    setIsSmartNotebookDialogOpen(true);
+  };
+  const handleDeleteSmartNotebook = () => {
+    if (!deletingSmartNotebook) return;
+    deleteSmartNotebookMutation.mutate(deletingSmartNotebook.id, {
+      onSuccess: () => {
+        setDeletingSmartNotebook(null);
+        toast({
+          title: "Success",
+          description: "Smart notebook deleted successfully"
+        });
+      },
+      onError: error => {
+        console.error("Error deleting smart notebook:", error);
+        toast({
+          title: "Error",
+          description: "Failed to delete smart notebook",
+          variant: "destructive"
+        });
+      }
+    });
+  };
   return <div className="flex h-screen">
       {/* Desktop Sidebar */}
       <div className="hidden md:block">
@@ -147,7 +250,7 @@ export default function Notebooks() {
           <div className="flex justify-between items-center gap-2">
             {isMobile && <MobileNavigation />}
             <h1 className={`text-2xl font-semibold ${isMobile ? 'text-white' : ''}`}>Notebooks</h1>
-            <Button onClick={() => setIsCreateModalOpen(true)} className={isMobile ? 'mobile-primary-button' : ''} variant={isMobile ? "ghost" : "default"} size={isMobile ? "icon" : "default"}>
+            <Button onClick={() => openCreateModal()} className={isMobile ? 'mobile-primary-button' : ''} variant={isMobile ? "ghost" : "default"} size={isMobile ? "icon" : "default"}>
               <Plus className="h-4 w-4 mr-2" />
               {!isMobile && "New Notebook"}
             </Button>
@@ -165,29 +268,27 @@ export default function Notebooks() {
               <div className={`animate-pulse ${isMobile ? 'text-gray-400' : ''}`}>Loading notebooks...</div>
             </div> : error ? <div className={`text-center p-4 ${isMobile ? 'text-red-400' : 'text-red-500'}`}>
               Error loading notebooks. Please try again.
-            </div> : filteredNotebooks && filteredNotebooks.length > 0 ? <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
-              {filteredNotebooks.map(notebook => <Card key={notebook.id} className={`overflow-hidden ${isMobile ? 'bg-gray-900 border-gray-800' : ''}`}>
-                  <CardHeader className={isMobile ? 'bg-gray-800' : 'bg-card'}>
-                    <CardTitle className={`flex items-center gap-2 ${isMobile ? 'text-white' : ''}`}>
-                      <BookOpen className="h-5 w-5" />
-                      {notebook.name}
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="pt-4">
-                    <p className={`text-sm line-clamp-2 ${isMobile ? 'text-gray-300' : 'text-muted-foreground'}`}>
-                      {notebook.description || "No description"}
-                    </p>
-                  </CardContent>
-                  <CardFooter className={`border-t flex justify-between p-2 ${isMobile ? 'bg-gray-800 border-gray-700' : 'bg-muted/50'}`}>
-                    <Button variant="outline" size="sm" onClick={() => openEditModal(notebook)} className={isMobile ? 'mobile-ghost-button' : ''}>
-                      <Edit className="h-4 w-4 mr-1" /> Edit
+            </div> : notebooks && hasMatches ? <Card className={isMobile ? 'bg-gray-900 border-gray-800' : ''}>
+              <CardContent className="p-2">
+                <NotebookTree notebooks={notebooks} counts={noteCounts} matches={searchQuery ? matchesSearch : undefined} renderActions={notebook => <div className="flex shrink-0 items-center opacity-100 md:opacity-0 md:group-hover:opacity-100 md:focus-within:opacity-100 transition-opacity">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="New notebook inside" aria-label={`New notebook inside ${notebook.name}`} onClick={() => openCreateModal(notebook.id)}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="Share" aria-label={`Share ${notebook.name}`} onClick={() => setSharingNotebook(notebook)}>
+                      <Share2 className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit" aria-label={`Edit ${notebook.name}`} onClick={() => openEditModal(notebook)}>
+                      <Edit className="h-4 w-4" />
                     </Button>
-                    <Button variant="outline" size="sm" className={`text-destructive hover:text-destructive ${isMobile ? 'mobile-ghost-button' : ''}`} onClick={() => openDeleteModal(notebook)}>
-                      <Trash className="h-4 w-4 mr-1" /> Delete
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive" title="Delete" aria-label={`Delete ${notebook.name}`} onClick={() => openDeleteModal(notebook)}>
+                      <Trash className="h-4 w-4" />
                     </Button>
-                  </CardFooter>
-                </Card>)}
-            </div> : <div className={`text-center p-8 flex flex-col items-center ${isMobile ? 'mobile-empty-state' : ''}`}>
+                  </div>} />
+              </CardContent>
+              <p className={`border-t px-4 py-2 text-xs ${isMobile ? 'border-gray-800 text-gray-400' : 'text-muted-foreground'}`}>
+                Drag a notebook onto another to move it inside, or onto its top or bottom edge to reorder.
+              </p>
+            </Card> : <div className={`text-center p-8 flex flex-col items-center ${isMobile ? 'mobile-empty-state' : ''}`}>
               <div className={`rounded-full p-6 mb-4 ${isMobile ? 'mobile-empty-icon' : 'bg-muted/30'}`}>
                 <BookOpen className={`h-12 w-12 ${isMobile ? 'text-gray-400' : 'text-muted-foreground/60'}`} />
               </div>
@@ -196,6 +297,43 @@ export default function Notebooks() {
               </p>
               {!searchQuery}
             </div>}
+
+          {!isLoading && !error && (matchingSmartNotebooks.length > 0 || !searchQuery) && <Card className={`mt-4 ${isMobile ? 'bg-gray-900 border-gray-800' : ''}`}>
+              <div className="flex items-center justify-between gap-2 px-4 pt-3">
+                <h2 className={`flex items-center gap-2 text-sm font-medium ${isMobile ? 'text-gray-300' : 'text-muted-foreground'}`}>
+                  <Sparkles className="h-4 w-4" />
+                  Smart Notebooks
+                </h2>
+                <Button variant="outline" size="sm" onClick={() => openSmartNotebookDialog()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Smart Notebook
+                </Button>
+              </div>
+              <CardContent className="p-2">
+                {matchingSmartNotebooks.length > 0 ? <ul className="space-y-1">
+                    {matchingSmartNotebooks.map(smart => <li key={smart.id} className="group flex items-start gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50">
+                        <Link to={`/dashboard?smart=${smart.id}`} className="min-w-0 flex-1">
+                          <span className="block truncate font-medium">{smart.name}</span>
+                          <span className="mt-1 flex flex-wrap gap-1">
+                            {describeSmartNotebookFilters(smart.filters, notebooks || []).map(label => <span key={label} className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                                {label}
+                              </span>)}
+                          </span>
+                        </Link>
+                        <div className="flex shrink-0 items-center opacity-100 md:opacity-0 md:group-hover:opacity-100 md:focus-within:opacity-100 transition-opacity">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit" aria-label={`Edit ${smart.name}`} onClick={() => openSmartNotebookDialog(smart)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive" title="Delete" aria-label={`Delete ${smart.name}`} onClick={() => setDeletingSmartNotebook(smart)}>
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </li>)}
+                  </ul> : <p className={`px-2 py-2 text-sm ${isMobile ? 'text-gray-400' : 'text-muted-foreground'}`}>
+                    Save a filter, such as transcriptions tagged interview from the last 30 days, to list its notes here and in the sidebar.
+                  </p>}
+              </CardContent>
+            </Card>}
         </main>
         
         {/* Mobile Bottom Navigation Space */}
@@ -223,6 +361,10 @@ export default function Notebooks() {
               <Label htmlFor="description">Description (optional)</Label>
               <Textarea id="description" value={newNotebookDescription} onChange={e => setNewNotebookDescription(e.target.value)} placeholder="Write a description for your notebook..." rows={3} />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="parent">Inside</Label>
+              <ParentNotebookSelect id="parent" notebooks={notebooks || []} value={newNotebookParent} onChange={setNewNotebookParent} />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsCreateModalOpen(false)}>
@@ -253,6 +395,10 @@ export default function Notebooks() {
               <Label htmlFor="edit-description">Description (optional)</Label>
               <Textarea id="edit-description" value={editedNotebookDescription} onChange={e => setEditedNotebookDescription(e.target.value)} rows={3} />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-parent">Inside</Label>
+              <ParentNotebookSelect id="edit-parent" notebooks={notebooks || []} value={editedNotebookParent} onChange={setEditedNotebookParent} excludeId={selectedNotebook?.id} />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsEditModalOpen(false)}>
@@ -265,13 +411,48 @@ export default function Notebooks() {
         </DialogContent>
       </Dialog>
       
+      {/* Share Notebook Dialog */}
+      <Dialog open={!!sharingNotebook} onOpenChange={open => !open && setSharingNotebook(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Share {sharingNotebook?.name}</DialogTitle>
+            <DialogDescription>
+              A notebook link opens every note in the notebook, including notes added later.
+            </DialogDescription>
+          </DialogHeader>
+          {sharingNotebook && <ShareLinksPanel target={{ notebookId: sharingNotebook.id }} />}
+        </DialogContent>
+      </Dialog>
+      
+      <SmartNotebookDialog open={isSmartNotebookDialogOpen} onOpenChange={setIsSmartNotebookDialogOpen} smartNotebook={editingSmartNotebook} />
+      
+      {/* Delete Smart Notebook Confirmation Dialog */}
+      <Dialog open={!!deletingSmartNotebook} onOpenChange={open => !open && setDeletingSmartNotebook(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Smart Notebook</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {deletingSmartNotebook?.name}? Only the saved filter is deleted; its notes stay where they are.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingSmartNotebook(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteSmartNotebook} disabled={deleteSmartNotebookMutation.isPending}>
+              {deleteSmartNotebookMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
       {/* Delete Notebook Confirmation Dialog */}
       <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Delete Notebook</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this notebook? This action cannot be undone.
+              Are you sure you want to delete this notebook? This action cannot be undone. Notebooks inside it move up a level.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
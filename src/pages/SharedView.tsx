@@ -0,0 +1,280 @@
+import { useMemo, useRef, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, BookOpen, Eye, FileText, Link2Off, Loader2, MessageSquare, Sparkles, Video } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Logo } from "@/components/Logo";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { VideoPlayer } from "@/components/video/VideoPlayer";
+import { TranscriptPanel } from "@/components/video/TranscriptPanel";
+import { ChapterRail } from "@/components/video/ChapterRail";
+import { MarkdownRenderer } from "@/components/markdown/MarkdownRenderer";
+import { NoteArtifactType, SharedContent, SharedContentNote, useSharedContent } from "@/lib/api";
+import { parseChapterJson, parseChapterMarkdown, VideoChapter } from "@/lib/summarization";
+import { getYoutubeVideoId } from "@/lib/utils";
+
+// Saved AI output shown with a shared note, in this order when present
+const SUMMARY_SECTIONS: { type: NoteArtifactType; label: string }[] = [
+  { type: "summary", label: "Summary" },
+  { type: "key_points", label: "Key points" },
+  { type: "highlights", label: "Highlights" },
+  { type: "narrative", label: "Narrative" }
+];
+
+interface SharedNoteViewProps {
+  note: SharedContentNote;
+  artifacts: SharedContent["artifacts"];
+}
+
+function SharedSummary({ artifacts, onTimestampClick }: Pick<SharedNoteViewProps, "artifacts"> & {
+  onTimestampClick?: (seconds: number) => void;
+}) {
+  const sections = SUMMARY_SECTIONS.filter(section => artifacts?.[section.type]);
+  if (sections.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No AI summary has been saved for this note.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {sections.map(section => (
+        <section key={section.type}>
+          <h3 className="text-sm font-semibold mb-2">{section.label}</h3>
+          {/* Rendered as elements, never HTML: the content comes from the owner and is shown to anyone with the link */}
+          <MarkdownRenderer content={artifacts?.[section.type]?.content ?? ""} onTimestampClick={onTimestampClick} />
+        </section>
+      ))}
+    </div>
+  );
+}
+
+// A YouTube note gets the player, its chapters and the transcript; any other
+// note shows its text. Both show the saved summary.
+function SharedNoteView({ note, artifacts }: SharedNoteViewProps) {
+  const videoId = note.source_url ? getYoutubeVideoId(note.source_url) : null;
+  const isVideoNote = !!videoId && note.is_transcription;
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isVideoReady, setIsVideoReady] = useState(false);
+  const [transcriptScrollTarget, setTranscriptScrollTarget] = useState<{ time: number }>();
+  const playerRef = useRef<{ seekTo: (seconds: number) => void } | null>(null);
+
+  const storedChapters = artifacts?.chapters;
+  const chapters = useMemo(
+    () => storedChapters ? parseChapterJson(storedChapters.content) : parseChapterMarkdown(note.content || ""),
+    [storedChapters, note.content]
+  );
+
+  const handleTimestampClick = (timestamp: number) => {
+    setCurrentTime(timestamp);
+    if (playerRef.current && isVideoReady) {
+      playerRef.current.seekTo(timestamp);
+    }
+  };
+
+  const handleChapterClick = (chapter: VideoChapter) => {
+    handleTimestampClick(chapter.start);
+    setTranscriptScrollTarget({ time: chapter.start });
+  };
+
+  const header = (
+    <div className="mb-6">
+      <h1 className="text-2xl font-semibold flex items-center gap-2">
+        {isVideoNote ? <Video className="h-6 w-6 text-primary" /> : <FileText className="h-6 w-6 text-primary" />}
+        {note.title}
+      </h1>
+      <p className="text-sm text-muted-foreground mt-1">
+        Updated {formatDistanceToNow(new Date(note.updated_at), { addSuffix: true })}
+      </p>
+    </div>
+  );
+
+  if (!isVideoNote) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        {header}
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <MarkdownRenderer content={note.content ?? ""} />
+          </CardContent>
+        </Card>
+        {SUMMARY_SECTIONS.some(section => artifacts?.[section.type]) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Sparkles className="h-5 w-5 text-primary" />
+                AI Summary
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SharedSummary artifacts={artifacts} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {header}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="overflow-hidden">
+          <CardContent className="p-6 space-y-6">
+            <VideoPlayer
+              videoId={videoId}
+              playerRef={playerRef}
+              onTimeUpdate={setCurrentTime}
+              onReady={() => setIsVideoReady(true)}
+            />
+            {chapters.length > 0 && (
+              <ChapterRail chapters={chapters} currentTime={currentTime} onChapterClick={handleChapterClick} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="overflow-hidden">
+          <CardContent className="p-6">
+            <Tabs defaultValue="transcript">
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="transcript">
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Transcript
+                </TabsTrigger>
+                <TabsTrigger value="summary">
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Summary
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="transcript" className="max-h-[70vh] overflow-y-auto">
+                <TranscriptPanel
+                  transcript={note.content || ""}
+                  currentTime={currentTime}
+                  onTimestampClick={handleTimestampClick}
+                  scrollTarget={transcriptScrollTarget}
+                />
+              </TabsContent>
+              <TabsContent value="summary" className="max-h-[70vh] overflow-y-auto">
+                <SharedSummary artifacts={artifacts} onTimestampClick={handleTimestampClick} />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+// Read-only view of a note or notebook opened from a public share link. No
+// account is needed; the token in the URL is checked by get_shared_content.
+export default function SharedView() {
+  const { token = "" } = useParams<{ token: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const noteId = searchParams.get("note") ?? undefined;
+  const { data: content, isLoading, error } = useSharedContent(token, noteId);
+
+  const openNote = (id: string | null) => {
+    setSearchParams(id ? { note: id } : {});
+  };
+
+  let body;
+  if (isLoading) {
+    body = (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  } else if (error || !content) {
+    body = (
+      <div className="text-center max-w-md mx-auto py-16">
+        <div className="rounded-full p-6 mb-4 bg-muted/30 inline-flex">
+          <Link2Off className="h-12 w-12 text-muted-foreground/60" />
+        </div>
+        <h1 className="text-2xl font-semibold mb-2">This link is not available</h1>
+        <p className="text-muted-foreground">
+          {error
+            ? "Something went wrong while opening it. Please try again."
+            : "It may have expired or been turned off by its owner."}
+        </p>
+      </div>
+    );
+  } else if (content.kind === "notebook" && !content.note) {
+    body = (
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <BookOpen className="h-6 w-6 text-primary" />
+            {content.notebook?.name}
+          </h1>
+          {content.notebook?.description && (
+            <p className="text-muted-foreground mt-1">{content.notebook.description}</p>
+          )}
+        </div>
+        {noteId && (
+          <p className="text-sm text-muted-foreground mb-4">That note is no longer in this notebook.</p>
+        )}
+        {content.notes && content.notes.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {content.notes.map(note => (
+              <Card
+                key={note.id}
+                className="cursor-pointer hover:shadow-md transition-shadow"
+                onClick={() => openNote(note.id)}
+              >
+                <CardHeader className="p-4">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {note.source_url && getYoutubeVideoId(note.source_url)
+                      ? <Video className="h-4 w-4 shrink-0 text-primary" />
+                      : <FileText className="h-4 w-4 shrink-0 text-primary" />}
+                    <span className="truncate">{note.title}</span>
+                  </CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    Updated {formatDistanceToNow(new Date(note.updated_at), { addSuffix: true })}
+                  </p>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-8">This notebook has no notes yet.</p>
+        )}
+      </div>
+    );
+  } else if (content.note) {
+    body = (
+      <>
+        {content.kind === "notebook" && (
+          <Button variant="ghost" size="sm" className="mb-4" onClick={() => openNote(null)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {content.notebook?.name}
+          </Button>
+        )}
+        <SharedNoteView key={content.note.id} note={content.note} artifacts={content.artifacts} />
+      </>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="border-b border-border p-4 flex items-center justify-between gap-2">
+        <Link to="/">
+          <Logo size="sm" />
+        </Link>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="gap-1">
+            <Eye className="h-3 w-3" />
+            Read-only
+          </Badge>
+          {content?.expires_at && (
+            <span className="hidden sm:inline text-xs text-muted-foreground">
+              Link expires {formatDistanceToNow(new Date(content.expires_at), { addSuffix: true })}
+            </span>
+          )}
+          <ThemeToggle />
+        </div>
+      </header>
+      <main className="flex-1 p-4 md:p-6">{body}</main>
+    </div>
+  );
+}
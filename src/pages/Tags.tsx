@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { ReactNode, useState } from "react";
 import { Sidebar } from "@/components/Sidebar";
 import { MobileNavigation } from "@/components/MobileNavigation";
-import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -26,13 +26,29 @@ import {
   useCreateTag, 
   useUpdateTag, 
   useDeleteTag,
+  useTagNoteCounts,
   Tag
 } from "@/lib/api";
-import { Edit, Trash, Plus, Hash, CirclePlus, Search } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Edit, Trash, Plus, Hash, Search, ChevronDown, ChevronRight, GitMerge, Copy, Sparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { matchesText, formatQueryToken } from "@/lib/search/noteQuery";
+import { TagMergeDialog } from "@/components/TagMergeDialog";
+import { AutoTagDialog } from "@/components/AutoTagDialog";
+import {
+  buildTagTree,
+  filterTagTree,
+  findDuplicateTags,
+  getTagDescendants,
+  normalizeTagName,
+  TagTreeNode,
+  TAG_PATH_SEPARATOR,
+} from "@/lib/tagTree";
 
 // Tag color options
+const tagNotesPath = (name: string) => `/dashboard?q=${encodeURIComponent(formatQueryToken("tag", name))}`;
+
 const colorOptions = [
   { name: "Gray", value: "bg-gray-500" },
   { name: "Red", value: "bg-red-500" },
@@ -66,14 +82,21 @@ export default function Tags() {
   const [newTagColor, setNewTagColor] = useState("bg-blue-500");
   const [editedTagName, setEditedTagName] = useState("");
   const [editedTagColor, setEditedTagColor] = useState("");
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
+  const [isMergeModalOpen, setIsMergeModalOpen] = useState(false);
+  const [mergeTagIds, setMergeTagIds] = useState<string[]>([]);
+  // Remounts the merge dialog so that it starts from mergeTagIds
+  const [mergeKey, setMergeKey] = useState(0);
+  const [isAutoTagModalOpen, setIsAutoTagModalOpen] = useState(false);
   
   const { data: tags, isLoading, error } = useTags();
+  const { data: noteCounts } = useTagNoteCounts();
   const createTagMutation = useCreateTag();
   const updateTagMutation = useUpdateTag();
   const deleteTagMutation = useDeleteTag();
   
   const handleCreateTag = () => {
-    if (newTagName.trim() === "") {
+    if (normalizeTagName(newTagName) === "") {
       toast({
         title: "Error",
         description: "Tag name cannot be empty",
@@ -84,7 +107,7 @@ export default function Tags() {
     
     createTagMutation.mutate(
       {
-        name: newTagName,
+        name: normalizeTagName(newTagName),
         color: newTagColor
       },
       {
@@ -111,7 +134,8 @@ export default function Tags() {
   
   const handleUpdateTag = () => {
     if (!selectedTag) return;
-    if (editedTagName.trim() === "") {
+    const name = normalizeTagName(editedTagName);
+    if (name === "") {
       toast({
         title: "Error",
         description: "Tag name cannot be empty",
@@ -124,7 +148,7 @@ export default function Tags() {
       {
         id: selectedTag.id,
         updates: {
-          name: editedTagName,
+          ...(name !== selectedTag.name && { name }),
           color: editedTagColor
         }
       },
@@ -175,6 +199,29 @@ export default function Tags() {
     );
   };
   
+  const openCreateModal = (parentPath?: string) => {
+    setNewTagName(parentPath ? parentPath + TAG_PATH_SEPARATOR : "");
+    setIsCreateModalOpen(true);
+  };
+  
+  const openMergeModal = (tagIds: string[] = []) => {
+    setMergeTagIds(tagIds);
+    setMergeKey(key => key + 1);
+    setIsMergeModalOpen(true);
+  };
+  
+  const toggleCollapsed = (path: string) => {
+    setCollapsedPaths(current => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+  
   const openEditModal = (tag: Tag) => {
     setSelectedTag(tag);
     setEditedTagName(tag.name);
@@ -187,10 +234,77 @@ export default function Tags() {
     setIsDeleteModalOpen(true);
   };
 
-  const filteredTags = tags?.filter(tag => {
-    if (!searchQuery) return true;
-    return tag.name.toLowerCase().includes(searchQuery.toLowerCase());
-  });
+  const tree = buildTagTree(tags || []);
+  const visibleTree = searchQuery ? filterTagTree(tree, node => matchesText(searchQuery, node.path)) : tree;
+  const duplicateGroups = findDuplicateTags(tags || []);
+  const renamedDescendants = selectedTag ? getTagDescendants(tags || [], selectedTag) : [];
+  
+  const renderNode = (node: TagTreeNode<Tag>): ReactNode => {
+    const { tag } = node;
+    const isCollapsed = collapsedPaths.has(node.path) && !searchQuery;
+    const count = tag ? noteCounts?.[tag.id] : undefined;
+    
+    return (
+      <li key={tag?.id ?? node.path}>
+        <div
+          className={cn(
+            "group flex h-11 items-center gap-1 rounded-md pr-1 transition-colors",
+            isMobile ? "hover:bg-gray-800" : "hover:bg-muted/60"
+          )}
+          style={{ paddingLeft: node.depth * 20 + 4 }}
+        >
+          <button
+            type="button"
+            className={cn(
+              "flex h-5 w-5 shrink-0 items-center justify-center rounded text-muted-foreground hover:text-foreground",
+              node.children.length === 0 && "invisible"
+            )}
+            onClick={() => toggleCollapsed(node.path)}
+            aria-label={isCollapsed ? `Expand ${node.path}` : `Collapse ${node.path}`}
+          >
+            {isCollapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+          </button>
+          <Link to={tagNotesPath(node.path)} className="flex min-w-0 flex-1 items-center gap-2 self-stretch" title="View notes with this tag">
+            <div className={cn("h-3 w-3 shrink-0 rounded-full", tag ? tag.color : "border border-dashed border-muted-foreground")} />
+            <span className={cn("truncate", tag ? "font-medium" : "text-muted-foreground", isMobile && tag && "text-white")}>
+              {node.label}
+            </span>
+          </Link>
+          {count && count.total_count > 0 && (
+            <span
+              className="shrink-0 text-xs tabular-nums text-muted-foreground"
+              title={count.total_count === count.note_count
+                ? `${count.note_count} notes`
+                : `${count.note_count} notes with this tag, ${count.total_count} including nested tags`}
+            >
+              {count.total_count}
+            </span>
+          )}
+          <div className="flex shrink-0 items-center opacity-100 md:opacity-0 md:group-hover:opacity-100 md:focus-within:opacity-100 transition-opacity">
+            <Button variant="ghost" size="icon" className="h-8 w-8" title="New nested tag" aria-label={`New tag inside ${node.path}`} onClick={() => openCreateModal(node.path)}>
+              <Plus className="h-4 w-4" />
+            </Button>
+            {tag && (
+              <>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Merge" aria-label={`Merge ${tag.name}`} onClick={() => openMergeModal([tag.id])}>
+                  <GitMerge className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit" aria-label={`Edit ${tag.name}`} onClick={() => openEditModal(tag)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive" title="Delete" aria-label={`Delete ${tag.name}`} onClick={() => openDeleteModal(tag)}>
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        {node.children.length > 0 && !isCollapsed && (
+          <ul>{node.children.map(renderNode)}</ul>
+        )}
+      </li>
+    );
+  };
 
   return (
     <div className="flex h-screen">
@@ -204,15 +318,38 @@ export default function Tags() {
           <div className="flex justify-between items-center gap-2">
             {isMobile && <MobileNavigation />}
             <h1 className={`text-2xl font-semibold ${isMobile ? 'text-white' : ''}`}>Tags</h1>
-            <Button 
-              onClick={() => setIsCreateModalOpen(true)}
-              className={isMobile ? 'mobile-primary-button' : ''}
-              variant={isMobile ? "ghost" : "default"}
-              size={isMobile ? "icon" : "default"}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              {!isMobile && "New Tag"}
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => setIsAutoTagModalOpen(true)}
+                variant={isMobile ? "ghost" : "outline"}
+                size={isMobile ? "icon" : "default"}
+                className={isMobile ? 'mobile-ghost-button' : ''}
+                title="Suggest tags for untagged notes"
+              >
+                <Sparkles className="h-4 w-4 md:mr-2" />
+                {!isMobile && "Auto-tag"}
+              </Button>
+              {tags && tags.length > 1 && (
+                <Button
+                  onClick={() => openMergeModal()}
+                  variant={isMobile ? "ghost" : "outline"}
+                  size={isMobile ? "icon" : "default"}
+                  className={isMobile ? 'mobile-ghost-button' : ''}
+                >
+                  <GitMerge className="h-4 w-4 md:mr-2" />
+                  {!isMobile && "Merge Tags"}
+                </Button>
+              )}
+              <Button 
+                onClick={() => openCreateModal()}
+                className={isMobile ? 'mobile-primary-button' : ''}
+                variant={isMobile ? "ghost" : "default"}
+                size={isMobile ? "icon" : "default"}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {!isMobile && "New Tag"}
+              </Button>
+            </div>
           </div>
           
           {/* Search Bar */}
@@ -236,42 +373,42 @@ export default function Tags() {
             <div className={`text-center p-4 ${isMobile ? 'text-red-400' : 'text-red-500'}`}>
               Error loading tags. Please try again.
             </div>
-          ) : filteredTags && filteredTags.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {filteredTags.map((tag) => (
-                <Card key={tag.id} className={`overflow-hidden ${isMobile ? 'bg-gray-900 border-gray-800' : ''}`}>
-                  <CardHeader className={cn("flex flex-row items-center gap-2 py-3", tag.color, "bg-opacity-15")}>
-                    <div className={cn("h-3 w-3 rounded-full", tag.color)} />
-                    <span className={`font-medium ${isMobile ? 'text-white' : ''}`}>{tag.name}</span>
+          ) : visibleTree.length > 0 ? (
+            <div className="space-y-4">
+              {duplicateGroups.length > 0 && !searchQuery && (
+                <Card className={isMobile ? 'bg-gray-900 border-gray-800' : ''}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className={`flex items-center gap-2 text-base ${isMobile ? 'text-white' : ''}`}>
+                      <Copy className="h-4 w-4" />
+                      Possible duplicates
+                    </CardTitle>
                   </CardHeader>
-                  <CardFooter className={`border-t flex justify-between p-2 ${isMobile ? 'bg-gray-800 border-gray-700' : 'bg-muted/50'}`}>
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      onClick={() => openEditModal(tag)}
-                      className={`h-8 px-2 ${isMobile ? 'mobile-ghost-button' : ''}`}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button 
-                      variant="ghost" 
-                      size="sm"
-                      onClick={() => openDeleteModal(tag)}
-                      className={`h-8 px-2 text-destructive hover:text-destructive ${isMobile ? 'mobile-ghost-button' : ''}`}
-                    >
-                      <Trash className="h-4 w-4" />
-                    </Button>
-                  </CardFooter>
+                  <CardContent className="space-y-2">
+                    {duplicateGroups.map(group => (
+                      <div key={group.map(tag => tag.id).join()} className="flex flex-wrap items-center gap-2">
+                        {group.map(tag => (
+                          <span key={tag.id} className="flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-sm">
+                            <div className={cn("h-2 w-2 rounded-full", tag.color)} />
+                            {tag.name}
+                            <span className="text-xs tabular-nums text-muted-foreground">{noteCounts?.[tag.id]?.note_count ?? 0}</span>
+                          </span>
+                        ))}
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => openMergeModal(group.map(tag => tag.id))}>
+                          <GitMerge className="h-3.5 w-3.5 mr-1" />
+                          Merge
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
                 </Card>
-              ))}
-              <Card 
-                className={`flex items-center justify-center cursor-pointer border-dashed ${isMobile ? 'bg-gray-900 border-gray-700' : ''}`}
-                onClick={() => setIsCreateModalOpen(true)}
-              >
-                <CardContent className="flex flex-col items-center justify-center p-6">
-                  <CirclePlus className={`h-8 w-8 mb-2 ${isMobile ? 'text-gray-400' : 'text-muted-foreground'}`} />
-                  <span className={`text-sm ${isMobile ? 'text-gray-400' : 'text-muted-foreground'}`}>Add New Tag</span>
+              )}
+              <Card className={isMobile ? 'bg-gray-900 border-gray-800' : ''}>
+                <CardContent className="p-2">
+                  <ul className="space-y-1">{visibleTree.map(renderNode)}</ul>
                 </CardContent>
+                <p className={`border-t px-4 py-2 text-xs ${isMobile ? 'border-gray-800 text-gray-400' : 'text-muted-foreground'}`}>
+                  Use / in a name to nest tags, e.g. ml/nlp. Filtering on a tag includes the tags nested under it.
+                </p>
               </Card>
             </div>
           ) : (
@@ -284,7 +421,7 @@ export default function Tags() {
               </p>
               {!searchQuery && (
                 <Button 
-                  onClick={() => setIsCreateModalOpen(true)}
+                  onClick={() => openCreateModal()}
                   className={isMobile ? 'mobile-primary-button' : ''}
                 >
                   <Plus className="h-4 w-4 mr-2" />
@@ -308,7 +445,7 @@ export default function Tags() {
           <DialogHeader>
             <DialogTitle>Create Tag</DialogTitle>
             <DialogDescription>
-              Create a new tag to categorize your notes.
+              Create a new tag to categorize your notes. Use / to nest it under another tag.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-2">
@@ -318,7 +455,7 @@ export default function Tags() {
                 id="name"
                 value={newTagName}
                 onChange={(e) => setNewTagName(e.target.value)}
-                placeholder="Work"
+                placeholder="Work or ml/nlp"
               />
             </div>
             <div className="space-y-2">
@@ -365,6 +502,7 @@ export default function Tags() {
             <DialogTitle>Edit Tag</DialogTitle>
             <DialogDescription>
               Update tag details.
+              {renamedDescendants.length > 0 && ` Renaming it also renames the ${renamedDescendants.length} tag${renamedDescendants.length !== 1 ? "s" : ""} nested under it.`}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-2">
@@ -413,6 +551,17 @@ export default function Tags() {
         </DialogContent>
       </Dialog>
       
+      <TagMergeDialog
+        key={mergeKey}
+        open={isMergeModalOpen}
+        onOpenChange={setIsMergeModalOpen}
+        tags={tags || []}
+        counts={noteCounts}
+        initialTagIds={mergeTagIds}
+      />
+      
+      <AutoTagDialog open={isAutoTagModalOpen} onOpenChange={setIsAutoTagModalOpen} />
+      
       {/* Delete Tag Confirmation Dialog */}
       <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
         <DialogContent>
@@ -420,6 +569,7 @@ export default function Tags() {
             <DialogTitle>Delete Tag</DialogTitle>
             <DialogDescription>
               Are you sure you want to delete this tag? This action cannot be undone.
+              {renamedDescendants.length > 0 && " Tags nested under it are kept."}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { CalendarDays, FileText, ListChecks, Search, Video } from "lucide-react";
+import { Sidebar } from "@/components/Sidebar";
+import { MobileNavigation } from "@/components/MobileNavigation";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { NoteConflictError, NoteWithTags, useNotes, useUpdateNote } from "@/lib/api";
+import { getNoteTasks, NoteTask, setTaskDone, setTaskDueDate } from "@/lib/tasks";
+import { matchesText } from "@/lib/search/noteQuery";
+import { cn } from "@/lib/utils";
+
+interface TaskRow {
+  key: string;
+  note: NoteWithTags;
+  task: NoteTask;
+}
+
+type TaskGroup = "overdue" | "today" | "week" | "later" | "someday" | "done";
+
+const GROUP_TITLES: Record<TaskGroup, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  week: "Next 7 days",
+  later: "Later",
+  someday: "No due date",
+  done: "Completed",
+};
+
+const GROUP_ORDER: TaskGroup[] = ["overdue", "today", "week", "later", "someday", "done"];
+
+const taskGroup = (task: NoteTask, today: Date): TaskGroup => {
+  if (task.done) return "done";
+  if (!task.due_date) return "someday";
+  const days = differenceInCalendarDays(parseISO(task.due_date), today);
+  if (days < 0) return "overdue";
+  if (days === 0) return "today";
+  return days <= 7 ? "week" : "later";
+};
+
+export default function Tasks() {
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showCompleted, setShowCompleted] = useState(false);
+  // Ticks shown before the save comes back, by row key
+  const [pending, setPending] = useState<Record<string, boolean>>({});
+
+  const { data: notes, isLoading, error } = useNotes();
+  const updateNoteMutation = useUpdateNote();
+
+  // Saved ticks are in the refreshed notes
+  useEffect(() => {
+    setPending({});
+  }, [notes]);
+
+  const rows = useMemo<TaskRow[]>(() => (notes || []).flatMap(note =>
+    getNoteTasks(note).map(task => ({ key: `${note.id}:${task.line}`, note, task }))), [notes]);
+
+  const today = new Date();
+  const visibleRows = rows.filter(row =>
+    (showCompleted || !row.task.done) &&
+    (matchesText(searchQuery, row.task.text) || matchesText(searchQuery, row.note.title)));
+  const groups = GROUP_ORDER
+    .map(group => ({
+      group,
+      rows: visibleRows
+        .filter(row => taskGroup(row.task, today) === group)
+        .sort((a, b) =>
+          (a.task.due_date ?? "9999").localeCompare(b.task.due_date ?? "9999") ||
+          new Date(b.note.updated_at).getTime() - new Date(a.note.updated_at).getTime() ||
+          a.task.line - b.task.line),
+    }))
+    .filter(({ rows }) => rows.length > 0);
+  const openCount = rows.filter(row => !row.task.done).length;
+  const savingNoteIds = new Set(Object.keys(pending).map(key => key.split(":")[0]));
+
+  const clearPending = (key: string) => {
+    setPending(current => {
+      const next = { ...current };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const saveTask = (row: TaskRow, content: string | null, onSaved?: () => void) => {
+    if (content === null) {
+      clearPending(row.key);
+      toast({
+        title: "Task changed",
+        description: "The note was edited since this list loaded. Try again once it refreshes.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateNoteMutation.mutate(
+      {
+        id: row.note.id,
+        updates: { content, updated_at: new Date().toISOString() },
+        expectedUpdatedAt: row.note.updated_at,
+      },
+      {
+        onSuccess: onSaved,
+        onError: (error) => {
+          console.error("Error updating task:", error);
+          clearPending(row.key);
+          toast({
+            title: "Error updating task",
+            description: error instanceof NoteConflictError
+              ? "The note was changed elsewhere. The latest version is now shown."
+              : "Failed to update the task. Please try again.",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const toggleTask = (row: TaskRow, done: boolean) => {
+    setPending(current => ({ ...current, [row.key]: done }));
+    saveTask(row, setTaskDone(row.note.content || "", row.task, done));
+  };
+
+  const changeDueDate = (row: TaskRow, date: Date | undefined) => {
+    const dueDate = date ? format(date, "yyyy-MM-dd") : null;
+    saveTask(row, setTaskDueDate(row.note.content || "", row.task, dueDate), () => {
+      toast({
+        title: dueDate ? "Due date set" : "Due date removed",
+        description: dueDate ? `Due ${format(date as Date, "PPP")}` : row.task.text,
+      });
+    });
+  };
+
+  const renderTask = (row: TaskRow) => {
+    const done = pending[row.key] ?? row.task.done;
+    const overdue = !done && taskGroup(row.task, today) === "overdue";
+    const NoteIcon = row.note.is_transcription ? Video : FileText;
+
+    return (
+      <li key={row.key} className="flex items-start gap-3 py-2">
+        <Checkbox
+          className="mt-0.5"
+          checked={done}
+          disabled={savingNoteIds.has(row.note.id)}
+          onCheckedChange={checked => toggleTask(row, checked === true)}
+          aria-label={done ? "Mark as not done" : "Mark as done"}
+        />
+        <div className="min-w-0 flex-1">
+          <p className={cn("text-sm break-words", done && "text-muted-foreground line-through")}>{row.task.text}</p>
+          <Link
+            to={`/note/${row.note.id}`}
+            className="mt-0.5 inline-flex max-w-full items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <NoteIcon className="h-3 w-3 shrink-0" />
+            <span className="truncate">{row.note.title || "Untitled Note"}</span>
+          </Link>
+        </div>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn("h-7 shrink-0 px-2 text-xs", overdue ? "text-red-500" : "text-muted-foreground")}
+              disabled={savingNoteIds.has(row.note.id)}
+            >
+              <CalendarDays className="mr-1 h-3.5 w-3.5" />
+              {row.task.due_date ? format(parseISO(row.task.due_date), "MMM d") : "Due date"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="single"
+              selected={row.task.due_date ? parseISO(row.task.due_date) : undefined}
+              onSelect={date => changeDueDate(row, date)}
+              initialFocus
+            />
+            {row.task.due_date && (
+              <div className="border-t p-1">
+                <Button variant="ghost" size="sm" className="w-full" onClick={() => changeDueDate(row, undefined)}>
+                  Remove due date
+                </Button>
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+      </li>
+    );
+  };
+
+  return (
+    <div className="flex h-screen">
+      {/* Desktop Sidebar */}
+      <div className="hidden md:block">
+        <Sidebar />
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <header className={`border-b p-4 ${isMobile ? 'bg-[#0f0f0f] border-gray-800' : 'border-border bg-background'}`}>
+          <div className="flex justify-between items-center gap-2">
+            {isMobile && <MobileNavigation />}
+            <h1 className={`text-2xl font-semibold ${isMobile ? 'text-white' : ''}`}>Tasks</h1>
+            <div className="flex items-center gap-2">
+              <Switch id="show-completed" checked={showCompleted} onCheckedChange={setShowCompleted} />
+              <Label htmlFor="show-completed" className={isMobile ? 'text-gray-300' : ''}>Show completed</Label>
+            </div>
+          </div>
+
+          {/* Search Bar */}
+          <div className="mt-4 relative">
+            <Search className={`absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 ${isMobile ? 'text-gray-400' : 'text-muted-foreground'}`} />
+            <Input
+              placeholder="Search tasks..."
+              className={`pl-10 w-full ${isMobile ? 'mobile-search' : ''}`}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+        </header>
+
+        <main className={`flex-1 overflow-y-auto p-4 pb-20 md:pb-4 ${isMobile ? 'bg-[#0f0f0f]' : ''}`}>
+          {isLoading ? (
+            <div className="flex justify-center items-center h-64">
+              <div className={`animate-pulse ${isMobile ? 'text-gray-400' : ''}`}>Loading tasks...</div>
+            </div>
+          ) : error ? (
+            <div className={`text-center p-4 ${isMobile ? 'text-red-400' : 'text-red-500'}`}>
+              Error loading tasks. Please try again.
+            </div>
+          ) : groups.length > 0 ? (
+            <div className="mx-auto max-w-3xl space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {openCount} open {openCount === 1 ? "task" : "tasks"} across your notes
+              </p>
+              {groups.map(({ group, rows }) => (
+                <Card key={group} className={isMobile ? 'bg-gray-900 border-gray-800' : ''}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className={cn("text-base", group === "overdue" && "text-red-500")}>
+                      {GROUP_TITLES[group]}
+                      <span className="ml-2 text-sm font-normal text-muted-foreground">({rows.length})</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y divide-border">{rows.map(renderTask)}</ul>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-64 text-center">
+              <div className={`rounded-full p-6 mb-4 ${isMobile ? 'mobile-empty-icon' : 'bg-muted/30'}`}>
+                <ListChecks className={`h-12 w-12 ${isMobile ? 'text-gray-400' : 'text-muted-foreground'}`} />
+              </div>
+              <h3 className={`text-lg font-medium mb-2 ${isMobile ? 'text-white' : ''}`}>
+                {searchQuery ? "No matching tasks" : rows.length > 0 ? "All tasks done" : "No tasks yet"}
+              </h3>
+              <p className={`max-w-md ${isMobile ? 'text-gray-400' : 'text-muted-foreground'}`}>
+                Checklist items in your notes show up here. Write "- [ ] Send the report due:YYYY-MM-DD" in a note to add one with a due date.
+              </p>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
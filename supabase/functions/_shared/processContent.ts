@@ -0,0 +1,71 @@
+// Request/response contract of the process-content edge function. Shared
+// with the web client (src/lib/aiService.ts), so this file must stay free of
+// imports and Deno-only APIs.
+
+export type ProviderId = "deepseek" | "openai" | "local";
+
+export type ContentType = "text" | "video" | "audio" | "podcast" | "chat";
+
+export interface ProcessContentOptions {
+  summary?: boolean;
+  highlights?: boolean;
+  keyPoints?: boolean;
+  conversational?: boolean;
+  helpful?: boolean;
+  educational?: boolean;
+  // Chat content is a retrieval context built from the user's notes
+  rag?: boolean;
+  strict_context?: boolean;
+  // Context passages are labelled "CITATION: [n]" and answers cite them
+  citations?: boolean;
+  temperature?: number;
+  max_tokens?: number;
+}
+
+export interface ProcessContentRequest {
+  content: string;
+  type: ContentType;
+  // Chat question asked about `content`, or extra instructions for analysis
+  prompt?: string;
+  options?: ProcessContentOptions;
+  // Provider tried first; the server's configured order is used otherwise
+  provider?: ProviderId;
+  // Model for the first provider; fallback providers use their default model
+  model?: string;
+  // Try the other configured providers when the first one errors (default true)
+  fallback?: boolean;
+  // Answer with OpenAI-compatible chat completion chunks as server-sent events
+  stream?: boolean;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ProviderAttempt {
+  provider: ProviderId;
+  model: string;
+  status?: number;
+  error: string;
+}
+
+export interface ProcessContentResponse {
+  processedContent: string;
+  provider: ProviderId;
+  model: string;
+  usage?: TokenUsage;
+  // Providers that errored before this one answered
+  failedAttempts?: ProviderAttempt[];
+}
+
+export interface ProcessContentErrorResponse {
+  error: string;
+  details?: string;
+  attempts?: ProviderAttempt[];
+}
+
+// Streamed responses name the provider that answered in these headers
+export const PROVIDER_HEADER = "X-AI-Provider";
+export const MODEL_HEADER = "X-AI-Model";
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface EmbeddingRequest {
+  input: string[];
+  dimensions?: number;
+}
+
+const MAX_INPUTS = 64;
+const MAX_INPUT_LENGTH = 8000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { input, dimensions = 384 }: EmbeddingRequest = await req.json();
+
+    const apiKey = Deno.env.get('OPENAI_API_KEY');
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    if (!Array.isArray(input) || input.length === 0 || input.length > MAX_INPUTS) {
+      return new Response(
+        JSON.stringify({ error: `input must be an array of 1-${MAX_INPUTS} strings` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    console.log(`Embedding ${input.length} inputs (${dimensions} dimensions)`);
+
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'text-embedding-3-small',
+        input: input.map(text => String(text).slice(0, MAX_INPUT_LENGTH) || ' '),
+        dimensions,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OpenAI embeddings error response:', errorText);
+      throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    const embeddings = (data.data || [])
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+
+    return new Response(
+      JSON.stringify({ embeddings, model: data.model }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Embedding generation error:', error);
+
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to generate embeddings',
+        details: error.toString()
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
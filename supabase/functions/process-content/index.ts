@@ -0,0 +1,140 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import {
+  MODEL_HEADER,
+  PROVIDER_HEADER,
+  type ContentType,
+  type ProcessContentRequest,
+  type ProcessContentResponse,
+  type ProviderAttempt,
+} from "../_shared/processContent.ts";
+import { getProviderOrder, isProviderId } from "./providers.ts";
+import { buildMessages, getSamplingParams } from "./prompts.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": `${PROVIDER_HEADER}, ${MODEL_HEADER}`,
+};
+
+const CONTENT_TYPES: ContentType[] = ["text", "video", "audio", "podcast", "chat"];
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+  const errorText = await response.text();
+  try {
+    return JSON.parse(errorText).error?.message || errorText;
+  } catch {
+    return errorText || `HTTP ${response.status}`;
+  }
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request: ProcessContentRequest = await req.json();
+    const { content, type, provider, model, fallback = true, stream = false } = request;
+
+    if (!content || typeof content !== "string" || !content.trim()) {
+      return jsonResponse({ error: "Content is required" }, 400);
+    }
+    if (!CONTENT_TYPES.includes(type)) {
+      return jsonResponse({ error: `Unsupported content type: ${type}` }, 400);
+    }
+    if (provider !== undefined && !isProviderId(provider)) {
+      return jsonResponse({ error: `Unknown AI provider: ${provider}` }, 400);
+    }
+
+    const candidates = getProviderOrder(provider, fallback);
+    if (candidates.length === 0) {
+      console.error("No AI provider is configured", { provider });
+      return jsonResponse({
+        error: provider ? `AI provider ${provider} is not configured` : "No AI provider is configured",
+      }, 500);
+    }
+
+    const messages = buildMessages(request);
+    const sampling = getSamplingParams(request);
+    const failedAttempts: ProviderAttempt[] = [];
+
+    console.log(`Processing ${type} content. Stream: ${stream}. Providers: ${candidates.map((c) => c.id).join(", ")}`);
+
+    // Fall back to the next provider on any error. A streamed answer commits
+    // to its provider once the response headers arrive.
+    for (const [index, candidate] of candidates.entries()) {
+      const candidateModel = index === 0 && model ? model : candidate.defaultModel();
+
+      try {
+        const response = await candidate.createCompletion({
+          model: candidateModel,
+          messages,
+          ...sampling,
+          stream,
+        });
+
+        if (!response.ok) {
+          const error = await readErrorMessage(response);
+          console.error(`${candidate.id} API error response:`, response.status, error);
+          failedAttempts.push({ provider: candidate.id, model: candidateModel, status: response.status, error });
+          continue;
+        }
+
+        if (stream) {
+          return new Response(response.body, {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "text/event-stream",
+              "Cache-Control": "no-cache",
+              "Connection": "keep-alive",
+              [PROVIDER_HEADER]: candidate.id,
+              [MODEL_HEADER]: candidateModel,
+            },
+          });
+        }
+
+        const data = await response.json();
+        const processedContent = data.choices?.[0]?.message?.content;
+        if (!processedContent) {
+          failedAttempts.push({ provider: candidate.id, model: candidateModel, error: "No content in response" });
+          continue;
+        }
+
+        console.log(`Content processed successfully with ${candidate.id}`);
+
+        const body: ProcessContentResponse = {
+          processedContent,
+          provider: candidate.id,
+          model: data.model || candidateModel,
+          usage: data.usage,
+          ...(failedAttempts.length > 0 ? { failedAttempts } : {}),
+        };
+        return jsonResponse(body);
+      } catch (error) {
+        console.error(`Error calling ${candidate.id}:`, error);
+        failedAttempts.push({ provider: candidate.id, model: candidateModel, error: error.message });
+      }
+    }
+
+    const lastAttempt = failedAttempts[failedAttempts.length - 1];
+    return jsonResponse({
+      error: lastAttempt?.error || "Failed to process content",
+      attempts: failedAttempts,
+    }, 502);
+  } catch (error) {
+    console.error("Error in process-content function:", error);
+
+    return jsonResponse({
+      error: "An error occurred while processing content",
+      details: error.message,
+    }, 500);
+  }
+});
@@ -0,0 +1,85 @@
+import type { ProcessContentRequest } from "../_shared/processContent.ts";
+import type { ChatMessage } from "./providers.ts";
+
+const DEFAULT_SYSTEM_PROMPT = "You are an expert AI assistant that provides concise, accurate responses.";
+
+const RAG_SYSTEM_PROMPT =
+  "You are an advanced AI assistant with RAG capabilities. Provide helpful, accurate responses based on the provided context. Be concise but comprehensive.";
+
+const CITATION_INSTRUCTIONS =
+  " The context is split into numbered passages marked CITATION: [n]. After every claim, cite the passage it comes from as [n] (several as [1][3]). Never cite a number that is not in the context and never cite facts that are not in the passages.";
+
+const TUTOR_SYSTEM_PROMPT = `You are an AI learning assistant that helps students understand content better. You are helpful, educational, and conversational.
+
+When answering questions:
+- Provide clear, concise explanations
+- Use examples when helpful
+- Break down complex concepts
+- Encourage learning and curiosity
+- Reference the provided content when relevant
+
+Always be supportive and encouraging in your responses.`;
+
+const MEDIA_SYSTEM_PROMPT = "You are an expert content analyst. Provide clear, structured analysis of media content.";
+
+const TEXT_SYSTEM_PROMPT = "You are an expert content analyst. Extract key insights and provide structured summaries.";
+
+const buildChatMessages = ({ content, prompt, options = {} }: ProcessContentRequest): ChatMessage[] => {
+  let systemPrompt = DEFAULT_SYSTEM_PROMPT;
+
+  if (options.rag) {
+    systemPrompt = RAG_SYSTEM_PROMPT + (options.citations ? CITATION_INSTRUCTIONS : "");
+  } else if (options.educational || options.conversational) {
+    systemPrompt = TUTOR_SYSTEM_PROMPT;
+  }
+
+  return [
+    { role: "system", content: systemPrompt },
+    {
+      role: "user",
+      content: prompt ? `Based on this content: ${content}\n\nUser question: ${prompt}` : content,
+    },
+  ];
+};
+
+const buildAnalysisMessages = ({ content, type, prompt, options = {} }: ProcessContentRequest): ChatMessage[] => {
+  const systemPrompt = type === "text" ? TEXT_SYSTEM_PROMPT : MEDIA_SYSTEM_PROMPT;
+  const requestedAnalysis = [];
+
+  if (options.summary) {
+    requestedAnalysis.push("• **Summary**: Key points and main topics");
+  }
+  if (options.highlights) {
+    requestedAnalysis.push("• **Highlights**: Most important insights");
+  }
+  if (options.keyPoints) {
+    requestedAnalysis.push("• **Key Points**: Main takeaways");
+  }
+
+  let instructions = "Analyze the content and provide:\n";
+  instructions += requestedAnalysis.length === 0
+    ? "A comprehensive analysis with summary and key insights."
+    : requestedAnalysis.join("\n");
+  instructions += "\n\nUse clear formatting and be concise.";
+
+  if (prompt) {
+    instructions += `\n\n${prompt}`;
+  }
+
+  return [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: `${instructions}\n\nContent:\n\n${content}` },
+  ];
+};
+
+export const buildMessages = (request: ProcessContentRequest): ChatMessage[] =>
+  request.type === "chat" ? buildChatMessages(request) : buildAnalysisMessages(request);
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Chat answers are shorter and a little more creative than analyses
+export const getSamplingParams = ({ type, options = {} }: ProcessContentRequest) => ({
+  temperature: clamp(options.temperature, 0, 2, type === "chat" ? 0.7 : 0.5),
+  max_tokens: Math.round(clamp(options.max_tokens, 1, 8192, type === "chat" ? 1500 : 2000)),
+});
@@ -0,0 +1,109 @@
+import type { ProviderId } from "../_shared/processContent.ts";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionParams {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  max_tokens: number;
+  stream: boolean;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  defaultModel(): string;
+  isConfigured(): boolean;
+  createCompletion(params: CompletionParams): Promise<Response>;
+}
+
+interface OpenAICompatibleConfig {
+  id: ProviderId;
+  baseUrlEnv: string;
+  defaultBaseUrl?: string;
+  apiKeyEnv: string;
+  modelEnv: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+// Every supported provider speaks the OpenAI chat completions API; they only
+// differ in endpoint, credentials and default model
+const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+  const baseUrl = () => Deno.env.get(config.baseUrlEnv) || config.defaultBaseUrl;
+  const apiKey = () => Deno.env.get(config.apiKeyEnv);
+
+  return {
+    id: config.id,
+    defaultModel: () => Deno.env.get(config.modelEnv) || config.defaultModel,
+    isConfigured: () => !!baseUrl() && (!config.requiresApiKey || !!apiKey()),
+    createCompletion: (params) => {
+      const key = apiKey();
+      return fetch(`${baseUrl()!.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(key ? { "Authorization": `Bearer ${key}` } : {}),
+        },
+        body: JSON.stringify({
+          ...params,
+          // Token usage arrives as a final chunk when streaming
+          ...(params.stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+      });
+    },
+  };
+};
+
+// Base URLs are overridable so a local mock LLM server can stand in for the APIs
+export const providers: Record<ProviderId, LLMProvider> = {
+  deepseek: createOpenAICompatibleProvider({
+    id: "deepseek",
+    baseUrlEnv: "DEEPSEEK_API_BASE_URL",
+    defaultBaseUrl: "https://api.deepseek.com/v1",
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    modelEnv: "DEEPSEEK_MODEL",
+    defaultModel: "deepseek-chat",
+    requiresApiKey: true,
+  }),
+  openai: createOpenAICompatibleProvider({
+    id: "openai",
+    baseUrlEnv: "OPENAI_API_BASE_URL",
+    defaultBaseUrl: "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+    modelEnv: "OPENAI_MODEL",
+    defaultModel: "gpt-4o-mini",
+    requiresApiKey: true,
+  }),
+  // Ollama, LM Studio, vLLM... enabled by setting LOCAL_LLM_BASE_URL
+  local: createOpenAICompatibleProvider({
+    id: "local",
+    baseUrlEnv: "LOCAL_LLM_BASE_URL",
+    apiKeyEnv: "LOCAL_LLM_API_KEY",
+    modelEnv: "LOCAL_LLM_MODEL",
+    defaultModel: "llama3.1",
+    requiresApiKey: false,
+  }),
+};
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(providers, value);
+
+// Configured providers in the order they are tried: the requested one first,
+// then AI_PROVIDER_ORDER (default deepseek, openai, local)
+export const getProviderOrder = (preferred?: ProviderId, fallback = true): LLMProvider[] => {
+  const configuredOrder = (Deno.env.get("AI_PROVIDER_ORDER") || "deepseek,openai,local")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(isProviderId);
+
+  const order = preferred ? [preferred, ...configuredOrder.filter((id) => id !== preferred)] : configuredOrder;
+  const available = order.map((id) => providers[id]).filter((provider) => provider.isConfigured());
+
+  if (fallback) return available;
+  if (preferred) return available.filter((provider) => provider.id === preferred);
+  return available.slice(0, 1);
+};
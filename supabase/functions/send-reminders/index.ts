@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.0.0";
+import { getMailer, Mailer } from "./mailer.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface DeliveredNotification {
+  id: string;
+  user_id: string;
+  note_id: string;
+  kind: "reminder" | "due";
+  title: string;
+  scheduled_for: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const toEmail = (notification: DeliveredNotification) => {
+  const appUrl = (Deno.env.get("APP_URL") || "").replace(/\/$/, "");
+  const title = notification.title || "Untitled Note";
+  const when = new Date(notification.scheduled_for).toUTCString();
+  const link = appUrl ? `\n\nOpen the note: ${appUrl}/note/${notification.note_id}` : "";
+
+  return notification.kind === "reminder"
+    ? { subject: `Reminder: ${title}`, text: `You asked to be reminded about "${title}" at ${when}.${link}` }
+    : { subject: `Due: ${title}`, text: `"${title}" was due at ${when}.${link}` };
+};
+
+// Emails the notifications of notes whose owner asked for email, and returns
+// how many were sent. A failed email is logged; the notification is still in the app.
+const emailNotifications = async (
+  supabase: ReturnType<typeof createClient>,
+  mailer: Mailer,
+  notifications: DeliveredNotification[],
+) => {
+  if (notifications.length === 0) return 0;
+
+  const { data: notes, error } = await supabase
+    .from("notes")
+    .select("id")
+    .in("id", [...new Set(notifications.map((notification) => notification.note_id))])
+    .eq("reminder_email", true);
+  if (error) throw error;
+
+  const emailNoteIds = new Set((notes || []).map((note: { id: string }) => note.id));
+  const emailAddresses = new Map<string, string | null>();
+  let sent = 0;
+
+  for (const notification of notifications) {
+    if (!emailNoteIds.has(notification.note_id)) continue;
+
+    try {
+      if (!emailAddresses.has(notification.user_id)) {
+        const { data, error: userError } = await supabase.auth.admin.getUserById(notification.user_id);
+        if (userError) throw userError;
+        emailAddresses.set(notification.user_id, data.user?.email ?? null);
+      }
+      const to = emailAddresses.get(notification.user_id);
+      if (!to) continue;
+
+      await mailer.send({ to, ...toEmail(notification) });
+
+      const { error: updateError } = await supabase
+        .from("notifications")
+        .update({ emailed_at: new Date().toISOString() })
+        .eq("id", notification.id);
+      if (updateError) throw updateError;
+      sent++;
+    } catch (emailError) {
+      console.error(`Error emailing notification ${notification.id}:`, emailError);
+    }
+  }
+
+  return sent;
+};
+
+// Called by the send-reminders cron job with the service role key
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseKey}`) {
+      return jsonResponse({ error: "Only the scheduler can send reminders" }, 403);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data, error } = await supabase.rpc("deliver_due_notifications");
+    if (error) throw error;
+
+    const delivered = (data || []) as DeliveredNotification[];
+    console.log(`Delivered ${delivered.length} notifications`);
+
+    const mailer = getMailer();
+    const emailed = mailer ? await emailNotifications(supabase, mailer, delivered) : 0;
+
+    return jsonResponse({ delivered: delivered.length, emailed });
+  } catch (error) {
+    console.error("Send reminders error:", error);
+
+    return jsonResponse({
+      error: error.message || "Failed to send reminders",
+      details: error.toString(),
+    }, 500);
+  }
+});
@@ -0,0 +1,62 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  id: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Writes emails to the function log instead of sending them, for running
+// locally without a mail provider
+const logMailer: Mailer = {
+  id: "log",
+  send: async (message) => {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+};
+
+const resendMailer: Mailer = {
+  id: "resend",
+  send: async (message) => {
+    const apiKey = Deno.env.get("RESEND_API_KEY");
+    const from = Deno.env.get("MAIL_FROM");
+    if (!apiKey || !from) {
+      throw new Error("RESEND_API_KEY and MAIL_FROM must be set to send email");
+    }
+
+    const baseUrl = Deno.env.get("RESEND_API_BASE_URL") || "https://api.resend.com";
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/emails`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from, to: [message.to], subject: message.subject, text: message.text }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Resend API error: ${response.status} ${errorText}`);
+    }
+  },
+};
+
+const mailers: Record<string, Mailer> = {
+  log: logMailer,
+  resend: resendMailer,
+};
+
+// The mailer named by MAILER, or null when email is turned off
+export const getMailer = (): Mailer | null => {
+  const id = Deno.env.get("MAILER");
+  if (!id) return null;
+
+  const mailer = mailers[id];
+  if (!mailer) {
+    throw new Error(`Unknown MAILER "${id}", expected one of ${Object.keys(mailers).join(", ")}`);
+  }
+  return mailer;
+};
@@ -0,0 +1,93 @@
+-- Server-side full-text search over notes.
+-- Title matches are weighted above content matches, and the same expression
+-- backs both the GIN index and the search function so the index is used.
+
+create or replace function public.note_search_vector(note_title text, note_content text)
+returns tsvector
+language sql
+immutable
+parallel safe
+as $$
+  select setweight(to_tsvector('english', coalesce(note_title, '')), 'A')
+      || setweight(to_tsvector('english', coalesce(note_content, '')), 'B');
+$$;
+
+create index if not exists notes_search_vector_idx
+  on public.notes
+  using gin (public.note_search_vector(title, content));
+
+create or replace function public.search_notes_ranked(
+  search_query text,
+  filter_notebook_id uuid default null,
+  filter_is_transcription boolean default null,
+  result_limit integer default 20,
+  result_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  snippet text,
+  rank real,
+  source_url text,
+  is_transcription boolean,
+  notebook_id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with query as (
+    select websearch_to_tsquery('english', search_query) as q
+  ),
+  matches as (
+    select
+      n.id,
+      n.title,
+      n.content,
+      n.source_url,
+      n.is_transcription,
+      n.notebook_id,
+      n.created_at,
+      n.updated_at,
+      -- Normalization 32 maps the rank into 0..1 so clients can bucket it.
+      ts_rank_cd(public.note_search_vector(n.title, n.content), query.q, 32) as rank,
+      count(*) over () as total_count
+    from public.notes n, query
+    where n.user_id = auth.uid()
+      and public.note_search_vector(n.title, n.content) @@ query.q
+      and (filter_notebook_id is null or n.notebook_id = filter_notebook_id)
+      and (filter_is_transcription is null or coalesce(n.is_transcription, false) = filter_is_transcription)
+  ),
+  page as (
+    select *
+    from matches
+    order by rank desc, updated_at desc
+    limit least(greatest(result_limit, 1), 100)
+    offset greatest(result_offset, 0)
+  )
+  -- Snippets are only built for the requested page; ts_headline is expensive.
+  select
+    page.id,
+    page.title,
+    ts_headline(
+      'english',
+      coalesce(page.content, ''),
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ) as snippet,
+    page.rank,
+    page.source_url,
+    page.is_transcription,
+    page.notebook_id,
+    page.created_at,
+    page.updated_at,
+    page.total_count
+  from page, query
+  order by page.rank desc, page.updated_at desc;
+$$;
+
+grant execute on function public.search_notes_ranked(text, uuid, boolean, integer, integer) to authenticated;
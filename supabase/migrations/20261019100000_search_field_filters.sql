@@ -0,0 +1,138 @@
+-- Field filters for the structured search query language (tag:, notebook:,
+-- is:, before:/after:, site:). An empty search_query now lists every note
+-- that matches the filters, newest first, with the start of the content as
+-- its snippet.
+
+drop function if exists public.search_notes_ranked(text, uuid, boolean, integer, integer);
+
+create or replace function public.note_source_domain(source_url text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select nullif(
+    regexp_replace(lower(substring(source_url from '^[a-zA-Z]+://([^/:?#]+)')), '^www\.', ''),
+    ''
+  );
+$$;
+
+create or replace function public.search_notes_ranked(
+  search_query text,
+  filter_notebook_id uuid default null,
+  filter_is_transcription boolean default null,
+  filter_tag_names text[] default null,
+  filter_notebook_names text[] default null,
+  filter_created_after timestamptz default null,
+  filter_created_before timestamptz default null,
+  filter_source_domains text[] default null,
+  result_limit integer default 20,
+  result_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  snippet text,
+  rank real,
+  source_url text,
+  is_transcription boolean,
+  notebook_id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with query as (
+    select
+      websearch_to_tsquery('english', coalesce(search_query, '')) as q,
+      coalesce(trim(search_query), '') = '' as is_empty
+  ),
+  matches as (
+    select
+      n.id,
+      n.title,
+      n.content,
+      n.source_url,
+      n.is_transcription,
+      n.notebook_id,
+      n.created_at,
+      n.updated_at,
+      -- Normalization 32 maps the rank into 0..1 so clients can bucket it.
+      case
+        when query.is_empty then 0::real
+        else ts_rank_cd(public.note_search_vector(n.title, n.content), query.q, 32)
+      end as rank,
+      count(*) over () as total_count
+    from public.notes n, query
+    where n.user_id = auth.uid()
+      and (query.is_empty or public.note_search_vector(n.title, n.content) @@ query.q)
+      and (filter_notebook_id is null or n.notebook_id = filter_notebook_id)
+      and (filter_is_transcription is null or coalesce(n.is_transcription, false) = filter_is_transcription)
+      and (filter_created_after is null or n.created_at >= filter_created_after)
+      and (filter_created_before is null or n.created_at < filter_created_before)
+      and (
+        filter_notebook_names is null
+        or exists (
+          select 1
+          from public.notebooks nb
+          where nb.id = n.notebook_id
+            and lower(nb.name) = any (select lower(name) from unnest(filter_notebook_names) as name)
+        )
+      )
+      -- Every requested tag must be present on the note
+      and (
+        filter_tag_names is null
+        or (
+          select count(distinct lower(t.name))
+          from public.note_tags nt
+          join public.tags t on t.id = nt.tag_id
+          where nt.note_id = n.id
+            and lower(t.name) = any (select lower(name) from unnest(filter_tag_names) as name)
+        ) = (select count(distinct lower(name)) from unnest(filter_tag_names) as name)
+      )
+      and (
+        filter_source_domains is null
+        or exists (
+          select 1
+          from unnest(filter_source_domains) as domain
+          where public.note_source_domain(n.source_url) = lower(domain)
+             or public.note_source_domain(n.source_url) like '%.' || lower(domain)
+        )
+      )
+  ),
+  page as (
+    select *
+    from matches
+    order by rank desc, created_at desc
+    limit least(greatest(result_limit, 1), 100)
+    offset greatest(result_offset, 0)
+  )
+  -- Snippets are only built for the requested page; ts_headline is expensive.
+  select
+    page.id,
+    page.title,
+    case
+      when query.is_empty then left(coalesce(page.content, ''), 200)
+      else ts_headline(
+        'english',
+        coalesce(page.content, ''),
+        query.q,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    end as snippet,
+    page.rank,
+    page.source_url,
+    page.is_transcription,
+    page.notebook_id,
+    page.created_at,
+    page.updated_at,
+    page.total_count
+  from page, query
+  order by page.rank desc, page.created_at desc;
+$$;
+
+grant execute on function public.search_notes_ranked(text, uuid, boolean, text[], text[], timestamptz, timestamptz, text[], integer, integer) to authenticated;
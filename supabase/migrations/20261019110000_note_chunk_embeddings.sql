@@ -0,0 +1,238 @@
+-- Chunk-level embedding index for semantic retrieval.
+-- Vectors are written by the client-side EmbeddingService whenever a note is
+-- created or updated. Every chunk records the model that produced it, because
+-- vectors from different models are not comparable and must never be mixed in
+-- one similarity query.
+
+create extension if not exists vector with schema extensions;
+
+create table if not exists public.note_chunks (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  chunk_index integer not null,
+  content text not null,
+  start_offset integer not null,
+  end_offset integer not null,
+  -- Hash of the whole note text the chunk set was built from
+  content_hash text not null,
+  embedding_model text not null,
+  embedding extensions.vector(384) not null,
+  created_at timestamptz not null default now(),
+  unique (note_id, embedding_model, chunk_index)
+);
+
+create index if not exists note_chunks_note_id_idx on public.note_chunks (note_id);
+create index if not exists note_chunks_embedding_idx
+  on public.note_chunks
+  using hnsw (embedding extensions.vector_cosine_ops);
+
+alter table public.note_chunks enable row level security;
+
+create policy "Users can view their own note chunks"
+  on public.note_chunks for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own note chunks"
+  on public.note_chunks for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.notes n where n.id = note_id and n.user_id = auth.uid())
+  );
+
+create policy "Users can delete their own note chunks"
+  on public.note_chunks for delete
+  using (auth.uid() = user_id);
+
+-- Nearest chunks to a query vector, restricted to one embedding model.
+create or replace function public.match_note_chunks(
+  query_embedding extensions.vector(384),
+  embedding_model text,
+  match_count integer default 12,
+  min_similarity real default 0.2
+)
+returns table (
+  id uuid,
+  note_id uuid,
+  chunk_index integer,
+  content text,
+  start_offset integer,
+  end_offset integer,
+  similarity real
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select
+    c.id,
+    c.note_id,
+    c.chunk_index,
+    c.content,
+    c.start_offset,
+    c.end_offset,
+    (1 - (c.embedding <=> query_embedding))::real as similarity
+  from public.note_chunks c
+  where c.user_id = auth.uid()
+    and c.embedding_model = match_note_chunks.embedding_model
+    and 1 - (c.embedding <=> query_embedding) >= min_similarity
+  order by c.embedding <=> query_embedding
+  limit least(greatest(match_count, 1), 100);
+$$;
+
+-- Hybrid ranking: notes match on keywords or on chunk similarity, and the
+-- final rank blends the full-text rank with the best chunk similarity.
+drop function if exists public.search_notes_ranked(text, uuid, boolean, text[], text[], timestamptz, timestamptz, text[], integer, integer);
+
+create or replace function public.search_notes_ranked(
+  search_query text,
+  filter_notebook_id uuid default null,
+  filter_is_transcription boolean default null,
+  filter_tag_names text[] default null,
+  filter_notebook_names text[] default null,
+  filter_created_after timestamptz default null,
+  filter_created_before timestamptz default null,
+  filter_source_domains text[] default null,
+  query_embedding extensions.vector(384) default null,
+  embedding_model text default null,
+  semantic_weight real default 0.5,
+  min_similarity real default 0.3,
+  result_limit integer default 20,
+  result_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  snippet text,
+  rank real,
+  keyword_score real,
+  semantic_score real,
+  source_url text,
+  is_transcription boolean,
+  notebook_id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  with query as (
+    select
+      websearch_to_tsquery('english', coalesce(search_query, '')) as q,
+      coalesce(trim(search_query), '') = '' as is_empty,
+      query_embedding is not null and search_notes_ranked.embedding_model is not null as use_vectors
+  ),
+  best_chunks as (
+    select distinct on (c.note_id)
+      c.note_id,
+      c.content,
+      (1 - (c.embedding <=> query_embedding))::real as similarity
+    from public.note_chunks c, query
+    where query.use_vectors
+      and c.user_id = auth.uid()
+      and c.embedding_model = search_notes_ranked.embedding_model
+    order by c.note_id, c.embedding <=> query_embedding
+  ),
+  scored as (
+    select
+      n.*,
+      case
+        when query.is_empty then 0::real
+        else ts_rank_cd(public.note_search_vector(n.title, n.content), query.q, 32)
+      end as keyword_score,
+      coalesce(bc.similarity, 0)::real as semantic_score,
+      bc.content as chunk_content,
+      not query.is_empty and public.note_search_vector(n.title, n.content) @@ query.q as keyword_match
+    from public.notes n
+    cross join query
+    left join best_chunks bc on bc.note_id = n.id
+    where n.user_id = auth.uid()
+      and (filter_notebook_id is null or n.notebook_id = filter_notebook_id)
+      and (filter_is_transcription is null or coalesce(n.is_transcription, false) = filter_is_transcription)
+      and (filter_created_after is null or n.created_at >= filter_created_after)
+      and (filter_created_before is null or n.created_at < filter_created_before)
+      and (
+        filter_notebook_names is null
+        or exists (
+          select 1
+          from public.notebooks nb
+          where nb.id = n.notebook_id
+            and lower(nb.name) = any (select lower(name) from unnest(filter_notebook_names) as name)
+        )
+      )
+      -- Every requested tag must be present on the note
+      and (
+        filter_tag_names is null
+        or (
+          select count(distinct lower(t.name))
+          from public.note_tags nt
+          join public.tags t on t.id = nt.tag_id
+          where nt.note_id = n.id
+            and lower(t.name) = any (select lower(name) from unnest(filter_tag_names) as name)
+        ) = (select count(distinct lower(name)) from unnest(filter_tag_names) as name)
+      )
+      and (
+        filter_source_domains is null
+        or exists (
+          select 1
+          from unnest(filter_source_domains) as domain
+          where public.note_source_domain(n.source_url) = lower(domain)
+             or public.note_source_domain(n.source_url) like '%.' || lower(domain)
+        )
+      )
+  ),
+  matches as (
+    select
+      scored.*,
+      case
+        when query.use_vectors
+          then ((1 - semantic_weight) * scored.keyword_score + semantic_weight * scored.semantic_score)::real
+        else scored.keyword_score
+      end as rank,
+      count(*) over () as total_count
+    from scored, query
+    where query.is_empty
+       or scored.keyword_match
+       or (query.use_vectors and scored.semantic_score >= min_similarity)
+  ),
+  page as (
+    select *
+    from matches
+    order by rank desc, created_at desc
+    limit least(greatest(result_limit, 1), 100)
+    offset greatest(result_offset, 0)
+  )
+  -- Snippets are only built for the requested page; ts_headline is expensive.
+  select
+    page.id,
+    page.title,
+    case
+      when page.keyword_match then ts_headline(
+        'english',
+        coalesce(page.content, ''),
+        query.q,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      -- Semantic-only hits show the passage that matched
+      when page.chunk_content is not null and not query.is_empty then left(page.chunk_content, 240)
+      else left(coalesce(page.content, ''), 200)
+    end as snippet,
+    page.rank,
+    page.keyword_score,
+    page.semantic_score,
+    page.source_url,
+    page.is_transcription,
+    page.notebook_id,
+    page.created_at,
+    page.updated_at,
+    page.total_count
+  from page, query
+  order by page.rank desc, page.created_at desc;
+$$;
+
+grant execute on function public.match_note_chunks(extensions.vector, text, integer, real) to authenticated;
+grant execute on function public.search_notes_ranked(text, uuid, boolean, text[], text[], timestamptz, timestamptz, text[], extensions.vector, text, real, real, integer, integer) to authenticated;
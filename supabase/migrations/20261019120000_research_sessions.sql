@@ -0,0 +1,82 @@
+-- Saved AI Research conversations. Messages keep the sources and metrics the
+-- chat showed so a resumed session renders exactly as it did originally.
+
+create table if not exists public.research_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists research_sessions_user_updated_idx
+  on public.research_sessions (user_id, updated_at desc);
+
+create table if not exists public.research_messages (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.research_sessions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  -- [{ id, title, relevance, snippet }] of the notes the answer was built from
+  sources jsonb not null default '[]'::jsonb,
+  response_time_ms integer,
+  token_count integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists research_messages_session_idx
+  on public.research_messages (session_id, created_at);
+
+alter table public.research_sessions enable row level security;
+alter table public.research_messages enable row level security;
+
+create policy "Users can view their own research sessions"
+  on public.research_sessions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own research sessions"
+  on public.research_sessions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own research sessions"
+  on public.research_sessions for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own research sessions"
+  on public.research_sessions for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own research messages"
+  on public.research_messages for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add messages to their own research sessions"
+  on public.research_messages for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.research_sessions s
+      where s.id = session_id and s.user_id = auth.uid()
+    )
+  );
+
+-- New messages move the session to the top of the history list
+create or replace function public.touch_research_session()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update public.research_sessions
+  set updated_at = now()
+  where id = new.session_id;
+  return new;
+end;
+$$;
+
+create trigger research_messages_touch_session
+  after insert on public.research_messages
+  for each row execute function public.touch_research_session();
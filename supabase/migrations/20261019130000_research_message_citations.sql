@@ -0,0 +1,4 @@
+-- Numbered passages ([n] markers) an assistant answer can cite:
+-- [{ number, noteId, noteTitle, excerpt, startOffset, endOffset, timestamp? }]
+alter table public.research_messages
+  add column if not exists citations jsonb not null default '[]'::jsonb;
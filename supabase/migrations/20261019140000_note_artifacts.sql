@@ -0,0 +1,41 @@
+-- AI-generated artifacts (summaries, key points, highlights, narratives) stored
+-- with the note so reopening it does not pay for regeneration. Every
+-- generation adds a row; the newest row per type is the current artifact and
+-- older rows are kept so a regenerated artifact can be compared with the last.
+
+create table if not exists public.note_artifacts (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  artifact_type text not null
+    check (artifact_type in ('summary', 'key_points', 'highlights', 'narrative')),
+  content text not null,
+  provider text,
+  model text,
+  -- Version of the prompts that produced the content, bumped when they change
+  prompt_version text not null,
+  -- Hash of the note text the artifact was generated from; a different hash
+  -- of the current text means the artifact is stale
+  source_hash text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists note_artifacts_note_type_created_idx
+  on public.note_artifacts (note_id, artifact_type, created_at desc);
+
+alter table public.note_artifacts enable row level security;
+
+create policy "Users can view their own note artifacts"
+  on public.note_artifacts for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert artifacts for their own notes"
+  on public.note_artifacts for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.notes n where n.id = note_id and n.user_id = auth.uid())
+  );
+
+create policy "Users can delete their own note artifacts"
+  on public.note_artifacts for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,9 @@
+-- Video chapters are stored as note artifacts too, as a JSON array of
+-- { title, start, end, summary } with start and end in seconds.
+
+alter table public.note_artifacts
+  drop constraint if exists note_artifacts_artifact_type_check;
+
+alter table public.note_artifacts
+  add constraint note_artifacts_artifact_type_check
+  check (artifact_type in ('summary', 'key_points', 'highlights', 'narrative', 'chapters'));
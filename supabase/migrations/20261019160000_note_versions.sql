@@ -0,0 +1,114 @@
+-- Server-side version history for notes. Versions are written by a trigger on
+-- every save that changes the title or content, whichever client path made
+-- it, and cannot be edited or removed by clients.
+--
+-- A version holds the note as it was after that save. The first save of a
+-- note that has no history also stores what the note held before it, so edits
+-- to older notes can always be undone. Autosaves, marked by the client with
+-- the x-note-save-kind request header, are folded into the previous autosave
+-- version for a few minutes so a typing session does not produce dozens of
+-- versions.
+
+create table if not exists public.note_versions (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes(id) on delete cascade,
+  -- Who saved the version; null for the stored original
+  user_id uuid references auth.users(id) on delete set null,
+  title text not null,
+  content text,
+  reason text not null default 'edit'
+    check (reason in ('original', 'edit', 'autosave', 'restore')),
+  restored_from uuid references public.note_versions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists note_versions_note_created_idx
+  on public.note_versions (note_id, created_at desc);
+
+alter table public.note_versions enable row level security;
+
+create policy "Users can view versions of their own notes"
+  on public.note_versions for select
+  using (exists (select 1 from public.notes n where n.id = note_id and n.user_id = auth.uid()));
+
+create or replace function public.record_note_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  save_kind text := coalesce(
+    nullif(current_setting('app.note_version_reason', true), ''),
+    nullif(current_setting('request.headers', true), '')::json ->> 'x-note-save-kind',
+    'edit'
+  );
+  restored_from uuid := nullif(current_setting('app.note_version_restored_from', true), '')::uuid;
+  latest public.note_versions%rowtype;
+begin
+  if new.title is not distinct from old.title and new.content is not distinct from old.content then
+    return new;
+  end if;
+
+  if save_kind not in ('edit', 'autosave', 'restore') then
+    save_kind := 'edit';
+  end if;
+
+  select * into latest
+  from public.note_versions
+  where note_id = new.id
+  order by created_at desc
+  limit 1;
+
+  if not found then
+    insert into public.note_versions (note_id, user_id, title, content, reason, created_at, updated_at)
+    values (old.id, null, old.title, old.content, 'original', old.updated_at, old.updated_at);
+  elsif save_kind = 'autosave'
+    and latest.reason = 'autosave'
+    and latest.user_id is not distinct from auth.uid()
+    and latest.created_at > now() - interval '5 minutes' then
+    update public.note_versions
+    set title = new.title, content = new.content, updated_at = now()
+    where id = latest.id;
+    return new;
+  end if;
+
+  insert into public.note_versions (note_id, user_id, title, content, reason, restored_from)
+  values (new.id, auth.uid(), new.title, new.content, save_kind, restored_from);
+  return new;
+end;
+$$;
+
+create trigger notes_record_version
+  after update of title, content on public.notes
+  for each row execute function public.record_note_version();
+
+-- Restores a version by saving its title and content as the note's current
+-- state, which the trigger records as a new 'restore' version
+create or replace function public.restore_note_version(version_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  version public.note_versions%rowtype;
+begin
+  select * into version from public.note_versions where id = version_id;
+  if not found then
+    raise exception 'Note version % not found', version_id;
+  end if;
+
+  perform set_config('app.note_version_reason', 'restore', true);
+  perform set_config('app.note_version_restored_from', version_id::text, true);
+
+  update public.notes
+  set title = version.title, content = version.content, updated_at = now()
+  where id = version.note_id;
+
+  if not found then
+    raise exception 'Note % not found', version.note_id;
+  end if;
+end;
+$$;
@@ -0,0 +1,164 @@
+-- Sharing notes with other users. notes.shared_permissions maps the user id of
+-- each collaborator to their entry:
+--   { "<user id>": { "role": "viewer" | "commenter" | "editor", "email": "...", "invited_at": "..." } }
+-- Only the owner changes it, through share_note and unshare_note. Viewers and
+-- commenters can read a shared note; editors can also change its title and
+-- content. Live editing runs over the private Realtime channel "note:<id>".
+
+alter table public.notes
+  alter column shared_permissions type jsonb using shared_permissions::jsonb;
+
+create index if not exists notes_shared_permissions_idx
+  on public.notes using gin (shared_permissions);
+
+-- The caller's role on a note: 'owner', their shared role, or null
+create or replace function public.note_access_role(target_note_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when n.user_id = auth.uid() then 'owner'
+    else n.shared_permissions -> auth.uid()::text ->> 'role'
+  end
+  from public.notes n
+  where n.id = target_note_id;
+$$;
+
+create policy "Collaborators can view notes shared with them"
+  on public.notes for select
+  using (shared_permissions ? auth.uid()::text);
+
+create policy "Editors can update notes shared with them"
+  on public.notes for update
+  using (shared_permissions -> auth.uid()::text ->> 'role' = 'editor')
+  with check (shared_permissions -> auth.uid()::text ->> 'role' = 'editor');
+
+-- Row-level security cannot limit columns, so this keeps editors to the
+-- note's text: ownership, sharing, placement and reminders stay the owner's
+create or replace function public.protect_shared_note_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and auth.uid() is distinct from old.user_id and (
+    new.user_id, new.shared_permissions, new.notebook_id, new.source_url, new.thumbnail,
+    new.is_transcription, new.is_reminder, new.reminder_date, new.due_date
+  ) is distinct from (
+    old.user_id, old.shared_permissions, old.notebook_id, old.source_url, old.thumbnail,
+    old.is_transcription, old.is_reminder, old.reminder_date, old.due_date
+  ) then
+    raise exception 'Only the owner of a note can change its settings'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger notes_protect_shared_columns
+  before update on public.notes
+  for each row execute function public.protect_shared_note_columns();
+
+-- Invites a user by the email of their account, or changes their role
+create or replace function public.share_note(target_note_id uuid, invitee_email text, share_role text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitee auth.users%rowtype;
+  permissions jsonb;
+begin
+  if share_role not in ('viewer', 'commenter', 'editor') then
+    raise exception 'Unknown share role %', share_role;
+  end if;
+
+  if public.note_access_role(target_note_id) is distinct from 'owner' then
+    raise exception 'Only the owner of a note can share it'
+      using errcode = '42501';
+  end if;
+
+  select * into invitee
+  from auth.users
+  where lower(email) = lower(trim(invitee_email))
+  limit 1;
+
+  if not found then
+    raise exception 'No account uses the email %', trim(invitee_email);
+  end if;
+
+  if invitee.id = auth.uid() then
+    raise exception 'You already own this note';
+  end if;
+
+  update public.notes
+  set shared_permissions = coalesce(shared_permissions, '{}'::jsonb) || jsonb_build_object(
+    invitee.id::text,
+    jsonb_build_object(
+      'role', share_role,
+      'email', invitee.email,
+      'invited_at', coalesce(shared_permissions -> invitee.id::text ->> 'invited_at', now()::text)
+    )
+  )
+  where id = target_note_id
+  returning shared_permissions into permissions;
+
+  return permissions;
+end;
+$$;
+
+-- Removes a collaborator; owners can remove anyone, collaborators themselves
+create or replace function public.unshare_note(target_note_id uuid, collaborator_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  permissions jsonb;
+begin
+  if public.note_access_role(target_note_id) is distinct from 'owner'
+    and collaborator_id is distinct from auth.uid() then
+    raise exception 'Only the owner of a note can remove collaborators'
+      using errcode = '42501';
+  end if;
+
+  update public.notes
+  set shared_permissions = coalesce(shared_permissions, '{}'::jsonb) - collaborator_id::text
+  where id = target_note_id
+  returning shared_permissions into permissions;
+
+  return permissions;
+end;
+$$;
+
+-- Collaborators see the history of the notes shared with them
+create policy "Collaborators can view versions of notes shared with them"
+  on public.note_versions for select
+  using (public.note_access_role(note_id) is not null);
+
+-- Realtime: everyone with access can join a note's channel and share their
+-- presence and cursor; only the owner and editors can broadcast edits
+create policy "Collaborators can receive note channel messages"
+  on realtime.messages for select
+  to authenticated
+  using (
+    realtime.topic() like 'note:%'
+    and public.note_access_role(nullif(split_part(realtime.topic(), ':', 2), '')::uuid) is not null
+  );
+
+create policy "Collaborators can send note channel messages"
+  on realtime.messages for insert
+  to authenticated
+  with check (
+    realtime.topic() like 'note:%'
+    and (
+      realtime.messages.extension = 'presence'
+      or public.note_access_role(nullif(split_part(realtime.topic(), ':', 2), '')::uuid) in ('owner', 'editor')
+    )
+    and public.note_access_role(nullif(split_part(realtime.topic(), ':', 2), '')::uuid) is not null
+  );
@@ -0,0 +1,146 @@
+-- Public links to a note or a whole notebook for people without an account.
+-- Anyone holding the token can read the shared content until the owner revokes
+-- the link or it expires. Visitors never read the tables directly; they go
+-- through get_shared_content, which checks the token.
+
+create table if not exists public.share_links (
+  id uuid primary key default gen_random_uuid(),
+  -- Two random uuids without dashes: 64 hex characters that cannot be guessed
+  token text not null unique
+    default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  note_id uuid references public.notes(id) on delete cascade,
+  notebook_id uuid references public.notebooks(id) on delete cascade,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint share_links_single_target check ((note_id is null) <> (notebook_id is null))
+);
+
+create index if not exists share_links_note_idx on public.share_links (note_id);
+create index if not exists share_links_notebook_idx on public.share_links (notebook_id);
+
+alter table public.share_links enable row level security;
+
+create policy "Users can view their own share links"
+  on public.share_links for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create share links to their own notes and notebooks"
+  on public.share_links for insert
+  with check (
+    auth.uid() = user_id
+    and (
+      exists (select 1 from public.notes n where n.id = note_id and n.user_id = auth.uid())
+      or exists (select 1 from public.notebooks b where b.id = notebook_id and b.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can update their own share links"
+  on public.share_links for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own share links"
+  on public.share_links for delete
+  using (auth.uid() = user_id);
+
+-- What a share link shows: the note it points to, or for a notebook link the
+-- notebook, its notes and the one picked with target_note_id. The note comes
+-- with the latest artifact of each type, e.g. its summary and chapters. Null
+-- when the token is unknown, revoked or expired.
+create or replace function public.get_shared_content(share_token text, target_note_id uuid default null)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  link public.share_links%rowtype;
+  shared_note_id uuid;
+  notebook jsonb;
+  notebook_notes jsonb;
+  note jsonb;
+  artifacts jsonb;
+begin
+  select * into link
+  from public.share_links
+  where token = share_token
+    and revoked_at is null
+    and (expires_at is null or expires_at > now());
+
+  if not found then
+    return null;
+  end if;
+
+  if link.note_id is not null then
+    shared_note_id := link.note_id;
+  else
+    select jsonb_build_object('id', b.id, 'name', b.name, 'description', b.description, 'color', b.color)
+    into notebook
+    from public.notebooks b
+    where b.id = link.notebook_id;
+
+    select coalesce(jsonb_agg(jsonb_build_object(
+      'id', n.id,
+      'title', n.title,
+      'source_url', n.source_url,
+      'thumbnail', n.thumbnail,
+      'updated_at', n.updated_at
+    ) order by n.updated_at desc), '[]'::jsonb)
+    into notebook_notes
+    from public.notes n
+    where n.notebook_id = link.notebook_id
+      and n.user_id = link.user_id;
+
+    -- Only notes that are in the notebook can be opened through its link
+    select n.id into shared_note_id
+    from public.notes n
+    where n.id = target_note_id
+      and n.notebook_id = link.notebook_id
+      and n.user_id = link.user_id;
+  end if;
+
+  if shared_note_id is not null then
+    select jsonb_build_object(
+      'id', n.id,
+      'title', n.title,
+      'content', n.content,
+      'source_url', n.source_url,
+      'thumbnail', n.thumbnail,
+      'is_transcription', n.is_transcription,
+      'created_at', n.created_at,
+      'updated_at', n.updated_at
+    )
+    into note
+    from public.notes n
+    where n.id = shared_note_id;
+
+    select coalesce(jsonb_object_agg(a.artifact_type, jsonb_build_object(
+      'content', a.content,
+      'provider', a.provider,
+      'model', a.model,
+      'created_at', a.created_at
+    )), '{}'::jsonb)
+    into artifacts
+    from (
+      select distinct on (artifact_type) artifact_type, content, provider, model, created_at
+      from public.note_artifacts
+      where note_id = shared_note_id
+      order by artifact_type, created_at desc
+    ) a;
+  end if;
+
+  return jsonb_build_object(
+    'kind', case when link.note_id is not null then 'note' else 'notebook' end,
+    'expires_at', link.expires_at,
+    'notebook', notebook,
+    'notes', notebook_notes,
+    'note', note,
+    'artifacts', artifacts
+  );
+end;
+$$;
+
+grant execute on function public.get_shared_content(text, uuid) to anon, authenticated;
@@ -0,0 +1,26 @@
+-- The structured form of a note's content: headings, checklists, code, tables,
+-- callouts, images and video timestamps, as { "version": 1, "blocks": [...] }.
+-- notes.content stays the markdown for the same blocks, and is what search,
+-- history and sharing read.
+
+alter table public.notes
+  add column if not exists blocks jsonb;
+
+-- Edge functions and other writers save markdown only; their blocks would no
+-- longer match, so they are dropped and the app parses the markdown instead
+create or replace function public.clear_stale_note_blocks()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.content is distinct from old.content and new.blocks is not distinct from old.blocks then
+    new.blocks := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger notes_clear_stale_blocks
+  before update on public.notes
+  for each row execute function public.clear_stale_note_blocks();
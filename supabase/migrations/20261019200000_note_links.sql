@@ -0,0 +1,122 @@
+-- Links between notes, written [[Note title]] or [[Note title|shown text]] in
+-- a note's content. note_links holds the resolved relation and is kept in step
+-- with the content by triggers, whichever client path saved it. A title
+-- resolves among the notes of the linking note's owner, to the most recently
+-- updated one when several share it. Renaming a note rewrites the links to it
+-- in the notes that link to it, so they keep pointing at it.
+
+create table if not exists public.note_links (
+  source_note_id uuid not null references public.notes(id) on delete cascade,
+  target_note_id uuid not null references public.notes(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (source_note_id, target_note_id),
+  check (source_note_id <> target_note_id)
+);
+
+create index if not exists note_links_target_idx
+  on public.note_links (target_note_id);
+
+alter table public.note_links enable row level security;
+
+-- Rows are written by the triggers below only
+create policy "Users can view links from notes they can read"
+  on public.note_links for select
+  using (exists (select 1 from public.notes n where n.id = source_note_id));
+
+-- The titles a note's content links to, trimmed and lowercased
+create or replace function public.note_link_titles(note_content text)
+returns setof text
+language sql
+immutable
+as $$
+  select distinct lower(trim(m.parts[1]))
+  from regexp_matches(coalesce(note_content, ''), '\[\[([^][|\n]+)(?:\|[^][\n]*)?\]\]', 'g') as m(parts)
+  where trim(m.parts[1]) <> '';
+$$;
+
+create or replace function public.sync_note_links()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.note_links where source_note_id = new.id;
+
+  insert into public.note_links (source_note_id, target_note_id)
+  select distinct on (lower(trim(t.title))) new.id, t.id
+  from public.notes t
+  where t.user_id = new.user_id
+    and t.id <> new.id
+    and lower(trim(t.title)) in (select public.note_link_titles(new.content))
+  order by lower(trim(t.title)), t.updated_at desc
+  on conflict do nothing;
+
+  return null;
+end;
+$$;
+
+create trigger notes_sync_links_on_insert
+  after insert on public.notes
+  for each row execute function public.sync_note_links();
+
+create trigger notes_sync_links_on_update
+  after update of content on public.notes
+  for each row
+  when (old.content is distinct from new.content)
+  execute function public.sync_note_links();
+
+-- Rewrites [[Old title]] to [[New title]] in the notes linking to a renamed
+-- note, and links the notes that were waiting for a note with the new title.
+-- The rewritten notes get a new updated_at, so editors open on them pick the
+-- change up rather than saving over it.
+create or replace function public.relink_renamed_note()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_link text := '\[\[\s*' || regexp_replace(trim(old.title), '([][\\^$.|?*+(){}])', '\\\1', 'g') || '\s*(\||\]\])';
+begin
+  if trim(new.title) <> '' and trim(old.title) <> '' then
+    update public.notes n
+    set content = regexp_replace(n.content, old_link, '[[' || replace(trim(new.title), '\', '\\') || '\1', 'gi'),
+        updated_at = now()
+    where n.id in (select l.source_note_id from public.note_links l where l.target_note_id = new.id);
+  end if;
+
+  insert into public.note_links (source_note_id, target_note_id)
+  select n.id, new.id
+  from public.notes n
+  where n.user_id = new.user_id
+    and n.id <> new.id
+    and n.content like '%[[%'
+    and lower(trim(new.title)) in (select public.note_link_titles(n.content))
+    and not exists (
+      select 1
+      from public.note_links l
+      join public.notes t on t.id = l.target_note_id
+      where l.source_note_id = n.id and lower(trim(t.title)) = lower(trim(new.title))
+    )
+  on conflict do nothing;
+
+  return null;
+end;
+$$;
+
+create trigger notes_relink_renamed
+  after update of title on public.notes
+  for each row
+  when (old.title is distinct from new.title)
+  execute function public.relink_renamed_note();
+
+-- Links written before this migration
+insert into public.note_links (source_note_id, target_note_id)
+select distinct on (s.id, lower(trim(t.title))) s.id, t.id
+from public.notes s
+join public.notes t on t.user_id = s.user_id and t.id <> s.id
+where s.content like '%[[%'
+  and lower(trim(t.title)) in (select public.note_link_titles(s.content))
+order by s.id, lower(trim(t.title)), t.updated_at desc
+on conflict do nothing;
@@ -0,0 +1,24 @@
+-- Checklist items in a note's content, tracked as tasks in notes.task_progress
+-- as { "version": 1, "total": n, "completed": n, "tasks": [...] }. The app
+-- writes it alongside the content. Task due dates stay in it and never set
+-- notes.due_date, which is the deadline the owner gives the note.
+
+-- Writers that save markdown only, e.g. edge functions, would leave progress
+-- that no longer matches, so it is dropped and the app parses the markdown
+create or replace function public.clear_stale_task_progress()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.content is distinct from old.content and new.task_progress is not distinct from old.task_progress then
+    new.task_progress := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger notes_clear_stale_task_progress
+  before update on public.notes
+  for each row execute function public.clear_stale_task_progress();
+
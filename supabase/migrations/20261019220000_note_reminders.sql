@@ -0,0 +1,179 @@
+-- Reminders and due dates on notes, delivered as in-app notifications and,
+-- when the owner asks for it, by email. notes.reminder_date and
+-- notes.due_date hold the schedule; notifications records what was delivered.
+
+alter table public.notes
+  add column if not exists reminder_recurrence text
+    check (reminder_recurrence in ('daily', 'weekly', 'monthly', 'yearly')),
+  add column if not exists reminder_email boolean not null default false;
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  note_id uuid not null references public.notes(id) on delete cascade,
+  kind text not null check (kind in ('reminder', 'due')),
+  title text not null,
+  -- The reminder or due date this is for; each is notified once
+  scheduled_for timestamptz not null,
+  -- Last time it was shown, which is later than created_at after a snooze
+  delivered_at timestamptz not null default now(),
+  -- Hidden until then, and delivered again
+  snoozed_until timestamptz,
+  read_at timestamptz,
+  emailed_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (note_id, kind, scheduled_for)
+);
+
+create index if not exists notifications_user_delivered_idx
+  on public.notifications (user_id, delivered_at desc);
+
+create index if not exists notifications_snoozed_idx
+  on public.notifications (snoozed_until)
+  where snoozed_until is not null;
+
+alter table public.notifications enable row level security;
+
+-- Only the scheduler creates notifications; users read, snooze and dismiss theirs
+create policy "Users can view their notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "Users can update their notifications"
+  on public.notifications for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their notifications"
+  on public.notifications for delete
+  using (user_id = auth.uid());
+
+-- The owner's reminder settings are kept from editors with the rest of them
+create or replace function public.protect_shared_note_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and auth.uid() is distinct from old.user_id and (
+    new.user_id, new.shared_permissions, new.notebook_id, new.source_url, new.thumbnail,
+    new.is_transcription, new.is_reminder, new.reminder_date, new.due_date,
+    new.reminder_recurrence, new.reminder_email
+  ) is distinct from (
+    old.user_id, old.shared_permissions, old.notebook_id, old.source_url, old.thumbnail,
+    old.is_transcription, old.is_reminder, old.reminder_date, old.due_date,
+    old.reminder_recurrence, old.reminder_email
+  ) then
+    raise exception 'Only the owner of a note can change its settings'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+-- Creates notifications for reminders and due dates that have come, moves
+-- recurring reminders to their next time, and brings back snoozed
+-- notifications. Returns what was delivered, for the scheduler to email.
+create or replace function public.deliver_due_notifications(batch_size integer default 500)
+returns setof public.notifications
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reminder record;
+  next_time timestamptz;
+  step interval;
+begin
+  for reminder in
+    select id, user_id, title, reminder_date, reminder_recurrence
+    from notes
+    where is_reminder and reminder_date <= now()
+    order by reminder_date
+    limit batch_size
+    for update skip locked
+  loop
+    return query
+      with delivered as (
+        insert into notifications (user_id, note_id, kind, title, scheduled_for)
+        values (reminder.user_id, reminder.id, 'reminder', reminder.title, reminder.reminder_date)
+        on conflict (note_id, kind, scheduled_for) do nothing
+        returning *
+      )
+      select * from delivered;
+
+    if reminder.reminder_recurrence is null then
+      update notes set is_reminder = false where id = reminder.id;
+    else
+      step := case reminder.reminder_recurrence
+        when 'daily' then interval '1 day'
+        when 'weekly' then interval '1 week'
+        when 'monthly' then interval '1 month'
+        else interval '1 year'
+      end;
+      -- Skip the times missed while nothing ran rather than firing for each
+      next_time := reminder.reminder_date + step;
+      while next_time <= now() loop
+        next_time := next_time + step;
+      end loop;
+      update notes set reminder_date = next_time where id = reminder.id;
+    end if;
+  end loop;
+
+  -- Due dates long past when they were set are not worth a notification
+  return query
+    with delivered as (
+      insert into notifications (user_id, note_id, kind, title, scheduled_for)
+      select n.user_id, n.id, 'due', n.title, n.due_date
+      from notes n
+      where n.due_date <= now()
+        and n.due_date > now() - interval '7 days'
+        and not exists (
+          select 1 from notifications d
+          where d.note_id = n.id and d.kind = 'due' and d.scheduled_for = n.due_date
+        )
+      order by n.due_date
+      limit batch_size
+      on conflict (note_id, kind, scheduled_for) do nothing
+      returning *
+    )
+    select * from delivered;
+
+  return query
+    with delivered as (
+      update notifications
+      set snoozed_until = null, read_at = null, emailed_at = null, delivered_at = now()
+      where id in (
+        select id from notifications
+        where snoozed_until <= now()
+        limit batch_size
+        for update skip locked
+      )
+      returning *
+    )
+    select * from delivered;
+end;
+$$;
+
+-- Only the scheduler, with the service role, delivers notifications
+revoke execute on function public.deliver_due_notifications(integer) from public, anon, authenticated;
+
+-- Runs the send-reminders function every five minutes. Needs the project URL
+-- and service role key stored in Vault as project_url and service_role_key.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'send-reminders',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,158 @@
+-- Original uploads (PDFs, images, audio) kept with the notes made from them.
+-- The file is stored in the private "attachments" bucket under
+-- <user id>/<note id>/, and a files row links it to the note. Everything a
+-- user uploads counts against their storage quota.
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('attachments', 'attachments', false, 52428800)
+on conflict (id) do nothing;
+
+-- Attachments go with their note
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'files_note_id_fkey'
+  ) then
+    alter table public.files
+      add constraint files_note_id_fkey
+      foreign key (note_id) references public.notes(id) on delete cascade;
+  end if;
+end;
+$$;
+
+create index if not exists files_note_id_idx on public.files (note_id);
+create index if not exists files_user_id_idx on public.files (user_id);
+
+-- Quotas above the default, set by an administrator
+create table if not exists public.storage_quotas (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  quota_bytes bigint not null check (quota_bytes >= 0)
+);
+
+alter table public.storage_quotas enable row level security;
+
+create policy "Users can view their storage quota"
+  on public.storage_quotas for select
+  using (user_id = auth.uid());
+
+-- 250 MB unless storage_quotas says otherwise
+create or replace function public.storage_quota_bytes(target_user_id uuid)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select quota_bytes from public.storage_quotas where user_id = target_user_id),
+    262144000
+  );
+$$;
+
+-- What the caller has uploaded and may upload
+create or replace function public.get_storage_usage()
+returns table (used_bytes bigint, quota_bytes bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce((select sum(size) from public.files where user_id = auth.uid()), 0)::bigint,
+    public.storage_quota_bytes(auth.uid());
+$$;
+
+-- Takes the size from the stored object rather than trusting the client, and
+-- turns the upload away when it does not fit in the owner's quota
+create or replace function public.check_file_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  object_size bigint;
+  used bigint;
+begin
+  if new.storage_path is null or split_part(new.storage_path, '/', 1) <> new.user_id::text then
+    raise exception 'Attachments must be stored in the uploader''s folder'
+      using errcode = '42501';
+  end if;
+
+  select (metadata ->> 'size')::bigint into object_size
+  from storage.objects
+  where bucket_id = 'attachments' and name = new.storage_path;
+
+  if object_size is null then
+    raise exception 'Upload the file before recording it'
+      using errcode = '23503';
+  end if;
+
+  select coalesce(sum(size), 0) into used
+  from public.files
+  where user_id = new.user_id;
+
+  if used + object_size > public.storage_quota_bytes(new.user_id) then
+    raise exception 'Storage quota exceeded'
+      using errcode = '53400';
+  end if;
+
+  new.size := object_size;
+  new.file_path := new.storage_path;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_file_quota on public.files;
+create trigger check_file_quota
+  before insert on public.files
+  for each row execute function public.check_file_quota();
+
+alter table public.files enable row level security;
+
+-- Owners attach and remove files; collaborators can open them
+create policy "Users can view attachments of notes they can access"
+  on public.files for select
+  using (user_id = auth.uid() or public.note_access_role(note_id) is not null);
+
+create policy "Owners can attach files to their notes"
+  on public.files for insert
+  with check (
+    user_id = auth.uid()
+    and (note_id is null or public.note_access_role(note_id) = 'owner')
+  );
+
+create policy "Users can delete their attachments"
+  on public.files for delete
+  using (user_id = auth.uid());
+
+create policy "Users can upload to their attachments folder"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Users can read attachments of notes they can access"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or exists (
+        select 1 from public.files f
+        where f.storage_path = storage.objects.name
+          and public.note_access_role(f.note_id) is not null
+      )
+    )
+  );
+
+create policy "Users can delete from their attachments folder"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
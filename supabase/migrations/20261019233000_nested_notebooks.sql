@@ -0,0 +1,172 @@
+-- Notebooks inside notebooks, e.g. course -> module -> lecture. parent_id is
+-- null for top-level notebooks and position orders a notebook among its
+-- siblings. Deleting a notebook moves its children up to its parent.
+
+alter table public.notebooks
+  add column if not exists parent_id uuid references public.notebooks(id) on delete set null,
+  add column if not exists position integer not null default 0;
+
+create index if not exists notebooks_parent_position_idx
+  on public.notebooks (user_id, parent_id, position);
+
+-- Top-level notebooks keep their alphabetical order
+with ordered as (
+  select id, row_number() over (partition by user_id order by name) - 1 as position
+  from public.notebooks
+  where parent_id is null
+)
+update public.notebooks n
+set position = ordered.position
+from ordered
+where n.id = ordered.id;
+
+-- A notebook's parent must be the same user's and not inside the notebook
+create or replace function public.check_notebook_parent()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from notebooks where id = new.parent_id and user_id = new.user_id
+  ) then
+    raise exception 'Parent notebook not found'
+      using errcode = '23503';
+  end if;
+
+  if exists (
+    with recursive ancestors as (
+      select id, parent_id from notebooks where id = new.parent_id
+      union all
+      select nb.id, nb.parent_id
+      from notebooks nb
+      join ancestors a on nb.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'A notebook cannot be moved into itself'
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_notebook_parent on public.notebooks;
+create trigger check_notebook_parent
+  before insert or update of parent_id on public.notebooks
+  for each row execute function public.check_notebook_parent();
+
+create or replace function public.reparent_notebook_children()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  update notebooks
+  set parent_id = old.parent_id,
+      position = position + coalesce(
+        (select max(position) + 1 from notebooks where parent_id is not distinct from old.parent_id and id <> old.id),
+        0
+      )
+  where parent_id = old.id;
+  return old;
+end;
+$$;
+
+drop trigger if exists reparent_notebook_children on public.notebooks;
+create trigger reparent_notebook_children
+  before delete on public.notebooks
+  for each row execute function public.reparent_notebook_children();
+
+-- Moves a notebook under new_parent_id (null for the top level) at
+-- new_position among its new siblings, renumbering them
+create or replace function public.move_notebook(
+  target_notebook_id uuid,
+  new_parent_id uuid,
+  new_position integer
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  owner_id uuid;
+  sibling_count integer;
+begin
+  select user_id into owner_id from notebooks where id = target_notebook_id;
+  if owner_id is null then
+    raise exception 'Notebook not found'
+      using errcode = 'P0002';
+  end if;
+
+  with siblings as (
+    select id, row_number() over (order by position, name) - 1 as idx
+    from notebooks
+    where user_id = owner_id
+      and parent_id is not distinct from new_parent_id
+      and id <> target_notebook_id
+  )
+  update notebooks n
+  set position = case when s.idx < new_position then s.idx else s.idx + 1 end
+  from siblings s
+  where n.id = s.id;
+
+  get diagnostics sibling_count = row_count;
+
+  update notebooks
+  set parent_id = new_parent_id,
+      position = greatest(0, least(new_position, sibling_count)),
+      updated_at = now()
+  where id = target_notebook_id;
+end;
+$$;
+
+-- The notebook and every notebook inside it
+create or replace function public.notebook_subtree(root_notebook_id uuid)
+returns setof uuid
+language sql
+stable
+set search_path = public
+as $$
+  with recursive subtree as (
+    select id from notebooks where id = root_notebook_id
+    union all
+    select nb.id
+    from notebooks nb
+    join subtree s on nb.parent_id = s.id
+  )
+  select id from subtree;
+$$;
+
+-- Notes directly in each notebook and in it or any notebook inside it
+create or replace function public.get_notebook_note_counts()
+returns table (notebook_id uuid, note_count bigint, total_count bigint)
+language sql
+stable
+set search_path = public
+as $$
+  with recursive direct as (
+    select nb.id, nb.parent_id, count(n.id) as note_count
+    from notebooks nb
+    left join notes n on n.notebook_id = nb.id
+    where nb.user_id = auth.uid()
+    group by nb.id, nb.parent_id
+  ),
+  ancestry as (
+    select id as notebook_id, id as ancestor_id, parent_id from direct
+    union all
+    select a.notebook_id, d.id, d.parent_id
+    from ancestry a
+    join direct d on d.id = a.parent_id
+  )
+  select
+    d.id,
+    d.note_count,
+    (select coalesce(sum(c.note_count), 0) from ancestry a join direct c on c.id = a.notebook_id where a.ancestor_id = d.id)::bigint
+  from direct d;
+$$;
@@ -0,0 +1,260 @@
+-- Nested tags are named by path, e.g. "ml/nlp" sits under "ml"; the parent
+-- does not need a tag of its own. Filtering on a tag includes the tags under
+-- it, renaming a tag renames the tags under it, and merge_tags folds several
+-- tags (say "ML", "ml" and "machine-learning") into one.
+
+-- "ml" matches "ml" and "ml/nlp", but not "mlops"
+create or replace function public.tag_name_matches(tag_name text, wanted_name text)
+returns boolean
+language sql
+immutable
+as $$
+  select lower(tag_name) = lower(wanted_name)
+      or starts_with(lower(tag_name), lower(wanted_name) || '/');
+$$;
+
+-- Renames a tag and every tag under it
+create or replace function public.rename_tag(target_tag_id uuid, new_name text)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  old_name text;
+begin
+  new_name := trim(both '/' from trim(new_name));
+  if new_name = '' then
+    raise exception 'Tag name cannot be empty'
+      using errcode = '23514';
+  end if;
+
+  select name into old_name
+  from tags
+  where id = target_tag_id and user_id = auth.uid();
+
+  if old_name is null then
+    raise exception 'Tag not found'
+      using errcode = 'P0002';
+  end if;
+
+  update tags
+  set name = new_name || substr(name, length(old_name) + 1)
+  where user_id = auth.uid()
+    and (id = target_tag_id or starts_with(lower(name), lower(old_name) || '/'));
+end;
+$$;
+
+-- Moves every note tagged with a source tag onto the target tag, then deletes
+-- the source tags. Returns how many notes gained the target tag.
+create or replace function public.merge_tags(source_tag_ids uuid[], target_tag_id uuid)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  sources uuid[];
+  tagged_count integer;
+begin
+  if not exists (select 1 from tags where id = target_tag_id and user_id = auth.uid()) then
+    raise exception 'Tag not found'
+      using errcode = 'P0002';
+  end if;
+
+  select coalesce(array_agg(id), '{}') into sources
+  from tags
+  where id = any (source_tag_ids)
+    and id <> target_tag_id
+    and user_id = auth.uid();
+
+  insert into note_tags (note_id, tag_id)
+  select distinct nt.note_id, target_tag_id
+  from note_tags nt
+  where nt.tag_id = any (sources)
+    and not exists (
+      select 1 from note_tags existing
+      where existing.note_id = nt.note_id and existing.tag_id = target_tag_id
+    );
+
+  get diagnostics tagged_count = row_count;
+
+  delete from note_tags where tag_id = any (sources);
+  delete from tags where id = any (sources);
+
+  return tagged_count;
+end;
+$$;
+
+-- Notes tagged with each tag and with it or any tag under it
+create or replace function public.get_tag_note_counts()
+returns table (tag_id uuid, note_count bigint, total_count bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    t.id,
+    (select count(*) from note_tags nt where nt.tag_id = t.id),
+    (
+      select count(distinct nt.note_id)
+      from note_tags nt
+      join tags sub on sub.id = nt.tag_id
+      where sub.user_id = t.user_id
+        and public.tag_name_matches(sub.name, t.name)
+    )
+  from tags t
+  where t.user_id = auth.uid();
+$$;
+
+-- Unchanged apart from the tag filter, which now takes nested tags into account
+create or replace function public.search_notes_ranked(
+  search_query text,
+  filter_notebook_id uuid default null,
+  filter_is_transcription boolean default null,
+  filter_tag_names text[] default null,
+  filter_notebook_names text[] default null,
+  filter_created_after timestamptz default null,
+  filter_created_before timestamptz default null,
+  filter_source_domains text[] default null,
+  query_embedding extensions.vector(384) default null,
+  embedding_model text default null,
+  semantic_weight real default 0.5,
+  min_similarity real default 0.3,
+  result_limit integer default 20,
+  result_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  snippet text,
+  rank real,
+  keyword_score real,
+  semantic_score real,
+  source_url text,
+  is_transcription boolean,
+  notebook_id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  with query as (
+    select
+      websearch_to_tsquery('english', coalesce(search_query, '')) as q,
+      coalesce(trim(search_query), '') = '' as is_empty,
+      query_embedding is not null and search_notes_ranked.embedding_model is not null as use_vectors
+  ),
+  best_chunks as (
+    select distinct on (c.note_id)
+      c.note_id,
+      c.content,
+      (1 - (c.embedding <=> query_embedding))::real as similarity
+    from public.note_chunks c, query
+    where query.use_vectors
+      and c.user_id = auth.uid()
+      and c.embedding_model = search_notes_ranked.embedding_model
+    order by c.note_id, c.embedding <=> query_embedding
+  ),
+  scored as (
+    select
+      n.*,
+      case
+        when query.is_empty then 0::real
+        else ts_rank_cd(public.note_search_vector(n.title, n.content), query.q, 32)
+      end as keyword_score,
+      coalesce(bc.similarity, 0)::real as semantic_score,
+      bc.content as chunk_content,
+      not query.is_empty and public.note_search_vector(n.title, n.content) @@ query.q as keyword_match
+    from public.notes n
+    cross join query
+    left join best_chunks bc on bc.note_id = n.id
+    where n.user_id = auth.uid()
+      and (filter_notebook_id is null or n.notebook_id = filter_notebook_id)
+      and (filter_is_transcription is null or coalesce(n.is_transcription, false) = filter_is_transcription)
+      and (filter_created_after is null or n.created_at >= filter_created_after)
+      and (filter_created_before is null or n.created_at < filter_created_before)
+      and (
+        filter_notebook_names is null
+        or exists (
+          select 1
+          from public.notebooks nb
+          where nb.id = n.notebook_id
+            and lower(nb.name) = any (select lower(name) from unnest(filter_notebook_names) as name)
+        )
+      )
+      -- Every requested tag, or a tag nested under it, must be on the note
+      and (
+        filter_tag_names is null
+        or not exists (
+          select 1
+          from unnest(filter_tag_names) as wanted(name)
+          where not exists (
+            select 1
+            from public.note_tags nt
+            join public.tags t on t.id = nt.tag_id
+            where nt.note_id = n.id
+              and public.tag_name_matches(t.name, wanted.name)
+          )
+        )
+      )
+      and (
+        filter_source_domains is null
+        or exists (
+          select 1
+          from unnest(filter_source_domains) as domain
+          where public.note_source_domain(n.source_url) = lower(domain)
+             or public.note_source_domain(n.source_url) like '%.' || lower(domain)
+        )
+      )
+  ),
+  matches as (
+    select
+      scored.*,
+      case
+        when query.use_vectors
+          then ((1 - semantic_weight) * scored.keyword_score + semantic_weight * scored.semantic_score)::real
+        else scored.keyword_score
+      end as rank,
+      count(*) over () as total_count
+    from scored, query
+    where query.is_empty
+       or scored.keyword_match
+       or (query.use_vectors and scored.semantic_score >= min_similarity)
+  ),
+  page as (
+    select *
+    from matches
+    order by rank desc, created_at desc
+    limit least(greatest(result_limit, 1), 100)
+    offset greatest(result_offset, 0)
+  )
+  -- Snippets are only built for the requested page; ts_headline is expensive.
+  select
+    page.id,
+    page.title,
+    case
+      when page.keyword_match then ts_headline(
+        'english',
+        coalesce(page.content, ''),
+        query.q,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      -- Semantic-only hits show the passage that matched
+      when page.chunk_content is not null and not query.is_empty then left(page.chunk_content, 240)
+      else left(coalesce(page.content, ''), 200)
+    end as snippet,
+    page.rank,
+    page.keyword_score,
+    page.semantic_score,
+    page.source_url,
+    page.is_transcription,
+    page.notebook_id,
+    page.created_at,
+    page.updated_at,
+    page.total_count
+  from page, query
+  order by page.rank desc, page.created_at desc;
+$$;
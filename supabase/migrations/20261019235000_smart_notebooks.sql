@@ -0,0 +1,36 @@
+-- Smart notebooks: saved filters, such as "transcriptions tagged interview
+-- from the last 30 days". They hold no notes of their own; the app lists the
+-- notes matching the filter, so counts stay current as notes change.
+
+create table if not exists public.smart_notebooks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  -- { tags, notebookIds, kind, createdWithinDays, updatedWithinDays,
+  --   sourceDomains, tasks, text }; every field is optional
+  filters jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists smart_notebooks_user_id_idx
+  on public.smart_notebooks (user_id);
+
+alter table public.smart_notebooks enable row level security;
+
+create policy "Users can view their own smart notebooks"
+  on public.smart_notebooks for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own smart notebooks"
+  on public.smart_notebooks for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own smart notebooks"
+  on public.smart_notebooks for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own smart notebooks"
+  on public.smart_notebooks for delete
+  using (auth.uid() = user_id);
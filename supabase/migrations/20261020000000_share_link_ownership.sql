@@ -0,0 +1,138 @@
+-- Share links publish only what their creator owns. The update policy did not
+-- check the target again, so a link could be pointed at a note shared with its
+-- creator, or any note whose id they knew; links can now only be revoked or
+-- given a new expiry, and get_shared_content also checks that the creator
+-- owns the note or notebook it returns.
+
+drop policy if exists "Users can update their own share links" on public.share_links;
+
+create policy "Users can update their own share links"
+  on public.share_links for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      exists (select 1 from public.notes n where n.id = note_id and n.user_id = auth.uid())
+      or exists (select 1 from public.notebooks b where b.id = notebook_id and b.user_id = auth.uid())
+    )
+  );
+
+-- A link keeps its token and target; only revoked_at and expires_at change
+create or replace function public.protect_share_link_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if (new.token, new.user_id, new.note_id, new.notebook_id, new.created_at)
+    is distinct from (old.token, old.user_id, old.note_id, old.notebook_id, old.created_at) then
+    raise exception 'Only the expiry and revocation of a share link can be changed'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger share_links_protect_columns
+  before update on public.share_links
+  for each row execute function public.protect_share_link_columns();
+
+-- As before, but only returns a note or notebook the link's creator owns
+create or replace function public.get_shared_content(share_token text, target_note_id uuid default null)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  link public.share_links%rowtype;
+  shared_note_id uuid;
+  notebook jsonb;
+  notebook_notes jsonb;
+  note jsonb;
+  artifacts jsonb;
+begin
+  select * into link
+  from public.share_links
+  where token = share_token
+    and revoked_at is null
+    and (expires_at is null or expires_at > now());
+
+  if not found then
+    return null;
+  end if;
+
+  if link.note_id is not null then
+    select n.id into shared_note_id
+    from public.notes n
+    where n.id = link.note_id
+      and n.user_id = link.user_id;
+  else
+    select jsonb_build_object('id', b.id, 'name', b.name, 'description', b.description, 'color', b.color)
+    into notebook
+    from public.notebooks b
+    where b.id = link.notebook_id
+      and b.user_id = link.user_id;
+
+    select coalesce(jsonb_agg(jsonb_build_object(
+      'id', n.id,
+      'title', n.title,
+      'source_url', n.source_url,
+      'thumbnail', n.thumbnail,
+      'updated_at', n.updated_at
+    ) order by n.updated_at desc), '[]'::jsonb)
+    into notebook_notes
+    from public.notes n
+    where n.notebook_id = link.notebook_id
+      and n.user_id = link.user_id;
+
+    -- Only notes that are in the notebook can be opened through its link
+    select n.id into shared_note_id
+    from public.notes n
+    where n.id = target_note_id
+      and n.notebook_id = link.notebook_id
+      and n.user_id = link.user_id;
+  end if;
+
+  if shared_note_id is not null then
+    select jsonb_build_object(
+      'id', n.id,
+      'title', n.title,
+      'content', n.content,
+      'source_url', n.source_url,
+      'thumbnail', n.thumbnail,
+      'is_transcription', n.is_transcription,
+      'created_at', n.created_at,
+      'updated_at', n.updated_at
+    )
+    into note
+    from public.notes n
+    where n.id = shared_note_id
+      and n.user_id = link.user_id;
+
+    select coalesce(jsonb_object_agg(a.artifact_type, jsonb_build_object(
+      'content', a.content,
+      'provider', a.provider,
+      'model', a.model,
+      'created_at', a.created_at
+    )), '{}'::jsonb)
+    into artifacts
+    from (
+      select distinct on (artifact_type) artifact_type, content, provider, model, created_at
+      from public.note_artifacts
+      where note_id = shared_note_id
+      order by artifact_type, created_at desc
+    ) a;
+  end if;
+
+  return jsonb_build_object(
+    'kind', case when link.note_id is not null then 'note' else 'notebook' end,
+    'expires_at', link.expires_at,
+    'notebook', notebook,
+    'notes', notebook_notes,
+    'note', note,
+    'artifacts', artifacts
+  );
+end;
+$$;
@@ -0,0 +1,108 @@
+-- The storage quota counted files rows, but objects can be uploaded to the
+-- attachments bucket without ever recording a row, and a row could be deleted
+-- while its object stayed behind. Usage is now what the user's folder in the
+-- bucket holds, and the quota is checked when an object is stored.
+
+-- What the caller has uploaded and may upload
+create or replace function public.get_storage_usage()
+returns table (used_bytes bigint, quota_bytes bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce((
+      select sum((o.metadata ->> 'size')::bigint)
+      from storage.objects o
+      where o.bucket_id = 'attachments'
+        and split_part(o.name, '/', 1) = auth.uid()::text
+    ), 0)::bigint,
+    public.storage_quota_bytes(auth.uid());
+$$;
+
+-- Turns an object away when the owner's folder would grow past their quota.
+-- Storage records the size once the upload is complete, so this also runs
+-- when the metadata is filled in.
+create or replace function public.check_attachment_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner_folder text := split_part(new.name, '/', 1);
+  object_size bigint := coalesce((new.metadata ->> 'size')::bigint, 0);
+  used bigint;
+begin
+  if new.bucket_id <> 'attachments'
+    or object_size = 0
+    or owner_folder !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+    return new;
+  end if;
+
+  -- Uploads by the same user are checked one at a time
+  perform pg_advisory_xact_lock(hashtext('attachment_quota:' || owner_folder));
+
+  select coalesce(sum((o.metadata ->> 'size')::bigint), 0) into used
+  from storage.objects o
+  where o.bucket_id = 'attachments'
+    and split_part(o.name, '/', 1) = owner_folder
+    and o.id is distinct from new.id;
+
+  if used + object_size > public.storage_quota_bytes(owner_folder::uuid) then
+    raise exception 'Storage quota exceeded'
+      using errcode = '53400';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_attachment_quota on storage.objects;
+create trigger check_attachment_quota
+  before insert or update of metadata on storage.objects
+  for each row execute function public.check_attachment_quota();
+
+-- The object was counted when it was stored; the row only takes its size
+create or replace function public.check_file_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  object_size bigint;
+begin
+  if new.storage_path is null or split_part(new.storage_path, '/', 1) <> new.user_id::text then
+    raise exception 'Attachments must be stored in the uploader''s folder'
+      using errcode = '42501';
+  end if;
+
+  select (metadata ->> 'size')::bigint into object_size
+  from storage.objects
+  where bucket_id = 'attachments' and name = new.storage_path;
+
+  if object_size is null then
+    raise exception 'Upload the file before recording it'
+      using errcode = '23503';
+  end if;
+
+  new.size := object_size;
+  new.file_path := new.storage_path;
+  return new;
+end;
+$$;
+
+-- A row goes only after its object, so no file is left in storage unseen
+drop policy if exists "Users can delete their attachments" on public.files;
+
+create policy "Users can delete their attachments"
+  on public.files for delete
+  using (
+    user_id = auth.uid()
+    and not exists (
+      select 1 from storage.objects o
+      where o.bucket_id = 'attachments' and o.name = public.files.storage_path
+    )
+  );
@@ -0,0 +1,174 @@
+-- Semantic search scored every chunk of the user's notes to pick the best one
+-- per note, which the vector index cannot help with. It now takes the nearest
+-- chunks through the index and keeps the best of them for each note; notes
+-- with no chunk among them match on keywords only.
+
+create or replace function public.search_notes_ranked(
+  search_query text,
+  filter_notebook_id uuid default null,
+  filter_is_transcription boolean default null,
+  filter_tag_names text[] default null,
+  filter_notebook_names text[] default null,
+  filter_created_after timestamptz default null,
+  filter_created_before timestamptz default null,
+  filter_source_domains text[] default null,
+  query_embedding extensions.vector(384) default null,
+  embedding_model text default null,
+  semantic_weight real default 0.5,
+  min_similarity real default 0.3,
+  result_limit integer default 20,
+  result_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  snippet text,
+  rank real,
+  keyword_score real,
+  semantic_score real,
+  source_url text,
+  is_transcription boolean,
+  notebook_id uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+-- An index scan returns at most ef_search rows; enough for nearest_chunks
+set hnsw.ef_search = 200
+as $$
+  with query as (
+    select
+      websearch_to_tsquery('english', coalesce(search_query, '')) as q,
+      coalesce(trim(search_query), '') = '' as is_empty,
+      query_embedding is not null and search_notes_ranked.embedding_model is not null as use_vectors
+  ),
+  -- Ordered by distance alone with a limit, so the HNSW index finds them
+  -- without scoring every chunk the user has
+  nearest_chunks as (
+    select
+      c.note_id,
+      c.content,
+      c.embedding <=> query_embedding as distance
+    from public.note_chunks c
+    where (select use_vectors from query)
+      and c.user_id = auth.uid()
+      and c.embedding_model = search_notes_ranked.embedding_model
+    order by c.embedding <=> query_embedding
+    limit 200
+  ),
+  best_chunks as (
+    select distinct on (nc.note_id)
+      nc.note_id,
+      nc.content,
+      (1 - nc.distance)::real as similarity
+    from nearest_chunks nc
+    order by nc.note_id, nc.distance
+  ),
+  scored as (
+    select
+      n.*,
+      case
+        when query.is_empty then 0::real
+        else ts_rank_cd(public.note_search_vector(n.title, n.content), query.q, 32)
+      end as keyword_score,
+      coalesce(bc.similarity, 0)::real as semantic_score,
+      bc.content as chunk_content,
+      not query.is_empty and public.note_search_vector(n.title, n.content) @@ query.q as keyword_match
+    from public.notes n
+    cross join query
+    left join best_chunks bc on bc.note_id = n.id
+    where n.user_id = auth.uid()
+      and (filter_notebook_id is null or n.notebook_id = filter_notebook_id)
+      and (filter_is_transcription is null or coalesce(n.is_transcription, false) = filter_is_transcription)
+      and (filter_created_after is null or n.created_at >= filter_created_after)
+      and (filter_created_before is null or n.created_at < filter_created_before)
+      and (
+        filter_notebook_names is null
+        or exists (
+          select 1
+          from public.notebooks nb
+          where nb.id = n.notebook_id
+            and lower(nb.name) = any (select lower(name) from unnest(filter_notebook_names) as name)
+        )
+      )
+      -- Every requested tag, or a tag nested under it, must be on the note
+      and (
+        filter_tag_names is null
+        or not exists (
+          select 1
+          from unnest(filter_tag_names) as wanted(name)
+          where not exists (
+            select 1
+            from public.note_tags nt
+            join public.tags t on t.id = nt.tag_id
+            where nt.note_id = n.id
+              and public.tag_name_matches(t.name, wanted.name)
+          )
+        )
+      )
+      and (
+        filter_source_domains is null
+        or exists (
+          select 1
+          from unnest(filter_source_domains) as domain
+          where public.note_source_domain(n.source_url) = lower(domain)
+             or public.note_source_domain(n.source_url) like '%.' || lower(domain)
+        )
+      )
+  ),
+  matches as (
+    select
+      scored.*,
+      case
+        when query.use_vectors
+          then ((1 - semantic_weight) * scored.keyword_score + semantic_weight * scored.semantic_score)::real
+        else scored.keyword_score
+      end as rank,
+      count(*) over () as total_count
+    from scored, query
+    where query.is_empty
+       or scored.keyword_match
+       or (query.use_vectors and scored.semantic_score >= min_similarity)
+  ),
+  page as (
+    select *
+    from matches
+    order by rank desc, created_at desc
+    limit least(greatest(result_limit, 1), 100)
+    offset greatest(result_offset, 0)
+  )
+  -- Snippets are only built for the requested page; ts_headline is expensive.
+  select
+    page.id,
+    page.title,
+    case
+      when page.keyword_match then ts_headline(
+        'english',
+        coalesce(page.content, ''),
+        query.q,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      -- Semantic-only hits show the passage that matched
+      when page.chunk_content is not null and not query.is_empty then left(page.chunk_content, 240)
+      else left(coalesce(page.content, ''), 200)
+    end as snippet,
+    page.rank,
+    page.keyword_score,
+    page.semantic_score,
+    page.source_url,
+    page.is_transcription,
+    page.notebook_id,
+    page.created_at,
+    page.updated_at,
+    page.total_count
+  from page, query
+  order by page.rank desc, page.created_at desc;
+$$;
+
+-- match_note_chunks returns up to 100 chunks from the same kind of index scan
+alter function public.match_note_chunks(extensions.vector, text, integer, real)
+  set hnsw.ef_search = 100;
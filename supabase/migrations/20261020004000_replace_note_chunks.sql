@@ -0,0 +1,51 @@
+-- Re-indexing a note deleted its chunks and inserted the new ones in two
+-- requests, so a failed insert left the note without chunks and two saves at
+-- once could leave both sets. Both now happen in one transaction, one note at
+-- a time.
+
+-- Swaps the note's chunks for one model with the given ones. Each chunk is
+-- { chunk_index, content, start_offset, end_offset, embedding }, with the
+-- embedding in pgvector's text form. Runs as the caller, so the note_chunks
+-- policies still decide what may be written.
+create or replace function public.replace_note_chunks(
+  target_note_id uuid,
+  embedding_model text,
+  content_hash text,
+  chunks jsonb
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public, extensions
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('note_chunks:' || target_note_id::text || ':' || replace_note_chunks.embedding_model));
+
+  delete from public.note_chunks c
+  where c.note_id = target_note_id
+    and c.embedding_model = replace_note_chunks.embedding_model;
+
+  insert into public.note_chunks (
+    note_id, user_id, chunk_index, content, start_offset, end_offset, content_hash, embedding_model, embedding
+  )
+  select
+    target_note_id,
+    auth.uid(),
+    chunk.chunk_index,
+    chunk.content,
+    chunk.start_offset,
+    chunk.end_offset,
+    replace_note_chunks.content_hash,
+    replace_note_chunks.embedding_model,
+    chunk.embedding::extensions.vector(384)
+  from jsonb_to_recordset(chunks) as chunk(
+    chunk_index integer,
+    content text,
+    start_offset integer,
+    end_offset integer,
+    embedding text
+  );
+end;
+$$;
+
+grant execute on function public.replace_note_chunks(uuid, text, text, jsonb) to authenticated;
@@ -0,0 +1,89 @@
+-- deliver_due_notifications picked up every reminder whose time had passed,
+-- so reminders set long before the scheduler first ran, or missed while it was
+-- down, were all notified and emailed at once. Like due dates, a reminder more
+-- than a week past is now moved on without notifying: a one-off reminder is
+-- turned off and a recurring one goes to its next time.
+
+create or replace function public.deliver_due_notifications(batch_size integer default 500)
+returns setof public.notifications
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reminder record;
+  next_time timestamptz;
+  step interval;
+begin
+  for reminder in
+    select id, user_id, title, reminder_date, reminder_recurrence
+    from notes
+    where is_reminder and reminder_date <= now()
+    order by reminder_date
+    limit batch_size
+    for update skip locked
+  loop
+    -- Reminders long past are moved on without a notification
+    if reminder.reminder_date > now() - interval '7 days' then
+      return query
+        with delivered as (
+          insert into notifications (user_id, note_id, kind, title, scheduled_for)
+          values (reminder.user_id, reminder.id, 'reminder', reminder.title, reminder.reminder_date)
+          on conflict (note_id, kind, scheduled_for) do nothing
+          returning *
+        )
+        select * from delivered;
+    end if;
+
+    if reminder.reminder_recurrence is null then
+      update notes set is_reminder = false where id = reminder.id;
+    else
+      step := case reminder.reminder_recurrence
+        when 'daily' then interval '1 day'
+        when 'weekly' then interval '1 week'
+        when 'monthly' then interval '1 month'
+        else interval '1 year'
+      end;
+      -- Skip the times missed while nothing ran rather than firing for each
+      next_time := reminder.reminder_date + step;
+      while next_time <= now() loop
+        next_time := next_time + step;
+      end loop;
+      update notes set reminder_date = next_time where id = reminder.id;
+    end if;
+  end loop;
+
+  -- Due dates long past when they were set are not worth a notification
+  return query
+    with delivered as (
+      insert into notifications (user_id, note_id, kind, title, scheduled_for)
+      select n.user_id, n.id, 'due', n.title, n.due_date
+      from notes n
+      where n.due_date <= now()
+        and n.due_date > now() - interval '7 days'
+        and not exists (
+          select 1 from notifications d
+          where d.note_id = n.id and d.kind = 'due' and d.scheduled_for = n.due_date
+        )
+      order by n.due_date
+      limit batch_size
+      on conflict (note_id, kind, scheduled_for) do nothing
+      returning *
+    )
+    select * from delivered;
+
+  return query
+    with delivered as (
+      update notifications
+      set snoozed_until = null, read_at = null, emailed_at = null, delivered_at = now()
+      where id in (
+        select id from notifications
+        where snoozed_until <= now()
+        limit batch_size
+        for update skip locked
+      )
+      returning *
+    )
+    select * from delivered;
+end;
+$$;
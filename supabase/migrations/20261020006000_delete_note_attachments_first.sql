@@ -0,0 +1,34 @@
+-- A note's files rows were deleted with it while their objects stayed in the
+-- attachments bucket, still counting against the owner's quota with nothing
+-- left to remove them from. The app now removes the objects first, and a note
+-- whose attachments are still stored cannot be deleted.
+create or replace function public.check_note_attachments_removed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Deleting a user's account removes everything they own at once
+  if auth.uid() is null then
+    return old;
+  end if;
+
+  if exists (
+    select 1
+    from public.files f
+    join storage.objects o on o.bucket_id = 'attachments' and o.name = f.storage_path
+    where f.note_id = old.id
+  ) then
+    raise exception 'Remove the note''s attachments before deleting it'
+      using errcode = '23503';
+  end if;
+
+  return old;
+end;
+$$;
+
+drop trigger if exists check_note_attachments_removed on public.notes;
+create trigger check_note_attachments_removed
+  before delete on public.notes
+  for each row execute function public.check_note_attachments_removed();
@@ -0,0 +1,37 @@
+-- Saves were only checked against changes made elsewhere when the client
+-- filtered on the updated_at it started from, so any write that left the
+-- filter out overwrote what had been saved since. A user's change to a
+-- note's title or content now names the version it was made to in the
+-- x-note-base-updated-at request header and is refused when the note has
+-- been saved since. updated_at on those saves comes from the database.
+create or replace function public.check_note_save_base()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  base_updated_at text := nullif(current_setting('request.headers', true), '')::json ->> 'x-note-base-updated-at';
+begin
+  if new.title is not distinct from old.title and new.content is not distinct from old.content then
+    return new;
+  end if;
+
+  -- Restoring a version, rewriting links after a rename and the service role
+  -- all start from the note as it is now
+  if auth.uid() is not null
+    and pg_trigger_depth() = 1
+    and coalesce(current_setting('app.note_version_reason', true), '') <> 'restore'
+    and (base_updated_at is null or base_updated_at::timestamptz is distinct from old.updated_at) then
+    raise exception 'The note was changed somewhere else since it was opened'
+      using errcode = '40001';
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists check_note_save_base on public.notes;
+create trigger check_note_save_base
+  before update of title, content on public.notes
+  for each row execute function public.check_note_save_base();
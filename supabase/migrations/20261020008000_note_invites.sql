@@ -0,0 +1,178 @@
+-- share_note looked the email up in auth.users and failed when no account
+-- used it, so anyone could find out which emails were registered by sharing
+-- one of their notes. Sharing with someone new now records an invite whatever
+-- the email, and the invitee joins the note when they sign in with that
+-- email confirmed. Collaborators already on the note still have their role
+-- changed in place.
+
+create table if not exists public.note_invites (
+  note_id uuid not null references public.notes(id) on delete cascade,
+  -- Lowercased, as the invitee signs in with it
+  email text not null,
+  role text not null check (role in ('viewer', 'commenter', 'editor')),
+  invited_at timestamptz not null default now(),
+  primary key (note_id, email)
+);
+
+create index if not exists note_invites_email_idx on public.note_invites (email);
+
+alter table public.note_invites enable row level security;
+
+-- Owners see and withdraw the invites to their notes; share_note creates them
+create policy "Owners can view invites to their notes"
+  on public.note_invites for select
+  using (public.note_access_role(note_id) = 'owner');
+
+create policy "Owners can withdraw invites to their notes"
+  on public.note_invites for delete
+  using (public.note_access_role(note_id) = 'owner');
+
+-- Collaborators change shared_permissions only through the functions below,
+-- which say so with app.note_sharing; leaving a note was refused before
+create or replace function public.protect_shared_note_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and auth.uid() is distinct from old.user_id and (
+    (
+      new.user_id, new.notebook_id, new.source_url, new.thumbnail,
+      new.is_transcription, new.is_reminder, new.reminder_date, new.due_date,
+      new.reminder_recurrence, new.reminder_email
+    ) is distinct from (
+      old.user_id, old.notebook_id, old.source_url, old.thumbnail,
+      old.is_transcription, old.is_reminder, old.reminder_date, old.due_date,
+      old.reminder_recurrence, old.reminder_email
+    )
+    or (
+      new.shared_permissions is distinct from old.shared_permissions
+      and coalesce(current_setting('app.note_sharing', true), '') <> 'on'
+    )
+  ) then
+    raise exception 'Only the owner of a note can change its settings'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+-- Invites someone to the note by email, or changes the role of a
+-- collaborator already on it. Returns the note's collaborators, which only
+-- change for the latter, so the result never tells whether the email has an
+-- account.
+create or replace function public.share_note(target_note_id uuid, invitee_email text, share_role text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  normalized_email text := lower(trim(invitee_email));
+  collaborator_id text;
+  permissions jsonb;
+begin
+  if share_role not in ('viewer', 'commenter', 'editor') then
+    raise exception 'Unknown share role %', share_role;
+  end if;
+
+  if public.note_access_role(target_note_id) is distinct from 'owner' then
+    raise exception 'Only the owner of a note can share it'
+      using errcode = '42501';
+  end if;
+
+  if normalized_email !~ '^[^@\s]+@[^@\s]+$' then
+    raise exception 'Enter the email the person signs in with';
+  end if;
+
+  if normalized_email = lower(auth.jwt() ->> 'email') then
+    raise exception 'You already own this note';
+  end if;
+
+  select n.shared_permissions, share.key into permissions, collaborator_id
+  from public.notes n
+  left join lateral jsonb_each(coalesce(n.shared_permissions, '{}'::jsonb)) share
+    on lower(share.value ->> 'email') = normalized_email
+  where n.id = target_note_id;
+
+  if collaborator_id is null then
+    insert into public.note_invites (note_id, email, role)
+    values (target_note_id, normalized_email, share_role)
+    on conflict (note_id, email) do update set role = excluded.role;
+
+    return coalesce(permissions, '{}'::jsonb);
+  end if;
+
+  update public.notes
+  set shared_permissions = jsonb_set(shared_permissions, array[collaborator_id, 'role'], to_jsonb(share_role))
+  where id = target_note_id
+  returning shared_permissions into permissions;
+
+  return permissions;
+end;
+$$;
+
+-- Adds the caller to the notes they were invited to under their confirmed
+-- email. The app calls it when it lists the notes shared with the user.
+create or replace function public.accept_note_invites()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitee auth.users%rowtype;
+begin
+  select * into invitee
+  from auth.users
+  where id = auth.uid() and email_confirmed_at is not null;
+
+  if not found then
+    return;
+  end if;
+
+  perform set_config('app.note_sharing', 'on', true);
+
+  with accepted as (
+    delete from public.note_invites i
+    where i.email = lower(invitee.email)
+    returning i.note_id, i.role, i.invited_at
+  )
+  update public.notes n
+  set shared_permissions = coalesce(n.shared_permissions, '{}'::jsonb) || jsonb_build_object(
+    invitee.id::text,
+    jsonb_build_object('role', a.role, 'email', invitee.email, 'invited_at', a.invited_at::text)
+  )
+  from accepted a
+  where n.id = a.note_id and n.user_id <> invitee.id;
+end;
+$$;
+
+-- Removes a collaborator; owners can remove anyone, collaborators themselves
+create or replace function public.unshare_note(target_note_id uuid, collaborator_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  permissions jsonb;
+begin
+  if public.note_access_role(target_note_id) is distinct from 'owner'
+    and collaborator_id is distinct from auth.uid() then
+    raise exception 'Only the owner of a note can remove collaborators'
+      using errcode = '42501';
+  end if;
+
+  perform set_config('app.note_sharing', 'on', true);
+
+  update public.notes
+  set shared_permissions = coalesce(shared_permissions, '{}'::jsonb) - collaborator_id::text
+  where id = target_note_id
+  returning shared_permissions into permissions;
+
+  return permissions;
+end;
+$$;
+
+grant execute on function public.accept_note_invites() to authenticated;
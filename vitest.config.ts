@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for the pure helpers in src/lib; they render nothing, so CSS is
+// not processed and no PostCSS config is loaded
+export default defineConfig({
+  css: {
+    postcss: {},
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
+});